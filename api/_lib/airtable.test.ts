@@ -0,0 +1,170 @@
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AirtableBatchError,
+  AirtableError,
+  configureAirtableScheduler,
+  createRecords,
+  listAllRecords,
+  type AirtableRecordInput,
+} from "./airtable.js";
+import { syncTargetSchema } from "./contracts.js";
+import { pushToAirtable } from "./sync/airtablePush.js";
+
+// `body` is the parsed JSON request body, or null for requests without one.
+type RequestBody = { records?: AirtableRecordInput[] } | null;
+type Handler = (req: IncomingMessage, res: ServerResponse, body: RequestBody) => void;
+
+// Minimal stand-in for the Airtable REST API: each test installs a handler and inspects the log.
+let server: Server;
+let handler: Handler;
+let requests: Array<{ method: string; url: string; at: number }> = [];
+
+function reply(res: ServerResponse, status: number, json: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(json));
+}
+
+function echoCreated(body: RequestBody) {
+  return { records: (body?.records || []).map((r, i) => ({ id: `rec${requests.length}_${i}`, fields: r.fields })) };
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      requests.push({ method: req.method || "", url: req.url || "", at: Date.now() });
+      handler(req, res, raw ? JSON.parse(raw) : null);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.AIRTABLE_API_URL = `http://127.0.0.1:${port}/v0`;
+});
+
+afterAll(async () => {
+  delete process.env.AIRTABLE_API_URL;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  configureAirtableScheduler({ maxRequestsPerSecond: 1000, maxRetries: 3, baseDelayMs: 5, maxDelayMs: 50 });
+});
+
+const target = { token: "tok", baseId: "appTest", tableId: "tblTest" };
+const fields = (n: number) => Array.from({ length: n }, (_, i) => ({ fields: { Title: `Row ${i}` } }));
+
+describe("airtable tables", () => {
+  it("sends a table name as a single path segment and refuses names with a slash", async () => {
+    handler = (_req, res) => reply(res, 200, { records: [] });
+
+    await listAllRecords({ ...target, tableId: "Living room #2?" });
+    expect(requests[0].url).toBe("/v0/appTest/Living%20room%20%232%3F?pageSize=100");
+    expect(syncTargetSchema.safeParse({ airtableTableId: "Living room #2?" }).success).toBe(true);
+    expect(syncTargetSchema.safeParse({ airtableTableId: "tblTest/../tblOther" }).success).toBe(false);
+  });
+});
+
+describe("airtable scheduler", () => {
+  it("honours Retry-After on 429", async () => {
+    let calls = 0;
+    handler = (_req, res) => {
+      calls++;
+      if (calls === 1) return reply(res, 429, { errors: [{ type: "RATE_LIMIT_REACHED" }] }, { "Retry-After": "0.2" });
+      reply(res, 200, { records: [{ id: "rec1", fields: {} }] });
+    };
+
+    const records = await listAllRecords(target);
+    expect(records.map((r) => r.id)).toEqual(["rec1"]);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].at - requests[0].at).toBeGreaterThanOrEqual(180);
+  });
+
+  it("backs off on 5xx and gives up after maxRetries", async () => {
+    handler = (_req, res) => reply(res, 503, { error: "unavailable" });
+
+    const err = await listAllRecords(target).catch((e) => e);
+    expect(err).toBeInstanceOf(AirtableError);
+    expect(err.status).toBe(503);
+    expect(requests).toHaveLength(4);
+  });
+
+  it("spaces requests to the same base", async () => {
+    configureAirtableScheduler({ maxRequestsPerSecond: 20 });
+    handler = (_req, res, body) => reply(res, 200, echoCreated(body));
+
+    // Timed as sent: arrival times at the stand-in server jitter under load.
+    const realFetch = globalThis.fetch;
+    const sentAt: number[] = [];
+    const spy = vi.spyOn(globalThis, "fetch").mockImplementation((...args) => {
+      sentAt.push(Date.now());
+      return realFetch(...args);
+    });
+    const created = await createRecords({ ...target, records: fields(30) }).finally(() => spy.mockRestore());
+    expect(created).toHaveLength(30);
+    expect(sentAt).toHaveLength(3);
+    for (let i = 1; i < sentAt.length; i++) {
+      expect(sentAt[i] - sentAt[i - 1]).toBeGreaterThanOrEqual(45);
+    }
+  });
+
+  it("reports how far it got when a batch fails", async () => {
+    handler = (_req, res, body) => {
+      if (requests.length === 2) return reply(res, 422, { error: { type: "INVALID_VALUE_FOR_COLUMN" } });
+      reply(res, 200, echoCreated(body));
+    };
+
+    const err = await createRecords({ ...target, records: fields(25) }).catch((e) => e);
+    expect(err).toBeInstanceOf(AirtableBatchError);
+    expect(err.processed).toBe(10);
+    expect(err.completed).toHaveLength(10);
+    expect((err.cause as AirtableError).status).toBe(422);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("never resends a create that may have been committed", async () => {
+    let calls = 0;
+    handler = (_req, res, body) => {
+      calls++;
+      if (calls === 1) return reply(res, 429, { errors: [{ type: "RATE_LIMIT_REACHED" }] }, { "Retry-After": "0" });
+      if (calls === 2) return reply(res, 502, { error: "bad gateway" });
+      reply(res, 200, echoCreated(body));
+    };
+
+    const err = await createRecords({ ...target, records: fields(3) }).catch((e) => e);
+    expect(err).toBeInstanceOf(AirtableBatchError);
+    expect((err.cause as AirtableError).status).toBe(502);
+    expect(requests.map((r) => r.method)).toEqual(["POST", "POST"]);
+  });
+});
+
+describe("airtable push", () => {
+  beforeAll(() => {
+    Object.assign(process.env, { AIRTABLE_TOKEN: "tok", AIRTABLE_BASE_ID: "appTest", AIRTABLE_TABLE_ID: "tblTest" });
+  });
+
+  afterAll(() => {
+    for (const name of ["AIRTABLE_TOKEN", "AIRTABLE_BASE_ID", "AIRTABLE_TABLE_ID"]) delete process.env[name];
+  });
+
+  it("fails the remaining creates instead of resending them when the connection drops", async () => {
+    handler = (req, res, body) => {
+      // Airtable may have committed the batch before the connection went away.
+      if (req.method === "POST") return req.socket.destroy();
+      reply(res, 200, req.method === "GET" ? { records: [] } : echoCreated(body));
+    };
+    const items = Array.from({ length: 3 }, (_, i) => ({ id: `item_${i}`, name: `Item ${i}`, syncState: "dirty" }));
+
+    const result = await pushToAirtable({ items });
+    expect(result.errors?.map((e) => [e.entity, e.action, e.localId])).toEqual([
+      ["item", "create", "item_0"],
+      ["item", "create", "item_1"],
+      ["item", "create", "item_2"],
+    ]);
+    expect(result.created.items).toEqual({});
+    expect(requests.filter((r) => r.method === "POST")).toHaveLength(1);
+  });
+});
@@ -1,4 +1,18 @@
-const AIRTABLE_API = "https://api.airtable.com/v0";
+import { errorMessage } from "./http.js";
+import type { SyncTarget } from "./contracts.js";
+
+const DEFAULT_AIRTABLE_API = "https://api.airtable.com/v0";
+
+// Overridable so tests (and local mocks) can point the client at a fake server.
+export function airtableApi() {
+  return (process.env.AIRTABLE_API_URL || DEFAULT_AIRTABLE_API).replace(/\/+$/, "");
+}
+
+// Records endpoint of a table. Homes may name their table instead of giving its id, and a name is a
+// single path segment however it is spelled.
+export function airtableTableUrl(baseId: string, tableId: string) {
+  return `${airtableApi()}/${baseId}/${encodeURIComponent(tableId)}`;
+}
 
 export function requireEnv(name: string) {
   const v = process.env[name];
@@ -6,36 +20,187 @@ export function requireEnv(name: string) {
   return v;
 }
 
-export function getAirtableConfig() {
+// `target` points a home other than the default one at its own base and/or table; the token is shared.
+// A home with neither would write into the default home's table, so that is refused.
+export function getAirtableConfig(target?: SyncTarget) {
   const token = requireEnv("AIRTABLE_TOKEN");
-  const baseId = requireEnv("AIRTABLE_BASE_ID");
-  const tableId = requireEnv("AIRTABLE_TABLE_ID");
-  const view = process.env.AIRTABLE_VIEW_NAME || process.env.AIRTABLE_VIEW_ID || "";
+  if (target?.home && !target.airtableBaseId && !target.airtableTableId) {
+    throw new Error(`Home "${target.home}" has no Airtable base or table set (Settings -> Homes).`);
+  }
+  const baseId = target?.airtableBaseId || requireEnv("AIRTABLE_BASE_ID");
+  const tableId = target?.airtableTableId || requireEnv("AIRTABLE_TABLE_ID");
+  // The env view belongs to the env table.
+  const view = target?.airtableTableId ? "" : process.env.AIRTABLE_VIEW_NAME || process.env.AIRTABLE_VIEW_ID || "";
   return { token, baseId, tableId, view };
 }
 
+// Airtable takes at most 10 records per create, update or delete request.
+export const AIRTABLE_BATCH_SIZE = 10;
+
 function chunk<T>(arr: T[], size: number) {
   const out: T[][] = [];
   for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
   return out;
 }
 
-export async function airtableFetch(path: string, init: RequestInit & { token: string }) {
-  const res = await fetch(path, {
-    ...init,
-    headers: {
-      Authorization: `Bearer ${init.token}`,
-      "Content-Type": "application/json",
-      ...(init.headers || {}),
-    },
-  });
+// Cell values by field name. Airtable leaves empty cells out of `fields` and ignores unknown keys
+// only with `typecast`, so callers build these from the field names they know.
+export type AirtableFields = Record<string, unknown>;
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Airtable error ${res.status}: ${text || res.statusText}`);
+export type AirtableRecord = { id: string; createdTime?: string; fields: AirtableFields };
+
+// What the create and update helpers send: creates have no id yet, updates must have one.
+export type AirtableRecordInput = { id?: string; fields: AirtableFields };
+
+// Deletes answer with the ids they removed instead of full records.
+export type AirtableDeletedRecord = { id: string; deleted: boolean };
+
+type AirtableRecordsPage<T = AirtableRecord> = { records?: T[]; offset?: string };
+
+export class AirtableError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "AirtableError";
+    this.status = status;
+  }
+}
+
+// Thrown by the batch helpers when a batch fails after earlier batches already went through.
+// `completed` holds the records Airtable returned so far (in input order); `processed` is how
+// many input records they cover, so callers can resume instead of redoing the whole list.
+export class AirtableBatchError<T = AirtableRecord> extends Error {
+  completed: T[];
+  processed: number;
+  cause: unknown;
+  constructor(message: string, opts: { completed: T[]; processed: number; cause: unknown }) {
+    super(message);
+    this.name = "AirtableBatchError";
+    this.completed = opts.completed;
+    this.processed = opts.processed;
+    this.cause = opts.cause;
+  }
+}
+
+type SchedulerOptions = {
+  maxRequestsPerSecond: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// Airtable allows 5 requests/second per base and answers 429 (with a 30s penalty) beyond that.
+let schedulerOptions: SchedulerOptions = {
+  maxRequestsPerSecond: envNumber("AIRTABLE_MAX_RPS", 5),
+  maxRetries: envNumber("AIRTABLE_MAX_RETRIES", 5),
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+// Next free request slot (epoch ms) per base. Requests reserve slots in call order, so concurrent
+// callers in the same process share the budget instead of racing each other into 429s.
+const nextSlotByBase = new Map<string, number>();
+
+export function configureAirtableScheduler(patch: Partial<SchedulerOptions>) {
+  schedulerOptions = { ...schedulerOptions, ...patch };
+  nextSlotByBase.clear();
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+async function acquireSlot(baseKey: string) {
+  const interval = 1000 / schedulerOptions.maxRequestsPerSecond;
+  const now = Date.now();
+  const slot = Math.max(now, nextSlotByBase.get(baseKey) || 0);
+  nextSlotByBase.set(baseKey, slot + interval);
+  if (slot > now) await sleep(slot - now);
+}
+
+// Push every pending request for the base back (used when Airtable tells us to slow down).
+function pauseBase(baseKey: string, ms: number) {
+  const until = Date.now() + ms;
+  if ((nextSlotByBase.get(baseKey) || 0) < until) nextSlotByBase.set(baseKey, until);
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const at = Date.parse(value);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+function backoffDelay(attempt: number) {
+  const exp = Math.min(schedulerOptions.maxDelayMs, schedulerOptions.baseDelayMs * 2 ** attempt);
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+// Connection failures where the request never reached Airtable, so even a create is safe to resend.
+const NOT_SENT_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT"]);
+
+function failedBeforeSending(err: unknown) {
+  const failure = err as { code?: unknown; cause?: { code?: unknown } } | null;
+  const code = failure?.cause?.code || failure?.code;
+  return typeof code === "string" && NOT_SENT_CODES.has(code);
+}
+
+function baseKeyFromUrl(path: string) {
+  try {
+    return new URL(path).pathname.split("/").filter(Boolean).find((part) => part.startsWith("app")) || "default";
+  } catch {
+    return "default";
   }
+}
+
+// Creates (POST) aren't idempotent: one that timed out or hit a 5xx may already be committed, and
+// sending it again would duplicate the records. They are only retried on 429 and on connection
+// errors from before the request went out; everything else is retried on network errors and 5xx too.
+export async function airtableFetch<T = unknown>(path: string, init: RequestInit & { token: string; baseId?: string }): Promise<T> {
+  const { token, baseId, ...rest } = init;
+  const baseKey = baseId || baseKeyFromUrl(path);
+  const idempotent = (rest.method || "GET").toUpperCase() !== "POST";
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(baseKey);
+    let res: Response;
+    try {
+      res = await fetch(path, {
+        ...rest,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+          ...(rest.headers || {}),
+        },
+      });
+    } catch (err) {
+      // Network blips are retried like 5xx.
+      if (attempt >= schedulerOptions.maxRetries || !(idempotent || failedBeforeSending(err))) throw err;
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (res.ok) return (await res.json()) as T;
 
-  return await res.json();
+    const retryable = res.status === 429 || (idempotent && res.status >= 500);
+    if (retryable && attempt < schedulerOptions.maxRetries) {
+      await res.text().catch(() => "");
+      const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+      const delay = retryAfter ?? backoffDelay(attempt);
+      if (res.status === 429) pauseBase(baseKey, delay);
+      await sleep(delay);
+      continue;
+    }
+
+    const text = await res.text().catch(() => "");
+    throw new AirtableError(res.status, `Airtable error ${res.status}: ${text || res.statusText}`);
+  }
 }
 
 export async function listAllRecords(opts: {
@@ -48,17 +213,17 @@ export async function listAllRecords(opts: {
 }) {
   const { token, baseId, tableId, view, filterByFormula, fields } = opts;
   let offset = "";
-  const records: any[] = [];
+  const records: AirtableRecord[] = [];
 
   while (true) {
-    const u = new URL(`${AIRTABLE_API}/${baseId}/${tableId}`);
+    const u = new URL(airtableTableUrl(baseId, tableId));
     u.searchParams.set("pageSize", "100");
     if (view) u.searchParams.set("view", view);
     if (filterByFormula) u.searchParams.set("filterByFormula", filterByFormula);
     if (fields?.length) for (const f of fields) u.searchParams.append("fields[]", f);
     if (offset) u.searchParams.set("offset", offset);
 
-    const json = await airtableFetch(u.toString(), { method: "GET", token });
+    const json = await airtableFetch<AirtableRecordsPage>(u.toString(), { method: "GET", token, baseId });
     records.push(...(json.records || []));
     offset = json.offset || "";
     if (!offset) break;
@@ -67,44 +232,65 @@ export async function listAllRecords(opts: {
   return records;
 }
 
-export async function createRecords(opts: { token: string; baseId: string; tableId: string; records: any[]; typecast?: boolean }) {
-  const { token, baseId, tableId, typecast } = opts;
-  const created: any[] = [];
-  for (const batch of chunk(opts.records, 10)) {
-    const url = typecast ? `${AIRTABLE_API}/${baseId}/${tableId}?typecast=true` : `${AIRTABLE_API}/${baseId}/${tableId}`;
-    const json = await airtableFetch(url, {
-      method: "POST",
-      token,
-      body: JSON.stringify({ records: batch }),
-    });
-    created.push(...(json.records || []));
+async function runBatches<T, R>(inputs: T[], label: string, send: (batch: T[]) => Promise<R[]>) {
+  const out: R[] = [];
+  let processed = 0;
+  for (const batch of chunk(inputs, AIRTABLE_BATCH_SIZE)) {
+    try {
+      out.push(...(await send(batch)));
+    } catch (err) {
+      throw new AirtableBatchError(`${label} stopped after ${processed}/${inputs.length}: ${errorMessage(err, "Unknown error")}`, {
+        completed: out,
+        processed,
+        cause: err,
+      });
+    }
+    processed += batch.length;
   }
-  return created;
+  return out;
+}
+
+export async function createRecords(opts: {
+  token: string;
+  baseId: string;
+  tableId: string;
+  records: AirtableRecordInput[];
+  typecast?: boolean;
+}) {
+  const { token, baseId, tableId, typecast } = opts;
+  const url = typecast ? `${airtableTableUrl(baseId, tableId)}?typecast=true` : airtableTableUrl(baseId, tableId);
+  return await runBatches(opts.records, "Create", async (batch) => {
+    const json = await airtableFetch<AirtableRecordsPage>(url, { method: "POST", token, baseId, body: JSON.stringify({ records: batch }) });
+    return json.records || [];
+  });
 }
 
-export async function updateRecords(opts: { token: string; baseId: string; tableId: string; records: any[]; typecast?: boolean }) {
+export async function updateRecords(opts: {
+  token: string;
+  baseId: string;
+  tableId: string;
+  records: AirtableRecordInput[];
+  typecast?: boolean;
+}) {
   const { token, baseId, tableId, typecast } = opts;
-  const updated: any[] = [];
-  for (const batch of chunk(opts.records, 10)) {
-    const url = typecast ? `${AIRTABLE_API}/${baseId}/${tableId}?typecast=true` : `${AIRTABLE_API}/${baseId}/${tableId}`;
-    const json = await airtableFetch(url, {
-      method: "PATCH",
-      token,
-      body: JSON.stringify({ records: batch }),
-    });
-    updated.push(...(json.records || []));
-  }
-  return updated;
+  const url = typecast ? `${airtableTableUrl(baseId, tableId)}?typecast=true` : airtableTableUrl(baseId, tableId);
+  return await runBatches(opts.records, "Update", async (batch) => {
+    const json = await airtableFetch<AirtableRecordsPage>(url, { method: "PATCH", token, baseId, body: JSON.stringify({ records: batch }) });
+    return json.records || [];
+  });
 }
 
-export async function deleteRecords(opts: { token: string; baseId: string; tableId: string; ids: string[] }) {
+export async function deleteRecords(opts: {
+  token: string;
+  baseId: string;
+  tableId: string;
+  ids: string[];
+}) {
   const { token, baseId, tableId } = opts;
-  const deleted: any[] = [];
-  for (const batch of chunk(opts.ids, 10)) {
-    const u = new URL(`${AIRTABLE_API}/${baseId}/${tableId}`);
+  return await runBatches(opts.ids, "Delete", async (batch) => {
+    const u = new URL(airtableTableUrl(baseId, tableId));
     for (const id of batch) u.searchParams.append("records[]", id);
-    const json = await airtableFetch(u.toString(), { method: "DELETE", token });
-    deleted.push(...(json.records || []));
-  }
-  return deleted;
+    const json = await airtableFetch<AirtableRecordsPage<AirtableDeletedRecord>>(u.toString(), { method: "DELETE", token, baseId });
+    return json.records || [];
+  });
 }
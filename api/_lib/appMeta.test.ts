@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { APP_META_SCHEMA_VERSION, appMetaFields, buildLegacyNotes, readAppMeta } from "./appMeta.js";
+
+const meta = { localId: "i_1", category: "Seating", specs: { color: "gray" } };
+
+describe("app meta", () => {
+  it("reads legacy Notes blocks and rewrites them into the dedicated field", () => {
+    const legacyNotes = buildLegacyNotes("Measure the doorway", meta);
+    expect(readAppMeta({ Notes: legacyNotes })).toEqual({ userNotes: "Measure the doorway", meta, legacy: true });
+
+    const fields = appMetaFields("Measure the doorway", meta, "App Meta");
+    expect(fields.Notes).toBe("Measure the doorway");
+    expect(JSON.parse(fields["App Meta"])).toEqual({ schemaVersion: APP_META_SCHEMA_VERSION, ...meta });
+    expect(readAppMeta(fields)).toEqual({ userNotes: "Measure the doorway", meta, legacy: false });
+    expect(appMetaFields("Measure the doorway", meta, null)).toEqual({ Notes: legacyNotes });
+  });
+
+  it("falls back to the Notes block when the field was hand-edited into invalid JSON", () => {
+    const fields = { Notes: buildLegacyNotes("", meta), "App Meta": "{ oops" };
+    expect(readAppMeta(fields)).toEqual({ userNotes: "", meta, legacy: true });
+    expect(readAppMeta({ Notes: "just notes", "App Meta": "{ oops" })).toEqual({ userNotes: "just notes", meta: null, legacy: false });
+  });
+});
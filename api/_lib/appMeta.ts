@@ -0,0 +1,117 @@
+import { AirtableError, airtableFetch, airtableTableUrl, type AirtableFields } from "./airtable.js";
+
+// App metadata (local ids, parent links, specs, attachments, ...) that has no Airtable column of its own.
+// It used to live in a `--- app_meta ---` block at the top of `Notes` (schema v1); it now goes in a
+// dedicated long-text field as `{ schemaVersion, ...meta }`. Bases without that field keep the legacy
+// block, and records still carrying it are read as before and migrated the next time they are written.
+
+export const APP_META_SCHEMA_VERSION = 2;
+
+// Stored payloads may come from older app versions or hand edits, so readers check each value.
+export type AppMeta = Record<string, unknown>;
+
+const LEGACY_OPEN_TAG = "--- app_meta ---";
+const LEGACY_CLOSE_TAG = "--- /app_meta ---";
+const FIELD_CHECK_TTL_MS = 5 * 60_000;
+
+export function appMetaFieldName() {
+  return process.env.AIRTABLE_APP_META_FIELD || "App Meta";
+}
+
+export function splitLegacyNotes(notesRaw: unknown) {
+  const notes = typeof notesRaw === "string" ? notesRaw : "";
+  const start = notes.lastIndexOf(LEGACY_OPEN_TAG);
+  const end = notes.lastIndexOf(LEGACY_CLOSE_TAG);
+  if (start === -1 || end === -1 || end < start) return { userNotes: notes, meta: null };
+  const jsonText = notes
+    .slice(start + LEGACY_OPEN_TAG.length, end)
+    .trim()
+    .replace(/^\n+/, "")
+    .trim();
+  let meta: unknown = null;
+  try {
+    meta = jsonText ? JSON.parse(jsonText) : null;
+  } catch {
+    meta = null;
+  }
+  const before = notes.slice(0, start).trimEnd();
+  const after = notes.slice(end + LEGACY_CLOSE_TAG.length).trimStart();
+  const userNotes = [before, after].filter(Boolean).join("\n\n").trimEnd();
+  return { userNotes, meta };
+}
+
+export function buildLegacyNotes(userNotesRaw: unknown, meta: AppMeta | null) {
+  const userNotes = typeof userNotesRaw === "string" ? userNotesRaw.trimEnd() : "";
+  const metaObj = meta && typeof meta === "object" ? meta : null;
+  if (!metaObj || Object.keys(metaObj).length === 0) return userNotes;
+  const json = JSON.stringify(metaObj);
+  // Keep app_meta at the top so Airtable truncation preserves metadata.
+  return `${LEGACY_OPEN_TAG}\n${json}\n${LEGACY_CLOSE_TAG}${userNotes ? `\n\n${userNotes}` : ""}`;
+}
+
+// Upgrades a stored payload to the current shape. v1 is the Notes-embedded block, which had no version.
+export function migrateAppMeta(raw: unknown): AppMeta | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const { schemaVersion: _schemaVersion, ...meta } = raw as AppMeta;
+  // v1 -> v2 only moved the payload out of Notes, so the shape is unchanged. Future shape changes
+  // add a step here keyed on `schemaVersion`.
+  return meta;
+}
+
+function parseAppMetaField(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return null;
+  try {
+    return migrateAppMeta(JSON.parse(value));
+  } catch {
+    return null;
+  }
+}
+
+// Reads metadata from a record's fields: the dedicated field wins; otherwise (missing, or hand-edited
+// into invalid JSON) fall back to the legacy Notes block. Any legacy block is stripped from the notes.
+export function readAppMeta(fields: AirtableFields) {
+  const legacy = splitLegacyNotes(fields["Notes"]);
+  const meta = parseAppMetaField(fields[appMetaFieldName()]);
+  if (meta) return { userNotes: legacy.userNotes, meta, legacy: false };
+  return { userNotes: legacy.userNotes, meta: migrateAppMeta(legacy.meta), legacy: Boolean(legacy.meta) };
+}
+
+// Notes (+ App Meta) fields for a write. `metaField` is null when the base has no App Meta field yet.
+export function appMetaFields(userNotesRaw: unknown, meta: AppMeta | null, metaField: string | null): Record<string, string> {
+  if (!metaField) return { Notes: buildLegacyNotes(userNotesRaw, meta) };
+  const userNotes = typeof userNotesRaw === "string" ? userNotesRaw.trimEnd() : "";
+  const metaObj = meta && typeof meta === "object" ? meta : {};
+  return {
+    Notes: userNotes,
+    [metaField]: JSON.stringify({ schemaVersion: APP_META_SCHEMA_VERSION, ...metaObj }),
+  };
+}
+
+const fieldChecks = new Map<string, { present: boolean; checkedAt: number }>();
+
+// Whether the table has the App Meta field. Probed with a one-record read restricted to that field
+// (Airtable answers 422 UNKNOWN_FIELD_NAME otherwise), so no schema scope is needed. Cached briefly.
+export async function hasAppMetaField(opts: { token: string; baseId: string; tableId: string }) {
+  const field = appMetaFieldName();
+  const key = `${opts.baseId}/${opts.tableId}/${field}`;
+  const cached = fieldChecks.get(key);
+  if (cached && Date.now() - cached.checkedAt < FIELD_CHECK_TTL_MS) return cached.present;
+
+  const u = new URL(airtableTableUrl(opts.baseId, opts.tableId));
+  u.searchParams.set("maxRecords", "1");
+  u.searchParams.append("fields[]", field);
+  let present: boolean;
+  try {
+    await airtableFetch(u.toString(), { method: "GET", token: opts.token, baseId: opts.baseId });
+    present = true;
+  } catch (err) {
+    if (!(err instanceof AirtableError) || err.status !== 422 || !/UNKNOWN_FIELD_NAME/.test(err.message)) throw err;
+    present = false;
+  }
+  fieldChecks.set(key, { present, checkedAt: Date.now() });
+  return present;
+}
+
+export async function resolveAppMetaField(opts: { token: string; baseId: string; tableId: string }) {
+  return (await hasAppMetaField(opts)) ? appMetaFieldName() : null;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { SESSION_MAX_AGE_S, isLocalHostRequest, signSession, verifySession } from "./auth.js";
+
+describe("auth", () => {
+  it("accepts its own session cookies and rejects tampered, foreign or expired ones", () => {
+    const now = Date.now();
+    const cookie = signSession("dev_abc", now, "secret");
+    expect(verifySession(cookie, now, "secret")).toEqual({ deviceId: "dev_abc", issuedAt: now });
+    expect(verifySession(cookie.replace("dev_abc", "dev_xyz"), now, "secret")).toBeNull();
+    expect(verifySession(cookie, now, "other-secret")).toBeNull();
+    expect(verifySession(cookie, now + SESSION_MAX_AGE_S * 1000 + 1, "secret")).toBeNull();
+    expect(verifySession("garbage", now, "secret")).toBeNull();
+  });
+
+  it("only treats loopback requests to a local host name as local", () => {
+    expect(isLocalHostRequest({ headers: { host: "localhost:5173" }, socket: { remoteAddress: "::1" } })).toBe(true);
+    expect(isLocalHostRequest({ headers: { host: "127.0.0.1:4173" }, socket: { remoteAddress: "192.168.1.20" } })).toBe(false);
+    expect(isLocalHostRequest({ headers: { host: "192.168.1.5:4173" }, socket: { remoteAddress: "127.0.0.1" } })).toBe(false);
+  });
+
+  it("matches the host name exactly and requires a known loopback peer", () => {
+    const local = (host: string, remoteAddress?: string) => isLocalHostRequest({ headers: { host }, socket: { remoteAddress } });
+    expect(local("127.0.0.1", "127.0.0.1")).toBe(true);
+    expect(local("[::1]:5173", "::ffff:127.0.0.1")).toBe(true);
+    for (const host of ["localhost.evil.example", "127.0.0.1.nip.io", "evil.example:5173/localhost", "localhost:abc", "[::1]x"]) {
+      expect(local(host, "127.0.0.1")).toBe(false);
+    }
+    expect(local("localhost:5173")).toBe(false);
+    expect(isLocalHostRequest({ headers: { host: "localhost:5173" } })).toBe(false);
+  });
+
+  it("refuses requests that came through a proxy", () => {
+    const socket = { remoteAddress: "127.0.0.1" };
+    expect(isLocalHostRequest({ headers: { host: "localhost:5173", "x-forwarded-for": "203.0.113.7" }, socket })).toBe(false);
+    expect(isLocalHostRequest({ headers: { host: "localhost:5173", forwarded: "for=203.0.113.7" }, socket })).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { getActiveDevice, touchDevice } from "./devices.js";
+import { errorMessage, sendJson, type ApiRequest, type ApiResponse } from "./http.js";
+
+// Shared auth for the `/api/*` handlers. A device signs in once with the household passcode (or a
+// device token it was given earlier) and gets a signed, HttpOnly session cookie. Sessions are tied
+// to a device in the registry (see devices.ts), so revoking the device signs it out.
+
+export const SESSION_COOKIE = "ft_session";
+export const SESSION_MAX_AGE_S = 180 * 24 * 60 * 60;
+
+export type AuthSession = { deviceId: string; deviceName: string; local: boolean };
+
+function envValue(key: string) {
+  const value = String(process.env[key] || "").trim();
+  // Treat placeholder values as missing (common when copying `.env.example`).
+  return value && !value.startsWith("YOUR_") ? value : "";
+}
+
+export function authPasscode() {
+  return envValue("APP_PASSCODE");
+}
+
+function sessionSecret() {
+  const secret = envValue("AUTH_SECRET");
+  if (secret) return secret;
+  const passcode = authPasscode();
+  return passcode ? createHash("sha256").update(`furnishing-session:${passcode}`).digest("hex") : "";
+}
+
+export function isProductionRuntime() {
+  return process.env.VERCEL === "1" || process.env.NODE_ENV === "production";
+}
+
+const LOCAL_HOST_RE = /^(?:localhost|127\.0\.0\.1|\[::1\])(?::\d{1,5})?$/;
+const LOOPBACK_PEERS = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+// The Host header is client-controlled, so the peer must be loopback too. A proxy on this machine
+// would make remote clients look like loopback peers, so any forwarding header rules the request out.
+export function isLocalHostRequest(req: Pick<ApiRequest, "headers" | "socket">): boolean {
+  const headers = req.headers || {};
+  if (!LOCAL_HOST_RE.test(String(headers.host || "").toLowerCase())) return false;
+  if (headers["x-forwarded-for"] !== undefined || headers.forwarded !== undefined) return false;
+  return LOOPBACK_PEERS.has(String(req.socket?.remoteAddress || ""));
+}
+
+// Local dev convenience: requests to `npm run dev` on this machine skip sign-in.
+// Never on Vercel/production; set AUTH_LOCAL_BYPASS=0 to try the sign-in flow locally.
+export function canBypassAuth(req: ApiRequest) {
+  return !isProductionRuntime() && process.env.AUTH_LOCAL_BYPASS !== "0" && isLocalHostRequest(req);
+}
+
+function sign(payload: string, secret: string) {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function signSession(deviceId: string, issuedAt = Date.now(), secret = sessionSecret()) {
+  const payload = `${deviceId}.${issuedAt}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function verifySession(value: string, now = Date.now(), secret = sessionSecret()): { deviceId: string; issuedAt: number } | null {
+  if (!secret) return null;
+  const parts = value.split(".");
+  if (parts.length !== 3) return null;
+  const [deviceId, issuedRaw, signature] = parts;
+  const expected = Buffer.from(sign(`${deviceId}.${issuedRaw}`, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  const issuedAt = Number(issuedRaw);
+  if (!Number.isFinite(issuedAt) || issuedAt > now + 60_000 || now - issuedAt > SESSION_MAX_AGE_S * 1000) return null;
+  return { deviceId, issuedAt };
+}
+
+export function passcodeMatches(input: string) {
+  const expected = authPasscode();
+  if (!expected || !input) return false;
+  // Compare digests so the check takes the same time whatever the input length.
+  const a = createHash("sha256").update(input).digest();
+  const b = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+function readCookie(req: ApiRequest, name: string) {
+  const header = String(req.headers.cookie || "");
+  for (const part of header.split(";")) {
+    const idx = part.indexOf("=");
+    if (idx < 0) continue;
+    if (part.slice(0, idx).trim() === name) return decodeURIComponent(part.slice(idx + 1).trim());
+  }
+  return "";
+}
+
+function isSecureRequest(req: ApiRequest) {
+  const proto = String(req.headers["x-forwarded-proto"] || "").split(",")[0].trim();
+  // Node's TLS sockets say so; plain ones have no `encrypted` at all.
+  return proto === "https" || Boolean((req.socket as { encrypted?: boolean } | undefined)?.encrypted);
+}
+
+export function sessionCookie(req: ApiRequest, value: string | null) {
+  const attrs = [
+    `${SESSION_COOKIE}=${value ? encodeURIComponent(value) : ""}`,
+    "Path=/api",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${value ? SESSION_MAX_AGE_S : 0}`,
+  ];
+  if (isSecureRequest(req)) attrs.push("Secure");
+  return attrs.join("; ");
+}
+
+export async function getSession(req: ApiRequest): Promise<AuthSession | null> {
+  if (canBypassAuth(req)) return { deviceId: "local", deviceName: "This computer (local dev)", local: true };
+  const verified = verifySession(readCookie(req, SESSION_COOKIE));
+  if (!verified) return null;
+  const device = await getActiveDevice(verified.deviceId);
+  if (!device) return null;
+  await touchDevice(device);
+  return { deviceId: device.id, deviceName: device.name, local: false };
+}
+
+// Resolves the caller's session, or answers 401 (500 when the server has no passcode configured)
+// and returns null; handlers should return right away in that case.
+export async function requireAuth(req: ApiRequest, res: ApiResponse): Promise<AuthSession | null> {
+  let session: AuthSession | null;
+  try {
+    session = await getSession(req);
+  } catch (err) {
+    sendJson(res, 500, { ok: false, message: errorMessage(err, "Auth check failed") });
+    return null;
+  }
+  if (session) return session;
+
+  if (!authPasscode()) {
+    sendJson(res, 500, {
+      ok: false,
+      message: "Missing APP_PASSCODE in environment variables.",
+      hint: "Set APP_PASSCODE in .env.local (self-hosted) or Vercel env vars (production).",
+    });
+    return null;
+  }
+
+  sendJson(res, 401, { ok: false, authRequired: true, message: "Sign in required." });
+  return null;
+}
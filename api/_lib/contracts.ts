@@ -0,0 +1,985 @@
+import { z } from "zod";
+
+// Request and response shapes for every `/api/*` route, shared by the handlers and the frontend so
+// the wire format can't drift. Handlers parse their input with these (400 with field errors when it
+// doesn't match); the client checks responses against them before using the data.
+// Imported from `src/` by relative path, so this file must only depend on `zod`.
+//
+// Response types are spelled out rather than inferred: the app is compiled without strictNullChecks,
+// where zod's inferred types turn every field optional. `contract` ties each schema to its type: the
+// api code is compiled strictly and must match exactly; the app build still checks every field's
+// type, it just can't tell optional from required.
+
+type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+// `undefined` is only assignable to `string` when strictNullChecks is off.
+type SchemaOutput<T> = undefined extends string ? DeepPartial<T> : T;
+
+function contract<T>(schema: z.ZodType<SchemaOutput<T>, z.ZodTypeDef, unknown>) {
+  return schema as z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+export type ApiError = {
+  ok: false;
+  message: string;
+  hint?: string;
+  authRequired?: boolean;
+  // Issue messages keyed by the dotted path of the offending input field.
+  fieldErrors?: Record<string, string[]>;
+};
+
+export const apiErrorSchema = contract<ApiError>(
+  z.object({
+    ok: z.literal(false),
+    message: z.string(),
+    hint: z.string().optional(),
+    authRequired: z.boolean().optional(),
+    fieldErrors: z.record(z.array(z.string())).optional(),
+  }),
+);
+
+function okResponse<T extends z.ZodRawShape>(shape: T) {
+  return z.object({ ok: z.literal(true), ...shape });
+}
+
+const optionalText = z.string().trim().optional();
+
+// ---------------------------------------------------------------------------------------------
+// Homes. Requests about any home but the default one say which; the default home leaves it out and
+// uses the server's env (AIRTABLE_BASE_ID / AIRTABLE_TABLE_ID, SYNC_JSON_PATH, the root export prefix).
+
+export const homeIdSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9](?:[a-z0-9-]{0,46}[a-z0-9])?$/, 'Expected a home id like "oak-street"');
+
+export const syncTargetSchema = z.object({
+  home: homeIdSchema.optional(),
+  airtableBaseId: z
+    .string()
+    .trim()
+    .regex(/^app[A-Za-z0-9]{14}$/, "Expected an Airtable base id (app...)")
+    .optional(),
+  // Table id (tbl...) or name. Sent as one path segment, so a "/" can't be part of it.
+  airtableTableId: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .regex(/^[^/]+$/, 'Expected a table id or name without "/"')
+    .optional(),
+});
+export type SyncTarget = z.output<typeof syncTargetSchema>;
+
+// The same target as query parameters, for GET routes.
+const syncTargetQueryShape = {
+  home: homeIdSchema.optional(),
+  base: syncTargetSchema.shape.airtableBaseId,
+  table: syncTargetSchema.shape.airtableTableId,
+};
+
+function targetFromQuery(query: { home?: string; base?: string; table?: string }): SyncTarget {
+  return { home: query.home, airtableBaseId: query.base, airtableTableId: query.table };
+}
+
+export const syncTargetQuerySchema = z.object(syncTargetQueryShape).transform(targetFromQuery);
+
+// ---------------------------------------------------------------------------------------------
+// /api/health (accepts the sync target query)
+
+export type HealthResponse = {
+  ok: true;
+  airtableConfigured: boolean;
+  syncBackend?: "airtable" | "json";
+  syncConfigured: boolean;
+  // Only checked for the Airtable backend; `present: null` when the check itself failed.
+  appMeta?: { field: string; present: boolean | null; message?: string };
+  env: Record<string, boolean>;
+  message?: string;
+};
+
+export const healthResponseSchema = contract<HealthResponse>(
+  okResponse({
+    airtableConfigured: z.boolean(),
+    syncBackend: z.enum(["airtable", "json"]).optional(),
+    syncConfigured: z.boolean(),
+    appMeta: z.object({ field: z.string(), present: z.boolean().nullable(), message: z.string().optional() }).optional(),
+    env: z.record(z.boolean()),
+    message: z.string().optional(),
+  }),
+);
+
+// ---------------------------------------------------------------------------------------------
+// /api/auth/session, /api/auth/devices
+
+export type AuthDeviceInfo = { id: string; name: string; local: boolean };
+
+const authDeviceInfoSchema = contract<AuthDeviceInfo>(z.object({ id: z.string(), name: z.string(), local: z.boolean() }));
+
+export type AuthStateResponse = {
+  ok: true;
+  // False when this request may skip sign-in (local dev).
+  required: boolean;
+  configured: boolean;
+  authenticated: boolean;
+  device: AuthDeviceInfo | null;
+};
+
+export const authStateResponseSchema = contract<AuthStateResponse>(
+  okResponse({
+    required: z.boolean(),
+    configured: z.boolean(),
+    authenticated: z.boolean(),
+    device: authDeviceInfoSchema.nullable(),
+  }),
+);
+
+export const authSignInBodySchema = z
+  .object({
+    passcode: optionalText,
+    deviceToken: optionalText,
+    deviceName: z.string().trim().max(80).optional(),
+  })
+  .refine((body) => Boolean(body.passcode || body.deviceToken), {
+    message: "Enter the passcode.",
+    path: ["passcode"],
+  });
+export type AuthSignInBody = z.input<typeof authSignInBodySchema>;
+
+export type AuthSignInResponse = {
+  ok: true;
+  device: AuthDeviceInfo;
+  // Only returned when the passcode registered a new device.
+  deviceToken: string | null;
+};
+
+export const authSignInResponseSchema = contract<AuthSignInResponse>(
+  okResponse({
+    device: authDeviceInfoSchema,
+    deviceToken: z.string().nullable(),
+  }),
+);
+
+export type EmptyOkResponse = { ok: true };
+
+export const emptyOkResponseSchema = contract<EmptyOkResponse>(okResponse({}));
+
+export type AuthDevice = {
+  id: string;
+  name: string;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  current: boolean;
+};
+
+export type AuthDevicesResponse = { ok: true; devices: AuthDevice[] };
+
+export const authDevicesResponseSchema = contract<AuthDevicesResponse>(
+  okResponse({
+    devices: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        userAgent: z.string().nullable(),
+        createdAt: z.number(),
+        lastSeenAt: z.number(),
+        current: z.boolean(),
+      }),
+    ),
+  }),
+);
+
+export const authRevokeQuerySchema = z.object({ id: z.string().trim().min(1, "Missing device id.") });
+
+// ---------------------------------------------------------------------------------------------
+// Synced records: one schema per record type (src/lib/domain.ts). Optional fields may be null as
+// well as missing; fields the backends don't map (attachments, local bookkeeping) pass through untouched.
+
+export const PRODUCT_AVAILABILITIES = ["in_stock", "out_of_stock", "preorder", "backorder", "discontinued"] as const;
+export type ProductAvailability = (typeof PRODUCT_AVAILABILITIES)[number];
+
+// One purchasable variant (colour, fabric, size) listed on a product page. Fields the page doesn't
+// give per variant are null; the product-level values apply.
+export type ProductVariant = {
+  name: string;
+  sku: string | null;
+  price: number | null;
+  originalPrice: number | null;
+  imageUrl: string | null;
+  dimensionsText: string | null;
+  url: string | null;
+};
+
+export const productVariantSchema = z.object({
+  name: z.string(),
+  sku: z.string().nullable(),
+  price: z.number().nullable(),
+  originalPrice: z.number().nullable(),
+  imageUrl: z.string().nullable(),
+  dimensionsText: z.string().nullable(),
+  url: z.string().nullable(),
+});
+
+// Price history of a watched item or option link (api/_lib/priceWatch.ts).
+export type PricePoint = {
+  at: number;
+  price: number | null;
+  originalPrice: number | null;
+  availability: ProductAvailability | null;
+};
+
+export type PriceWatch = {
+  enabled: boolean;
+  // The "Price changes" list flags the link once its price is at or below this.
+  targetPrice: number | null;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+  history: PricePoint[];
+};
+
+const priceWatchSchema = z.object({
+  enabled: z.boolean(),
+  targetPrice: z.number().nullable(),
+  lastCheckedAt: z.number().nullable(),
+  lastError: z.string().nullable(),
+  history: z.array(
+    z.object({
+      at: z.number(),
+      price: z.number().nullable(),
+      originalPrice: z.number().nullable(),
+      availability: z.enum(PRODUCT_AVAILABILITIES).nullable(),
+    }),
+  ),
+});
+
+type SyncActor = "human" | "ai" | "import" | "system";
+
+type SyncChangeLogEntry = {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+  by: SyncActor | null;
+  at: number;
+  sessionId?: string;
+};
+
+export type SyncProvenance = {
+  createdBy?: SyncActor | null;
+  createdAt?: number | null;
+  lastEditedBy?: SyncActor | null;
+  lastEditedAt?: number | null;
+  sourceRef?: string | null;
+  dataSource?: "concrete" | "estimated" | null;
+  reviewStatus?: "needs_review" | "verified" | "ai_modified" | null;
+  verifiedAt?: number | null;
+  verifiedBy?: SyncActor | null;
+  modifiedFields?: string[] | null;
+  changeLog?: SyncChangeLogEntry[] | null;
+};
+
+const actorSchema = z.enum(["human", "ai", "import", "system"]);
+
+const provenanceSchema = z.object({
+  createdBy: actorSchema.nullish(),
+  createdAt: z.number().nullish(),
+  lastEditedBy: actorSchema.nullish(),
+  lastEditedAt: z.number().nullish(),
+  sourceRef: z.string().nullish(),
+  dataSource: z.enum(["concrete", "estimated"]).nullish(),
+  reviewStatus: z.enum(["needs_review", "verified", "ai_modified"]).nullish(),
+  verifiedAt: z.number().nullish(),
+  verifiedBy: actorSchema.nullish(),
+  modifiedFields: z.array(z.string()).nullish(),
+  changeLog: z
+    .array(
+      z.object({
+        field: z.string(),
+        from: z.unknown(),
+        to: z.unknown(),
+        by: actorSchema.nullable(),
+        at: z.number(),
+        sessionId: z.string().optional(),
+      }),
+    )
+    .nullish(),
+});
+
+export type SyncDiscountType = "amount" | "percent";
+export type SyncConfidence = "low" | "med" | "high";
+
+export type SyncDimensions = {
+  wIn?: number | null;
+  hIn?: number | null;
+  dIn?: number | null;
+  confidence?: SyncConfidence | null;
+};
+
+export type SyncSpecs = Record<string, string | number | boolean | null>;
+
+const discountTypeSchema = z.enum(["amount", "percent"]).nullish();
+const confidenceSchema = z.enum(["low", "med", "high"]);
+const nullableNumber = z.number().nullish();
+const nullableText = z.string().nullish();
+
+const dimensionsSchema = z.object({
+  wIn: nullableNumber,
+  hIn: nullableNumber,
+  dIn: nullableNumber,
+  confidence: confidenceSchema.nullish(),
+});
+
+const specsSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+type SyncRecordBase = {
+  id: string;
+  remoteId?: string | null;
+  syncState?: "clean" | "dirty" | "deleted";
+  provenance?: SyncProvenance | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const syncRecordShape = {
+  id: z.string().min(1, "Expected a record id"),
+  remoteId: nullableText,
+  syncState: z.enum(["clean", "dirty", "deleted"]).optional(),
+  provenance: provenanceSchema.nullish(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+};
+
+export type SyncRoom = SyncRecordBase & {
+  name: string;
+  sort?: number | null;
+  notes?: string | null;
+};
+
+const syncRoomSchema = z
+  .object({ ...syncRecordShape, name: z.string(), sort: nullableNumber, notes: nullableText })
+  .passthrough();
+
+export type SyncMeasurement = SyncRecordBase & {
+  room: string;
+  label: string;
+  valueIn: number;
+  sort?: number | null;
+  confidence?: SyncConfidence | null;
+  forCategory?: string | null;
+  forItemId?: string | null;
+  notes?: string | null;
+};
+
+const syncMeasurementSchema = z
+  .object({
+    ...syncRecordShape,
+    room: z.string(),
+    label: z.string(),
+    valueIn: z.number(),
+    sort: nullableNumber,
+    confidence: confidenceSchema.nullish(),
+    forCategory: nullableText,
+    forItemId: nullableText,
+    notes: nullableText,
+  })
+  .passthrough();
+
+export type SyncItem = SyncRecordBase & {
+  name: string;
+  room: string;
+  category: string;
+  status: "Idea" | "Shortlist" | "Selected" | "Ordered" | "Delivered" | "Installed";
+  kind?: "standalone" | "placeholder";
+  selectedOptionId?: string | null;
+  sort?: number | null;
+  price?: number | null;
+  discountType?: SyncDiscountType | null;
+  discountValue?: number | null;
+  qty: number;
+  store?: string | null;
+  link?: string | null;
+  priceWatch?: PriceWatch | null;
+  notes?: string | null;
+  priority?: number | null;
+  tags?: string[] | null;
+  dimensions?: SyncDimensions | null;
+  variants?: ProductVariant[] | null;
+  specs?: SyncSpecs | null;
+};
+
+const syncItemSchema = z
+  .object({
+    ...syncRecordShape,
+    name: z.string(),
+    room: z.string(),
+    category: z.string(),
+    status: z.enum(["Idea", "Shortlist", "Selected", "Ordered", "Delivered", "Installed"]),
+    kind: z.enum(["standalone", "placeholder"]).optional(),
+    selectedOptionId: nullableText,
+    sort: nullableNumber,
+    price: nullableNumber,
+    discountType: discountTypeSchema,
+    discountValue: nullableNumber,
+    qty: z.number(),
+    store: nullableText,
+    link: nullableText,
+    priceWatch: priceWatchSchema.nullish(),
+    notes: nullableText,
+    priority: nullableNumber,
+    tags: z.array(z.string()).nullish(),
+    dimensions: dimensionsSchema.nullish(),
+    variants: z.array(productVariantSchema).nullish(),
+    specs: specsSchema.nullish(),
+  })
+  .passthrough();
+
+export type SyncOption = SyncRecordBase & {
+  itemId: string;
+  title: string;
+  sort?: number | null;
+  store?: string | null;
+  link?: string | null;
+  priceWatch?: PriceWatch | null;
+  promoCode?: string | null;
+  price?: number | null;
+  shipping?: number | null;
+  taxEstimate?: number | null;
+  discount?: number | null;
+  discountType?: SyncDiscountType | null;
+  discountValue?: number | null;
+  dimensionsText?: string | null;
+  dimensions?: SyncDimensions | null;
+  specs?: SyncSpecs | null;
+  notes?: string | null;
+  priority?: number | null;
+  tags?: string[] | null;
+  selected?: boolean;
+  sourceItemId?: string | null;
+};
+
+const syncOptionSchema = z
+  .object({
+    ...syncRecordShape,
+    itemId: z.string(),
+    title: z.string(),
+    sort: nullableNumber,
+    store: nullableText,
+    link: nullableText,
+    priceWatch: priceWatchSchema.nullish(),
+    promoCode: nullableText,
+    price: nullableNumber,
+    shipping: nullableNumber,
+    taxEstimate: nullableNumber,
+    discount: nullableNumber,
+    discountType: discountTypeSchema,
+    discountValue: nullableNumber,
+    dimensionsText: nullableText,
+    dimensions: dimensionsSchema.nullish(),
+    specs: specsSchema.nullish(),
+    notes: nullableText,
+    priority: nullableNumber,
+    tags: z.array(z.string()).nullish(),
+    selected: z.boolean().optional(),
+    sourceItemId: nullableText,
+  })
+  .passthrough();
+
+export type SyncSubItem = SyncRecordBase & {
+  optionId: string;
+  title: string;
+  sort?: number | null;
+  qty?: number;
+  price?: number | null;
+  taxEstimate?: number | null;
+  discountType?: SyncDiscountType | null;
+  discountValue?: number | null;
+  extraWarrantyCost?: number | null;
+  notes?: string | null;
+};
+
+const syncSubItemSchema = z
+  .object({
+    ...syncRecordShape,
+    optionId: z.string(),
+    title: z.string(),
+    sort: nullableNumber,
+    qty: z.number().optional(),
+    price: nullableNumber,
+    taxEstimate: nullableNumber,
+    discountType: discountTypeSchema,
+    discountValue: nullableNumber,
+    extraWarrantyCost: nullableNumber,
+    notes: nullableText,
+  })
+  .passthrough();
+
+export type SyncStore = SyncRecordBase & {
+  name: string;
+  sort?: number | null;
+  discountType?: SyncDiscountType | null;
+  discountValue?: number | null;
+  shippingCost?: number | null;
+  deliveryInfo?: string | null;
+  extraWarranty?: string | null;
+  extraWarrantyCost?: number | null;
+  taxCost?: number | null;
+  trial?: string | null;
+  apr?: string | null;
+  notes?: string | null;
+};
+
+const syncStoreSchema = z
+  .object({
+    ...syncRecordShape,
+    name: z.string(),
+    sort: nullableNumber,
+    discountType: discountTypeSchema,
+    discountValue: nullableNumber,
+    shippingCost: nullableNumber,
+    deliveryInfo: nullableText,
+    extraWarranty: nullableText,
+    extraWarrantyCost: nullableNumber,
+    taxCost: nullableNumber,
+    trial: nullableText,
+    apr: nullableText,
+    notes: nullableText,
+  })
+  .passthrough();
+
+// ---------------------------------------------------------------------------------------------
+// /api/sync/push, /api/sync/pull
+
+export type SyncEntityKey = "items" | "options" | "subItems" | "measurements" | "rooms" | "stores";
+
+export const syncPushBodySchema = z.object({
+  mode: z.enum(["commit", "reset"]).default("commit"),
+  target: syncTargetSchema.optional(),
+  // Plan only: report what would be created, updated and deleted without writing anything.
+  dryRun: z.boolean().optional(),
+  items: z.array(syncItemSchema).optional(),
+  options: z.array(syncOptionSchema).optional(),
+  subItems: z.array(syncSubItemSchema).optional(),
+  measurements: z.array(syncMeasurementSchema).optional(),
+  rooms: z.array(syncRoomSchema).optional(),
+  stores: z.array(syncStoreSchema).optional(),
+});
+export type SyncPushBody = z.input<typeof syncPushBodySchema>;
+
+export type SyncPushError = {
+  entity: "item" | "option" | "subItem" | "measurement" | "room" | "store";
+  action: "create" | "update";
+  id?: string;
+  // Id the client sent (room name for rooms), so failures can be traced back to local records.
+  localId?: string;
+  title?: string;
+  message: string;
+};
+
+const syncPushErrorSchema = contract<SyncPushError>(
+  z.object({
+    entity: z.enum(["item", "option", "subItem", "measurement", "room", "store"]),
+    action: z.enum(["create", "update"]),
+    id: z.string().optional(),
+    localId: z.string().optional(),
+    title: z.string().optional(),
+    message: z.string(),
+  }),
+);
+
+export type SyncPlanChange = { field: string; from?: unknown; to?: unknown };
+
+export type SyncPlanEntry = {
+  id?: string; // remote id (updates and deletes)
+  title?: string;
+  // Field-level diff against the current remote values (updates only).
+  changes?: SyncPlanChange[];
+};
+
+const syncPlanEntrySchema = contract<SyncPlanEntry>(
+  z.object({
+    id: z.string().optional(),
+    title: z.string().optional(),
+    changes: z.array(z.object({ field: z.string(), from: z.unknown(), to: z.unknown() })).optional(),
+  }),
+);
+
+// "other" holds rows of record types the app doesn't sync (only ever deleted, by a reset).
+export type SyncPlanEntity = SyncEntityKey | "other";
+
+export type SyncPushPlan = Partial<
+  Record<SyncPlanEntity, { creates: SyncPlanEntry[]; updates: SyncPlanEntry[]; deletes: SyncPlanEntry[] }>
+>;
+
+const syncPushPlanSchema = contract<SyncPushPlan>(
+  z.record(
+    z.enum(["items", "options", "subItems", "measurements", "rooms", "stores", "other"]),
+    z.object({
+      creates: z.array(syncPlanEntrySchema),
+      updates: z.array(syncPlanEntrySchema),
+      deletes: z.array(syncPlanEntrySchema),
+    }),
+  ),
+);
+
+export type SyncPushResult = {
+  // Local id (room name for rooms) -> remote id for every record the backend created.
+  created: Record<SyncEntityKey, Record<string, string>>;
+  counts: Record<string, number>;
+  errors?: SyncPushError[];
+  // Only on dry runs.
+  plan?: SyncPushPlan;
+  message: string;
+};
+
+const idMapSchema = z.record(z.string());
+
+export type SyncPushResponse = { ok: true } & SyncPushResult;
+
+export const syncPushResponseSchema = contract<SyncPushResponse>(
+  okResponse({
+    created: z.object({
+      items: idMapSchema,
+      options: idMapSchema,
+      subItems: idMapSchema,
+      measurements: idMapSchema,
+      rooms: idMapSchema,
+      stores: idMapSchema,
+    }),
+    counts: z.record(z.number()),
+    errors: z.array(syncPushErrorSchema).optional(),
+    plan: syncPushPlanSchema.optional(),
+    message: z.string(),
+  }),
+);
+
+export const syncPullQuerySchema = z
+  .object({
+    // Opaque cursor from a previous pull; missing (or `full=1`) returns everything.
+    since: optionalText,
+    full: z.enum(["0", "1"]).optional(),
+    ...syncTargetQueryShape,
+  })
+  .transform((query) => ({ since: query.since || null, full: query.full === "1", target: targetFromQuery(query) }));
+export type SyncPullOptions = { since: string | null; full: boolean; target?: SyncTarget };
+
+export type SyncPullResult = {
+  delta: boolean;
+  cursor: string;
+  // Every record id the backend currently holds, so clients can drop remotely deleted records.
+  remoteIds: string[];
+  bundle: {
+    version: 1;
+    exportedAt: string;
+    rooms: SyncRoom[];
+    measurements: SyncMeasurement[];
+    items: SyncItem[];
+    options: SyncOption[];
+    subItems: SyncSubItem[];
+    stores: SyncStore[];
+  };
+};
+
+export type SyncPullResponse = { ok: true } & SyncPullResult;
+
+export const syncPullResponseSchema = contract<SyncPullResponse>(
+  okResponse({
+    delta: z.boolean(),
+    cursor: z.string(),
+    remoteIds: z.array(z.string()),
+    bundle: z.object({
+      version: z.literal(1),
+      exportedAt: z.string(),
+      rooms: z.array(syncRoomSchema),
+      measurements: z.array(syncMeasurementSchema),
+      items: z.array(syncItemSchema),
+      options: z.array(syncOptionSchema),
+      subItems: z.array(syncSubItemSchema),
+      stores: z.array(syncStoreSchema),
+    }),
+  }),
+);
+
+// ---------------------------------------------------------------------------------------------
+// /api/s3/sign, /api/s3/json
+
+export const s3SignBodySchema = z.object({
+  contentType: z.string().trim().default(""),
+  fileName: optionalText,
+  // Unknown parent types are filed under "item".
+  parentType: optionalText,
+  parentId: optionalText,
+  // Files go under the home's own prefix (see uploadPrefix in api/_lib/storage); the default home leaves it out.
+  home: homeIdSchema.optional(),
+});
+export type S3SignBody = z.input<typeof s3SignBodySchema>;
+
+export type S3SignResponse = { ok: true; uploadUrl: string; publicUrl: string; key: string };
+
+export const s3SignResponseSchema = contract<S3SignResponse>(
+  okResponse({
+    uploadUrl: z.string(),
+    publicUrl: z.string(),
+    key: z.string(),
+  }),
+);
+
+// Homes other than the default one keep their backups under their own prefix.
+export const s3JsonQuerySchema = z.object({ list: optionalText, key: optionalText, home: homeIdSchema.optional() });
+
+export type S3Snapshot = { key: string; name: string | null; exportedAt: string | null; filename: string | null };
+
+export type S3JsonListResponse = { ok: true; snapshots: S3Snapshot[] };
+
+export const s3JsonListResponseSchema = contract<S3JsonListResponse>(
+  okResponse({
+    snapshots: z.array(
+      z.object({
+        key: z.string(),
+        name: z.string().nullable(),
+        exportedAt: z.string().nullable(),
+        filename: z.string().nullable(),
+      }),
+    ),
+  }),
+);
+
+export type S3JsonGetResponse = { ok: true; key: string; data?: unknown };
+
+export const s3JsonGetResponseSchema = contract<S3JsonGetResponse>(okResponse({ key: z.string(), data: z.unknown() }));
+
+const jsonObjectSchema = z.record(z.unknown());
+
+// `bundle` is the older name for `data`.
+export const s3JsonPutBodySchema = z
+  .object({
+    data: jsonObjectSchema.optional(),
+    bundle: jsonObjectSchema.optional(),
+    filename: optionalText,
+    home: homeIdSchema.optional(),
+  })
+  .refine((body) => Boolean(body.data || body.bundle), { message: "Missing JSON payload.", path: ["data"] });
+export type S3JsonPutBody = z.input<typeof s3JsonPutBodySchema>;
+
+export type S3JsonPutResponse = {
+  ok: true;
+  key: string;
+  latestKey: string;
+  previousKey: string;
+  publicUrl: string;
+  meta: { filename: string; exportedAt: string | null; homeName: string | null };
+};
+
+export const s3JsonPutResponseSchema = contract<S3JsonPutResponse>(
+  okResponse({
+    key: z.string(),
+    latestKey: z.string(),
+    previousKey: z.string(),
+    publicUrl: z.string(),
+    meta: z.object({ filename: z.string(), exportedAt: z.string().nullable(), homeName: z.string().nullable() }),
+  }),
+);
+
+// ---------------------------------------------------------------------------------------------
+// /api/storage/gc
+
+// Only the upload prefixes of the listed homes are swept. An upload mentioned by any of them is kept,
+// since copies between homes share files, and so is every key in `keep`: the caller's uploads that
+// records still waiting in its outbox mention. Dry run unless `dryRun: false`.
+export const storageGcBodySchema = z.object({
+  dryRun: z.boolean().default(true),
+  graceDays: z.number().int().min(1).max(365).default(7),
+  targets: z.array(syncTargetSchema).min(1).max(50).default([{}]),
+  keep: z.array(z.string().max(500)).max(20_000).default([]),
+  // Also sweep the uploads from before homes had their own prefix (LEGACY_UPLOAD_PREFIXES), checked
+  // against every home in `targets`. Only honoured when the default home is one of them.
+  legacy: z.boolean().default(false),
+});
+export type StorageGcBody = z.input<typeof storageGcBodySchema>;
+
+export type StorageGcObject = { key: string; size: number; lastModified: number | null };
+
+export type StorageGcResponse = {
+  ok: true;
+  dryRun: boolean;
+  graceDays: number;
+  // Upload prefixes that were listed.
+  prefixes: string[];
+  scanned: number;
+  referenced: number;
+  // Unreferenced but younger than the grace period.
+  recent: number;
+  orphanCount: number;
+  orphanBytes: number;
+  // The first few orphans, oldest first.
+  orphans: StorageGcObject[];
+  deleted: number;
+};
+
+export const storageGcResponseSchema = contract<StorageGcResponse>(
+  okResponse({
+    dryRun: z.boolean(),
+    graceDays: z.number(),
+    prefixes: z.array(z.string()),
+    scanned: z.number(),
+    referenced: z.number(),
+    recent: z.number(),
+    orphanCount: z.number(),
+    orphanBytes: z.number(),
+    orphans: z.array(z.object({ key: z.string(), size: z.number(), lastModified: z.number().nullable() })),
+    deleted: z.number(),
+  }),
+);
+
+// ---------------------------------------------------------------------------------------------
+// /api/scrape/product
+
+export const scrapeProductBodySchema = z.object({ url: z.string().trim().min(1, "Please provide a product URL.") });
+export type ScrapeProductBody = z.input<typeof scrapeProductBodySchema>;
+
+export type ScrapedProduct = {
+  name: string;
+  price: number | null;
+  description: string | null;
+  imageUrl: string | null;
+  brand: string | null;
+  sourceUrl: string;
+  sourceDomain: string;
+  currency: string | null;
+  originalPrice: number | null;
+  discountPercent: number | null;
+  availability: ProductAvailability | null;
+  dimensionsText: string | null;
+  variantText: string | null;
+  variants: ProductVariant[];
+  specs: Array<{ key: string; value: string }>;
+  raw: {
+    jsonLdCount: number;
+    meta: Record<string, string | null>;
+    // Site-specific extractor that handled the page (api/_lib/scrape/extractors), if any.
+    extractor?: string | null;
+  };
+  captureMethod: "fallback_scraper";
+};
+
+// Which page fetcher produced the product: ScrapingBee without ("fast") or with ("rendered")
+// JavaScript, a plain server-side fetch, or a saved page (api/_lib/scrape/fetchers).
+export type ScrapeFetchMode = "fast" | "rendered" | "direct" | "fixture";
+
+export type ScrapeProductResponse = {
+  ok: true;
+  data: ScrapedProduct;
+  mode: ScrapeFetchMode | "image_url_shortcut";
+  fallbackUsed?: boolean;
+};
+
+export const scrapeProductResponseSchema = contract<ScrapeProductResponse>(
+  okResponse({
+    data: z.object({
+      name: z.string(),
+      price: z.number().nullable(),
+      description: z.string().nullable(),
+      imageUrl: z.string().nullable(),
+      brand: z.string().nullable(),
+      sourceUrl: z.string(),
+      sourceDomain: z.string(),
+      currency: z.string().nullable(),
+      originalPrice: z.number().nullable(),
+      discountPercent: z.number().nullable(),
+      availability: z.enum(PRODUCT_AVAILABILITIES).nullable(),
+      dimensionsText: z.string().nullable(),
+      variantText: z.string().nullable(),
+      variants: z.array(productVariantSchema),
+      specs: z.array(z.object({ key: z.string(), value: z.string() })),
+      raw: z.object({
+        jsonLdCount: z.number(),
+        meta: z.record(z.string().nullable()),
+        extractor: z.string().nullable().optional(),
+      }),
+      captureMethod: z.literal("fallback_scraper"),
+    }),
+    mode: z.enum(["fast", "rendered", "direct", "fixture", "image_url_shortcut"]),
+    fallbackUsed: z.boolean().optional(),
+  }),
+);
+
+// ---------------------------------------------------------------------------------------------
+// /api/clip (browser extension)
+
+// The extension sends whatever the page yielded; the handler normalises values, so accept loose types.
+const looseText = z.string().nullable().optional();
+const looseNumber = z.union([z.number(), z.string()]).nullable().optional();
+
+export const clipBodySchema = z
+  .object({
+    clipperToken: looseText,
+    sourceUrl: looseText,
+    url: looseText,
+    name: looseText,
+    sourceDomain: looseText,
+    captureMethod: looseText,
+    room: looseText,
+    status: looseText,
+    qty: looseNumber,
+    price: looseNumber,
+    originalPrice: looseNumber,
+    discountPercent: looseNumber,
+    currency: looseText,
+    imageUrl: looseText,
+    brand: looseText,
+    description: looseText,
+    dimensionsText: looseText,
+    variantText: looseText,
+    store: looseText,
+    variants: z.unknown().optional(),
+    specs: z.unknown().optional(),
+    raw: z.unknown().optional(),
+  })
+  .refine((body) => Boolean(body.sourceUrl || body.url), { message: "Required", path: ["sourceUrl"] })
+  .refine((body) => Boolean(body.name), { message: "Required", path: ["name"] });
+export type ClipBody = z.input<typeof clipBodySchema>;
+
+export type ClipResponse = { ok: true; itemId: string; captureMethod: string; sourceUrl: string };
+
+export const clipResponseSchema = contract<ClipResponse>(
+  okResponse({
+    itemId: z.string(),
+    captureMethod: z.string(),
+    sourceUrl: z.string(),
+  }),
+);
+
+// ---------------------------------------------------------------------------------------------
+// /api/prices/check (price watch)
+
+export const priceCheckBodySchema = z.object({ url: z.string().trim().min(1, "Please provide a product URL.") });
+export type PriceCheckBody = z.input<typeof priceCheckBodySchema>;
+
+// The price-relevant part of a fresh scrape of a watched link.
+export type PriceCheck = {
+  url: string;
+  price: number | null;
+  originalPrice: number | null;
+  currency: string | null;
+  availability: ProductAvailability | null;
+  checkedAt: number;
+};
+
+export type PriceCheckResponse = { ok: true; data: PriceCheck; mode: ScrapeFetchMode };
+
+export const priceCheckResponseSchema = contract<PriceCheckResponse>(
+  okResponse({
+    data: z.object({
+      url: z.string(),
+      price: z.number().nullable(),
+      originalPrice: z.number().nullable(),
+      currency: z.string().nullable(),
+      availability: z.enum(PRODUCT_AVAILABILITIES).nullable(),
+      checkedAt: z.number(),
+    }),
+    mode: z.enum(["fast", "rendered", "direct", "fixture"]),
+  }),
+);
@@ -0,0 +1,70 @@
+import { GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { listDevices, registerDevice, revokeDevice, type DeviceRecord } from "./devices.js";
+
+// An S3 object with ETags, and a hook that lets "another instance" write between our read and write.
+const bucket = { body: null as string | null, etag: 0, beforePut: null as null | (() => void) };
+
+function preconditionFailed() {
+  return Object.assign(new Error("At least one of the pre-conditions you specified did not hold"), {
+    name: "PreconditionFailed",
+    $metadata: { httpStatusCode: 412 },
+  });
+}
+
+beforeAll(() => {
+  Object.assign(process.env, {
+    AUTH_DEVICE_STORE: "s3",
+    AWS_ACCESS_KEY_ID: "key",
+    AWS_SECRET_ACCESS_KEY: "secret",
+    AWS_REGION: "us-east-1",
+    AWS_S3_BUCKET: "bucket",
+  });
+  vi.spyOn(S3Client.prototype, "send").mockImplementation(async (command: unknown) => {
+    if (command instanceof GetObjectCommand) {
+      if (bucket.body === null) throw Object.assign(new Error("NoSuchKey"), { name: "NoSuchKey" });
+      const body = bucket.body;
+      return { Body: { transformToString: async () => body }, ETag: `"${bucket.etag}"` };
+    }
+    if (command instanceof PutObjectCommand) {
+      const hook = bucket.beforePut;
+      bucket.beforePut = null;
+      hook?.();
+      const { IfMatch, IfNoneMatch, Body } = command.input;
+      if (IfMatch ? IfMatch !== `"${bucket.etag}"` : IfNoneMatch === "*" && bucket.body !== null) throw preconditionFailed();
+      bucket.body = String(Body);
+      bucket.etag += 1;
+      return {};
+    }
+    throw new Error("Unexpected command");
+  });
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  for (const name of ["AUTH_DEVICE_STORE", "AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY", "AWS_REGION", "AWS_S3_BUCKET"]) {
+    delete process.env[name];
+  }
+});
+
+describe("device registry", () => {
+  it("keeps devices another instance registers while this one is saving", async () => {
+    const { device: laptop } = await registerDevice("Laptop", null);
+    // Another instance registers a phone after this one read the registry.
+    bucket.beforePut = () => {
+      const db = JSON.parse(bucket.body!);
+      db.devices.push({ ...laptop, id: "dev_phone", name: "Phone", tokenHash: "x" });
+      bucket.body = JSON.stringify(db);
+      bucket.etag += 1;
+    };
+    const { device: tablet } = await registerDevice("Tablet", null);
+    expect(await revokeDevice(laptop.id)).toBe(true);
+
+    expect((await listDevices()).map((d) => d.name)).toEqual(["Phone", "Tablet"]);
+    expect(JSON.parse(bucket.body!).devices.map((d: DeviceRecord) => [d.id, Boolean(d.revokedAt)])).toEqual([
+      [laptop.id, true],
+      ["dev_phone", false],
+      [tablet.id, false],
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { createHash, randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { GetObjectCommand, PutObjectCommand, S3Client, type S3ServiceException } from "@aws-sdk/client-s3";
+
+// Registry of signed-in devices. Each device holds a random token (only its hash is stored) that it
+// can exchange for a fresh session cookie; revoking the device invalidates both.
+// Stored in a JSON file next to the server, or in S3 on serverless hosts without a writable disk.
+// Several serverless instances can update the S3 copy at once, so writes there are conditional on
+// the ETag that was read and the update is redone on a conflict.
+
+export type DeviceRecord = {
+  id: string;
+  name: string;
+  tokenHash: string;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  revokedAt: number | null;
+};
+
+type DeviceDb = { version: 1; devices: DeviceRecord[] };
+
+// `version` identifies what was read (the S3 ETag; null for the file or a missing object). `write`
+// resolves false when the registry changed since, without writing.
+type StoredDb = { db: DeviceDb; version: string | null };
+
+type DeviceStore = { read(): Promise<StoredDb>; write(db: DeviceDb, version: string | null): Promise<boolean> };
+
+const CACHE_TTL_MS = 30_000;
+const TOUCH_INTERVAL_MS = 60 * 60_000;
+const MAX_WRITE_ATTEMPTS = 5;
+
+function emptyDb(): DeviceDb {
+  return { version: 1, devices: [] };
+}
+
+function parseDb(text: string, where: string): DeviceDb {
+  if (!text) return emptyDb();
+  const parsed = JSON.parse(text);
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.devices)) {
+    throw new Error(`Unrecognized device registry at ${where}`);
+  }
+  return parsed as DeviceDb;
+}
+
+function fileStore(): DeviceStore {
+  const file = path.resolve(process.cwd(), process.env.AUTH_DEVICES_PATH || ".data/auth-devices.json");
+  return {
+    // One server process owns the file; `mutate` already serialises its writes.
+    async read() {
+      try {
+        return { db: parseDb(await readFile(file, "utf-8"), file), version: null };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException | null)?.code === "ENOENT") return { db: emptyDb(), version: null };
+        throw err;
+      }
+    },
+    async write(db) {
+      await mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(db, null, 2), "utf-8");
+      await rename(tmp, file);
+      return true;
+    },
+  };
+}
+
+function s3Store(): DeviceStore {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  const region = process.env.AWS_REGION;
+  const bucket = process.env.AWS_S3_BUCKET;
+  if (!accessKeyId || !secretAccessKey || !region || !bucket) {
+    throw new Error("AUTH_DEVICE_STORE=s3 needs the AWS env vars (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_REGION, AWS_S3_BUCKET).");
+  }
+  const client = new S3Client({ region, credentials: { accessKeyId, secretAccessKey } });
+  const key = process.env.AUTH_DEVICES_S3_KEY || "auth/devices.json";
+  return {
+    async read() {
+      try {
+        const out = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+        const db = parseDb((await out.Body?.transformToString("utf-8")) || "", `s3://${bucket}/${key}`);
+        return { db, version: out.ETag || null };
+      } catch (err) {
+        const aws = err as Partial<S3ServiceException> | null;
+        if (aws?.name === "NoSuchKey" || aws?.$metadata?.httpStatusCode === 404) return { db: emptyDb(), version: null };
+        throw err;
+      }
+    },
+    async write(db, version) {
+      try {
+        await client.send(
+          new PutObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            Body: JSON.stringify(db, null, 2),
+            ContentType: "application/json",
+            // Only replace what was read; a registry that didn't exist must still not exist.
+            ...(version ? { IfMatch: version } : { IfNoneMatch: "*" }),
+          }),
+        );
+        return true;
+      } catch (err) {
+        // 412: the ETag no longer matches; 409: another conditional write to the key is in flight.
+        const status = (err as Partial<S3ServiceException> | null)?.$metadata?.httpStatusCode;
+        if (status === 412 || status === 409) return false;
+        throw err;
+      }
+    },
+  };
+}
+
+// Vercel functions have no persistent disk, so default to S3 there.
+export function deviceStoreName(): "file" | "s3" {
+  const raw = (process.env.AUTH_DEVICE_STORE || (process.env.VERCEL === "1" ? "s3" : "file")).trim().toLowerCase();
+  if (raw === "file" || raw === "s3") return raw;
+  throw new Error(`Unknown AUTH_DEVICE_STORE "${raw}" (expected "file" or "s3")`);
+}
+
+let store: DeviceStore | null = null;
+let cached: { db: DeviceDb; at: number } | null = null;
+
+function getStore() {
+  store ??= deviceStoreName() === "s3" ? s3Store() : fileStore();
+  return store;
+}
+
+// Other serverless instances may still see a revoked device for up to CACHE_TTL_MS.
+async function readDevices(): Promise<DeviceDb> {
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.db;
+  const { db } = await getStore().read();
+  cached = { db, at: Date.now() };
+  return db;
+}
+
+// Serialise read-modify-write cycles within the server process; `fn` runs again on a fresh copy
+// when another instance wrote the registry in between.
+let queue: Promise<unknown> = Promise.resolve();
+function mutate<T>(fn: (db: DeviceDb) => T): Promise<T> {
+  const run = queue.then(async () => {
+    for (let attempt = 1; ; attempt++) {
+      const { db, version } = await getStore().read();
+      const out = fn(db);
+      if (await getStore().write(db, version)) {
+        cached = { db, at: Date.now() };
+        return out;
+      }
+      if (attempt === MAX_WRITE_ATTEMPTS) throw new Error("The device registry kept changing while saving it; try again.");
+    }
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+export function hashDeviceToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function listDevices() {
+  return (await readDevices()).devices.filter((d) => !d.revokedAt);
+}
+
+export async function getActiveDevice(id: string) {
+  const device = (await readDevices()).devices.find((d) => d.id === id);
+  return device && !device.revokedAt ? device : null;
+}
+
+export async function findDeviceByToken(token: string) {
+  const tokenHash = hashDeviceToken(token);
+  const device = (await readDevices()).devices.find((d) => d.tokenHash === tokenHash);
+  return device && !device.revokedAt ? device : null;
+}
+
+export async function registerDevice(name: string, userAgent: string | null) {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const device: DeviceRecord = {
+    id: `dev_${randomBytes(8).toString("hex")}`,
+    name: name.slice(0, 80) || "Unnamed device",
+    tokenHash: hashDeviceToken(token),
+    userAgent: userAgent ? userAgent.slice(0, 200) : null,
+    createdAt: now,
+    lastSeenAt: now,
+    revokedAt: null,
+  };
+  await mutate((db) => db.devices.push(device));
+  return { device, token };
+}
+
+// Best-effort "last seen" stamp, written at most once per TOUCH_INTERVAL_MS per device.
+export async function touchDevice(device: DeviceRecord) {
+  if (Date.now() - device.lastSeenAt < TOUCH_INTERVAL_MS) return;
+  device.lastSeenAt = Date.now();
+  await mutate((db) => {
+    const row = db.devices.find((d) => d.id === device.id);
+    if (row) row.lastSeenAt = device.lastSeenAt;
+  }).catch(() => undefined);
+}
+
+export async function revokeDevice(id: string) {
+  return await mutate((db) => {
+    const row = db.devices.find((d) => d.id === id && !d.revokedAt);
+    if (row) row.revokedAt = Date.now();
+    return Boolean(row);
+  });
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseDimensionsText } from "./dimensions.js";
+
+describe("parseDimensionsText", () => {
+  it("reads labelled axes in inches, feet and centimetres", () => {
+    expect(parseDimensionsText('84"W x 38"D x 33"H')).toEqual({ wIn: 84, dIn: 38, hIn: 33, confidence: "high" });
+    expect(parseDimensionsText("33'' H X 84'' W X 36'' D")).toEqual({ wIn: 84, dIn: 36, hIn: 33, confidence: "high" });
+    expect(parseDimensionsText("Width: 80 3/8 \"; Depth: 35 \"; Height: 30 3/4 \"")).toEqual({
+      wIn: 80.38,
+      dIn: 35,
+      hIn: 30.75,
+      confidence: "high",
+    });
+    expect(parseDimensionsText(`7' 2" L`)).toEqual({ wIn: 86, dIn: null, hIn: null, confidence: "high" });
+    expect(parseDimensionsText("W 200 x D 90 x H 75 cm")).toEqual({ wIn: 78.74, dIn: 35.43, hIn: 29.53, confidence: "high" });
+  });
+
+  it("treats a diameter as width and depth", () => {
+    expect(parseDimensionsText("Dia. 36 in")).toEqual({ wIn: 36, dIn: 36, hIn: null, confidence: "high" });
+    expect(parseDimensionsText('36" dia x 30" H')).toEqual({ wIn: 36, dIn: 36, hIn: 30, confidence: "high" });
+  });
+
+  it("reads unlabelled groups as width x depth x height", () => {
+    expect(parseDimensionsText("213 x 97 x 84 cm")).toEqual({ wIn: 83.86, dIn: 38.19, hIn: 33.07, confidence: "med" });
+    expect(parseDimensionsText("90x39x34 in")).toEqual({ wIn: 90, dIn: 39, hIn: 34, confidence: "med" });
+    expect(parseDimensionsText("84 x 38 x 33")).toEqual({ wIn: 84, dIn: 38, hIn: 33, confidence: "low" });
+    expect(parseDimensionsText("60 x 36 in")).toEqual({ wIn: 60, dIn: 36, hIn: null, confidence: "low" });
+  });
+
+  it("skips part measurements, weights and prices", () => {
+    expect(parseDimensionsText('Overall: 82"w x 39"d x 34"h. Seat height: 18". Weight: 112 lb.')).toEqual({
+      wIn: 82,
+      dIn: 39,
+      hIn: 34,
+      confidence: "high",
+    });
+    expect(parseDimensionsText("Seat height 18 in")).toBeNull();
+    expect(parseDimensionsText("$899 sofa, 3 seats")).toBeNull();
+    expect(parseDimensionsText("")).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+// Reads free-text product dimensions ("84"W x 38"D x 33"H", "213 x 97 x 84 cm", "7' 2" L",
+// "Dia. 36 in") into inches. Shared by the clipper, the Airtable pull and the app (scrape capture,
+// JSON import, option editing), so every path files the same text the same way.
+//
+// Confidence says how much was guessed: "high" when every axis was labelled and had a unit, "med"
+// when axes came from their order in an unlabelled "A x B x C" group, "low" when no unit was given
+// (inches are assumed) or only two unlabelled numbers were found.
+
+export type DimensionsConfidence = "low" | "med" | "high";
+
+export type ParsedDimensions = {
+  wIn: number | null;
+  dIn: number | null;
+  hIn: number | null;
+  confidence: DimensionsConfidence;
+};
+
+type Axis = "w" | "d" | "h" | "dia";
+
+type Quantity = {
+  value: number;
+  // Null when not given: such numbers borrow the unit of their group ("213 x 97 x 84 cm").
+  unit: string | null;
+  inches: number;
+  unitGuessed: boolean;
+  axis: Axis | null;
+  start: number;
+  end: number;
+};
+
+const NUM = String.raw`\d+(?:\.\d+)?(?:\s+\d+\/\d+)?|\d+\/\d+`;
+const INCH_UNIT = String.raw`"|in(?:ch(?:es)?)?(?![a-z]{2})\.?`;
+const QUANTITY = new RegExp(
+  String.raw`(${NUM})\s*(?:'|ft\b\.?|feet|foot)(?:\s*(${NUM})\s*(?:${INCH_UNIT}))?` +
+    String.raw`|(${NUM})\s*(mm|cm|m(?![a-z]{2})|${INCH_UNIT}|lbs?\b|kg\b|pounds?\b|%)?`,
+  "g",
+);
+
+const LABEL = String.raw`width|wide|w|depth|deep|d|height|high|tall|h|length|long|l|diameter|dia\.?|ø`;
+const SUFFIX_LABEL = new RegExp(String.raw`^\s*\.?\s*(${LABEL})(?![a-z])`);
+const PREFIX_LABEL = new RegExp(String.raw`(?<![a-z])(${LABEL})\s*[.:=]?\s*(?:\(\s*(?:in|cm|mm)\s*\)\s*:?\s*)?$`);
+// "Seat height: 18"" or "Arm height" describe part of the piece, not its outer size.
+const PART_QUALIFIER = new RegExp(
+  String.raw`(?<![a-z])(seat|arm|leg|back|shelf|shelves|drawer|interior|inside|inner|cushion|box|package|carton|opening|clearance|` +
+    String.raw`headboard|footboard|min|max)\b`,
+);
+
+const TO_INCHES: Record<string, number> = { mm: 1 / 25.4, cm: 1 / 2.54, m: 100 / 2.54, in: 1, ft: 12 };
+
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[″“”]|''/g, '"')
+    .replace(/[′‘’]/g, "'")
+    .replace(/[×✕]/g, "x")
+    .replace(/(\d)\s*½/g, "$1 1/2")
+    .replace(/(\d)\s*¼/g, "$1 1/4")
+    .replace(/(\d)\s*¾/g, "$1 3/4")
+    .replace(/\s+/g, " ");
+}
+
+function parseNumber(raw: string) {
+  let total = 0;
+  for (const part of raw.trim().split(/\s+/)) {
+    const [num, den] = part.split("/");
+    total += den ? Number(num) / Number(den) : Number(num);
+  }
+  return Number.isFinite(total) ? total : NaN;
+}
+
+function unitKey(raw: string | undefined): string | null {
+  if (!raw) return null;
+  if (raw === '"' || raw.startsWith("in")) return "in";
+  if (raw === "mm" || raw === "cm" || raw === "m") return raw;
+  return "other";
+}
+
+function axisFor(label: string): Axis {
+  const l = label.replace(/\.$/, "");
+  if (l === "ø" || l.startsWith("dia")) return "dia";
+  if (l.startsWith("d")) return "d";
+  if (l.startsWith("h") || l === "tall") return "h";
+  return "w";
+}
+
+function scan(text: string): Quantity[] {
+  const out: Quantity[] = [];
+  let lastEnd = 0;
+  let match: RegExpExecArray | null = null;
+  QUANTITY.lastIndex = 0;
+  while ((match = QUANTITY.exec(text)) && out.length < 16) {
+    const start = match.index;
+    let end = start + match[0].length;
+    const before = text.slice(lastEnd, start);
+
+    let value: number;
+    let unit: string | null;
+    if (match[1] !== undefined) {
+      value = parseNumber(match[1]) * 12 + (match[2] ? parseNumber(match[2]) : 0);
+      unit = "in";
+    } else {
+      value = parseNumber(match[3]);
+      unit = unitKey(match[4]);
+    }
+
+    const prefix = before.match(PREFIX_LABEL);
+    const suffix = prefix ? null : text.slice(end).match(SUFFIX_LABEL);
+    if (suffix) end += suffix[0].length;
+    lastEnd = end;
+
+    // Prices, weights and percentages aren't lengths; qualified parts ("seat height") are skipped.
+    const segment = before.split(/[;,|\n]|\. /).pop() || "";
+    if (unit === "other" || text[start - 1] === "$" || PART_QUALIFIER.test(segment)) continue;
+    if (!(value > 0)) continue;
+
+    const label = prefix?.[1] ?? suffix?.[1] ?? null;
+    out.push({ value, unit, inches: 0, unitGuessed: false, axis: label ? axisFor(label) : null, start, end });
+  }
+  return out;
+}
+
+// Unlabelled numbers only count inside an "A x B x C" group; the first one in the text is used.
+function firstGroup(text: string, quantities: Quantity[]): Quantity[] {
+  const joined = (a: Quantity, b: Quantity) => /^\s*x\s*$/.test(text.slice(a.end, b.start));
+  const first = quantities.findIndex((q, i) => i < quantities.length - 1 && joined(q, quantities[i + 1]));
+  if (first === -1) return [];
+  const group = [quantities[first]];
+  for (let i = first + 1; i < quantities.length && joined(quantities[i - 1], quantities[i]); i++) group.push(quantities[i]);
+  return group;
+}
+
+function round(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+export function parseDimensionsText(raw: unknown): ParsedDimensions | null {
+  if (typeof raw !== "string" || !raw.trim()) return null;
+  const text = normalize(raw);
+  const quantities = scan(text);
+  if (!quantities.length) return null;
+
+  const chain = firstGroup(text, quantities);
+
+  const explicitUnits = quantities.filter((q) => q.unit);
+  for (const q of quantities) {
+    const group = chain.includes(q) ? chain : quantities;
+    const unit =
+      q.unit ??
+      group.find((other) => other.unit && other.start > q.start)?.unit ??
+      group.find((other) => other.unit)?.unit ??
+      explicitUnits[0]?.unit ??
+      null;
+    q.unitGuessed = !unit;
+    q.inches = q.value * TO_INCHES[unit || "in"];
+  }
+
+  const dims: Record<Axis, number | null> = { w: null, d: null, h: null, dia: null };
+  const used: Quantity[] = [];
+  const assign = (axis: Axis, q: Quantity) => {
+    dims[axis] = q.inches;
+    used.push(q);
+  };
+  for (const q of quantities) {
+    if (q.axis && dims[q.axis] === null) assign(q.axis, q);
+  }
+
+  const unlabelled = chain.filter((q) => !q.axis);
+  if (unlabelled.length) {
+    // A diameter already covers width and depth.
+    const free = (["w", "d", "h"] as const).filter((axis) => dims[axis] === null && (axis === "h" || dims.dia === null));
+    unlabelled.slice(0, free.length).forEach((q, i) => assign(free[i], q));
+  }
+  if (dims.dia !== null) {
+    dims.w ??= dims.dia;
+    dims.d ??= dims.dia;
+  }
+
+  const clean = (n: number | null) => (n !== null && n > 0 && n <= 1200 ? round(n) : null);
+  const wIn = clean(dims.w);
+  const dIn = clean(dims.d);
+  const hIn = clean(dims.h);
+  if (wIn === null && dIn === null && hIn === null) return null;
+
+  const byOrder = used.filter((q) => !q.axis);
+  let confidence: DimensionsConfidence = "high";
+  if (byOrder.length) confidence = byOrder.length === used.length && byOrder.length < 3 ? "low" : "med";
+  if (used.some((q) => q.unitGuessed)) confidence = "low";
+  return { wIn, dIn, hIn, confidence };
+}
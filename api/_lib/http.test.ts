@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { syncPullQuerySchema, syncPushBodySchema } from "./contracts.js";
+import { parseInput, parseQuery } from "./http.js";
+
+function fakeRes() {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: null as { ok: boolean; message: string; fieldErrors: Record<string, string[]> } | null,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    },
+    end(text: string) {
+      res.body = JSON.parse(text);
+    },
+  };
+  return res;
+}
+
+const item = { id: "item_1", name: "Sofa", room: "Living", category: "Seating", status: "Idea", qty: 1, createdAt: 1, updatedAt: 1 };
+
+describe("http", () => {
+  it("answers 400 with field-level errors when a body does not match its contract", () => {
+    const res = fakeRes();
+    const body = parseInput(res, syncPushBodySchema, {
+      mode: "merge",
+      items: [item, { ...item, id: "", price: "12" }],
+    });
+    expect(body).toBeNull();
+    expect(res.statusCode).toBe(400);
+    expect(res.body?.ok).toBe(false);
+    expect(Object.keys(res.body?.fieldErrors ?? {}).sort()).toEqual(["items.1.id", "items.1.price", "mode"]);
+    expect(res.body?.message).toMatch(/^Invalid request: /);
+  });
+
+  it("returns parsed input with defaults applied and leaves the response alone", () => {
+    const res = fakeRes();
+    // Fields the backends don't map pass through.
+    const withAttachments = { ...item, attachments: [{ id: "att_1" }] };
+    expect(parseInput(res, syncPushBodySchema, { items: [withAttachments] })).toEqual({ mode: "commit", items: [withAttachments] });
+    expect(parseQuery({ url: "/api/sync/pull?since=abc&full=1&home=oak-street" }, res, syncPullQuerySchema)).toEqual({
+      since: "abc",
+      full: true,
+      target: { home: "oak-street" },
+    });
+    expect(res.statusCode).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { z } from "zod";
+import type { ApiError } from "./contracts.js";
+
+// Request/response plumbing shared by the `/api/*` handlers.
+
+// Node's request and response, as both Vercel and the Vite dev middleware hand them over. Vercel
+// has already parsed JSON bodies into `body`; under Vite the stream is still unread.
+export type ApiRequest = IncomingMessage & { body?: unknown };
+export type ApiResponse = ServerResponse;
+
+export function errorMessage(err: unknown, fallback: string) {
+  return err instanceof Error && err.message ? err.message : fallback;
+}
+
+export function sendJson<T extends { ok: boolean } = ApiError>(res: ApiResponse, status: number, body: T) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+export function methodNotAllowed(res: ApiResponse) {
+  sendJson(res, 405, { ok: false, message: "Method not allowed" });
+}
+
+export function readJsonBody(req: ApiRequest): Promise<unknown> {
+  if (req.body && typeof req.body === "object") return Promise.resolve(req.body);
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk: Buffer | string) => (data += String(chunk)));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+export function fieldErrors(error: z.ZodError): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const key = issue.path.join(".") || "body";
+    (out[key] ??= []).push(issue.message);
+  }
+  return out;
+}
+
+// Validates `input` against `schema`. On mismatch answers 400 with field-level errors and returns
+// null; handlers should return right away in that case.
+export function parseInput<S extends z.ZodTypeAny>(res: ApiResponse, schema: S, input: unknown): z.output<S> | null {
+  const parsed = schema.safeParse(input);
+  if (parsed.success) return parsed.data;
+  const errors = fieldErrors(parsed.error);
+  const [field, messages] = Object.entries(errors)[0];
+  sendJson(res, 400, { ok: false, message: `Invalid request: ${field}: ${messages[0]}`, fieldErrors: errors });
+  return null;
+}
+
+export async function parseJsonBody<S extends z.ZodTypeAny>(req: ApiRequest, res: ApiResponse, schema: S): Promise<z.output<S> | null> {
+  let raw: unknown;
+  try {
+    raw = await readJsonBody(req);
+  } catch {
+    sendJson(res, 400, { ok: false, message: "Request body is not valid JSON." });
+    return null;
+  }
+  return parseInput(res, schema, raw);
+}
+
+export function parseQuery<S extends z.ZodTypeAny>(req: ApiRequest, res: ApiResponse, schema: S): z.output<S> | null {
+  const url = new URL(req.url || "", "http://localhost");
+  return parseInput(res, schema, Object.fromEntries(url.searchParams));
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { mergePriceWatch, normalizePriceWatch, recordPriceCheck, recordPriceCheckError } from "./priceWatch.js";
+import { normalizeAvailability } from "./scrape/html.js";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("price watch", () => {
+  it("adds a point when the price or availability moves, or once a day", () => {
+    let watch = recordPriceCheck(null, { price: 1299, originalPrice: null, availability: "in_stock", checkedAt: 0 });
+    watch = recordPriceCheck(watch, { price: 1299, originalPrice: null, availability: "in_stock", checkedAt: 2 * HOUR });
+    expect(watch.history).toHaveLength(1);
+    expect(watch.lastCheckedAt).toBe(2 * HOUR);
+
+    watch = recordPriceCheck(watch, { price: 1039, originalPrice: 1299, availability: "in_stock", checkedAt: 3 * HOUR });
+    watch = recordPriceCheck(watch, { price: 1039, originalPrice: 1299, availability: "in_stock", checkedAt: 27 * HOUR });
+    expect(watch.history.map((p) => [p.at, p.price])).toEqual([
+      [0, 1299],
+      [3 * HOUR, 1039],
+      [27 * HOUR, 1039],
+    ]);
+
+    watch = recordPriceCheckError(watch, "Blocked", 28 * HOUR);
+    expect(watch).toMatchObject({ lastError: "Blocked", lastCheckedAt: 28 * HOUR });
+    expect(recordPriceCheck(watch, { price: 999, originalPrice: null, availability: null, checkedAt: 29 * HOUR }).lastError).toBeNull();
+  });
+
+  it("cleans stored history and reads schema.org availability", () => {
+    expect(
+      normalizePriceWatch({
+        targetPrice: "900",
+        history: [{ at: 20, price: "899", availability: "bogus" }, { at: 10, price: 950 }, null, { price: 1 }],
+      }),
+    ).toEqual({
+      enabled: true,
+      targetPrice: 900,
+      lastCheckedAt: null,
+      lastError: null,
+      history: [
+        { at: 10, price: 950, originalPrice: null, availability: null },
+        { at: 20, price: 899, originalPrice: null, availability: null },
+      ],
+    });
+    expect(normalizePriceWatch("yes")).toBeNull();
+
+    expect(normalizeAvailability("https://schema.org/InStock")).toBe("in_stock");
+    expect(normalizeAvailability("http://schema.org/OutOfStock")).toBe("out_of_stock");
+    expect(normalizeAvailability("PreOrder")).toBe("preorder");
+    expect(normalizeAvailability("in stock")).toBe("in_stock");
+    expect(normalizeAvailability("unavailable")).toBe("out_of_stock");
+    expect(normalizeAvailability("maybe")).toBeNull();
+  });
+
+  it("joins the histories recorded on two devices", () => {
+    const check = (price: number, checkedAt: number) => ({ price, originalPrice: null, availability: null, checkedAt });
+    const here = recordPriceCheck({ ...recordPriceCheck(null, check(100, 10)), targetPrice: 80 }, check(90, 30));
+    const there = recordPriceCheckError(recordPriceCheck(null, check(95, 20)), "Blocked", 40);
+
+    const merged = mergePriceWatch(here, there);
+    expect(merged?.history.map((p) => [p.at, p.price])).toEqual([
+      [10, 100],
+      [20, 95],
+      [30, 90],
+    ]);
+    expect(merged).toMatchObject({ enabled: true, targetPrice: 80, lastCheckedAt: 40, lastError: "Blocked" });
+    expect(mergePriceWatch(null, there)).toEqual(there);
+  });
+});
@@ -0,0 +1,99 @@
+import { PRODUCT_AVAILABILITIES, type PriceCheck, type PricePoint, type PriceWatch, type ProductAvailability } from "./contracts.js";
+
+export type { PricePoint, PriceWatch };
+
+// Price history of a watched item or option link, kept on the record (and in its Airtable app
+// meta) so it syncs like any other field. Shared by the app, which records checks and imports
+// backups, and the Airtable pull.
+//
+// A check adds a point only when the price, original price or availability moved, or when the last
+// point is a day old. Unchanged checks just move `lastCheckedAt`, which keeps the history short.
+
+export const MAX_PRICE_POINTS = 120;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function toAvailability(value: unknown): ProductAvailability | null {
+  return PRODUCT_AVAILABILITIES.includes(value as ProductAvailability) ? (value as ProductAvailability) : null;
+}
+
+export function emptyPriceWatch(): PriceWatch {
+  return { enabled: true, targetPrice: null, lastCheckedAt: null, lastError: null, history: [] };
+}
+
+export function normalizePriceWatch(raw: unknown): PriceWatch | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const history = (Array.isArray(obj.history) ? obj.history : [])
+    .filter((point): point is Record<string, unknown> => Boolean(point) && typeof point === "object")
+    .map((point) => ({
+      at: toNumber(point.at) ?? 0,
+      price: toNumber(point.price),
+      originalPrice: toNumber(point.originalPrice),
+      availability: toAvailability(point.availability),
+    }))
+    .filter((point) => point.at > 0)
+    .sort((a, b) => a.at - b.at)
+    .slice(-MAX_PRICE_POINTS);
+  return {
+    enabled: obj.enabled !== false,
+    targetPrice: toNumber(obj.targetPrice),
+    lastCheckedAt: toNumber(obj.lastCheckedAt),
+    lastError: typeof obj.lastError === "string" && obj.lastError ? obj.lastError : null,
+    history,
+  };
+}
+
+export function recordPriceCheck(
+  watch: PriceWatch | null | undefined,
+  check: Pick<PriceCheck, "price" | "originalPrice" | "availability" | "checkedAt">,
+): PriceWatch {
+  const base = watch || emptyPriceWatch();
+  const point: PricePoint = {
+    at: check.checkedAt,
+    price: check.price,
+    originalPrice: check.originalPrice,
+    availability: check.availability,
+  };
+  const last = base.history[base.history.length - 1];
+  const moved =
+    !last ||
+    last.price !== point.price ||
+    last.originalPrice !== point.originalPrice ||
+    last.availability !== point.availability ||
+    point.at - last.at >= DAY_MS;
+  return {
+    ...base,
+    lastCheckedAt: check.checkedAt,
+    lastError: null,
+    history: moved ? [...base.history, point].slice(-MAX_PRICE_POINTS) : base.history,
+  };
+}
+
+export function recordPriceCheckError(watch: PriceWatch | null | undefined, message: string, at: number): PriceWatch {
+  return { ...(watch || emptyPriceWatch()), lastCheckedAt: at, lastError: message };
+}
+
+// Combines the watch of a record edited on this device with the pulled one, so checks recorded on
+// either side survive: history points are joined by time (this side wins a tie) and the newer check
+// decides `lastCheckedAt` and `lastError`. `enabled` and `targetPrice` are tracked fields (see
+// src/lib/trackedFields.ts), already merged into `local` by the time this runs.
+export function mergePriceWatch(local: unknown, remote: unknown): PriceWatch | null {
+  const a = normalizePriceWatch(local);
+  const b = normalizePriceWatch(remote);
+  if (!a || !b) return a || b;
+  const byAt = new Map<number, PricePoint>();
+  for (const point of [...b.history, ...a.history]) byAt.set(point.at, point);
+  const remoteNewer = (b.lastCheckedAt ?? 0) > (a.lastCheckedAt ?? 0);
+  return {
+    ...a,
+    lastCheckedAt: remoteNewer ? b.lastCheckedAt : a.lastCheckedAt,
+    lastError: remoteNewer ? b.lastError : a.lastError,
+    history: [...byAt.values()].sort((x, y) => x.at - y.at).slice(-MAX_PRICE_POINTS),
+  };
+}
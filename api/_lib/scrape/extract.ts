@@ -0,0 +1,198 @@
+import type { ScrapedProduct } from "../contracts.js";
+import { runSiteExtractor, siteExtractorFor } from "./extractors/index.js";
+import {
+  appendSpec,
+  collectAdditionalPropertySpecs,
+  extractAvailabilityFromOffers,
+  extractBrand,
+  extractCurrencyFromOffers,
+  extractDimensionsText,
+  extractFirstH1,
+  extractImage,
+  extractOriginalPriceFromOffers,
+  extractPriceFromOffers,
+  extractProductsFromLdJson,
+  extractSpecsFromTables,
+  extractTitleTag,
+  firstNonEmpty,
+  firstPriceFromPatterns,
+  getMeta,
+  normalizeAvailability,
+  normalizeCurrency,
+  normalizeUrl,
+  parsePercent,
+  parsePrice,
+  readMetaTags,
+  sourceDomainFromUrl,
+  type LdProduct,
+  type ProductSpec,
+} from "./html.js";
+import { extractVariants } from "./variants.js";
+
+function extractPriceFromHtmlSignals(html: string): number | null {
+  // High-confidence price markers used by Amazon and common storefront scripts.
+  const strongPatterns = [
+    /"priceToPay"\s*:\s*\{[\s\S]{0,220}?"price"\s*:\s*"?([0-9]+(?:\.[0-9]{1,2})?)"?/gi,
+    /"priceAmount"\s*:\s*"?([0-9]+(?:\.[0-9]{1,2})?)"?/gi,
+    /"currentPrice"\s*:\s*"?\$?([0-9][0-9,]*(?:\.[0-9]{1,2})?)"?/gi,
+    /"salePrice"\s*:\s*"?\$?([0-9][0-9,]*(?:\.[0-9]{1,2})?)"?/gi,
+    /"ourPrice"\s*:\s*"?\$?([0-9][0-9,]*(?:\.[0-9]{1,2})?)"?/gi,
+    /"listPrice"\s*:\s*"?\$?([0-9][0-9,]*(?:\.[0-9]{1,2})?)"?/gi,
+    /<span[^>]*class=["'][^"']*a-offscreen[^"']*["'][^>]*>\s*\$([0-9][0-9,]*(?:\.[0-9]{2})?)\s*<\/span>/gi,
+  ];
+  const strong = firstPriceFromPatterns(html, strongPatterns);
+  if (strong !== null) return strong;
+
+  // Safer generic JSON fallback (requires explicit currency context).
+  const guardedPatterns = [
+    /"price"\s*:\s*"?([0-9]+(?:\.[0-9]{1,2})?)"?\s*,\s*"priceCurrency"\s*:\s*"[A-Z]{3}"/gi,
+    /"priceCurrency"\s*:\s*"[A-Z]{3}"\s*,\s*"price"\s*:\s*"?([0-9]+(?:\.[0-9]{1,2})?)"?/gi,
+  ];
+  return firstPriceFromPatterns(html, guardedPatterns);
+}
+
+function extractOriginalPriceFromHtmlSignals(html: string): number | null {
+  const patterns = [
+    /"listPrice"\s*:\s*"?\$?([0-9][0-9,]*(?:\.[0-9]{1,2})?)"?/gi,
+    /"strikeThroughPrice"\s*:\s*"?\$?([0-9][0-9,]*(?:\.[0-9]{1,2})?)"?/gi,
+    /"highPrice"\s*:\s*"?([0-9][0-9,]*(?:\.[0-9]{1,2})?)"?/gi,
+    /class=["'][^"']*(?:a-text-price|priceBlockStrikePriceString)[^"']*["'][^>]*>\s*\$([0-9][0-9,]*(?:\.[0-9]{2})?)\s*</gi,
+  ];
+  return firstPriceFromPatterns(html, patterns);
+}
+
+function extractDiscountPercentFromHtmlSignals(html: string): number | null {
+  const patterns = [
+    /([0-9]{1,2})\s*%\s*off/gi,
+    /"savingsPercentage"\s*:\s*"?([0-9]{1,2}(?:\.[0-9])?)"?/gi,
+  ];
+  for (const pattern of patterns) {
+    const regex = new RegExp(pattern.source, pattern.flags);
+    const match = regex.exec(html);
+    if (!match?.[1]) continue;
+    const parsed = parsePercent(`${match[1]}%`);
+    if (parsed !== null) return parsed;
+  }
+  return null;
+}
+
+function bestLdProduct(products: LdProduct[]): LdProduct | null {
+  let best: LdProduct | null = null;
+  let score = -1;
+  for (const product of products) {
+    const nextScore = [
+      firstNonEmpty(product.name),
+      extractPriceFromOffers(product.offers),
+      firstNonEmpty(product.description),
+      extractImage(product.image),
+      extractBrand(product.brand),
+    ].filter((value) => value !== null).length;
+    if (nextScore > score) {
+      score = nextScore;
+      best = product;
+    }
+  }
+  return best;
+}
+
+// Site extractors (./extractors/) run first; every field they leave unset comes from the generic
+// signals: JSON-LD, meta tags, spec tables and price patterns.
+export function extractProduct(html: string, sourceUrl: string): ScrapedProduct | null {
+  const meta = readMetaTags(html);
+  const products = extractProductsFromLdJson(html);
+  const ld = bestLdProduct(products);
+  const sourceDomain = sourceDomainFromUrl(sourceUrl);
+  const extractor = siteExtractorFor(sourceDomain);
+  const site = (extractor && runSiteExtractor(extractor, { html, sourceUrl, meta, ld })) || {};
+
+  const name = firstNonEmpty(
+    site.name,
+    ld?.name,
+    getMeta(meta, "og:title", "twitter:title", "title"),
+    extractFirstH1(html),
+    extractTitleTag(html),
+  );
+  const description = firstNonEmpty(
+    site.description,
+    ld?.description,
+    getMeta(meta, "description", "og:description", "twitter:description"),
+  );
+  const imageUrl = normalizeUrl(
+    firstNonEmpty(site.imageUrl, extractImage(ld?.image), getMeta(meta, "og:image", "twitter:image", "twitter:image:src", "image")),
+  );
+  const brand = firstNonEmpty(site.brand, extractBrand(ld?.brand), getMeta(meta, "product:brand", "brand", "og:brand"));
+  const price =
+    site.price ??
+    parsePrice(getMeta(meta, "product:price:amount", "og:price:amount", "price", "itemprop:price")) ??
+    extractPriceFromOffers(ld?.offers) ??
+    parsePrice(ld?.price) ??
+    extractPriceFromHtmlSignals(html);
+  const currency =
+    normalizeCurrency(site.currency) ??
+    normalizeCurrency(getMeta(meta, "product:price:currency", "og:price:currency", "pricecurrency")) ??
+    extractCurrencyFromOffers(ld?.offers);
+  const originalPrice =
+    site.originalPrice ??
+    extractOriginalPriceFromOffers(ld?.offers) ??
+    parsePrice(getMeta(meta, "product:original_price", "product:list_price")) ??
+    extractOriginalPriceFromHtmlSignals(html);
+  const availability =
+    normalizeAvailability(site.availability) ??
+    normalizeAvailability(getMeta(meta, "product:availability", "og:availability", "availability")) ??
+    extractAvailabilityFromOffers(ld?.offers);
+  const derivedDiscount =
+    price !== null && originalPrice !== null && originalPrice > price
+      ? Number((((originalPrice - price) / originalPrice) * 100).toFixed(2))
+      : null;
+  // A site-specific price is trusted over page-wide "% off" banners.
+  const discountPercent =
+    site.discountPercent ??
+    (site.price != null
+      ? derivedDiscount
+      : (parsePercent(getMeta(meta, "product:discount", "discount")) ?? extractDiscountPercentFromHtmlSignals(html) ?? derivedDiscount));
+
+  const specs: ProductSpec[] = [];
+  const seenSpecs = new Set<string>();
+  for (const spec of site.specs || []) appendSpec(specs, seenSpecs, spec.key, spec.value);
+  for (const spec of extractSpecsFromTables(html)) appendSpec(specs, seenSpecs, spec.key, spec.value);
+  collectAdditionalPropertySpecs(ld?.additionalProperty, specs, seenSpecs);
+
+  const dimensionsText = firstNonEmpty(site.dimensionsText, extractDimensionsText(specs, description || null));
+  const variantText = firstNonEmpty(
+    site.variantText,
+    getMeta(meta, "product:color", "color", "product:size", "size", "product:material", "material"),
+    specs.find((s) => /(color|size|finish|material|style)/i.test(s.key))?.value,
+  );
+  const variants = site.variants?.length ? site.variants : extractVariants(html, products, sourceUrl);
+
+  const extractedFieldCount = [name, description, imageUrl, brand, price].filter((value) => value !== null).length;
+  if (extractedFieldCount === 0) return null;
+
+  return {
+    name: name || "New Item",
+    price,
+    description: description || null,
+    imageUrl: imageUrl || null,
+    brand: brand || null,
+    sourceUrl,
+    sourceDomain,
+    currency: currency || null,
+    originalPrice,
+    discountPercent,
+    availability,
+    dimensionsText: dimensionsText || null,
+    variantText: variantText || null,
+    variants,
+    specs,
+    raw: {
+      jsonLdCount: products.length,
+      meta: {
+        ogTitle: getMeta(meta, "og:title"),
+        ogImage: getMeta(meta, "og:image"),
+        ogDescription: getMeta(meta, "og:description"),
+      },
+      extractor: extractor?.name ?? null,
+    },
+    captureMethod: "fallback_scraper",
+  };
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { extractProduct } from "../extract.js";
+import { SITE_EXTRACTORS, siteExtractorFor, type SiteExtractor } from "./index.js";
+
+// A made-up store: the page carries a JSON-LD offer and a displayed sale price that disagree.
+const page = `<html><head><title>Oak Bench | Example Store</title>
+<script type="application/ld+json">{"@type":"Product","name":"Oak Bench","offers":{"price":"199.00","priceCurrency":"USD"}}</script>
+</head><body><h1>Oak Bench</h1><span class="sale">$149.00</span><span class="was">$199.00</span></body></html>`;
+
+const store: SiteExtractor = {
+  name: "example-store",
+  domains: ["example-store.test"],
+  extract: ({ html }) => ({
+    price: Number(/class="sale">\$([\d.]+)/.exec(html)?.[1]) || null,
+    originalPrice: Number(/class="was">\$([\d.]+)/.exec(html)?.[1]) || null,
+  }),
+};
+
+beforeEach(() => {
+  SITE_EXTRACTORS.push(store);
+});
+
+afterEach(() => {
+  SITE_EXTRACTORS.length = 0;
+});
+
+describe("site extractors", () => {
+  it("looks extractors up by domain, including subdomains", () => {
+    expect(siteExtractorFor("www.example-store.test")?.name).toBe("example-store");
+    expect(siteExtractorFor("m.shop.example-store.test")?.name).toBe("example-store");
+    expect(siteExtractorFor("example-store.test.evil.example")).toBeNull();
+    expect(siteExtractorFor("example.com")).toBeNull();
+  });
+
+  it("wins over the generic result and leaves the rest to it", () => {
+    const product = extractProduct(page, "https://www.example-store.test/oak-bench")!;
+    expect(product.price).toBe(149);
+    expect(product.originalPrice).toBe(199);
+    expect(product.name).toBe("Oak Bench");
+    expect(product.currency).toBe("USD");
+    expect(product.raw.extractor).toBe("example-store");
+  });
+
+  it("falls back to the generic path when an extractor throws", () => {
+    SITE_EXTRACTORS[0] = {
+      ...store,
+      extract: () => {
+        throw new Error("markup changed");
+      },
+    };
+    const product = extractProduct(page, "https://www.example-store.test/oak-bench")!;
+    expect(product.price).toBe(199);
+    expect(product.name).toBe("Oak Bench");
+  });
+
+  it("leaves other sites to the generic path", () => {
+    const product = extractProduct(page, "https://shop.example.com/oak-bench")!;
+    expect(product.price).toBe(199);
+    expect(product.raw.extractor).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import type { ExtractContext, SiteExtractor, SiteProductFields } from "./types.js";
+
+export type { ExtractContext, SiteExtractor, SiteProductFields } from "./types.js";
+
+// Per-retailer extractors, looked up by the product's `sourceDomain`. To support a store, add a module
+// next to this one, register it here and test it against a trimmed capture of the store's live product
+// page under __fixtures__. A page rebuilt by hand only shows the extractor agrees with its author.
+export const SITE_EXTRACTORS: SiteExtractor[] = [];
+
+// `www2.ikea.com` matches an extractor for `ikea.com`; `ikea.com.evil.example` doesn't.
+export function siteExtractorFor(sourceDomain: string): SiteExtractor | null {
+  let host = sourceDomain.toLowerCase().replace(/^www\./, "");
+  while (host.includes(".")) {
+    const extractor = SITE_EXTRACTORS.find((candidate) => candidate.domains.includes(host));
+    if (extractor) return extractor;
+    host = host.slice(host.indexOf(".") + 1);
+  }
+  return null;
+}
+
+// A broken extractor (markup changed under it) must not break scraping; the generic path still runs.
+export function runSiteExtractor(extractor: SiteExtractor, ctx: ExtractContext): SiteProductFields | null {
+  try {
+    return extractor.extract(ctx);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,22 @@
+import type { ScrapedProduct } from "../../contracts.js";
+import type { LdProduct } from "../html.js";
+
+export type ExtractContext = {
+  html: string;
+  sourceUrl: string;
+  // Meta tags keyed by lower-cased name/property (see readMetaTags).
+  meta: Map<string, string>;
+  // The most complete schema.org Product in the page's JSON-LD.
+  ld: LdProduct | null;
+};
+
+// Fields a site extractor can set. Anything left undefined or null is filled in by the generic path.
+type SiteField = Exclude<keyof ScrapedProduct, "sourceUrl" | "sourceDomain" | "raw" | "captureMethod">;
+export type SiteProductFields = { [K in SiteField]?: ScrapedProduct[K] | null };
+
+export type SiteExtractor = {
+  name: string;
+  // Hostnames without `www.`; subdomains such as `m.example.com` match as well.
+  domains: string[];
+  extract(ctx: ExtractContext): SiteProductFields | null;
+};
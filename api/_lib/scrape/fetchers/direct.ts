@@ -0,0 +1,123 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import type { FetchedPage, PageFetcher } from "./types.js";
+
+const TIMEOUT_MS = 15_000;
+const MAX_REDIRECTS = 5;
+
+// Headers of a current desktop Chrome. Many storefronts serve a bot wall or an empty shell to
+// requests without them; sites behind heavier bot protection still need ScrapingBee.
+const BROWSER_HEADERS: Record<string, string> = {
+  "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36",
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.9",
+  "Cache-Control": "no-cache",
+  "Upgrade-Insecure-Requests": "1",
+  "Sec-Fetch-Dest": "document",
+  "Sec-Fetch-Mode": "navigate",
+  "Sec-Fetch-Site": "none",
+};
+
+// The server fetches whatever URL a signed-in user pastes, so don't let that reach the machine
+// itself or the private network it runs in: loopback, private, link-local (cloud metadata), shared
+// (100.64/10), benchmarking (198.18/15), multicast and reserved ranges.
+const BLOCKED = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED.addSubnet(net, prefix, "ipv6");
+}
+
+// The IPv4 address inside an IPv4-mapped IPv6 one (`::ffff:7f00:1`, `::ffff:127.0.0.1`), which
+// connects to that IPv4 address.
+function mappedIPv4(ipv6: string): string | null {
+  let text = ipv6;
+  const dotted = text.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[1].split(".").map(Number);
+    text = `${text.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.includes("::") ? text.split("::") : [text, null];
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros = tail === null ? [] : Array(8 - headGroups.length - tailGroups.length).fill("0");
+  const groups = [...headGroups, ...zeros, ...tailGroups].map((g) => parseInt(g, 16));
+  if (groups.length !== 8 || groups.slice(0, 5).some((g) => g !== 0) || groups[5] !== 0xffff) return null;
+  return [groups[6] >> 8, groups[6] & 255, groups[7] >> 8, groups[7] & 255].join(".");
+}
+
+// Checks a literal host; `isPrivateUrl` also checks what a name resolves to.
+export function isPrivateHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) return true;
+  const family = isIP(host);
+  if (family === 4) return BLOCKED.check(host, "ipv4");
+  if (family !== 6) return false;
+  const ipv4 = mappedIPv4(host);
+  return ipv4 ? BLOCKED.check(ipv4, "ipv4") : BLOCKED.check(host, "ipv6");
+}
+
+// True for non-web URLs and hosts that are, or resolve to, a private address. A name that doesn't
+// resolve is left for the fetch to fail on. fetch resolves the name again, so a DNS server that
+// answers differently the second time can still get through.
+export async function isPrivateUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") return true;
+  if (isPrivateHost(url.hostname)) return true;
+  const addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ""), { all: true }).catch(() => []);
+  return addresses.some((entry) => isPrivateHost(entry.address));
+}
+
+// Fetches the page from this server, without a scraping service. Redirects are followed by hand so
+// every hop gets the same private-address check as the pasted URL.
+export function directFetcher(): PageFetcher {
+  return {
+    name: "direct",
+    async fetch(url: string): Promise<FetchedPage> {
+      let target = new URL(url);
+      for (let hop = 0; ; hop++) {
+        if (await isPrivateUrl(target)) {
+          const statusText = hop ? "Redirected to a private address" : "Private addresses can't be fetched";
+          return { ok: false, status: 400, statusText, html: "" };
+        }
+        const upstreamRes = await fetch(target, {
+          method: "GET",
+          headers: BROWSER_HEADERS,
+          redirect: "manual",
+          signal: AbortSignal.timeout(TIMEOUT_MS),
+        });
+        const location = upstreamRes.status >= 300 && upstreamRes.status < 400 ? upstreamRes.headers.get("location") : null;
+        if (!location) {
+          return {
+            ok: upstreamRes.ok,
+            status: upstreamRes.status,
+            statusText: upstreamRes.statusText,
+            html: await upstreamRes.text(),
+          };
+        }
+        await upstreamRes.body?.cancel();
+        if (hop === MAX_REDIRECTS) return { ok: false, status: upstreamRes.status, statusText: "Too many redirects", html: "" };
+        target = new URL(location, target);
+      }
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { scrapeProduct } from "../scrape.js";
+import { directFetcher, isPrivateHost, isPrivateUrl } from "./direct.js";
+import { fixtureFetcher, getPageFetchers, type PageFetcher } from "./index.js";
+
+const page = `<html><head><script type="application/ld+json">
+{"@type":"Product","name":"Oak Bench","offers":{"price":"199.00","priceCurrency":"USD"}}
+</script></head><body><h1>Oak Bench</h1></body></html>`;
+
+let fixtureDir: string;
+let saved: PageFetcher;
+
+beforeAll(async () => {
+  fixtureDir = await mkdtemp(path.join(tmpdir(), "scrape-fixtures-"));
+  await writeFile(path.join(fixtureDir, "shop.example.com.html"), page);
+  saved = fixtureFetcher(fixtureDir);
+});
+
+afterAll(async () => {
+  await rm(fixtureDir, { recursive: true, force: true });
+});
+
+const failing: PageFetcher = {
+  name: "direct",
+  fetch: async () => ({ ok: false, status: 403, statusText: "Forbidden", html: "" }),
+};
+
+afterEach(() => {
+  delete process.env.SCRAPE_FETCHERS;
+  delete process.env.SCRAPE_FIXTURE_DIR;
+  delete process.env.SCRAPINGBEE_API_KEY;
+  vi.unstubAllGlobals();
+});
+
+describe("scrapeProduct", () => {
+  it("extracts from a saved page without the network", async () => {
+    const result = await scrapeProduct("https://shop.example.com/oak-bench", [saved]);
+    expect(result).toMatchObject({ ok: true, mode: "fixture", fallbackUsed: false });
+    expect(result.ok && result.product.price).toBe(199);
+  });
+
+  it("falls through the chain and reports the last failure", async () => {
+    const recovered = await scrapeProduct("https://shop.example.com/oak-bench", [failing, saved]);
+    expect(recovered).toMatchObject({ ok: true, mode: "fixture", fallbackUsed: true });
+
+    const failed = await scrapeProduct("https://unknown.example.com/sofa", [saved, failing]);
+    expect(failed).toEqual({ ok: false, message: "The direct fetch request failed (403 Forbidden)" });
+  });
+});
+
+describe("getPageFetchers", () => {
+  it("fetches directly when no ScrapingBee key is set", () => {
+    expect(getPageFetchers().map((f) => f.name)).toEqual(["direct"]);
+    process.env.SCRAPINGBEE_API_KEY = "YOUR_SCRAPINGBEE_API_KEY";
+    expect(getPageFetchers().map((f) => f.name)).toEqual(["direct"]);
+  });
+
+  it("tries ScrapingBee first when a key is set, unless configured otherwise", () => {
+    process.env.SCRAPINGBEE_API_KEY = "key";
+    expect(getPageFetchers().map((f) => f.name)).toEqual(["fast", "rendered", "direct"]);
+    process.env.SCRAPE_FETCHERS = "direct, scrapingbee";
+    expect(getPageFetchers().map((f) => f.name)).toEqual(["direct", "fast", "rendered"]);
+  });
+
+  it("rejects unknown or incomplete configuration", () => {
+    process.env.SCRAPE_FETCHERS = "curl";
+    expect(() => getPageFetchers()).toThrow(/Unknown SCRAPE_FETCHERS entry "curl"/);
+    process.env.SCRAPE_FETCHERS = "fixture";
+    expect(() => getPageFetchers()).toThrow(/SCRAPE_FIXTURE_DIR/);
+    process.env.SCRAPE_FETCHERS = "scrapingbee";
+    expect(() => getPageFetchers()).toThrow(/SCRAPINGBEE_API_KEY/);
+  });
+});
+
+describe("isPrivateHost", () => {
+  it("blocks loopback and private ranges only", () => {
+    const blocked = ["localhost", "127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.10", "169.254.169.254", "[::1]", "[::ffff:127.0.0.1]"];
+    for (const host of blocked) expect(isPrivateHost(host)).toBe(true);
+    for (const host of ["www.ikea.com", "172.32.0.1", "8.8.8.8"]) expect(isPrivateHost(host)).toBe(false);
+  });
+
+  it("blocks shared, benchmarking and multicast ranges", () => {
+    for (const host of ["100.64.0.1", "100.127.255.254", "198.18.0.1", "198.19.255.1", "224.0.0.251", "[ff02::1]", "[fd12::1]"]) {
+      expect(isPrivateHost(host)).toBe(true);
+    }
+    for (const host of ["100.128.0.1", "198.20.0.1", "[2606:4700::1111]"]) expect(isPrivateHost(host)).toBe(false);
+  });
+
+  it("reads IPv4-mapped IPv6 addresses as the IPv4 address they reach", async () => {
+    // The URL parser rewrites `[::ffff:127.0.0.1]` as `[::ffff:7f00:1]`.
+    expect(new URL("http://[::ffff:127.0.0.1]/").hostname).toBe("[::ffff:7f00:1]");
+    for (const host of ["[::ffff:7f00:1]", "[::ffff:a9fe:a9fe]", "[0:0:0:0:0:ffff:a00:1]", "::ffff:169.254.169.254"]) {
+      expect(isPrivateHost(host)).toBe(true);
+    }
+    expect(isPrivateHost("[::ffff:808:808]")).toBe(false);
+    expect(await isPrivateUrl(new URL("http://[::ffff:127.0.0.1]/"))).toBe(true);
+    expect(await isPrivateUrl(new URL("http://[::ffff:169.254.169.254]/latest/meta-data/"))).toBe(true);
+  });
+});
+
+describe("directFetcher", () => {
+  // The tests run under jsdom, whose AbortSignal has no timeout(); fetch is mocked anyway.
+  beforeEach(() => vi.stubGlobal("AbortSignal", { timeout: () => undefined }));
+
+  function redirect(location: string) {
+    return new Response(null, { status: 302, headers: { Location: location } });
+  }
+
+  it("follows redirects between public hosts", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(redirect("/p/sofa")).mockResolvedValueOnce(new Response("<html>sofa</html>"));
+    vi.stubGlobal("fetch", fetchMock);
+    const page = await directFetcher().fetch("https://93.184.216.34/sofa");
+    expect(page).toMatchObject({ ok: true, status: 200, html: "<html>sofa</html>" });
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual(["https://93.184.216.34/sofa", "https://93.184.216.34/p/sofa"]);
+  });
+
+  it("refuses a redirect to a private address", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(redirect("http://169.254.169.254/latest/meta-data/"));
+    vi.stubGlobal("fetch", fetchMock);
+    const page = await directFetcher().fetch("https://93.184.216.34/sofa");
+    expect(page).toEqual({ ok: false, status: 400, statusText: "Redirected to a private address", html: "" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockResolvedValue(redirect("http://[::ffff:169.254.169.254]/latest/meta-data/"));
+    expect(await directFetcher().fetch("https://93.184.216.34/sofa")).toMatchObject({ ok: false, status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    expect(await directFetcher().fetch("http://localhost:3000/")).toMatchObject({ ok: false, status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
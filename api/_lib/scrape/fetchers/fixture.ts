@@ -0,0 +1,21 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { sourceDomainFromUrl } from "../html.js";
+import type { FetchedPage, PageFetcher } from "./types.js";
+
+// Serves saved pages from `dir` instead of the network, for tests and offline work on extractors.
+// By default `https://www.ikea.com/...` reads `ikea.com.html`; `fileFor` can map URLs differently.
+export function fixtureFetcher(dir: string, fileFor: (url: string) => string = (url) => `${sourceDomainFromUrl(url)}.html`): PageFetcher {
+  return {
+    name: "fixture",
+    async fetch(url: string): Promise<FetchedPage> {
+      try {
+        const html = await readFile(path.join(dir, path.basename(fileFor(url))), "utf8");
+        return { ok: true, status: 200, statusText: "OK", html };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException | null)?.code !== "ENOENT") throw err;
+        return { ok: false, status: 404, statusText: "No fixture for this URL", html: "" };
+      }
+    },
+  };
+}
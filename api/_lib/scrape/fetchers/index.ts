@@ -0,0 +1,40 @@
+import { directFetcher } from "./direct.js";
+import { fixtureFetcher } from "./fixture.js";
+import { scrapingBeeApiKey, scrapingBeeFetcher } from "./scrapingBee.js";
+import type { PageFetcher } from "./types.js";
+
+export type { FetchedPage, PageFetcher } from "./types.js";
+export { directFetcher, fixtureFetcher, scrapingBeeFetcher };
+
+type FetcherSource = "scrapingbee" | "direct" | "fixture";
+
+const SOURCES: FetcherSource[] = ["scrapingbee", "direct", "fixture"];
+
+// SCRAPE_FETCHERS is a comma-separated chain such as "direct,scrapingbee". Without it, ScrapingBee
+// is tried first when a key is set (falling back to a direct fetch), and otherwise pages are fetched
+// directly, so simple sites work without a paid key.
+export function getPageFetcherSources(): FetcherSource[] {
+  const raw = (process.env.SCRAPE_FETCHERS || (scrapingBeeApiKey() ? "scrapingbee,direct" : "direct")).trim().toLowerCase();
+  const names = raw.split(",").map((name) => name.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!(SOURCES as string[]).includes(name)) {
+      throw new Error(`Unknown SCRAPE_FETCHERS entry "${name}" (expected ${SOURCES.map((s) => `"${s}"`).join(", ")})`);
+    }
+  }
+  if (!names.length) throw new Error("SCRAPE_FETCHERS is empty.");
+  return names as FetcherSource[];
+}
+
+export function getPageFetchers(): PageFetcher[] {
+  return getPageFetcherSources().flatMap((source): PageFetcher[] => {
+    if (source === "direct") return [directFetcher()];
+    if (source === "fixture") {
+      const dir = (process.env.SCRAPE_FIXTURE_DIR || "").trim();
+      if (!dir) throw new Error("SCRAPE_FETCHERS includes \"fixture\" but SCRAPE_FIXTURE_DIR is not set.");
+      return [fixtureFetcher(dir)];
+    }
+    const apiKey = scrapingBeeApiKey();
+    if (!apiKey) throw new Error("SCRAPE_FETCHERS includes \"scrapingbee\" but SCRAPINGBEE_API_KEY is not set.");
+    return [scrapingBeeFetcher(apiKey, "fast"), scrapingBeeFetcher(apiKey, "rendered")];
+  });
+}
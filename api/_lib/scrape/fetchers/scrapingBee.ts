@@ -0,0 +1,39 @@
+import type { FetchedPage, PageFetcher } from "./types.js";
+
+type ScrapingBeeMode = "fast" | "rendered";
+
+// Null when unset or still the .env.example placeholder.
+export function scrapingBeeApiKey(): string | null {
+  const key = (process.env.SCRAPINGBEE_API_KEY || "").trim();
+  return key && key !== "YOUR_SCRAPINGBEE_API_KEY" ? key : null;
+}
+
+// "fast" skips JavaScript and blocks images/CSS; "rendered" runs the page's scripts, for storefronts
+// that only fill in price and images client-side. Rendering costs more ScrapingBee credits.
+export function scrapingBeeFetcher(apiKey: string, mode: ScrapingBeeMode): PageFetcher {
+  return {
+    name: mode,
+    async fetch(url: string): Promise<FetchedPage> {
+      const endpoint = new URL("https://app.scrapingbee.com/api/v1/");
+      endpoint.searchParams.set("api_key", apiKey);
+      endpoint.searchParams.set("url", url);
+      endpoint.searchParams.set("wait", mode === "rendered" ? "3000" : "1000");
+      endpoint.searchParams.set("render_js", mode === "rendered" ? "true" : "false");
+      endpoint.searchParams.set("block_resources", mode === "rendered" ? "false" : "true");
+
+      const upstreamRes = await fetch(endpoint.toString(), {
+        method: "GET",
+        headers: {
+          Accept: "text/html,application/xhtml+xml,application/xml",
+        },
+      });
+
+      return {
+        ok: upstreamRes.ok,
+        status: upstreamRes.status,
+        statusText: upstreamRes.statusText,
+        html: await upstreamRes.text(),
+      };
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import type { ScrapeFetchMode } from "../../contracts.js";
+
+// How product pages are retrieved. The handler tries a chain of fetchers in order (see index.ts)
+// until one returns a page the extractor gets a usable product from.
+
+export type FetchedPage = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  html: string;
+};
+
+export interface PageFetcher {
+  // Reported to the app as the response's `mode`.
+  name: ScrapeFetchMode;
+  // Resolves with a non-ok page for HTTP errors; rejects only when the request couldn't be made.
+  fetch(url: string): Promise<FetchedPage>;
+}
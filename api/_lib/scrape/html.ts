@@ -0,0 +1,442 @@
+import type { ProductAvailability, ScrapedProduct } from "../contracts.js";
+
+// Text, price, meta-tag and JSON-LD helpers shared by the generic product extractor (./extract.ts)
+// and the site-specific ones (./extractors/).
+
+export type ProductSpec = ScrapedProduct["specs"][number];
+
+export function normalizeWhitespace(input: unknown): string {
+  return String(input ?? "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function decodeHtmlEntities(input: string): string {
+  return input
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(Number(dec)));
+}
+
+export function stripTags(input: string): string {
+  return normalizeWhitespace(
+    decodeHtmlEntities(input)
+      .replace(/<script[\s\S]*?<\/script>/gi, " ")
+      .replace(/<style[\s\S]*?<\/style>/gi, " ")
+      .replace(/<[^>]+>/g, " "),
+  );
+}
+
+export function firstNonEmpty(...values: unknown[]): string | null {
+  for (const raw of values) {
+    const value = normalizeWhitespace(raw);
+    if (value) return value;
+  }
+  return null;
+}
+
+export function normalizeUrl(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const value = normalizeWhitespace(raw);
+  if (!value) return null;
+  if (value.startsWith("//")) return `https:${value}`;
+  try {
+    const parsed = new URL(value);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function parsePrice(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value !== "string") return null;
+  const text = normalizeWhitespace(value);
+  if (!text) return null;
+  const sanitized = text.replace(/[^0-9.,-]/g, "");
+  let normalized = sanitized;
+  if (sanitized.includes(",") && sanitized.includes(".")) {
+    normalized = sanitized.replace(/,/g, "");
+  } else if (sanitized.includes(",")) {
+    normalized = /,\d{1,2}$/.test(sanitized) ? sanitized.replace(",", ".") : sanitized.replace(/,/g, "");
+  }
+  const numeric = Number(normalized);
+  if (Number.isFinite(numeric) && numeric > 0) return numeric;
+  const fallback = text.match(/-?\d+(?:\.\d+)?/);
+  if (!fallback) return null;
+  const parsed = Number(fallback[0]);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function parsePercent(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? Math.max(0, Math.min(100, value)) : null;
+  if (typeof value !== "string") return null;
+  const text = normalizeWhitespace(value);
+  if (!text) return null;
+  const match = text.match(/([0-9]{1,3}(?:\.[0-9]+)?)\s*%/);
+  if (!match?.[1]) return null;
+  const parsed = Number(match[1]);
+  return Number.isFinite(parsed) ? Math.max(0, Math.min(100, parsed)) : null;
+}
+
+export function normalizeCurrency(value: unknown): string | null {
+  const raw = normalizeWhitespace(value).toUpperCase();
+  if (!raw) return null;
+  if (/^[A-Z]{3}$/.test(raw)) return raw;
+  if (raw === "$") return "USD";
+  return null;
+}
+
+// schema.org ItemAvailability ("https://schema.org/InStock") and the free text of meta tags
+// ("in stock", "oos") in the form the price watch records.
+const AVAILABILITY_PATTERNS: Array<[RegExp, ProductAvailability]> = [
+  [/outofstock|soldout|unavailable|^oos$/, "out_of_stock"],
+  [/discontinued/, "discontinued"],
+  [/preorder|presale/, "preorder"],
+  [/backorder/, "backorder"],
+  [/instock|limitedavailability|onlineonly|instoreonly|^available$/, "in_stock"],
+];
+
+export function normalizeAvailability(value: unknown): ProductAvailability | null {
+  const raw = normalizeWhitespace(value)
+    .toLowerCase()
+    .replace(/^https?:\/\/schema\.org\//, "")
+    .replace(/[^a-z]/g, "");
+  if (!raw) return null;
+  return AVAILABILITY_PATTERNS.find(([pattern]) => pattern.test(raw))?.[1] ?? null;
+}
+
+export function sourceDomainFromUrl(sourceUrl: string): string {
+  try {
+    return new URL(sourceUrl).hostname.replace(/^www\./i, "");
+  } catch {
+    return "";
+  }
+}
+
+export function extractTitleTag(html: string): string | null {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (!match?.[1]) return null;
+  return stripTags(match[1]);
+}
+
+export function extractFirstH1(html: string): string | null {
+  const match = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  if (!match?.[1]) return null;
+  return stripTags(match[1]);
+}
+
+export function readMetaTags(html: string): Map<string, string> {
+  const map = new Map<string, string>();
+  const tagRegex = /<meta\b[^>]*>/gi;
+  let tagMatch: RegExpExecArray | null = null;
+  while ((tagMatch = tagRegex.exec(html))) {
+    const tag = tagMatch[0];
+    const attrRegex = /([a-zA-Z_:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g;
+    let attrMatch: RegExpExecArray | null = null;
+    let key = "";
+    let content = "";
+    while ((attrMatch = attrRegex.exec(tag))) {
+      const attrName = String(attrMatch[1] || "").toLowerCase();
+      const attrValue = decodeHtmlEntities(String(attrMatch[2] || attrMatch[3] || attrMatch[4] || "")).trim();
+      if (!attrValue) continue;
+      if (attrName === "name" || attrName === "property" || attrName === "itemprop") key = attrValue.toLowerCase();
+      if (attrName === "content") content = attrValue;
+    }
+    if (key && content && !map.has(key)) map.set(key, normalizeWhitespace(content));
+  }
+  return map;
+}
+
+export function getMeta(map: Map<string, string>, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = map.get(key.toLowerCase());
+    if (value) return value;
+  }
+  return null;
+}
+
+export function parseJson(text: string): unknown | null {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function isProductType(typeValue: unknown): boolean {
+  if (typeof typeValue === "string") return typeValue.toLowerCase().includes("product");
+  if (Array.isArray(typeValue)) return typeValue.some((entry) => typeof entry === "string" && entry.toLowerCase().includes("product"));
+  return false;
+}
+
+// A schema.org Product (or ProductGroup) node from a page's JSON-LD, as parsed.
+export type LdProduct = Record<string, unknown>;
+
+function collectProductsFromNode(node: unknown, out: LdProduct[]) {
+  if (!node) return;
+  if (Array.isArray(node)) {
+    for (const entry of node) collectProductsFromNode(entry, out);
+    return;
+  }
+  if (typeof node !== "object") return;
+  const obj = node as Record<string, unknown>;
+  if (isProductType(obj["@type"])) out.push(obj);
+  for (const value of Object.values(obj)) {
+    if (value && typeof value === "object") collectProductsFromNode(value, out);
+  }
+}
+
+export function extractProductsFromLdJson(html: string): LdProduct[] {
+  const products: LdProduct[] = [];
+  const scriptRegex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null = null;
+  while ((match = scriptRegex.exec(html))) {
+    const raw = String(match[1] || "")
+      .replace(/^\s*<!--/, "")
+      .replace(/-->\s*$/, "")
+      .trim();
+    if (!raw) continue;
+    const parsed = parseJson(raw);
+    if (!parsed) continue;
+    collectProductsFromNode(parsed, products);
+  }
+  return products;
+}
+
+export function extractBrand(value: unknown): string | null {
+  if (typeof value === "string") return normalizeWhitespace(value) || null;
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const next = extractBrand(entry);
+      if (next) return next;
+    }
+    return null;
+  }
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    return firstNonEmpty(obj.name, obj.brand, obj.title);
+  }
+  return null;
+}
+
+export function extractImage(value: unknown): string | null {
+  if (typeof value === "string") return normalizeUrl(value);
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const next = extractImage(entry);
+      if (next) return next;
+    }
+    return null;
+  }
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    return normalizeUrl(firstNonEmpty(obj.url, obj.contentUrl, obj.image, obj.src));
+  }
+  return null;
+}
+
+export function extractPriceFromOffers(offers: unknown): number | null {
+  if (!offers) return null;
+  if (Array.isArray(offers)) {
+    for (const offer of offers) {
+      const next = extractPriceFromOffers(offer);
+      if (next !== null) return next;
+    }
+    return null;
+  }
+  if (typeof offers === "object") {
+    const obj = offers as Record<string, unknown>;
+    const direct = parsePrice(firstNonEmpty(obj.price, obj.lowPrice, obj.highPrice));
+    if (direct !== null) return direct;
+    if (obj.priceSpecification) {
+      const nested = extractPriceFromOffers(obj.priceSpecification);
+      if (nested !== null) return nested;
+    }
+    return null;
+  }
+  return parsePrice(offers);
+}
+
+export function extractCurrencyFromOffers(offers: unknown): string | null {
+  if (!offers) return null;
+  if (Array.isArray(offers)) {
+    for (const offer of offers) {
+      const next = extractCurrencyFromOffers(offer);
+      if (next) return next;
+    }
+    return null;
+  }
+  if (typeof offers !== "object") return normalizeCurrency(offers);
+  const obj = offers as Record<string, unknown>;
+  const direct = normalizeCurrency(firstNonEmpty(obj.priceCurrency, obj.currency));
+  if (direct) return direct;
+  if (obj.priceSpecification) {
+    const nested = extractCurrencyFromOffers(obj.priceSpecification);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+export function extractAvailabilityFromOffers(offers: unknown): ProductAvailability | null {
+  if (!offers) return null;
+  if (Array.isArray(offers)) {
+    for (const offer of offers) {
+      const next = extractAvailabilityFromOffers(offer);
+      if (next) return next;
+    }
+    return null;
+  }
+  if (typeof offers !== "object") return normalizeAvailability(offers);
+  return normalizeAvailability((offers as Record<string, unknown>).availability);
+}
+
+export function extractOriginalPriceFromOffers(offers: unknown): number | null {
+  if (!offers) return null;
+  if (Array.isArray(offers)) {
+    for (const offer of offers) {
+      const next = extractOriginalPriceFromOffers(offer);
+      if (next !== null) return next;
+    }
+    return null;
+  }
+  if (typeof offers !== "object") return null;
+  const obj = offers as Record<string, unknown>;
+  const direct = parsePrice(firstNonEmpty(obj.highPrice, obj.listPrice, obj.msrp, obj.strikethroughPrice));
+  if (direct !== null) return direct;
+  if (obj.priceSpecification) {
+    const nested = extractOriginalPriceFromOffers(obj.priceSpecification);
+    if (nested !== null) return nested;
+  }
+  return null;
+}
+
+export function appendSpec(
+  out: ProductSpec[],
+  seen: Set<string>,
+  rawKey: unknown,
+  rawValue: unknown,
+) {
+  const key = normalizeWhitespace(rawKey);
+  const value = normalizeWhitespace(rawValue);
+  if (!key || !value) return;
+  const k = key.toLowerCase();
+  if (seen.has(k)) return;
+  seen.add(k);
+  out.push({ key: key.slice(0, 80), value: value.slice(0, 300) });
+}
+
+export function collectAdditionalPropertySpecs(
+  value: unknown,
+  out: ProductSpec[],
+  seen: Set<string>,
+) {
+  if (!value) return;
+  if (Array.isArray(value)) {
+    for (const entry of value) collectAdditionalPropertySpecs(entry, out, seen);
+    return;
+  }
+  if (typeof value !== "object") return;
+  const obj = value as Record<string, unknown>;
+  appendSpec(out, seen, obj.name || obj.propertyID, obj.value || obj.description);
+}
+
+export function extractSpecsFromTables(html: string): ProductSpec[] {
+  const specs: ProductSpec[] = [];
+  const seen = new Set<string>();
+  const tableRegex = /<table[^>]*>[\s\S]*?<\/table>/gi;
+  let tableMatch: RegExpExecArray | null = null;
+  while ((tableMatch = tableRegex.exec(html)) && specs.length < 24) {
+    const table = tableMatch[0];
+    const rowRegex = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
+    let rowMatch: RegExpExecArray | null = null;
+    while ((rowMatch = rowRegex.exec(table)) && specs.length < 24) {
+      const row = rowMatch[1] || "";
+      const cellRegex = /<(th|td)[^>]*>([\s\S]*?)<\/\1>/gi;
+      const cells: string[] = [];
+      let cellMatch: RegExpExecArray | null = null;
+      while ((cellMatch = cellRegex.exec(row)) && cells.length < 3) {
+        cells.push(stripTags(cellMatch[2] || ""));
+      }
+      if (cells.length < 2) continue;
+      appendSpec(specs, seen, cells[0], cells[1]);
+    }
+  }
+  return specs;
+}
+
+export function extractDimensionsText(specs: ProductSpec[], description: string | null): string | null {
+  const dim = specs.find((entry) => /(dimension|size|width|depth|height|length)/i.test(entry.key));
+  if (dim) return `${dim.key}: ${dim.value}`;
+  const fromDescription = normalizeWhitespace(description).match(
+    /((?:dimension|size|width|depth|height|length)[^.;\n]{0,120})/i,
+  );
+  return fromDescription?.[1] ? normalizeWhitespace(fromDescription[1]) : null;
+}
+
+export function collectRegexPrices(html: string, pattern: RegExp): number[] {
+  const prices: number[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match: RegExpExecArray | null = null;
+  while ((match = regex.exec(html))) {
+    if (!match?.[1]) continue;
+    const parsed = parsePrice(match[1]);
+    if (parsed !== null) prices.push(parsed);
+  }
+  return prices;
+}
+
+export function firstPriceFromPatterns(html: string, patterns: RegExp[]): number | null {
+  for (const pattern of patterns) {
+    const candidates = collectRegexPrices(html, pattern);
+    if (!candidates.length) continue;
+    return candidates[0];
+  }
+  return null;
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Text of every element carrying `className`. Regex-based like the rest of this file, so an element
+// that nests another element of the same tag is cut at the inner closing tag.
+export function textsByClass(html: string, className: string): string[] {
+  const classAttr = `class=["'][^"']*(?<![\\w-])${escapeRegex(className)}(?![\\w-])[^"']*["']`;
+  const regex = new RegExp(`<([a-z][a-z0-9]*)\\b[^>]*${classAttr}[^>]*>([\\s\\S]*?)<\\/\\1>`, "gi");
+  const out: string[] = [];
+  let match: RegExpExecArray | null = null;
+  while ((match = regex.exec(html))) {
+    const text = stripTags(match[2] || "");
+    if (text) out.push(text);
+  }
+  return out;
+}
+
+export function textByClass(html: string, className: string): string | null {
+  return textsByClass(html, className)[0] ?? null;
+}
+
+// `<dt>Overall</dt><dd>33" H x 84" W</dd>` pairs, which many storefronts use instead of tables.
+export function extractSpecsFromDefinitionLists(html: string): ProductSpec[] {
+  const specs: ProductSpec[] = [];
+  const seen = new Set<string>();
+  const pairRegex = /<dt[^>]*>([\s\S]*?)<\/dt>\s*<dd[^>]*>([\s\S]*?)<\/dd>/gi;
+  let match: RegExpExecArray | null = null;
+  while ((match = pairRegex.exec(html)) && specs.length < 24) {
+    appendSpec(specs, seen, stripTags(match[1] || ""), stripTags(match[2] || ""));
+  }
+  return specs;
+}
+
+// JSON embedded by frameworks, e.g. Next.js' `<script id="__NEXT_DATA__" type="application/json">`.
+export function extractScriptJsonById(html: string, id: string): unknown | null {
+  const regex = new RegExp(`<script[^>]*id=["']${escapeRegex(id)}["'][^>]*>([\\s\\S]*?)<\\/script>`, "i");
+  const match = html.match(regex);
+  return match?.[1] ? parseJson(match[1].trim()) : null;
+}
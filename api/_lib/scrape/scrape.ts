@@ -0,0 +1,61 @@
+import type { ScrapeFetchMode, ScrapedProduct } from "../contracts.js";
+import { errorMessage } from "../http.js";
+import { extractProduct } from "./extract.js";
+import type { PageFetcher } from "./fetchers/index.js";
+import { normalizeWhitespace } from "./html.js";
+
+export type ScrapeResult =
+  | { ok: true; product: ScrapedProduct; mode: ScrapeFetchMode; fallbackUsed: boolean }
+  | { ok: false; message: string };
+
+function hasCriticalProductFields(product: ScrapedProduct | null): boolean {
+  if (!product) return false;
+  const normalizedName = normalizeWhitespace(product.name).toLowerCase();
+  const hasName = normalizedName.length > 0 && normalizedName !== "new item";
+  const hasPrice = typeof product.price === "number" && Number.isFinite(product.price) && product.price > 0;
+  const hasImage = Boolean(normalizeWhitespace(product.imageUrl));
+  if (!hasName) return false;
+  return hasPrice || hasImage;
+}
+
+function describeFailure(fetcher: PageFetcher, detail: string) {
+  const source = fetcher.name === "fast" || fetcher.name === "rendered" ? "ScrapingBee" : `The ${fetcher.name} fetch`;
+  return `${source} ${detail}`;
+}
+
+// Tries each fetcher in turn and stops at the first page with a name plus a price or image. If none
+// gets that far, the most recent partial product is returned rather than nothing.
+export async function scrapeProduct(inputUrl: string, fetchers: PageFetcher[]): Promise<ScrapeResult> {
+  let best: { product: ScrapedProduct; index: number } | null = null;
+  let lastError = "";
+
+  for (const [index, fetcher] of fetchers.entries()) {
+    let page;
+    try {
+      page = await fetcher.fetch(inputUrl);
+    } catch (err) {
+      lastError = describeFailure(fetcher, `failed: ${errorMessage(err, "network error")}.`);
+      continue;
+    }
+    if (!page.ok) {
+      lastError = describeFailure(fetcher, `request failed (${page.status} ${page.statusText})`);
+      continue;
+    }
+    if (!normalizeWhitespace(page.html)) {
+      lastError = describeFailure(fetcher, "returned an empty response.");
+      continue;
+    }
+
+    const extracted = extractProduct(page.html, inputUrl);
+    if (!extracted) {
+      lastError = "Could not extract product data from that URL.";
+      continue;
+    }
+
+    best = { product: extracted, index };
+    if (hasCriticalProductFields(extracted)) break;
+  }
+
+  if (!best) return { ok: false, message: lastError || "Could not extract product data from that URL." };
+  return { ok: true, product: best.product, mode: fetchers[best.index].name, fallbackUsed: best.index > 0 };
+}
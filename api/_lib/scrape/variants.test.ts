@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { extractProduct } from "./extract.js";
+import { normalizeVariants } from "./variants.js";
+
+const ld = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+describe("product variants", () => {
+  it("reads a JSON-LD ProductGroup's variants with their own price, image and size", () => {
+    const html = ld({
+      "@context": "https://schema.org",
+      "@type": "ProductGroup",
+      name: "Harmony Sofa",
+      variesBy: ["https://schema.org/color", "https://schema.org/size"],
+      hasVariant: [
+        {
+          "@type": "Product",
+          name: "Harmony Sofa - Fog",
+          sku: "H-FOG-82",
+          color: "Fog",
+          size: "82 in",
+          image: "https://img.example.com/fog.jpg",
+          width: { "@type": "QuantitativeValue", value: 82, unitCode: "INH" },
+          depth: { "@type": "QuantitativeValue", value: 39, unitCode: "INH" },
+          offers: { "@type": "Offer", price: "1899.00", url: "/products/harmony?sku=H-FOG-82" },
+        },
+        {
+          "@type": "Product",
+          name: "Harmony Sofa - Ink",
+          sku: "H-INK-96",
+          offers: { "@type": "Offer", price: "2199.00" },
+        },
+      ],
+    });
+    const product = extractProduct(html, "https://shop.example.com/products/harmony")!;
+    expect(product.variants).toEqual([
+      {
+        name: "Fog / 82 in",
+        sku: "H-FOG-82",
+        price: 1899,
+        originalPrice: null,
+        imageUrl: "https://img.example.com/fog.jpg",
+        dimensionsText: "82 in W x 39 in D",
+        url: "https://shop.example.com/products/harmony?sku=H-FOG-82",
+      },
+      {
+        name: "Ink",
+        sku: "H-INK-96",
+        price: 2199,
+        originalPrice: null,
+        imageUrl: null,
+        dimensionsText: null,
+        url: null,
+      },
+    ]);
+  });
+
+  it("falls back to Shopify product JSON, then variant selects", () => {
+    const shopify =
+      `<title>Cove Chair</title><script type="application/json" data-product-json>` +
+      JSON.stringify({
+        product: {
+          variants: [
+            { id: 11, title: "Oat Boucle", price: 89900, compare_at_price: 99900, sku: "CV-OAT" },
+            { id: 12, title: "Moss Velvet", price: "949.00", featured_image: { src: "//cdn.example.com/moss.jpg" } },
+          ],
+        },
+      }) +
+      `</script>`;
+    const fromShopify = extractProduct(shopify, "https://cove.example.com/products/cove-chair?ref=x")!.variants;
+    expect(fromShopify.map((v) => [v.name, v.price, v.originalPrice, v.url])).toEqual([
+      ["Oat Boucle", 899, 999, "https://cove.example.com/products/cove-chair?variant=11"],
+      ["Moss Velvet", 949, null, "https://cove.example.com/products/cove-chair?variant=12"],
+    ]);
+    expect(fromShopify[1].imageUrl).toBe("https://cdn.example.com/moss.jpg");
+
+    const select = `<h1>Arlo Rug</h1>
+      <select name="quantity"><option>1</option><option>2</option></select>
+      <select id="rug-size" aria-label="Size">
+        <option value="">Select a size</option>
+        <option value="5x8">5' x 8' - $399</option>
+        <option value="8x10" data-price="649.00">8' x 10'</option>
+      </select>`;
+    const fromSelect = extractProduct(select, "https://rugs.example.com/arlo")!.variants;
+    expect(fromSelect.map((v) => [v.name, v.price])).toEqual([
+      ["5' x 8'", 399],
+      ["8' x 10'", 649],
+    ]);
+  });
+
+  it("ignores pages with a single variant and normalises clipped variants", () => {
+    const single = `<h1>Lamp</h1><select name="color"><option>Brass</option></select>`;
+    expect(extractProduct(single, "https://x.example.com/")!.variants).toEqual([]);
+    expect(
+      normalizeVariants([{ name: " Gray ", price: "$1,299", url: "javascript:alert(1)" }, { name: "gray" }, { price: 10 }, "Blue"]),
+    ).toEqual([{ name: "Gray", sku: null, price: 1299, originalPrice: null, imageUrl: null, dimensionsText: null, url: null }]);
+  });
+});
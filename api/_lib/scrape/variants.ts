@@ -0,0 +1,293 @@
+import type { ProductVariant } from "../contracts.js";
+import { parseDimensionsText } from "../dimensions.js";
+import {
+  decodeHtmlEntities,
+  extractImage,
+  extractOriginalPriceFromOffers,
+  extractPriceFromOffers,
+  firstNonEmpty,
+  normalizeUrl,
+  normalizeWhitespace,
+  parseJson,
+  parsePrice,
+  stripTags,
+  type LdProduct,
+} from "./html.js";
+
+// Colour, fabric and size variants listed on a product page. Sources are tried in order and the
+// first that lists at least two variants wins:
+//   1. JSON-LD: a ProductGroup's `hasVariant`, Products sharing a group id, or a per-variant offers array
+//   2. Shopify's embedded product JSON (`data-product-json`, `#ProductJson-*`)
+//   3. a variant `<select>` (colour/fabric/size/...) and its options
+//   4. swatch elements carrying `data-variant-name`/`data-swatch-name`
+
+export const MAX_VARIANTS = 40;
+
+const LD_ATTRIBUTE_KEYS = ["color", "material", "pattern", "size"];
+const VARIANT_SELECT = /colou?r|fabric|finish|size|variant|option|style|material|upholster/i;
+const NOT_VARIANT_SELECT = /qty|quantity|country|region|state|sort|zip/i;
+const PLACEHOLDER_OPTION = /^(?:select|choose|pick|--)/i;
+const PRICE_IN_TEXT = /[$£€]\s?\d[\d,]*(?:\.\d{1,2})?/;
+const LD_UNITS: Record<string, string> = { INH: "in", CMT: "cm", MMT: "mm", MTR: "m", FOT: "ft" };
+
+function emptyVariant(name: string): ProductVariant {
+  return { name, sku: null, price: null, originalPrice: null, imageUrl: null, dimensionsText: null, url: null };
+}
+
+function readAttr(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i"));
+  const value = match ? (match[1] ?? match[2]) : null;
+  return value ? normalizeWhitespace(decodeHtmlEntities(value)) || null : null;
+}
+
+function resolveUrl(raw: unknown, sourceUrl: string): string | null {
+  const value = firstNonEmpty(raw);
+  if (!value) return null;
+  try {
+    return normalizeUrl(new URL(value, sourceUrl).toString());
+  } catch {
+    return null;
+  }
+}
+
+// Parsed JSON objects (JSON-LD nodes, Shopify variants) are read field by field.
+function jsonObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function jsonObjects(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.map(jsonObject).filter((entry) => entry !== null) : [];
+}
+
+function isVariant(variant: ProductVariant | null): variant is ProductVariant {
+  return variant !== null;
+}
+
+function dedupe(variants: ProductVariant[]): ProductVariant[] {
+  const seen = new Set<string>();
+  const out: ProductVariant[] = [];
+  for (const variant of variants) {
+    const key = variant.name.toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(variant);
+    if (out.length >= MAX_VARIANTS) break;
+  }
+  return out;
+}
+
+// "Harmony Sofa - Fog Gray" under the group "Harmony Sofa" is listed as "Fog Gray".
+function variantName(node: LdProduct, groupName: string | null): string | null {
+  const attributes = LD_ATTRIBUTE_KEYS.map((key) => firstNonEmpty(node[key])).filter(Boolean);
+  if (attributes.length) return attributes.join(" / ");
+  const name = firstNonEmpty(node.name);
+  if (!name || !groupName || !name.toLowerCase().startsWith(groupName.toLowerCase())) return name;
+  return name.slice(groupName.length).replace(/^[\s,:|/–—-]+/, "").trim() || name;
+}
+
+function ldLength(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "object") return firstNonEmpty(value);
+  const obj = value as Record<string, unknown>;
+  const amount = firstNonEmpty(obj.value);
+  if (!amount) return null;
+  const unitCode = firstNonEmpty(obj.unitCode);
+  const unit = (unitCode && LD_UNITS[unitCode.toUpperCase()]) || firstNonEmpty(obj.unitText) || "";
+  return `${amount} ${unit}`.trim();
+}
+
+function ldDimensionsText(node: LdProduct): string | null {
+  const parts = [
+    [ldLength(node.width), "W"],
+    [ldLength(node.depth), "D"],
+    [ldLength(node.height), "H"],
+  ]
+    .filter(([length]) => length)
+    .map(([length, axis]) => `${length} ${axis}`);
+  if (parts.length) return parts.join(" x ");
+  const size = firstNonEmpty(node.size);
+  return size && parseDimensionsText(size) ? size : null;
+}
+
+function fromLdProduct(node: LdProduct, groupName: string | null, sourceUrl: string): ProductVariant | null {
+  const name = variantName(node, groupName);
+  if (!name) return null;
+  const offer = jsonObject(Array.isArray(node.offers) ? node.offers[0] : node.offers);
+  return {
+    name,
+    sku: firstNonEmpty(node.sku, node.productID, node.gtin13, node.gtin),
+    price: extractPriceFromOffers(node.offers),
+    originalPrice: extractOriginalPriceFromOffers(node.offers),
+    imageUrl: extractImage(node.image),
+    dimensionsText: ldDimensionsText(node),
+    url: resolveUrl(firstNonEmpty(offer?.url, node.url), sourceUrl),
+  };
+}
+
+function variantsFromLd(products: LdProduct[], sourceUrl: string): ProductVariant[] {
+  const group = products.find((product) => Array.isArray(product.hasVariant) && product.hasVariant.length > 1);
+  if (group) {
+    const groupName = firstNonEmpty(group.name);
+    return jsonObjects(group.hasVariant)
+      .map((node) => fromLdProduct(node, groupName, sourceUrl))
+      .filter(isVariant);
+  }
+
+  const byGroup = new Map<string, LdProduct[]>();
+  for (const product of products) {
+    const groupId = firstNonEmpty(product.inProductGroupWithID, product.productGroupID);
+    if (groupId) byGroup.set(groupId, [...(byGroup.get(groupId) || []), product]);
+  }
+  for (const members of byGroup.values()) {
+    if (members.length < 2) continue;
+    return members.map((node) => fromLdProduct(node, null, sourceUrl)).filter(isVariant);
+  }
+
+  // One Product with an Offer per variant, each naming what it sells.
+  for (const product of products) {
+    if (!Array.isArray(product.offers) || product.offers.length < 2) continue;
+    const productName = firstNonEmpty(product.name);
+    const variants = jsonObjects(product.offers)
+      .map((offer): ProductVariant | null => {
+        const offered = jsonObject(offer.itemOffered) || {};
+        const name = firstNonEmpty(offer.name, variantName(offered, productName), offer.sku);
+        if (!name) return null;
+        return {
+          ...emptyVariant(name),
+          sku: firstNonEmpty(offer.sku, offered.sku),
+          price: extractPriceFromOffers(offer),
+          originalPrice: extractOriginalPriceFromOffers(offer),
+          imageUrl: extractImage(offered.image ?? offer.image),
+          url: resolveUrl(offer.url, sourceUrl),
+        };
+      })
+      .filter(isVariant);
+    if (variants.length > 1) return variants;
+  }
+  return [];
+}
+
+// Shopify stores prices in cents when they're numbers and in dollars when they're strings.
+function shopifyPrice(value: unknown): number | null {
+  if (typeof value === "number") return parsePrice(value / 100);
+  return parsePrice(value);
+}
+
+function variantsFromShopify(html: string, sourceUrl: string): ProductVariant[] {
+  const scriptRegex = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null = null;
+  while ((match = scriptRegex.exec(html))) {
+    const attrs = match[1] || "";
+    if (!/data-product-json|id=["'][^"']*product-?json/i.test(attrs)) continue;
+    const parsed = jsonObject(parseJson((match[2] || "").trim()));
+    const product = jsonObject(parsed?.product) ?? parsed;
+    if (!Array.isArray(product?.variants)) continue;
+    return jsonObjects(product.variants)
+      .filter((variant) => variant.title !== "Default Title")
+      .map((variant): ProductVariant | null => {
+        const name = firstNonEmpty(variant.title, variant.name, variant.option1);
+        if (!name) return null;
+        const url = resolveUrl(sourceUrl, sourceUrl);
+        return {
+          ...emptyVariant(name),
+          sku: firstNonEmpty(variant.sku),
+          price: shopifyPrice(variant.price),
+          originalPrice: shopifyPrice(variant.compare_at_price),
+          imageUrl: resolveUrl(jsonObject(variant.featured_image)?.src, sourceUrl),
+          url: url && variant.id ? `${url.split("?")[0]}?variant=${variant.id}` : url,
+        };
+      })
+      .filter(isVariant);
+  }
+  return [];
+}
+
+function variantFromMarkup(attrs: string, text: string, sourceUrl: string): ProductVariant | null {
+  const priceText = text.match(PRICE_IN_TEXT)?.[0] ?? null;
+  const name = normalizeWhitespace(priceText ? text.replace(priceText, "") : text).replace(/[\s(–—-]+\)?$/, "");
+  if (!name || PLACEHOLDER_OPTION.test(name)) return null;
+  return {
+    ...emptyVariant(name),
+    sku: readAttr(attrs, "data-sku"),
+    price: parsePrice(readAttr(attrs, "data-price")) ?? parsePrice(priceText),
+    imageUrl: resolveUrl(readAttr(attrs, "data-image") ?? readAttr(attrs, "data-img"), sourceUrl),
+  };
+}
+
+function variantsFromSelects(html: string, sourceUrl: string): ProductVariant[] {
+  const candidates: ProductVariant[][] = [];
+  const selectRegex = /<select\b([^>]*)>([\s\S]*?)<\/select>/gi;
+  let match: RegExpExecArray | null = null;
+  while ((match = selectRegex.exec(html))) {
+    const attrs = match[1] || "";
+    if (!VARIANT_SELECT.test(attrs) || NOT_VARIANT_SELECT.test(attrs)) continue;
+    const options: ProductVariant[] = [];
+    const optionRegex = /<option\b([^>]*)>([\s\S]*?)<\/option>/gi;
+    let option: RegExpExecArray | null = null;
+    while ((option = optionRegex.exec(match[2] || ""))) {
+      const optionAttrs = option[1] || "";
+      if (readAttr(optionAttrs, "value") === null && /\bvalue\s*=/i.test(optionAttrs)) continue;
+      const variant = variantFromMarkup(optionAttrs, stripTags(option[2] || ""), sourceUrl);
+      if (variant) options.push(variant);
+    }
+    if (options.length > 1) candidates.push(options);
+  }
+  // Where a page has both a colour and a size select, the one carrying prices is more useful.
+  return candidates.find((options) => options.some((v) => v.price !== null)) ?? candidates[0] ?? [];
+}
+
+function variantsFromSwatches(html: string, sourceUrl: string): ProductVariant[] {
+  const variants: ProductVariant[] = [];
+  const swatchRegex = /<(?:button|a|li|div|span|input|label)\b([^>]*\bdata-(?:variant|swatch)-(?:name|title|value)\s*=[^>]*)>/gi;
+  let match: RegExpExecArray | null = null;
+  while ((match = swatchRegex.exec(html))) {
+    const attrs = match[1] || "";
+    const name = firstNonEmpty(
+      readAttr(attrs, "data-variant-name"),
+      readAttr(attrs, "data-variant-title"),
+      readAttr(attrs, "data-swatch-name"),
+      readAttr(attrs, "data-swatch-title"),
+      readAttr(attrs, "data-variant-value"),
+      readAttr(attrs, "data-swatch-value"),
+    );
+    const variant = name ? variantFromMarkup(attrs, name, sourceUrl) : null;
+    if (variant) variants.push(variant);
+  }
+  return variants;
+}
+
+export function extractVariants(html: string, ldProducts: LdProduct[], sourceUrl: string): ProductVariant[] {
+  const sources = [
+    () => variantsFromLd(ldProducts, sourceUrl),
+    () => variantsFromShopify(html, sourceUrl),
+    () => variantsFromSelects(html, sourceUrl),
+    () => variantsFromSwatches(html, sourceUrl),
+  ];
+  for (const source of sources) {
+    const variants = dedupe(source());
+    if (variants.length > 1) return variants;
+  }
+  return [];
+}
+
+// Variants sent by the browser extension (or read back from stored meta) in whatever shape they came.
+export function normalizeVariants(raw: unknown, limit = MAX_VARIANTS): ProductVariant[] {
+  if (!Array.isArray(raw)) return [];
+  const variants = raw
+    .filter((entry) => entry && typeof entry === "object")
+    .map((entry: Record<string, unknown>): ProductVariant | null => {
+      const name = firstNonEmpty(entry.name, entry.title);
+      if (!name) return null;
+      return {
+        name: name.slice(0, 200),
+        sku: firstNonEmpty(entry.sku),
+        price: parsePrice(entry.price),
+        originalPrice: parsePrice(entry.originalPrice),
+        imageUrl: normalizeUrl(firstNonEmpty(entry.imageUrl)),
+        dimensionsText: firstNonEmpty(entry.dimensionsText),
+        url: normalizeUrl(firstNonEmpty(entry.url)),
+      };
+    })
+    .filter(isVariant);
+  return dedupe(variants).slice(0, limit);
+}
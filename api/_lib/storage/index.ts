@@ -0,0 +1,31 @@
+import { localDiskStorage } from "./localDisk.js";
+import { hasS3Env, s3Storage } from "./s3.js";
+import type { ObjectStorage } from "./types.js";
+
+export type { ObjectStorage, SignedUpload, StoredObject } from "./types.js";
+
+// S3 when it is configured (and always on Vercel, which has no persistent disk); otherwise files
+// go to a local directory so attachments and backups work in dev and on a self-hosted box.
+export function getObjectStorageName(): ObjectStorage["name"] {
+  const raw = (process.env.OBJECT_STORAGE || (process.env.VERCEL === "1" || hasS3Env() ? "s3" : "local")).trim().toLowerCase();
+  if (raw === "s3" || raw === "local") return raw;
+  throw new Error(`Unknown OBJECT_STORAGE "${raw}" (expected "s3" or "local")`);
+}
+
+export function getObjectStorage(): ObjectStorage {
+  return getObjectStorageName() === "local" ? localDiskStorage() : s3Storage();
+}
+
+// JSON backups (api/s3/json.ts); homes other than the default one live under their own prefix.
+export function exportPrefix(home?: string) {
+  return home ? `uploads/exports/homes/${home}` : "uploads/exports";
+}
+
+// Attachment uploads, one prefix per home so cleaning up one home never touches another's files.
+export function uploadPrefix(home?: string) {
+  return home ? `uploads/homes/${home}/` : "uploads/default/";
+}
+
+// Files uploaded before homes had their own prefix sit directly under `uploads/<parentType>/`.
+// Nothing says which home they belong to, so they are only swept when asked to (see api/storage/gc.ts).
+export const LEGACY_UPLOAD_PREFIXES = ["uploads/item/", "uploads/option/", "uploads/subItem/"];
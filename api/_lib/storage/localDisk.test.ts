@@ -0,0 +1,51 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { localDiskStorage, localObjectPath, verifyUploadSignature } from "./localDisk.js";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "object-storage-"));
+  process.env.OBJECT_STORAGE_DIR = dir;
+});
+
+afterAll(async () => {
+  delete process.env.OBJECT_STORAGE_DIR;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("localDiskStorage", () => {
+  it("round-trips JSON and lists by prefix", async () => {
+    const storage = localDiskStorage();
+    expect(await storage.getJson("uploads/exports/latest.json")).toBeNull();
+
+    await storage.putJson("uploads/exports/latest.json", { items: [1] });
+    await storage.putJson("uploads/exports/2026-01-01.json", { items: [] });
+    await storage.putJson("uploads/item/i1/photo.json", {});
+
+    expect(await storage.getJson("uploads/exports/latest.json")).toEqual({ items: [1] });
+    const listed = await storage.list("uploads/exports/");
+    expect(listed.map((obj) => obj.key)).toEqual(["uploads/exports/2026-01-01.json", "uploads/exports/latest.json"]);
+    expect(listed[0].size).toBeGreaterThan(0);
+    expect(await storage.list("uploads/nothing/")).toEqual([]);
+  });
+
+  it("signs short-lived upload URLs and rejects keys outside the root", async () => {
+    const storage = localDiskStorage();
+    const { uploadUrl, publicUrl } = await storage.signUpload("uploads/item/i1/a.webp", "image/webp");
+    expect(publicUrl).toBe("/api/storage/object?key=uploads%2Fitem%2Fi1%2Fa.webp");
+
+    const params = new URL(uploadUrl, "http://localhost").searchParams;
+    const expires = Number(params.get("expires"));
+    const signature = params.get("signature") || "";
+    expect(verifyUploadSignature("uploads/item/i1/a.webp", expires, signature)).toBe(true);
+    expect(verifyUploadSignature("uploads/item/i1/b.webp", expires, signature)).toBe(false);
+    expect(verifyUploadSignature("uploads/item/i1/a.webp", expires, signature, expires + 1)).toBe(false);
+
+    expect(localObjectPath("../secrets.json")).toBeNull();
+    expect(localObjectPath("uploads//a.json")).toBeNull();
+    await expect(storage.signUpload("uploads/../../etc/passwd", "text/plain")).rejects.toThrow(/Invalid object key/);
+  });
+});
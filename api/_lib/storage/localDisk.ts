@@ -0,0 +1,120 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ObjectStorage, StoredObject } from "./types.js";
+
+// Object storage in a directory next to the server, for local dev and self-hosted installs without
+// S3. Files are served and accepted by `/api/storage/object` (api/storage/object.ts); uploads need a
+// signed, short-lived URL just like S3 presigned PUTs.
+
+export const LOCAL_OBJECT_ROUTE = "/api/storage/object";
+const UPLOAD_TTL_MS = 5 * 60_000;
+
+// Upload URLs only have to survive until the browser uses them, within this server process.
+const uploadSecret = process.env.OBJECT_STORAGE_SECRET || randomBytes(32).toString("hex");
+
+export function localStorageRoot() {
+  return path.resolve(process.cwd(), process.env.OBJECT_STORAGE_DIR || ".data/objects");
+}
+
+// Maps a key onto a file under the root; null for keys that would escape it.
+export function localObjectPath(key: string) {
+  const clean = String(key || "").replace(/^\/+/, "");
+  if (!clean || clean.split("/").some((part) => !part || part === "." || part === "..")) return null;
+  const root = localStorageRoot();
+  const file = path.resolve(root, clean);
+  return file.startsWith(`${root}${path.sep}`) ? file : null;
+}
+
+function uploadSignature(key: string, expires: number) {
+  return createHmac("sha256", uploadSecret).update(`${key}\n${expires}`).digest("base64url");
+}
+
+export function verifyUploadSignature(key: string, expires: number, signature: string, now = Date.now()) {
+  if (!Number.isFinite(expires) || expires < now) return false;
+  const expected = Buffer.from(uploadSignature(key, expires));
+  const actual = Buffer.from(String(signature || ""));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export async function writeLocalObject(key: string, body: Buffer | string) {
+  const file = localObjectPath(key);
+  if (!file) throw new Error(`Invalid object key "${key}"`);
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, body);
+  await rename(tmp, file);
+}
+
+export async function readLocalObject(key: string): Promise<Buffer | null> {
+  const file = localObjectPath(key);
+  if (!file) return null;
+  try {
+    return await readFile(file);
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException | null)?.code;
+    if (code === "ENOENT" || code === "EISDIR") return null;
+    throw err;
+  }
+}
+
+async function walk(dir: string, root: string, out: StoredObject[]) {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException | null)?.code === "ENOENT") return;
+    throw err;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await walk(full, root, out);
+    } else if (entry.isFile() && !entry.name.endsWith(".tmp")) {
+      const info = await stat(full);
+      out.push({ key: path.relative(root, full).split(path.sep).join("/"), size: info.size, lastModified: info.mtimeMs });
+    }
+  }
+}
+
+export function localDiskStorage(): ObjectStorage {
+  const publicUrl = (key: string) => `${LOCAL_OBJECT_ROUTE}?key=${encodeURIComponent(key)}`;
+  return {
+    name: "local",
+    publicUrl,
+    async signUpload(key) {
+      if (!localObjectPath(key)) throw new Error(`Invalid object key "${key}"`);
+      const expires = Date.now() + UPLOAD_TTL_MS;
+      const params = new URLSearchParams({ key, expires: String(expires), signature: uploadSignature(key, expires) });
+      return { uploadUrl: `${LOCAL_OBJECT_ROUTE}?${params}`, publicUrl: publicUrl(key) };
+    },
+    async getJson(key) {
+      const raw = await readLocalObject(key);
+      return raw && raw.length ? JSON.parse(raw.toString("utf-8")) : null;
+    },
+    async putJson(key, data) {
+      await writeLocalObject(key, JSON.stringify(data, null, 2));
+    },
+    async list(prefix) {
+      const root = localStorageRoot();
+      const out: StoredObject[] = [];
+      // Walk only the directory the prefix points into.
+      const dir = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/")) : "";
+      const start = dir ? localObjectPath(dir) : root;
+      if (!start) return [];
+      await walk(start, root, out);
+      return out.filter((obj) => obj.key.startsWith(prefix)).sort((a, b) => a.key.localeCompare(b.key));
+    },
+    async remove(keys) {
+      for (const key of keys) {
+        const file = localObjectPath(key);
+        if (!file) continue;
+        try {
+          await unlink(file);
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException | null)?.code !== "ENOENT") throw err;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { collectUploadKeys, findOrphanedUploads } from "./orphans.js";
+
+const DAY = 24 * 60 * 60_000;
+
+describe("collectUploadKeys", () => {
+  it("finds keys in S3 and local object URLs anywhere in a record", () => {
+    const keys = collectUploadKeys({
+      items: [
+        {
+          id: "rec1",
+          attachments: [
+            { url: "https://bucket.s3.us-east-2.amazonaws.com/uploads/item/i1/1-a.webp", thumbUrl: null },
+            {
+              url: "/api/storage/object?key=uploads%2Fitem%2Fi1%2F2-b.webp",
+              thumbUrl: "/api/storage/object?key=uploads%2Fitem%2Fi1%2F2-b-thumb.webp",
+            },
+          ],
+        },
+      ],
+      notes: "no uploads here",
+    });
+    expect([...keys].sort()).toEqual(["uploads/item/i1/1-a.webp", "uploads/item/i1/2-b-thumb.webp", "uploads/item/i1/2-b.webp"]);
+  });
+});
+
+describe("findOrphanedUploads", () => {
+  it("skips referenced files, backups and anything inside the grace period", () => {
+    const now = 100 * DAY;
+    const { orphans, recent } = findOrphanedUploads(
+      [
+        { key: "uploads/item/i1/old.webp", size: 10, lastModified: now - 30 * DAY },
+        { key: "uploads/item/i1/kept.webp", size: 10, lastModified: now - 30 * DAY },
+        { key: "uploads/subItem/s1/new.pdf", size: 10, lastModified: now - DAY },
+        { key: "uploads/exports/latest.json", size: 10, lastModified: now - 30 * DAY },
+      ],
+      new Set(["uploads/item/i1/kept.webp"]),
+      { now, graceMs: 7 * DAY },
+    );
+    expect(orphans.map((obj) => obj.key)).toEqual(["uploads/item/i1/old.webp"]);
+    expect(recent).toBe(1);
+  });
+});
@@ -0,0 +1,47 @@
+import type { StoredObject } from "./types.js";
+
+// Attachment files are uploaded before the record that points at them is synced, and nothing
+// deletes them when an attachment or its parent goes away. These helpers find the uploads no
+// synced record or backup mentions any more (see api/storage/gc.ts).
+
+export const UPLOADS_PREFIX = "uploads/";
+// JSON backups share the prefix but are not attachments.
+const EXPORTS_PREFIX = "uploads/exports/";
+
+// Matches S3 URLs and (once decoded) local `/api/storage/object?key=...` URLs alike.
+const UPLOAD_KEY_RE = /uploads\/[\w.\-/]+/g;
+
+function decode(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Adds every upload key mentioned by any string in `value` (records, bundles, backups, ...).
+export function collectUploadKeys(value: unknown, into = new Set<string>()) {
+  if (typeof value === "string") {
+    if (value.includes("uploads")) {
+      for (const match of decode(value).match(UPLOAD_KEY_RE) || []) into.add(match);
+    }
+  } else if (Array.isArray(value)) {
+    for (const entry of value) collectUploadKeys(entry, into);
+  } else if (value && typeof value === "object") {
+    for (const entry of Object.values(value)) collectUploadKeys(entry, into);
+  }
+  return into;
+}
+
+// Unreferenced attachment uploads older than the grace period. Younger ones may belong to a record
+// that is still waiting to be pushed, so they are only counted.
+export function findOrphanedUploads(objects: StoredObject[], referenced: Set<string>, opts: { now: number; graceMs: number }) {
+  const orphans: StoredObject[] = [];
+  let recent = 0;
+  for (const obj of objects) {
+    if (!obj.key.startsWith(UPLOADS_PREFIX) || obj.key.startsWith(EXPORTS_PREFIX) || referenced.has(obj.key)) continue;
+    if (obj.lastModified === null || opts.now - obj.lastModified < opts.graceMs) recent += 1;
+    else orphans.push(obj);
+  }
+  return { orphans, recent };
+}
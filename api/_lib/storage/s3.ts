@@ -0,0 +1,79 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  type S3ServiceException,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { ObjectStorage, StoredObject } from "./types.js";
+
+export function hasS3Env() {
+  return Boolean(process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY && process.env.AWS_REGION && process.env.AWS_S3_BUCKET);
+}
+
+function isMissing(err: unknown) {
+  const aws = err as Partial<S3ServiceException> | null;
+  return aws?.name === "NoSuchKey" || aws?.$metadata?.httpStatusCode === 404;
+}
+
+export function s3Storage(): ObjectStorage {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  const region = process.env.AWS_REGION;
+  const bucket = process.env.AWS_S3_BUCKET;
+  if (!accessKeyId || !secretAccessKey || !region || !bucket) {
+    throw new Error("Missing AWS env vars (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_REGION, AWS_S3_BUCKET).");
+  }
+  const client = new S3Client({ region, credentials: { accessKeyId, secretAccessKey } });
+  const publicUrl = (key: string) => `https://${bucket}.s3.${region}.amazonaws.com/${key}`;
+
+  return {
+    name: "s3",
+    publicUrl,
+    async signUpload(key, contentType) {
+      const command = new PutObjectCommand({ Bucket: bucket, Key: key, ContentType: contentType || "application/octet-stream" });
+      return { uploadUrl: await getSignedUrl(client, command, { expiresIn: 60 * 5 }), publicUrl: publicUrl(key) };
+    },
+    async getJson(key) {
+      try {
+        const out = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+        const raw = (await out.Body?.transformToString("utf-8")) || "";
+        return raw ? JSON.parse(raw) : null;
+      } catch (err) {
+        if (isMissing(err)) return null;
+        throw err;
+      }
+    },
+    async putJson(key, data) {
+      await client.send(
+        new PutObjectCommand({ Bucket: bucket, Key: key, Body: JSON.stringify(data, null, 2), ContentType: "application/json" }),
+      );
+    },
+    async list(prefix) {
+      const out: StoredObject[] = [];
+      let token: string | undefined;
+      do {
+        const page = await client.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: token }));
+        for (const obj of page.Contents || []) {
+          if (!obj.Key) continue;
+          out.push({ key: obj.Key, size: obj.Size ?? 0, lastModified: obj.LastModified ? obj.LastModified.getTime() : null });
+        }
+        token = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (token);
+      return out;
+    },
+    async remove(keys) {
+      // DeleteObjects takes at most 1000 keys per request.
+      for (let i = 0; i < keys.length; i += 1000) {
+        const batch = keys.slice(i, i + 1000);
+        const out = await client.send(
+          new DeleteObjectsCommand({ Bucket: bucket, Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true } }),
+        );
+        const failed = out.Errors?.[0];
+        if (failed) throw new Error(`Failed to delete ${failed.Key}: ${failed.Message || failed.Code || "unknown error"}`);
+      }
+    },
+  };
+}
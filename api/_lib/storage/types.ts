@@ -0,0 +1,19 @@
+// Contract between the routes that store files (attachment uploads, JSON backups) and wherever the
+// bytes actually live. Keys are bucket-style paths such as `uploads/default/item/<id>/<file>.webp`.
+
+export type StoredObject = { key: string; size: number; lastModified: number | null };
+
+export type SignedUpload = { uploadUrl: string; publicUrl: string };
+
+export interface ObjectStorage {
+  name: "s3" | "local";
+  // A short-lived URL the browser PUTs the file to, and the URL it is readable at afterwards.
+  signUpload(key: string, contentType: string): Promise<SignedUpload>;
+  publicUrl(key: string): string;
+  // Null when the key doesn't exist.
+  getJson(key: string): Promise<unknown | null>;
+  putJson(key: string, data: unknown): Promise<void>;
+  list(prefix: string): Promise<StoredObject[]>;
+  // Keys that are already gone are ignored.
+  remove(keys: string[]): Promise<void>;
+}
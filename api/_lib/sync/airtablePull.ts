@@ -0,0 +1,495 @@
+import { getAirtableConfig, listAllRecords, type AirtableRecord } from "../airtable.js";
+import { readAppMeta } from "../appMeta.js";
+import { parseDimensionsText } from "../dimensions.js";
+import { normalizePriceWatch } from "../priceWatch.js";
+import { normalizeVariants } from "../scrape/variants.js";
+import type {
+  SyncConfidence,
+  SyncDimensions,
+  SyncDiscountType,
+  SyncItem,
+  SyncMeasurement,
+  SyncOption,
+  SyncRoom,
+  SyncSpecs,
+  SyncStore,
+  SyncSubItem,
+} from "../contracts.js";
+import type { SyncPullOptions, SyncPullResult } from "./types.js";
+
+function toNumber(v: unknown): number | null {
+  if (v === null || v === undefined) return null;
+  const n = typeof v === "number" ? v : Number(String(v));
+  return Number.isFinite(n) ? n : null;
+}
+
+function normalizeRoom(room: unknown) {
+  const r = String(room || "").trim();
+  return r || "Living";
+}
+
+function firstString(value: unknown): string | null {
+  if (typeof value === "string") {
+    const s = value.trim();
+    return s ? s : null;
+  }
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      if (typeof entry === "string") {
+        const s = entry.trim();
+        if (s) return s;
+      }
+    }
+  }
+  return null;
+}
+
+function firstRecordId(value: unknown): string | null {
+  const v = firstString(value);
+  return v && v.startsWith("rec") ? v : null;
+}
+
+const STATUSES: SyncItem["status"][] = ["Idea", "Shortlist", "Selected", "Ordered", "Delivered", "Installed"];
+
+function normalizeStatus(status: unknown): SyncItem["status"] {
+  const s = String(status || "").trim();
+  return STATUSES.find((allowed) => allowed === s) || "Idea";
+}
+
+function normalizeDiscountType(value: unknown): SyncDiscountType | null {
+  return value === "amount" || value === "percent" ? value : null;
+}
+
+function normalizeConfidence(value: unknown): SyncConfidence | null {
+  return value === "low" || value === "med" || value === "high" ? value : null;
+}
+
+// App Meta is parsed JSON, so nested values are only known to be objects after checking.
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function normalizeDimensions(raw: unknown): SyncDimensions | null {
+  const value = asObject(raw);
+  if (!value) return null;
+  const dims = { wIn: toNumber(value.wIn), hIn: toNumber(value.hIn), dIn: toNumber(value.dIn) };
+  if (dims.wIn === null && dims.hIn === null && dims.dIn === null) return null;
+  return { ...dims, confidence: normalizeConfidence(value.confidence) };
+}
+
+// Values that aren't plain text, numbers or flags are kept as their JSON text, as the app's import does.
+function normalizeSpecs(raw: unknown): SyncSpecs | null {
+  const value = asObject(raw);
+  if (!value) return null;
+  const specs: SyncSpecs = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (v === undefined) continue;
+    specs[key] = v === null || typeof v === "string" || typeof v === "number" || typeof v === "boolean" ? v : JSON.stringify(v);
+  }
+  return specs;
+}
+
+// Re-read a little before the previous pull started so edits that landed mid-pull are not missed.
+const CURSOR_OVERLAP_MS = 60_000;
+
+type PullCursor = { v: 1; since: string; scope: "view" | "table" };
+
+function encodeCursor(cursor: PullCursor) {
+  return Buffer.from(JSON.stringify(cursor), "utf-8").toString("base64url");
+}
+
+function decodeCursor(raw: string | null): PullCursor | null {
+  const value = String(raw || "").trim();
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+    if (parsed?.v !== 1 || typeof parsed.since !== "string") return null;
+    if (!Number.isFinite(Date.parse(parsed.since))) return null;
+    return { v: 1, since: parsed.since, scope: parsed.scope === "table" ? "table" : "view" };
+  } catch {
+    return null;
+  }
+}
+
+function escapeFormulaString(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function changedSinceFormula(sinceIso: string, syncAtField: string) {
+  const since = `DATETIME_PARSE("${escapeFormulaString(sinceIso)}")`;
+  // Airtable's own modified time catches edits made in the UI; `Last Sync At` catches app pushes
+  // even when the modified-time field is scoped to specific columns.
+  const syncAt = `{${syncAtField}}`;
+  return `OR(IS_AFTER(LAST_MODIFIED_TIME(), ${since}), IF(${syncAt}, IS_AFTER(DATETIME_PARSE(${syncAt}), ${since}), FALSE()))`;
+}
+
+export async function pullFromAirtable(opts: SyncPullOptions): Promise<SyncPullResult> {
+  const { token, baseId, tableId, view } = getAirtableConfig(opts.target);
+  const SYNC_AT_FIELD = process.env.AIRTABLE_SYNC_AT_FIELD || "Last Sync At";
+  const cursor = opts.full ? null : decodeCursor(opts.since);
+  const startedAt = Date.now();
+
+  let records: AirtableRecord[];
+  let scope: PullCursor["scope"] = view ? "view" : "table";
+  if (cursor) {
+    // Delta pull: reuse the scope the last full pull settled on so the view fallback never runs twice.
+    scope = cursor.scope;
+    records = await listAllRecords({
+      token,
+      baseId,
+      tableId,
+      view: scope === "view" ? view : undefined,
+      filterByFormula: changedSinceFormula(cursor.since, SYNC_AT_FIELD),
+    });
+  } else {
+    records = await listAllRecords({ token, baseId, tableId, view });
+    if (view) {
+      const types = new Set(records.map((r) => String(r.fields?.["Record Type"] || "").trim()));
+      const hasItem = types.has("Item");
+      const hasOption = types.has("Option");
+      const hasNote = types.has("Note");
+      const hasMeasurement = types.has("Measurement");
+      if (hasItem && (!hasOption || !hasNote || !hasMeasurement)) {
+        // Fallback: view may be filtering out Options/Notes/Measurements.
+        records = await listAllRecords({ token, baseId, tableId });
+        scope = "table";
+      }
+    }
+  }
+  const nextCursor = encodeCursor({ v: 1, since: new Date(startedAt - CURSOR_OVERLAP_MS).toISOString(), scope });
+
+  // Every record id in the table (not just the view or the delta) so clients can drop records
+  // deleted in Airtable or by another device. Ids-only listing keeps this cheap on delta pulls.
+  const remoteIds =
+    !cursor && scope === "table"
+      ? records.map((r) => r.id)
+      : (await listAllRecords({ token, baseId, tableId, fields: ["Record Type"] })).map((r) => r.id);
+
+  // Attachments live in App Meta and go to the client as stored.
+  const items: Array<SyncItem & { attachments: unknown[] }> = [];
+  const options: Array<SyncOption & { attachments: unknown[] }> = [];
+  const subItems: Array<SyncSubItem & { attachments: unknown[] }> = [];
+  const measurements: SyncMeasurement[] = [];
+  const stores: SyncStore[] = [];
+  const roomsMap = new Map<string, SyncRoom>();
+  const itemLocalToRemote = new Map<string, string>();
+  const itemRemoteToLocal = new Map<string, string>();
+  const optionLocalToRemote = new Map<string, string>();
+  const optionRemoteToLocal = new Map<string, string>();
+
+  for (const rec of records) {
+    const f = rec.fields || {};
+    const rt = String(f["Record Type"] || "").trim();
+    const { userNotes, meta } = readAppMeta(f);
+
+    if (rt === "Item") {
+      const dims = normalizeDimensions(meta?.dimensions) || parseDimensionsText(f["Dimensions"]);
+      const variants = normalizeVariants(meta?.variants);
+      const localIdRaw = typeof meta?.localId === "string" ? meta.localId.trim() : "";
+      const localId = localIdRaw && !localIdRaw.startsWith("rec") ? localIdRaw : "";
+      const metaSpecs = asObject(meta?.specs);
+      const clipper = asObject(meta?.clipper);
+      const captureMethodRaw =
+        typeof metaSpecs?.captureMethod === "string"
+          ? metaSpecs.captureMethod
+          : typeof clipper?.captureMethod === "string"
+            ? clipper.captureMethod
+            : "";
+      const captureMethod = captureMethodRaw.trim().toLowerCase();
+      const needsReviewFromFallback = captureMethod === "fallback_scraper";
+      if (localId) {
+        itemLocalToRemote.set(localId, rec.id);
+        itemRemoteToLocal.set(rec.id, localId);
+      }
+      const itemId = localId || rec.id;
+      items.push({
+        id: itemId,
+        remoteId: rec.id,
+        syncState: "clean",
+        name: String(f["Title"] || "").trim() || "Item",
+        room: normalizeRoom(firstString(f["Room"]) || f["Room"]),
+        category: String(meta?.category || f["Category"] || "Other").trim() || "Other",
+        status: normalizeStatus(f["Status"]),
+        kind: meta?.kind === "placeholder" ? "placeholder" : "standalone",
+        sort: toNumber(meta?.sort),
+        price: toNumber(f["Price"]),
+        selectedOptionId: firstRecordId(f["Selected Option Id"]),
+        discountType: normalizeDiscountType(meta?.discountType ?? f["Discount Type"]),
+        discountValue: toNumber(meta?.discountValue),
+        qty: toNumber(f["Quantity"]) ? Math.round(toNumber(f["Quantity"]) as number) : 1,
+        store: firstString(f["Store"]),
+        link: typeof f["Link"] === "string" ? f["Link"] : null,
+        notes: userNotes || null,
+        priority: toNumber(f["Priority"] ?? f["Prioirity"]),
+        dimensions: dims || undefined,
+        variants: variants.length ? variants : null,
+        priceWatch: normalizePriceWatch(meta?.priceWatch),
+        specs: normalizeSpecs(meta?.specs),
+        provenance: needsReviewFromFallback
+          ? {
+              dataSource: "estimated",
+              reviewStatus: "needs_review",
+              sourceRef: typeof f["Link"] === "string" ? f["Link"] : null,
+            }
+          : null,
+        attachments: Array.isArray(meta?.attachments) ? meta.attachments : [],
+        createdAt: toNumber(meta?.createdAt) || Date.now(),
+        updatedAt: toNumber(meta?.updatedAt) || Date.now(),
+      });
+      continue;
+    }
+
+    if (rt === "Option") {
+      const parentRecordId = firstRecordId(f["Parent Item Record Id"]);
+      const parentKey = firstString(f["Parent Item Key"]);
+      const parentRemoteId = firstRecordId(meta?.parentRemoteId);
+      const parentLocalIdRaw = typeof meta?.parentLocalId === "string" ? meta.parentLocalId.trim() : parentKey || "";
+      const parentLocalId = parentLocalIdRaw && !parentLocalIdRaw.startsWith("rec") ? parentLocalIdRaw : "";
+      const localIdRaw = typeof meta?.localId === "string" ? meta.localId.trim() : "";
+      const localId = localIdRaw && !localIdRaw.startsWith("rec") ? localIdRaw : "";
+      if (localId) {
+        optionLocalToRemote.set(localId, rec.id);
+        optionRemoteToLocal.set(rec.id, localId);
+      }
+      const mappedParent = parentRecordId ? itemRemoteToLocal.get(parentRecordId) || parentRecordId : null;
+      const parentId = mappedParent || parentRemoteId || parentLocalId || "";
+      const optionId = localId || rec.id;
+      options.push({
+        id: optionId,
+        remoteId: rec.id,
+        syncState: "clean",
+        itemId: parentId,
+        title: String(f["Title"] || "").trim() || "Option",
+        sort: toNumber(meta?.sort),
+        store: firstString(f["Store"]),
+        link: typeof f["Link"] === "string" ? f["Link"] : null,
+        promoCode: typeof f["Promo Code"] === "string" ? f["Promo Code"] : null,
+        price: toNumber(f["Price"]),
+        shipping: toNumber(f["Shipping"]),
+        taxEstimate: toNumber(f["Tax Estimate"]),
+        discount: toNumber(f["Discount"]),
+        discountType: normalizeDiscountType(meta?.discountType) ?? (toNumber(f["Discount"]) !== null ? "amount" : null),
+        discountValue: toNumber(meta?.discountValue) ?? toNumber(f["Discount"]),
+        dimensionsText: typeof f["Dimensions"] === "string" ? f["Dimensions"] : null,
+        dimensions: normalizeDimensions(meta?.dimensions) || parseDimensionsText(f["Dimensions"]) || undefined,
+        priceWatch: normalizePriceWatch(meta?.priceWatch),
+        notes: userNotes || null,
+        selected: Boolean(meta?.selected),
+        attachments: Array.isArray(meta?.attachments) ? meta.attachments : [],
+        createdAt: toNumber(meta?.createdAt) || Date.now(),
+        updatedAt: toNumber(meta?.updatedAt) || Date.now(),
+      });
+      continue;
+    }
+
+    if (rt === "SubItem" || meta?.recordType === "SubItem") {
+      const parentRemoteId = firstRecordId(meta?.parentRemoteId) || firstRecordId(f["Parent Item Key"]);
+      const parentLocalIdRaw = typeof meta?.parentLocalId === "string" ? meta.parentLocalId.trim() : "";
+      const parentLocalId = parentLocalIdRaw && !parentLocalIdRaw.startsWith("rec") ? parentLocalIdRaw : "";
+      const localIdRaw = typeof meta?.localId === "string" ? meta.localId.trim() : "";
+      const localId = localIdRaw && !localIdRaw.startsWith("rec") ? localIdRaw : "";
+      const qty = toNumber(meta?.qty) ?? toNumber(f["Quantity"]);
+      subItems.push({
+        id: localId || rec.id,
+        remoteId: rec.id,
+        syncState: "clean",
+        optionId: parentRemoteId || parentLocalId || "",
+        title: String(f["Title"] || "").trim() || "Sub-item",
+        sort: toNumber(meta?.sort),
+        qty: qty && qty > 0 ? Math.round(qty) : 1,
+        price: toNumber(f["Price"]),
+        taxEstimate: toNumber(f["Tax Estimate"]),
+        discountType: normalizeDiscountType(meta?.discountType) ?? (toNumber(f["Discount"]) !== null ? "amount" : null),
+        discountValue: toNumber(meta?.discountValue) ?? toNumber(f["Discount"]),
+        extraWarrantyCost: toNumber(meta?.extraWarrantyCost),
+        notes: userNotes || null,
+        attachments: Array.isArray(meta?.attachments) ? meta.attachments : [],
+        createdAt: toNumber(meta?.createdAt) || Date.now(),
+        updatedAt: toNumber(meta?.updatedAt) || Date.now(),
+      });
+      continue;
+    }
+
+    if (rt === "Measurement") {
+      const label = String(f["Measure Label"] || f["Title"] || "").trim() || "Measurement";
+      let valueIn = toNumber(f["Value (in)"]);
+      if (valueIn === null) {
+        const raw = toNumber(f["Value"]);
+        const unit = String(f["Unit Entered"] || "in").trim().toLowerCase();
+        if (raw !== null) valueIn = unit === "cm" ? raw / 2.54 : raw;
+      }
+      measurements.push({
+        id: rec.id,
+        remoteId: rec.id,
+        syncState: "clean",
+        room: normalizeRoom(firstString(f["Room"]) || f["Room"]),
+        label,
+        valueIn: valueIn ?? 0,
+        sort: toNumber(meta?.sort),
+        confidence: normalizeConfidence(f["Confidence"]),
+        forCategory: typeof meta?.forCategory === "string" ? meta.forCategory : null,
+        forItemId: typeof meta?.forItemId === "string" ? meta.forItemId : null,
+        notes: userNotes || null,
+        createdAt: toNumber(meta?.createdAt) || Date.now(),
+        updatedAt: toNumber(meta?.updatedAt) || Date.now(),
+      });
+      continue;
+    }
+
+    if (rt === "Store" || meta?.recordType === "Store") {
+      const name = String(f["Title"] || f["Store"] || "").trim() || "Store";
+      stores.push({
+        id: rec.id,
+        remoteId: rec.id,
+        syncState: "clean",
+        name,
+        sort: toNumber(meta?.sort),
+        discountType: normalizeDiscountType(meta?.discountType),
+        discountValue: toNumber(meta?.discountValue) ?? toNumber(f["Discount Value"] ?? f["Discount"]),
+        shippingCost: toNumber(meta?.shippingCost) ?? toNumber(f["Shipping Cost"] ?? f["Delivery Cost"] ?? f["Shipping"]),
+        deliveryInfo:
+          typeof meta?.deliveryInfo === "string"
+            ? meta.deliveryInfo
+            : typeof f["Delivery Info"] === "string"
+              ? f["Delivery Info"]
+              : null,
+        extraWarranty:
+          typeof meta?.extraWarranty === "string"
+            ? meta.extraWarranty
+            : typeof f["Extra Warranty"] === "string"
+              ? f["Extra Warranty"]
+              : null,
+        trial:
+          typeof meta?.trial === "string"
+            ? meta.trial
+            : typeof f["Trial"] === "string"
+              ? f["Trial"]
+              : null,
+        apr:
+          typeof meta?.apr === "string"
+            ? meta.apr
+            : typeof f["APR"] === "string"
+              ? f["APR"]
+              : null,
+        notes: userNotes || null,
+        createdAt: toNumber(meta?.createdAt) || Date.now(),
+        updatedAt: toNumber(meta?.updatedAt) || Date.now(),
+      });
+      continue;
+    }
+
+    if (rt === "Note" || rt === "Room") {
+      if (meta?.recordType === "Store") {
+        const name = String(f["Title"] || f["Store"] || "").trim() || "Store";
+        stores.push({
+          id: rec.id,
+          remoteId: rec.id,
+          syncState: "clean",
+          name,
+          sort: toNumber(meta?.sort),
+          discountType: normalizeDiscountType(meta?.discountType),
+          discountValue: toNumber(meta?.discountValue) ?? toNumber(f["Discount Value"] ?? f["Discount"]),
+          shippingCost: toNumber(meta?.shippingCost) ?? toNumber(f["Shipping Cost"] ?? f["Delivery Cost"] ?? f["Shipping"]),
+          deliveryInfo:
+            typeof meta?.deliveryInfo === "string"
+              ? meta.deliveryInfo
+              : typeof f["Delivery Info"] === "string"
+                ? f["Delivery Info"]
+                : null,
+          extraWarranty:
+            typeof meta?.extraWarranty === "string"
+              ? meta.extraWarranty
+              : typeof f["Extra Warranty"] === "string"
+                ? f["Extra Warranty"]
+                : null,
+          trial:
+            typeof meta?.trial === "string"
+              ? meta.trial
+              : typeof f["Trial"] === "string"
+                ? f["Trial"]
+                : null,
+          apr:
+            typeof meta?.apr === "string"
+              ? meta.apr
+              : typeof f["APR"] === "string"
+                ? f["APR"]
+                : null,
+          notes: userNotes || null,
+          createdAt: toNumber(meta?.createdAt) || Date.now(),
+          updatedAt: toNumber(meta?.updatedAt) || Date.now(),
+        });
+      } else {
+        const room = normalizeRoom(firstString(f["Room"]) || f["Room"]);
+        roomsMap.set(room, {
+          id: room,
+          name: room,
+          remoteId: rec.id,
+          syncState: "clean",
+          notes: userNotes || "",
+          sort: toNumber(meta?.sort),
+          createdAt: toNumber(meta?.createdAt) || Date.now(),
+          updatedAt: toNumber(meta?.updatedAt) || Date.now(),
+        });
+      }
+    }
+  }
+
+  // A delta only carries rooms that changed; placeholder rooms would clobber local room notes.
+  const roomIds = new Set<string>();
+  if (!cursor) {
+    for (const it of items) roomIds.add(it.room);
+    for (const m of measurements) roomIds.add(m.room);
+  }
+  for (const rid of roomsMap.keys()) roomIds.add(rid);
+
+  const rooms = [...roomIds].map(
+    (rid): SyncRoom =>
+      roomsMap.get(rid) || {
+        id: rid,
+        name: rid,
+        remoteId: null,
+        syncState: "clean",
+        notes: "",
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      },
+  );
+
+  for (const opt of options) {
+    if (typeof opt.itemId !== "string" || !opt.itemId) continue;
+    if (opt.itemId.startsWith("rec")) {
+      const mapped = itemRemoteToLocal.get(opt.itemId);
+      if (mapped) opt.itemId = mapped;
+    }
+  }
+  for (const sub of subItems) {
+    if (typeof sub.optionId !== "string" || !sub.optionId) continue;
+    if (sub.optionId.startsWith("rec")) {
+      const mapped = optionRemoteToLocal.get(sub.optionId);
+      if (mapped) sub.optionId = mapped;
+    }
+  }
+  for (const it of items) {
+    if (typeof it.selectedOptionId !== "string" || !it.selectedOptionId) continue;
+    if (it.selectedOptionId.startsWith("rec")) {
+      const mapped = optionRemoteToLocal.get(it.selectedOptionId);
+      if (mapped) it.selectedOptionId = mapped;
+    }
+  }
+
+  return {
+    delta: Boolean(cursor),
+    cursor: nextCursor,
+    remoteIds,
+    bundle: {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      rooms,
+      measurements,
+      items,
+      options,
+      subItems,
+      stores,
+    },
+  };
+}
@@ -0,0 +1,984 @@
+import {
+  AIRTABLE_BATCH_SIZE,
+  AirtableBatchError,
+  AirtableError,
+  createRecords,
+  deleteRecords,
+  getAirtableConfig,
+  listAllRecords,
+  updateRecords,
+  type AirtableDeletedRecord,
+  type AirtableFields,
+  type AirtableRecord,
+  type AirtableRecordInput,
+} from "../airtable.js";
+import { appMetaFields, resolveAppMetaField } from "../appMeta.js";
+import { errorMessage } from "../http.js";
+import { addToPlan, diffFields } from "./plan.js";
+import type { SyncDimensions, SyncOption, SyncSubItem } from "../contracts.js";
+import type { SyncPlanEntity, SyncPushBody, SyncPushError, SyncPushPlan, SyncPushResult } from "./types.js";
+
+type PushError = SyncPushError;
+
+function isRemoteId(id: unknown): id is string {
+  return typeof id === "string" && id.startsWith("rec");
+}
+
+function isNotFoundError(message: string) {
+  return /NOT_FOUND|does not exist/i.test(message || "");
+}
+
+function normalizeStoreValue(value: unknown): string | null {
+  const name = typeof value === "string" ? value.trim() : "";
+  return name ? name : null;
+}
+
+function dimsToText(d: SyncDimensions | null | undefined) {
+  if (!d || typeof d !== "object") return "";
+  const w = typeof d.wIn === "number" ? d.wIn : null;
+  const dd = typeof d.dIn === "number" ? d.dIn : null;
+  const h = typeof d.hIn === "number" ? d.hIn : null;
+  if (w === null && dd === null && h === null) return "";
+  const parts = [w, dd, h].map((n) => (typeof n === "number" ? String(n) : "?"));
+  return `${parts.join("x")} in`;
+}
+
+function sanitizeAttachments(raw: unknown) {
+  if (!Array.isArray(raw)) return [];
+  const out = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue;
+    const att = entry as Record<string, unknown>;
+    const url = typeof att.url === "string" ? att.url.trim() : "";
+    if (!url) continue;
+    out.push({
+      id: typeof att.id === "string" ? att.id : null,
+      url,
+      thumbUrl: typeof att.thumbUrl === "string" && att.thumbUrl.trim() ? att.thumbUrl.trim() : null,
+      name: typeof att.name === "string" ? att.name : null,
+      kind: typeof att.kind === "string" ? att.kind : null,
+      mime: typeof att.mime === "string" ? att.mime : null,
+      size: typeof att.size === "number" ? att.size : null,
+      createdAt: typeof att.createdAt === "number" ? att.createdAt : Date.now(),
+      updatedAt: typeof att.updatedAt === "number" ? att.updatedAt : Date.now(),
+    });
+  }
+  return out;
+}
+
+type OptionTotals = Pick<SyncOption, "price" | "shipping" | "taxEstimate" | "discount" | "discountType" | "discountValue">;
+
+function optionBaseTotal(o: OptionTotals) {
+  return (typeof o.price === "number" ? o.price : 0) + (typeof o.shipping === "number" ? o.shipping : 0) + (typeof o.taxEstimate === "number" ? o.taxEstimate : 0);
+}
+
+function optionDiscountAmount(o: OptionTotals) {
+  const value = typeof o.discountValue === "number" ? o.discountValue : null;
+  const type = typeof o.discountType === "string" ? o.discountType : null;
+  if (value !== null && value > 0) {
+    if (type === "amount") return value;
+    if (type === "percent") return optionBaseTotal(o) * (value / 100);
+  }
+  return typeof o.discount === "number" ? o.discount : 0;
+}
+
+type SubItemTotals = Pick<SyncSubItem, "qty" | "price" | "taxEstimate" | "extraWarrantyCost" | "discountType" | "discountValue">;
+
+function subItemQty(s: SubItemTotals) {
+  return typeof s.qty === "number" && s.qty > 0 ? Math.round(s.qty) : 1;
+}
+
+function subItemBaseTotal(s: SubItemTotals) {
+  return (
+    (typeof s.price === "number" ? s.price : 0) +
+    (typeof s.taxEstimate === "number" ? s.taxEstimate : 0) +
+    (typeof s.extraWarrantyCost === "number" ? s.extraWarrantyCost : 0)
+  );
+}
+
+function subItemDiscountAmount(s: SubItemTotals, base: number) {
+  const value = typeof s.discountValue === "number" ? s.discountValue : null;
+  if (value === null || value <= 0) return 0;
+  if (s.discountType === "percent") return value >= 100 ? base : (base * value) / 100;
+  return Math.min(value, base);
+}
+
+// Text of a field for error messages and plan entries.
+function fieldText(fields: AirtableFields | undefined, name: string) {
+  const value = fields?.[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+// Creates send new records; updates name the record they change.
+type WriteOpts<T extends AirtableRecordInput = AirtableRecordInput> = {
+  token: string;
+  baseId: string;
+  tableId: string;
+  records: T[];
+  typecast?: boolean;
+};
+type WriteResult = { records: Array<AirtableRecord | null>; errors: Array<{ index: number; message: string }> };
+type BatchWrite = (opts: WriteOpts) => Promise<AirtableRecord[]>;
+
+// Write in batches; when a batch fails, keep what already landed, retry that batch's records one at
+// a time so a single bad record doesn't sink the others, then go back to batching the rest.
+// Only an Airtable 4xx (other than 429) says which records were rejected; throttling and 5xx have already
+// been retried by the scheduler, and a dropped connection may have committed the batch, so anything else
+// just fails the remainder rather than risk sending the same creates twice.
+async function safeWriteRecords(write: BatchWrite, opts: WriteOpts): Promise<WriteResult> {
+  const results: Array<AirtableRecord | null> = new Array(opts.records.length).fill(null);
+  const errors: Array<{ index: number; message: string }> = [];
+  if (!opts.records.length) return { records: results, errors };
+  let start = 0;
+  while (start < opts.records.length) {
+    try {
+      const written = await write({ ...opts, records: opts.records.slice(start) });
+      written.forEach((rec, i) => (results[start + i] = rec || null));
+      break;
+    } catch (err) {
+      const processed = err instanceof AirtableBatchError ? err.processed : 0;
+      if (err instanceof AirtableBatchError) err.completed.forEach((rec, i) => (results[start + i] = rec || null));
+      const failedAt = start + processed;
+      const cause = err instanceof AirtableBatchError ? err.cause : err;
+      const rejected = cause instanceof AirtableError && cause.status >= 400 && cause.status < 500 && cause.status !== 429;
+      if (!rejected) {
+        const message = cause instanceof Error ? cause.message : "Unknown error";
+        for (let i = failedAt; i < opts.records.length; i++) errors.push({ index: i, message });
+        break;
+      }
+      const batchEnd = Math.min(opts.records.length, failedAt + AIRTABLE_BATCH_SIZE);
+      for (let i = failedAt; i < batchEnd; i++) {
+        try {
+          const written = await write({ ...opts, records: [opts.records[i]] });
+          results[i] = written[0] || null;
+        } catch (singleErr) {
+          const singleCause = singleErr instanceof AirtableBatchError ? singleErr.cause : singleErr;
+          errors.push({ index: i, message: errorMessage(singleCause, "Unknown error") });
+        }
+      }
+      start = batchEnd;
+    }
+  }
+  return { records: results, errors };
+}
+
+async function safeCreateRecords(opts: WriteOpts) {
+  return await safeWriteRecords(createRecords, opts);
+}
+
+async function safeUpdateRecords(opts: WriteOpts<AirtableRecord>) {
+  return await safeWriteRecords(updateRecords, opts);
+}
+
+// Everything the push writes goes through one of these, so a dry run can swap in a recorder.
+type PushWriter = {
+  create(opts: WriteOpts): Promise<WriteResult>;
+  update(opts: WriteOpts<AirtableRecord>): Promise<WriteResult>;
+  remove(opts: { token: string; baseId: string; tableId: string; ids: string[] }): Promise<AirtableDeletedRecord[]>;
+};
+
+const airtableWriter: PushWriter = {
+  create: safeCreateRecords,
+  update: safeUpdateRecords,
+  remove: deleteRecords,
+};
+
+const ENTITY_BY_RECORD_TYPE: Record<string, SyncPlanEntity> = {
+  Item: "items",
+  Option: "options",
+  SubItem: "subItems",
+  Measurement: "measurements",
+  Room: "rooms",
+  Note: "rooms",
+  Store: "stores",
+};
+
+function planEntity(fields: AirtableFields | undefined): SyncPlanEntity {
+  return ENTITY_BY_RECORD_TYPE[String(fields?.["Record Type"] || "").trim()] || "other";
+}
+
+// Records writes instead of sending them. Creates get placeholder `rec` ids so later entities
+// (options under a new item, etc.) are planned exactly as a real push would write them.
+function dryRunWriter() {
+  const creates: AirtableRecordInput[] = [];
+  const updates: AirtableRecord[] = [];
+  const deletes: string[] = [];
+  const known = new Map<string, AirtableRecord>();
+  let n = 0;
+  const writer: PushWriter = {
+    create: async ({ records }) => {
+      creates.push(...records);
+      return { records: records.map((r) => ({ id: `recDryRun${++n}`, fields: r.fields })), errors: [] };
+    },
+    update: async ({ records }) => {
+      updates.push(...records);
+      return { records: records.map((r) => ({ id: r.id, fields: r.fields })), errors: [] };
+    },
+    remove: async ({ ids }) => {
+      deletes.push(...ids);
+      return ids.map((id) => ({ id, deleted: true }));
+    },
+  };
+  return { writer, creates, updates, deletes, known };
+}
+
+async function fetchRecordsById(opts: { token: string; baseId: string; tableId: string; ids: string[] }) {
+  const out = new Map<string, AirtableRecord>();
+  for (let i = 0; i < opts.ids.length; i += 50) {
+    const batch = opts.ids.slice(i, i + 50);
+    const formula = `OR(${batch.map((id) => `RECORD_ID()="${id.replace(/"/g, "")}"`).join(",")})`;
+    const records = await listAllRecords({ token: opts.token, baseId: opts.baseId, tableId: opts.tableId, filterByFormula: formula });
+    for (const rec of records) out.set(rec.id, rec);
+  }
+  return out;
+}
+
+async function buildPushPlan(
+  recorded: ReturnType<typeof dryRunWriter>,
+  opts: { token: string; baseId: string; tableId: string; ignoreFields: string[] },
+): Promise<SyncPushPlan> {
+  const missing = [...recorded.updates.map((r) => r.id), ...recorded.deletes].filter((id) => !recorded.known.has(id));
+  const fetched = await fetchRecordsById({ ...opts, ids: [...new Set(missing)] });
+  const current = (id: string) => recorded.known.get(id) || fetched.get(id);
+
+  const plan: SyncPushPlan = {};
+  for (const rec of recorded.creates) {
+    addToPlan(plan, planEntity(rec.fields), "creates", { title: fieldText(rec.fields, "Title") });
+  }
+  for (const rec of recorded.updates) {
+    const existing = current(rec.id);
+    // Gone from Airtable: the real push re-creates it.
+    if (!existing) addToPlan(plan, planEntity(rec.fields), "creates", { title: fieldText(rec.fields, "Title") });
+    else {
+      addToPlan(plan, planEntity(rec.fields), "updates", {
+        id: rec.id,
+        title: fieldText(rec.fields, "Title"),
+        changes: diffFields(rec.fields, existing.fields || {}, opts.ignoreFields),
+      });
+    }
+  }
+  for (const id of recorded.deletes) {
+    const existing = current(id);
+    if (existing) addToPlan(plan, planEntity(existing.fields), "deletes", { id, title: fieldText(existing.fields, "Title") });
+  }
+  return plan;
+}
+
+export async function pushToAirtable(body: SyncPushBody): Promise<SyncPushResult> {
+  const mode = typeof body?.mode === "string" ? body.mode : "commit";
+  const forceCreate = mode === "reset";
+  const items = Array.isArray(body.items) ? body.items : [];
+  const options = Array.isArray(body.options) ? body.options : [];
+  const measurements = Array.isArray(body.measurements) ? body.measurements : [];
+  const rooms = Array.isArray(body.rooms) ? body.rooms : [];
+  const stores = Array.isArray(body.stores) ? body.stores : [];
+  const subItems = Array.isArray(body.subItems) ? body.subItems : [];
+
+  const { token, baseId, tableId, view } = getAirtableConfig(body.target);
+  const PRIORITY_FIELD = process.env.AIRTABLE_PRIORITY_FIELD || "Priority";
+  const SYNC_SOURCE = process.env.AIRTABLE_SYNC_SOURCE || "app";
+  const SYNC_SOURCE_FIELD = process.env.AIRTABLE_SYNC_SOURCE_FIELD || "Last Sync Source";
+  const SYNC_AT_FIELD = process.env.AIRTABLE_SYNC_AT_FIELD || "Last Sync At";
+  const syncAtIso = new Date().toISOString();
+  const pushErrors: PushError[] = [];
+  // Bases created before the App Meta field existed keep metadata in Notes until the field is added.
+  const metaField = await resolveAppMetaField({ token, baseId, tableId });
+  const dryRun = body?.dryRun ? dryRunWriter() : null;
+  const writer = dryRun?.writer || airtableWriter;
+
+  if (forceCreate) {
+    const existing = await listAllRecords({ token, baseId, tableId, view });
+    for (const rec of existing) dryRun?.known.set(rec.id, rec);
+    const ids = existing.map((r) => r.id).filter(Boolean);
+    if (ids.length) await writer.remove({ token, baseId, tableId, ids });
+  }
+
+  // --- Items ---
+  const itemCreates: AirtableRecordInput[] = [];
+  const itemCreateLocalIds: string[] = [];
+  const itemUpdates: AirtableRecord[] = [];
+  const itemUpdateLocalIds: string[] = [];
+  const itemDeletes: string[] = [];
+  const itemIdMap: Record<string, string> = {};
+
+  for (const it of items) {
+    const localId = String(it.id || "").trim();
+    if (!localId) continue;
+
+    const syncState = String(it.syncState || "").trim();
+    const remoteId = forceCreate ? null : isRemoteId(it.remoteId) ? it.remoteId : isRemoteId(it.id) ? it.id : null;
+
+    if (syncState === "deleted") {
+      if (remoteId) itemDeletes.push(remoteId);
+      continue;
+    }
+
+    const meta = {
+      category: it.category || "Other",
+      kind: it.kind === "placeholder" ? "placeholder" : "standalone",
+      dimensions: it.dimensions || null,
+      variants: Array.isArray(it.variants) && it.variants.length ? it.variants : null,
+      priceWatch: it.priceWatch || null,
+      sort: typeof it.sort === "number" ? it.sort : null,
+      specs: it.specs || null,
+      discountType: it.discountType || null,
+      discountValue: typeof it.discountValue === "number" ? it.discountValue : null,
+      localId,
+      attachments: sanitizeAttachments(it.attachments),
+      createdAt: typeof it.createdAt === "number" ? it.createdAt : Date.now(),
+      updatedAt: typeof it.updatedAt === "number" ? it.updatedAt : Date.now(),
+    };
+
+    const fields: AirtableFields = {
+      "Record Type": "Item",
+      Title: String(it.name || "Item"),
+      Room: String(it.room || "Living"),
+      Status: String(it.status || "Idea"),
+      Price: typeof it.price === "number" ? it.price : null,
+      Quantity: typeof it.qty === "number" ? Math.round(it.qty) : 1,
+      Store: normalizeStoreValue(it.store),
+      Link: typeof it.link === "string" ? it.link : null,
+      ...appMetaFields(it.notes, meta, metaField),
+      Dimensions: dimsToText(it.dimensions),
+    };
+    if (typeof it.selectedOptionId === "string" && it.selectedOptionId) {
+      fields["Selected Option Id"] = it.selectedOptionId;
+    }
+    fields[SYNC_SOURCE_FIELD] = SYNC_SOURCE;
+    fields[SYNC_AT_FIELD] = syncAtIso;
+    if (typeof it.priority === "number") fields[PRIORITY_FIELD] = Math.round(it.priority);
+
+    if (remoteId) {
+      itemIdMap[localId] = remoteId;
+      itemUpdates.push({ id: remoteId, fields });
+      itemUpdateLocalIds.push(localId);
+    }
+    else {
+      itemCreates.push({ fields });
+      itemCreateLocalIds.push(localId);
+    }
+  }
+
+  const itemCreateResult = await writer.create({ token, baseId, tableId, records: itemCreates, typecast: true });
+  for (let i = 0; i < itemCreateResult.records.length; i++) {
+    const localId = itemCreateLocalIds[i];
+    if (!localId) continue;
+    const rec = itemCreateResult.records[i];
+    if (rec && rec.id) itemIdMap[localId] = rec.id;
+  }
+
+  if (itemCreateResult.errors.length) {
+    for (const err of itemCreateResult.errors) {
+      const title = fieldText(itemCreates[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "item", action: "create", title, localId: itemCreateLocalIds[err.index], message: err.message });
+    }
+  }
+  const itemUpdateResult = await writer.update({ token, baseId, tableId, records: itemUpdates, typecast: true });
+  const itemRecreateRecords: AirtableRecordInput[] = [];
+  const itemRecreateLocalIds: string[] = [];
+  if (itemUpdateResult.errors.length) {
+    for (const err of itemUpdateResult.errors) {
+      const title = fieldText(itemUpdates[err.index]?.fields, "Title");
+      const id = itemUpdates[err.index]?.id;
+      if (isNotFoundError(err.message)) {
+        itemRecreateRecords.push({ fields: itemUpdates[err.index]?.fields || {} });
+        itemRecreateLocalIds.push(itemUpdateLocalIds[err.index]);
+      } else {
+        pushErrors.push({ entity: "item", action: "update", id, title, localId: itemUpdateLocalIds[err.index], message: err.message });
+      }
+    }
+  }
+  const itemRecreateResult = await writer.create({
+    token,
+    baseId,
+    tableId,
+    records: itemRecreateRecords,
+    typecast: true,
+  });
+  if (itemRecreateResult.errors.length) {
+    for (const err of itemRecreateResult.errors) {
+      const title = fieldText(itemRecreateRecords[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "item", action: "create", title, localId: itemRecreateLocalIds[err.index], message: err.message });
+    }
+  }
+  for (let i = 0; i < itemRecreateResult.records.length; i++) {
+    const localId = itemRecreateLocalIds[i];
+    const rec = itemRecreateResult.records[i];
+    if (localId && rec && rec.id) itemIdMap[localId] = rec.id;
+  }
+
+  // --- Measurements ---
+  const measCreates: AirtableRecordInput[] = [];
+  const measCreateLocalIds: string[] = [];
+  const measUpdates: AirtableRecord[] = [];
+  const measUpdateLocalIds: string[] = [];
+  const measDeletes: string[] = [];
+
+  for (const m of measurements) {
+    const localId = String(m.id || "").trim();
+    if (!localId) continue;
+    const syncState = String(m.syncState || "").trim();
+    const remoteId = forceCreate ? null : isRemoteId(m.remoteId) ? m.remoteId : isRemoteId(m.id) ? m.id : null;
+    if (syncState === "deleted") {
+      if (remoteId) measDeletes.push(remoteId);
+      continue;
+    }
+    const valueIn = typeof m.valueIn === "number" ? m.valueIn : 0;
+    const meta = {
+      sort: typeof m.sort === "number" ? m.sort : null,
+      forCategory: typeof m.forCategory === "string" ? m.forCategory : null,
+      forItemId: typeof m.forItemId === "string" ? m.forItemId : null,
+      createdAt: typeof m.createdAt === "number" ? m.createdAt : Date.now(),
+      updatedAt: typeof m.updatedAt === "number" ? m.updatedAt : Date.now(),
+    };
+    const fields: AirtableFields = {
+      "Record Type": "Measurement",
+      Title: String(m.label || "Measurement"),
+      "Measure Label": String(m.label || "Measurement"),
+      Room: String(m.room || "Living"),
+      "Value (in)": valueIn,
+      "Value (cm)": valueIn * 2.54,
+      "Unit Entered": "in",
+      Confidence: m.confidence || null,
+      ...appMetaFields(m.notes, meta, metaField),
+    };
+    fields[SYNC_SOURCE_FIELD] = SYNC_SOURCE;
+    fields[SYNC_AT_FIELD] = syncAtIso;
+    if (remoteId) {
+      measUpdates.push({ id: remoteId, fields });
+      measUpdateLocalIds.push(localId);
+    }
+    else {
+      measCreates.push({ fields });
+      measCreateLocalIds.push(localId);
+    }
+  }
+
+  const measCreateResult = await writer.create({ token, baseId, tableId, records: measCreates, typecast: true });
+  const measurementIdMap: Record<string, string> = {};
+  for (let i = 0; i < measCreateResult.records.length; i++) {
+    const localId = measCreateLocalIds[i];
+    if (!localId) continue;
+    const rec = measCreateResult.records[i];
+    if (rec && rec.id) measurementIdMap[localId] = rec.id;
+  }
+  if (measCreateResult.errors.length) {
+    for (const err of measCreateResult.errors) {
+      const title = fieldText(measCreates[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "measurement", action: "create", title, localId: measCreateLocalIds[err.index], message: err.message });
+    }
+  }
+  const measUpdateResult = await writer.update({ token, baseId, tableId, records: measUpdates, typecast: true });
+  const measRecreateRecords: AirtableRecordInput[] = [];
+  const measRecreateLocalIds: string[] = [];
+  if (measUpdateResult.errors.length) {
+    for (const err of measUpdateResult.errors) {
+      const title = fieldText(measUpdates[err.index]?.fields, "Title");
+      const id = measUpdates[err.index]?.id;
+      if (isNotFoundError(err.message)) {
+        measRecreateRecords.push({ fields: measUpdates[err.index]?.fields || {} });
+        measRecreateLocalIds.push(measUpdateLocalIds[err.index]);
+      } else {
+        pushErrors.push({ entity: "measurement", action: "update", id, title, localId: measUpdateLocalIds[err.index], message: err.message });
+      }
+    }
+  }
+  const measRecreateResult = await writer.create({
+    token,
+    baseId,
+    tableId,
+    records: measRecreateRecords,
+    typecast: true,
+  });
+  if (measRecreateResult.errors.length) {
+    for (const err of measRecreateResult.errors) {
+      const title = fieldText(measRecreateRecords[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "measurement", action: "create", title, localId: measRecreateLocalIds[err.index], message: err.message });
+    }
+  }
+  for (let i = 0; i < measRecreateResult.records.length; i++) {
+    const localId = measRecreateLocalIds[i];
+    const rec = measRecreateResult.records[i];
+    if (localId && rec && rec.id) measurementIdMap[localId] = rec.id;
+  }
+
+  // --- Rooms (stored as Record Type = Note, one per room) ---
+  const roomCreates: AirtableRecordInput[] = [];
+  const roomCreateLocalIds: string[] = [];
+  const roomUpdates: AirtableRecord[] = [];
+  const roomUpdateLocalIds: string[] = [];
+
+  for (const r of rooms) {
+    const rid = String(r.id || "").trim();
+    if (!rid) continue;
+    const syncState = String(r.syncState || "").trim();
+    if (syncState === "deleted") continue;
+    const remoteId = forceCreate ? null : isRemoteId(r.remoteId) ? r.remoteId : null;
+    const meta = {
+      sort: typeof r.sort === "number" ? r.sort : null,
+      recordType: "Room",
+      createdAt: typeof r.createdAt === "number" ? r.createdAt : Date.now(),
+      updatedAt: typeof r.updatedAt === "number" ? r.updatedAt : Date.now(),
+    };
+    const fields: AirtableFields = {
+      "Record Type": "Room",
+      Title: `${rid} room`,
+      Room: rid,
+      ...appMetaFields(r.notes || "", meta, metaField),
+    };
+    fields[SYNC_SOURCE_FIELD] = SYNC_SOURCE;
+    fields[SYNC_AT_FIELD] = syncAtIso;
+    if (remoteId) {
+      roomUpdates.push({ id: remoteId, fields });
+      roomUpdateLocalIds.push(rid);
+    }
+    else {
+      roomCreates.push({ fields });
+      roomCreateLocalIds.push(rid);
+    }
+  }
+
+  const roomCreateResult = await writer.create({ token, baseId, tableId, records: roomCreates, typecast: true });
+  const roomIdMap: Record<string, string> = {};
+  for (let i = 0; i < roomCreateResult.records.length; i++) {
+    const localId = roomCreateLocalIds[i];
+    if (!localId) continue;
+    const rec = roomCreateResult.records[i];
+    if (rec && rec.id) roomIdMap[localId] = rec.id;
+  }
+  if (roomCreateResult.errors.length) {
+    for (const err of roomCreateResult.errors) {
+      const title = fieldText(roomCreates[err.index]?.fields, "Room") || fieldText(roomCreates[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "room", action: "create", title, localId: roomCreateLocalIds[err.index], message: err.message });
+    }
+  }
+  const roomUpdateResult = await writer.update({ token, baseId, tableId, records: roomUpdates, typecast: true });
+  const roomRecreateRecords: AirtableRecordInput[] = [];
+  const roomRecreateLocalIds: string[] = [];
+  if (roomUpdateResult.errors.length) {
+    for (const err of roomUpdateResult.errors) {
+      const title = fieldText(roomUpdates[err.index]?.fields, "Room") || fieldText(roomUpdates[err.index]?.fields, "Title");
+      const id = roomUpdates[err.index]?.id;
+      if (isNotFoundError(err.message)) {
+        roomRecreateRecords.push({ fields: roomUpdates[err.index]?.fields || {} });
+        roomRecreateLocalIds.push(roomUpdateLocalIds[err.index]);
+      } else {
+        pushErrors.push({ entity: "room", action: "update", id, title, localId: roomUpdateLocalIds[err.index], message: err.message });
+      }
+    }
+  }
+  const roomRecreateResult = await writer.create({
+    token,
+    baseId,
+    tableId,
+    records: roomRecreateRecords,
+    typecast: true,
+  });
+  if (roomRecreateResult.errors.length) {
+    for (const err of roomRecreateResult.errors) {
+      const title = fieldText(roomRecreateRecords[err.index]?.fields, "Room") || fieldText(roomRecreateRecords[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "room", action: "create", title, localId: roomRecreateLocalIds[err.index], message: err.message });
+    }
+  }
+  for (let i = 0; i < roomRecreateResult.records.length; i++) {
+    const localId = roomRecreateLocalIds[i];
+    const rec = roomRecreateResult.records[i];
+    if (localId && rec && rec.id) roomIdMap[localId] = rec.id;
+  }
+
+  // --- Stores ---
+  const storeCreates: AirtableRecordInput[] = [];
+  const storeCreateLocalIds: string[] = [];
+  const storeUpdates: AirtableRecord[] = [];
+  const storeUpdateLocalIds: string[] = [];
+  const storeDeletes: string[] = [];
+
+  for (const s of stores) {
+    const localId = String(s.id || "").trim();
+    if (!localId) continue;
+    const syncState = String(s.syncState || "").trim();
+    const remoteId = forceCreate ? null : isRemoteId(s.remoteId) ? s.remoteId : isRemoteId(s.id) ? s.id : null;
+
+    if (syncState === "deleted") {
+      if (remoteId) storeDeletes.push(remoteId);
+      continue;
+    }
+
+    const meta = {
+      sort: typeof s.sort === "number" ? s.sort : null,
+      discountType: s.discountType || null,
+      discountValue: typeof s.discountValue === "number" ? s.discountValue : null,
+      shippingCost: typeof s.shippingCost === "number" ? s.shippingCost : null,
+      deliveryInfo: typeof s.deliveryInfo === "string" ? s.deliveryInfo : null,
+      extraWarranty: typeof s.extraWarranty === "string" ? s.extraWarranty : null,
+      trial: typeof s.trial === "string" ? s.trial : null,
+      apr: typeof s.apr === "string" ? s.apr : null,
+      recordType: "Store",
+      createdAt: typeof s.createdAt === "number" ? s.createdAt : Date.now(),
+      updatedAt: typeof s.updatedAt === "number" ? s.updatedAt : Date.now(),
+    };
+
+    const name = normalizeStoreValue(s.name) || "Store";
+    const fields: AirtableFields = {
+      "Record Type": "Store",
+      Title: name,
+      Store: name,
+      ...appMetaFields(s.notes, meta, metaField),
+    };
+    fields[SYNC_SOURCE_FIELD] = SYNC_SOURCE;
+    fields[SYNC_AT_FIELD] = syncAtIso;
+
+    if (remoteId) {
+      storeUpdates.push({ id: remoteId, fields });
+      storeUpdateLocalIds.push(localId);
+    }
+    else {
+      storeCreates.push({ fields });
+      storeCreateLocalIds.push(localId);
+    }
+  }
+
+  const storeCreateResult = await writer.create({ token, baseId, tableId, records: storeCreates, typecast: true });
+  const storeIdMap: Record<string, string> = {};
+  for (let i = 0; i < storeCreateResult.records.length; i++) {
+    const localId = storeCreateLocalIds[i];
+    if (!localId) continue;
+    const rec = storeCreateResult.records[i];
+    if (rec && rec.id) storeIdMap[localId] = rec.id;
+  }
+  if (storeCreateResult.errors.length) {
+    for (const err of storeCreateResult.errors) {
+      const title = fieldText(storeCreates[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "store", action: "create", title, localId: storeCreateLocalIds[err.index], message: err.message });
+    }
+  }
+  const storeUpdateResult = await writer.update({ token, baseId, tableId, records: storeUpdates, typecast: true });
+  const storeRecreateRecords: AirtableRecordInput[] = [];
+  const storeRecreateLocalIds: string[] = [];
+  if (storeUpdateResult.errors.length) {
+    for (const err of storeUpdateResult.errors) {
+      const title = fieldText(storeUpdates[err.index]?.fields, "Title");
+      const id = storeUpdates[err.index]?.id;
+      if (isNotFoundError(err.message)) {
+        storeRecreateRecords.push({ fields: storeUpdates[err.index]?.fields || {} });
+        storeRecreateLocalIds.push(storeUpdateLocalIds[err.index]);
+      } else {
+        pushErrors.push({ entity: "store", action: "update", id, title, localId: storeUpdateLocalIds[err.index], message: err.message });
+      }
+    }
+  }
+  const storeRecreateResult = await writer.create({
+    token,
+    baseId,
+    tableId,
+    records: storeRecreateRecords,
+    typecast: true,
+  });
+  if (storeRecreateResult.errors.length) {
+    for (const err of storeRecreateResult.errors) {
+      const title = fieldText(storeRecreateRecords[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "store", action: "create", title, localId: storeRecreateLocalIds[err.index], message: err.message });
+    }
+  }
+  for (let i = 0; i < storeRecreateResult.records.length; i++) {
+    const localId = storeRecreateLocalIds[i];
+    const rec = storeRecreateResult.records[i];
+    if (localId && rec && rec.id) storeIdMap[localId] = rec.id;
+  }
+
+  // --- Options ---
+  const optCreates: AirtableRecordInput[] = [];
+  const optCreateLocalIds: string[] = [];
+  const optUpdates: AirtableRecord[] = [];
+  const optUpdateLocalIds: string[] = [];
+  const optDeletes: string[] = [];
+
+  // Track selected option per item so we can update item.Selected Option Id
+  const selectedOptionByItem: Record<string, string> = {};
+
+  for (const o of options) {
+    const localId = String(o.id || "").trim();
+    if (!localId) continue;
+    const syncState = String(o.syncState || "").trim();
+    const remoteId = forceCreate ? null : isRemoteId(o.remoteId) ? o.remoteId : isRemoteId(o.id) ? o.id : null;
+    if (syncState === "deleted") {
+      if (remoteId) optDeletes.push(remoteId);
+      continue;
+    }
+
+    const parentLocal = String(o.itemId || "").trim();
+    const mappedParentRemote = itemIdMap[parentLocal] || null;
+    const parentRemote =
+      mappedParentRemote ||
+      (typeof o.parentRemoteId === "string" && isRemoteId(o.parentRemoteId) ? o.parentRemoteId : null) ||
+      (isRemoteId(parentLocal) ? parentLocal : null);
+    if (!parentRemote) continue; // parent not known yet
+
+    const finalTotal = optionBaseTotal(o) - optionDiscountAmount(o);
+
+    const meta = {
+      selected: Boolean(o.selected),
+      sort: typeof o.sort === "number" ? o.sort : null,
+      discountType: o.discountType || null,
+      discountValue: typeof o.discountValue === "number" ? o.discountValue : null,
+      dimensions: o.dimensions || null,
+      priceWatch: o.priceWatch || null,
+      parentLocalId: parentLocal || null,
+      parentRemoteId: parentRemote || null,
+      localId,
+      attachments: sanitizeAttachments(o.attachments),
+      createdAt: typeof o.createdAt === "number" ? o.createdAt : Date.now(),
+      updatedAt: typeof o.updatedAt === "number" ? o.updatedAt : Date.now(),
+    };
+
+    const fields: AirtableFields = {
+      "Record Type": "Option",
+      Title: String(o.title || "Option"),
+      "Parent Item Record Id": parentRemote,
+      "Parent Item Key": parentRemote || parentLocal || null,
+      Store: normalizeStoreValue(o.store),
+      Link: typeof o.link === "string" ? o.link : null,
+      "Promo Code": typeof o.promoCode === "string" ? o.promoCode : null,
+      Discount: optionDiscountAmount(o) || null,
+      Shipping: typeof o.shipping === "number" ? o.shipping : null,
+      "Tax Estimate": typeof o.taxEstimate === "number" ? o.taxEstimate : null,
+      "Final Total": Number.isFinite(finalTotal) ? finalTotal : null,
+      Price: typeof o.price === "number" ? o.price : null,
+      Dimensions: typeof o.dimensionsText === "string" ? o.dimensionsText : null,
+      ...appMetaFields(o.notes, meta, metaField),
+    };
+    fields[SYNC_SOURCE_FIELD] = SYNC_SOURCE;
+    fields[SYNC_AT_FIELD] = syncAtIso;
+
+    if (remoteId) {
+      optUpdates.push({ id: remoteId, fields });
+      optUpdateLocalIds.push(localId);
+      if (meta.selected) selectedOptionByItem[parentRemote] = remoteId;
+    } else {
+      optCreates.push({ fields });
+      optCreateLocalIds.push(localId);
+      // selected mapping handled after create
+    }
+  }
+
+  const optCreateResult = await writer.create({ token, baseId, tableId, records: optCreates, typecast: true });
+  const optionIdMap: Record<string, string> = {};
+  for (let i = 0; i < optCreateResult.records.length; i++) {
+    const localId = optCreateLocalIds[i];
+    if (!localId) continue;
+    const rec = optCreateResult.records[i];
+    if (rec && rec.id) optionIdMap[localId] = rec.id;
+  }
+
+  if (optCreateResult.errors.length) {
+    for (const err of optCreateResult.errors) {
+      const title = fieldText(optCreates[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "option", action: "create", title, localId: optCreateLocalIds[err.index], message: err.message });
+    }
+  }
+  const optUpdateResult = await writer.update({ token, baseId, tableId, records: optUpdates, typecast: true });
+  const optRecreateRecords: AirtableRecordInput[] = [];
+  const optRecreateLocalIds: string[] = [];
+  if (optUpdateResult.errors.length) {
+    for (const err of optUpdateResult.errors) {
+      const title = fieldText(optUpdates[err.index]?.fields, "Title");
+      const id = optUpdates[err.index]?.id;
+      if (isNotFoundError(err.message)) {
+        optRecreateRecords.push({ fields: optUpdates[err.index]?.fields || {} });
+        optRecreateLocalIds.push(optUpdateLocalIds[err.index]);
+      } else {
+        pushErrors.push({ entity: "option", action: "update", id, title, localId: optUpdateLocalIds[err.index], message: err.message });
+      }
+    }
+  }
+  const optRecreateResult = await writer.create({
+    token,
+    baseId,
+    tableId,
+    records: optRecreateRecords,
+    typecast: true,
+  });
+  if (optRecreateResult.errors.length) {
+    for (const err of optRecreateResult.errors) {
+      const title = fieldText(optRecreateRecords[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "option", action: "create", title, localId: optRecreateLocalIds[err.index], message: err.message });
+    }
+  }
+  for (let i = 0; i < optRecreateResult.records.length; i++) {
+    const localId = optRecreateLocalIds[i];
+    const rec = optRecreateResult.records[i];
+    if (localId && rec && rec.id) optionIdMap[localId] = rec.id;
+  }
+
+  // --- Sub-items (add-ons, warranties, receipts; linked to their parent option) ---
+  const subCreates: AirtableRecordInput[] = [];
+  const subCreateLocalIds: string[] = [];
+  const subUpdates: AirtableRecord[] = [];
+  const subUpdateLocalIds: string[] = [];
+  const subDeletes: string[] = [];
+
+  for (const s of subItems) {
+    const localId = String(s.id || "").trim();
+    if (!localId) continue;
+    const syncState = String(s.syncState || "").trim();
+    const remoteId = forceCreate ? null : isRemoteId(s.remoteId) ? s.remoteId : isRemoteId(s.id) ? s.id : null;
+    if (syncState === "deleted") {
+      if (remoteId) subDeletes.push(remoteId);
+      continue;
+    }
+
+    const parentLocal = String(s.optionId || "").trim();
+    const mappedParentRemote = optionIdMap[parentLocal] || null;
+    const parentRemote =
+      mappedParentRemote ||
+      (typeof s.parentRemoteId === "string" && isRemoteId(s.parentRemoteId) ? s.parentRemoteId : null) ||
+      (isRemoteId(parentLocal) ? parentLocal : null);
+    if (!parentRemote) continue; // parent option not known yet
+
+    const qty = subItemQty(s);
+    const base = subItemBaseTotal(s);
+    const discount = subItemDiscountAmount(s, base);
+    const finalTotal = Math.max(0, base - discount) * qty;
+
+    const meta = {
+      recordType: "SubItem",
+      sort: typeof s.sort === "number" ? s.sort : null,
+      qty,
+      discountType: s.discountType || null,
+      discountValue: typeof s.discountValue === "number" ? s.discountValue : null,
+      extraWarrantyCost: typeof s.extraWarrantyCost === "number" ? s.extraWarrantyCost : null,
+      parentLocalId: parentLocal || null,
+      parentRemoteId: parentRemote || null,
+      localId,
+      attachments: sanitizeAttachments(s.attachments),
+      createdAt: typeof s.createdAt === "number" ? s.createdAt : Date.now(),
+      updatedAt: typeof s.updatedAt === "number" ? s.updatedAt : Date.now(),
+    };
+
+    const fields: AirtableFields = {
+      "Record Type": "SubItem",
+      Title: String(s.title || "Sub-item"),
+      "Parent Item Key": parentRemote,
+      Price: typeof s.price === "number" ? s.price : null,
+      Quantity: qty,
+      "Tax Estimate": typeof s.taxEstimate === "number" ? s.taxEstimate : null,
+      Discount: discount || null,
+      "Final Total": Number.isFinite(finalTotal) ? finalTotal : null,
+      ...appMetaFields(s.notes, meta, metaField),
+    };
+    fields[SYNC_SOURCE_FIELD] = SYNC_SOURCE;
+    fields[SYNC_AT_FIELD] = syncAtIso;
+
+    if (remoteId) {
+      subUpdates.push({ id: remoteId, fields });
+      subUpdateLocalIds.push(localId);
+    } else {
+      subCreates.push({ fields });
+      subCreateLocalIds.push(localId);
+    }
+  }
+
+  const subCreateResult = await writer.create({ token, baseId, tableId, records: subCreates, typecast: true });
+  const subItemIdMap: Record<string, string> = {};
+  for (let i = 0; i < subCreateResult.records.length; i++) {
+    const localId = subCreateLocalIds[i];
+    if (!localId) continue;
+    const rec = subCreateResult.records[i];
+    if (rec && rec.id) subItemIdMap[localId] = rec.id;
+  }
+  if (subCreateResult.errors.length) {
+    for (const err of subCreateResult.errors) {
+      const title = fieldText(subCreates[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "subItem", action: "create", title, localId: subCreateLocalIds[err.index], message: err.message });
+    }
+  }
+  const subUpdateResult = await writer.update({ token, baseId, tableId, records: subUpdates, typecast: true });
+  const subRecreateRecords: AirtableRecordInput[] = [];
+  const subRecreateLocalIds: string[] = [];
+  if (subUpdateResult.errors.length) {
+    for (const err of subUpdateResult.errors) {
+      const title = fieldText(subUpdates[err.index]?.fields, "Title");
+      const id = subUpdates[err.index]?.id;
+      if (isNotFoundError(err.message)) {
+        subRecreateRecords.push({ fields: subUpdates[err.index]?.fields || {} });
+        subRecreateLocalIds.push(subUpdateLocalIds[err.index]);
+      } else {
+        pushErrors.push({ entity: "subItem", action: "update", id, title, localId: subUpdateLocalIds[err.index], message: err.message });
+      }
+    }
+  }
+  const subRecreateResult = await writer.create({
+    token,
+    baseId,
+    tableId,
+    records: subRecreateRecords,
+    typecast: true,
+  });
+  if (subRecreateResult.errors.length) {
+    for (const err of subRecreateResult.errors) {
+      const title = fieldText(subRecreateRecords[err.index]?.fields, "Title");
+      pushErrors.push({ entity: "subItem", action: "create", title, localId: subRecreateLocalIds[err.index], message: err.message });
+    }
+  }
+  for (let i = 0; i < subRecreateResult.records.length; i++) {
+    const localId = subRecreateLocalIds[i];
+    const rec = subRecreateResult.records[i];
+    if (localId && rec && rec.id) subItemIdMap[localId] = rec.id;
+  }
+
+  // After creates, we can't reliably know which created option was selected without an id field.
+  // We keep selection server-side via meta, but item.Selected Option Id is best-effort only.
+
+  // Apply deletes last
+  const deleted = {
+    items: itemDeletes.length ? await writer.remove({ token, baseId, tableId, ids: itemDeletes }) : [],
+    options: optDeletes.length ? await writer.remove({ token, baseId, tableId, ids: optDeletes }) : [],
+    subItems: subDeletes.length ? await writer.remove({ token, baseId, tableId, ids: subDeletes }) : [],
+    measurements: measDeletes.length ? await writer.remove({ token, baseId, tableId, ids: measDeletes }) : [],
+    stores: storeDeletes.length ? await writer.remove({ token, baseId, tableId, ids: storeDeletes }) : [],
+  };
+
+  if (dryRun) {
+    const plan = await buildPushPlan(dryRun, {
+      token,
+      baseId,
+      tableId,
+      // Stamped on every write; not a change worth previewing.
+      ignoreFields: [SYNC_SOURCE_FIELD, SYNC_AT_FIELD],
+    });
+    const created = { items: {}, options: {}, subItems: {}, measurements: {}, rooms: {}, stores: {} };
+    return { created, counts: {}, plan, message: "Dry run: nothing was written" };
+  }
+
+  return {
+    created: {
+      items: itemIdMap,
+      options: optionIdMap,
+      subItems: subItemIdMap,
+      measurements: measurementIdMap,
+      rooms: roomIdMap,
+      stores: storeIdMap,
+    },
+    counts: {
+      createdItems: itemCreateResult.records.filter(Boolean).length + itemRecreateResult.records.filter(Boolean).length,
+      updatedItems: itemUpdateResult.records.filter(Boolean).length,
+      createdOptions: optCreateResult.records.filter(Boolean).length + optRecreateResult.records.filter(Boolean).length,
+      updatedOptions: optUpdateResult.records.filter(Boolean).length,
+      createdSubItems: subCreateResult.records.filter(Boolean).length + subRecreateResult.records.filter(Boolean).length,
+      updatedSubItems: subUpdateResult.records.filter(Boolean).length,
+      createdMeasurements: measCreateResult.records.filter(Boolean).length + measRecreateResult.records.filter(Boolean).length,
+      updatedMeasurements: measUpdateResult.records.filter(Boolean).length,
+      createdRooms: roomCreateResult.records.filter(Boolean).length + roomRecreateResult.records.filter(Boolean).length,
+      updatedRooms: roomUpdateResult.records.filter(Boolean).length,
+      createdStores: storeCreateResult.records.filter(Boolean).length + storeRecreateResult.records.filter(Boolean).length,
+      updatedStores: storeUpdateResult.records.filter(Boolean).length,
+      deletedItems: deleted.items.length,
+      deletedOptions: deleted.options.length,
+      deletedSubItems: deleted.subItems.length,
+      deletedMeasurements: deleted.measurements.length,
+      deletedStores: deleted.stores.length,
+    },
+    errors: pushErrors.length ? pushErrors : undefined,
+    message: pushErrors.length ? `Sync push complete with ${pushErrors.length} error(s)` : "Sync push complete",
+  };
+}
@@ -0,0 +1,18 @@
+import { pullFromAirtable } from "./airtablePull.js";
+import { pushToAirtable } from "./airtablePush.js";
+import { jsonFileBackend } from "./jsonFile.js";
+import type { SyncBackend } from "./types.js";
+
+export type { SyncBackend, SyncPullOptions, SyncPullResult, SyncPushBody, SyncPushResult } from "./types.js";
+
+export const airtableBackend: SyncBackend = { name: "airtable", push: pushToAirtable, pull: pullFromAirtable };
+
+export function getSyncBackendName(): SyncBackend["name"] {
+  const raw = (process.env.SYNC_BACKEND || "airtable").trim().toLowerCase();
+  if (raw === "airtable" || raw === "json") return raw;
+  throw new Error(`Unknown SYNC_BACKEND "${raw}" (expected "airtable" or "json")`);
+}
+
+export function getSyncBackend(): SyncBackend {
+  return getSyncBackendName() === "json" ? jsonFileBackend : airtableBackend;
+}
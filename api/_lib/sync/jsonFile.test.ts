@@ -0,0 +1,92 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { jsonFileBackend } from "./jsonFile.js";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "sync-json-"));
+  process.env.SYNC_JSON_PATH = path.join(dir, "sync-db.json");
+});
+
+afterAll(async () => {
+  delete process.env.SYNC_JSON_PATH;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("jsonFileBackend", () => {
+  it("round-trips pushes into full and delta pulls", async () => {
+    const pushed = await jsonFileBackend.push({
+      items: [{ id: "i_local", name: "Sofa", room: "Living", selectedOptionId: "o_local", syncState: "dirty" }],
+      options: [{ id: "o_local", itemId: "i_local", title: "Gray", syncState: "dirty" }],
+      rooms: [{ id: "Living", name: "Living", notes: "north wall", syncState: "dirty" }],
+    });
+    const itemId = pushed.created.items.i_local;
+    const optionId = pushed.created.options.o_local;
+    expect(itemId).toMatch(/^rec/);
+    expect(pushed.counts).toMatchObject({ createdItems: 1, createdOptions: 1, createdRooms: 1 });
+
+    const full = await jsonFileBackend.pull({ since: null, full: true });
+    expect(full.delta).toBe(false);
+    expect(full.bundle.items).toEqual([expect.objectContaining({ id: itemId, selectedOptionId: optionId, syncState: "clean" })]);
+    expect(full.bundle.options).toEqual([expect.objectContaining({ id: optionId, itemId })]);
+    expect(full.bundle.rooms).toEqual([expect.objectContaining({ id: "Living", remoteId: pushed.created.rooms.Living })]);
+    expect(full.remoteIds).toHaveLength(3);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await jsonFileBackend.push({ items: [{ id: itemId, name: "Sofa v2", room: "Living", syncState: "dirty" }] });
+    await jsonFileBackend.push({ options: [{ id: optionId, itemId, title: "Gray", syncState: "deleted" }] });
+
+    const delta = await jsonFileBackend.pull({ since: full.cursor, full: false });
+    expect(delta.delta).toBe(true);
+    expect(delta.bundle.items.map((it) => it.name)).toEqual(["Sofa v2"]);
+    expect(delta.bundle.rooms).toEqual([]);
+    expect(delta.remoteIds).not.toContain(optionId);
+  });
+
+  it("plans a dry run without writing", async () => {
+    const before = await jsonFileBackend.pull({ since: null, full: true });
+    const [item] = before.bundle.items;
+
+    const res = await jsonFileBackend.push({
+      dryRun: true,
+      items: [
+        { ...item, name: "Sofa v3", specs: { color: "blue" }, syncState: "dirty" },
+        { id: "i_new", name: "Lamp", room: "Living", syncState: "dirty" },
+      ],
+    });
+    expect(res.created.items).toEqual({});
+    expect(res.plan?.items?.creates).toEqual([{ title: "Lamp" }]);
+    expect(res.plan?.items?.updates).toEqual([
+      {
+        id: item.id,
+        title: "Sofa v3",
+        changes: [
+          { field: "name", from: "Sofa v2", to: "Sofa v3" },
+          { field: "specs", from: null, to: { color: "blue" } },
+        ],
+      },
+    ]);
+
+    const reset = await jsonFileBackend.push({ mode: "reset", dryRun: true });
+    expect(reset.plan?.rooms?.deletes).toHaveLength(1);
+    expect(reset.plan?.items?.deletes).toEqual([{ id: item.id, title: "Sofa v2" }]);
+
+    const after = await jsonFileBackend.pull({ since: null, full: true });
+    expect(after.bundle).toEqual({ ...before.bundle, exportedAt: after.bundle.exportedAt });
+  });
+
+  it("keeps each home in its own file", async () => {
+    const target = { home: "oak-street" };
+    const pushed = await jsonFileBackend.push({ target, items: [{ id: "i_oak", name: "Desk", room: "Office", syncState: "dirty" }] });
+    const deskId = pushed.created.items.i_oak;
+
+    const oak = await jsonFileBackend.pull({ since: null, full: true, target });
+    expect(oak.remoteIds).toEqual([deskId]);
+    const main = await jsonFileBackend.pull({ since: null, full: true });
+    expect(main.remoteIds).not.toContain(deskId);
+    expect(main.bundle.items.map((it) => it.name)).toEqual(["Sofa v2"]);
+  });
+});
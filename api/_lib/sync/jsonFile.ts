@@ -0,0 +1,240 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { addToPlan, diffFields } from "./plan.js";
+import type {
+  SyncBackend,
+  SyncEntityKey,
+  SyncPullOptions,
+  SyncPullResult,
+  SyncPushBody,
+  SyncPushPlan,
+  SyncPushResult,
+} from "./types.js";
+
+// Self-hosted backend: keeps the synced entities as-is in one JSON file next to the server.
+// Meant for a small always-on Node process (e.g. `vite preview --host`) shared by a few devices.
+
+// `data` is the entity as the client sent it, minus its sync bookkeeping.
+type StoredData = Record<string, unknown> & { id: string; remoteId: string };
+type StoredRecord = { entity: SyncEntityKey; data: StoredData; serverUpdatedAt: number };
+type JsonDb = { version: 1; records: Record<string, StoredRecord> };
+type JsonCursor = { v: 1; at: number };
+
+const COUNT_LABEL: Record<SyncEntityKey, string> = {
+  items: "Items",
+  options: "Options",
+  subItems: "SubItems",
+  measurements: "Measurements",
+  rooms: "Rooms",
+  stores: "Stores",
+};
+
+// Homes other than the default one get a sibling file, e.g. `.data/sync-db.oak-street.json`.
+function dbPath(home?: string) {
+  const file = path.resolve(process.cwd(), process.env.SYNC_JSON_PATH || ".data/sync-db.json");
+  if (!home) return file;
+  const ext = path.extname(file);
+  return `${file.slice(0, file.length - ext.length)}.${home}${ext}`;
+}
+
+async function readDb(home?: string): Promise<JsonDb> {
+  let text: string;
+  try {
+    text = await readFile(dbPath(home), "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException | null)?.code === "ENOENT") return { version: 1, records: {} };
+    throw err;
+  }
+  // A corrupt file is an error, not an empty database: never silently drop everyone's data.
+  const parsed = JSON.parse(text);
+  if (!parsed || parsed.version !== 1 || !parsed.records || typeof parsed.records !== "object") {
+    throw new Error(`Unrecognized sync database at ${dbPath(home)}`);
+  }
+  return parsed as JsonDb;
+}
+
+async function writeDb(db: JsonDb, home?: string) {
+  const file = dbPath(home);
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(db), "utf-8");
+  await rename(tmp, file);
+}
+
+// Serialise read-modify-write cycles (and reads against them) within the server process.
+let queue: Promise<unknown> = Promise.resolve();
+function exclusive<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function encodeCursor(cursor: JsonCursor) {
+  return Buffer.from(JSON.stringify(cursor), "utf-8").toString("base64url");
+}
+
+function decodeCursor(raw: string | null): JsonCursor | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf-8"));
+    if (parsed?.v !== 1 || typeof parsed.at !== "number" || !Number.isFinite(parsed.at)) return null;
+    return { v: 1, at: parsed.at };
+  } catch {
+    return null;
+  }
+}
+
+function newRecordId() {
+  return `rec${randomBytes(7).toString("hex")}`;
+}
+
+function isRemoteId(id: unknown): id is string {
+  return typeof id === "string" && id.startsWith("rec");
+}
+
+function recordTitle(data: StoredData) {
+  const title = data?.name || data?.title || data?.label || data?.id;
+  return typeof title === "string" ? title : undefined;
+}
+
+function toStored(row: Record<string, unknown>, id: string, remoteId: string): StoredData {
+  const { syncState: _syncState, parentRemoteId: _parentRemoteId, ...rest } = row || {};
+  return { ...rest, id, remoteId };
+}
+
+async function push(body: SyncPushBody): Promise<SyncPushResult> {
+  return await exclusive(async () => {
+    const home = body?.target?.home;
+    const forceCreate = body?.mode === "reset";
+    // Every push works on a fresh copy of the file, so a dry run just skips the final write.
+    const plan: SyncPushPlan | null = body?.dryRun ? {} : null;
+    const before = forceCreate && plan ? await readDb(home) : null;
+    const db: JsonDb = forceCreate ? { version: 1, records: {} } : await readDb(home);
+    if (plan && before) {
+      for (const [id, rec] of Object.entries(before.records)) {
+        addToPlan(plan, rec.entity, "deletes", { id, title: recordTitle(rec.data) });
+      }
+    }
+    const now = Date.now();
+    const created: SyncPushResult["created"] = { items: {}, options: {}, subItems: {}, measurements: {}, rooms: {}, stores: {} };
+    const counts: Record<string, number> = {};
+    const bump = (key: string) => (counts[key] = (counts[key] || 0) + 1);
+    const remap = (id: unknown, map: Record<string, string>) => (typeof id === "string" && map[id]) || id;
+
+    const upsert = <T extends { id: string; syncState?: string }>(
+      entity: SyncEntityKey,
+      rows: T[] | undefined,
+      link?: (row: T) => Record<string, unknown>,
+    ) => {
+      for (const row of Array.isArray(rows) ? rows : []) {
+        if (!row || typeof row.id !== "string" || !row.id) continue;
+        const existing = !forceCreate && isRemoteId(row.id) ? db.records[row.id] : undefined;
+        const known = existing?.entity === entity;
+        if (row.syncState === "deleted") {
+          if (known) {
+            if (plan) addToPlan(plan, entity, "deletes", { id: row.id, title: recordTitle(existing.data) });
+            delete db.records[row.id];
+            bump(`deleted${COUNT_LABEL[entity]}`);
+          }
+          continue;
+        }
+        const linked = link ? link(row) : row;
+        // Unknown remote ids are re-created, matching the Airtable backend's NOT_FOUND handling.
+        const id = known ? row.id : newRecordId();
+        const data = toStored(linked, id, id);
+        if (plan) {
+          if (known) addToPlan(plan, entity, "updates", { id, title: recordTitle(data), changes: diffFields(data, existing.data) });
+          else addToPlan(plan, entity, "creates", { title: recordTitle(data) });
+        }
+        db.records[id] = { entity, data, serverUpdatedAt: now };
+        if (known) bump(`updated${COUNT_LABEL[entity]}`);
+        else {
+          created[entity][row.id] = id;
+          bump(`created${COUNT_LABEL[entity]}`);
+        }
+      }
+    };
+
+    upsert("items", body?.items);
+    upsert("options", body?.options, (o) => ({
+      ...o,
+      itemId: created.items[o.itemId] || o.parentRemoteId || o.itemId,
+      sourceItemId: remap(o.sourceItemId, created.items),
+    }));
+    upsert("subItems", body?.subItems, (s) => ({
+      ...s,
+      optionId: created.options[s.optionId] || s.parentRemoteId || s.optionId,
+    }));
+    upsert("measurements", body?.measurements, (m) => ({ ...m, forItemId: remap(m.forItemId, created.items) }));
+    upsert("stores", body?.stores);
+
+    // Rooms are keyed by name; the stored record id only mirrors the Airtable Note record.
+    for (const r of Array.isArray(body?.rooms) ? body.rooms : []) {
+      if (!r || typeof r.id !== "string" || !r.id || r.syncState === "deleted") continue;
+      const existingId = forceCreate
+        ? undefined
+        : isRemoteId(r.remoteId) && db.records[r.remoteId]?.entity === "rooms"
+          ? r.remoteId
+          : Object.keys(db.records).find((id) => db.records[id].entity === "rooms" && db.records[id].data?.id === r.id);
+      const remoteId = existingId || newRecordId();
+      const data = toStored(r, r.id, remoteId);
+      if (plan) {
+        if (existingId) {
+          const changes = diffFields(data, db.records[existingId].data);
+          addToPlan(plan, "rooms", "updates", { id: existingId, title: r.id, changes });
+        } else addToPlan(plan, "rooms", "creates", { title: r.id });
+      }
+      db.records[remoteId] = { entity: "rooms", data, serverUpdatedAt: now };
+      if (existingId) bump("updatedRooms");
+      else {
+        created.rooms[r.id] = remoteId;
+        bump("createdRooms");
+      }
+    }
+
+    // Items can point at options created in this same push.
+    if (Object.keys(created.options).length) {
+      for (const rec of Object.values(db.records)) {
+        if (rec.entity !== "items" || rec.serverUpdatedAt !== now) continue;
+        rec.data.selectedOptionId = remap(rec.data.selectedOptionId, created.options);
+      }
+    }
+
+    if (plan) {
+      const none = { items: {}, options: {}, subItems: {}, measurements: {}, rooms: {}, stores: {} };
+      return { created: none, counts: {}, plan, message: "Dry run: nothing was written" };
+    }
+    await writeDb(db, home);
+    return { created, counts, message: "Sync push complete" };
+  });
+}
+
+async function pull(opts: SyncPullOptions): Promise<SyncPullResult> {
+  const cursor = opts.full ? null : decodeCursor(opts.since);
+  const startedAt = Date.now();
+  const db = await exclusive(() => readDb(opts.target?.home));
+  const bundle: SyncPullResult["bundle"] = {
+    version: 1,
+    exportedAt: new Date(startedAt).toISOString(),
+    rooms: [],
+    measurements: [],
+    items: [],
+    options: [],
+    subItems: [],
+    stores: [],
+  };
+  for (const rec of Object.values(db.records)) {
+    // Reads are serialised with writes, so everything stamped before `startedAt` is visible here.
+    if (cursor && rec.serverUpdatedAt < cursor.at) continue;
+    (bundle[rec.entity] as StoredData[]).push({ ...rec.data, syncState: "clean" });
+  }
+  return {
+    delta: Boolean(cursor),
+    cursor: encodeCursor({ v: 1, at: startedAt }),
+    remoteIds: Object.keys(db.records),
+    bundle,
+  };
+}
+
+export const jsonFileBackend: SyncBackend = { name: "json", push, pull };
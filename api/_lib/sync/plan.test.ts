@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { diffFields } from "./plan.js";
+
+describe("push plan diff", () => {
+  it("reports nothing for values Airtable only returns in another shape", () => {
+    const next = {
+      Title: "Sofa",
+      Room: "Living",
+      Links: ["recA", "recB"],
+      Notes: "",
+      Tags: [],
+      Price: 1299.99,
+      "App Meta": JSON.stringify({ localId: "i_1", specs: { color: "gray", width: 84 } }),
+    };
+    // Single links come back as one-element arrays, empty cells are left out, stored JSON keeps
+    // whatever key order and spacing it was written with, and currency fields round.
+    const current = {
+      Title: " Sofa ",
+      Room: ["Living"],
+      Links: ["recA", "recB"],
+      Price: 1299.9900000000002,
+      "App Meta": '{ "specs": { "width": 84, "color": "gray" }, "localId": "i_1" }',
+    };
+    expect(diffFields(next, current)).toEqual([]);
+    expect(diffFields({ Notes: null, Tags: [""], Room: [] }, {})).toEqual([]);
+  });
+
+  it("reports real changes, with JSON fields diffed one level deep", () => {
+    const next = {
+      Title: "Sofa",
+      Price: 1299.99,
+      Qty: 0,
+      Links: ["recA"],
+      "App Meta": JSON.stringify({ localId: "i_1", specs: { color: "blue" }, pinned: true }),
+    };
+    const current = {
+      Title: "Couch",
+      Price: 1299.98,
+      Links: ["recA", "recB"],
+      "App Meta": JSON.stringify({ localId: "i_1", specs: { color: "gray" }, archived: false }),
+    };
+    expect(diffFields(next, current)).toEqual([
+      { field: "Title", from: "Couch", to: "Sofa" },
+      { field: "Price", from: 1299.98, to: 1299.99 },
+      { field: "Qty", from: null, to: 0 },
+      { field: "Links", from: ["recA", "recB"], to: "recA" },
+      { field: "App Meta.archived", from: false, to: null },
+      { field: "App Meta.specs", from: { color: "gray" }, to: { color: "blue" } },
+      { field: "App Meta.pinned", from: null, to: true },
+    ]);
+  });
+
+  it("leaves malformed JSON text and ignored fields alone", () => {
+    expect(diffFields({ Notes: "{ not json" }, { Notes: "{ not json " })).toEqual([]);
+    expect(diffFields({ Notes: "{ not json" }, { Notes: '{"a":1}' })).toEqual([{ field: "Notes", from: { a: 1 }, to: "{ not json" }]);
+    expect(diffFields({ Title: "Sofa", Modified: "2024-01-02" }, { Title: "Sofa", Modified: "2024-01-01" }, ["Modified"])).toEqual([]);
+  });
+});
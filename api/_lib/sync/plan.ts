@@ -0,0 +1,73 @@
+import type { SyncPlanChange, SyncPlanEntity, SyncPlanEntry, SyncPushPlan } from "./types.js";
+
+// Helpers for dry-run pushes: bucket planned writes per entity and diff them against remote values.
+
+export function addToPlan(plan: SyncPushPlan, entity: SyncPlanEntity, action: "creates" | "updates" | "deletes", entry: SyncPlanEntry) {
+  const bucket = (plan[entity] ??= { creates: [], updates: [], deletes: [] });
+  bucket[action].push(entry);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((k) => [k, sortKeys(value[k])]),
+  );
+}
+
+// Airtable omits empty cells, returns single links/lookups as one-element arrays and stores JSON
+// as text, so compare on a normalised form.
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === null || value === "") return null;
+  if (Array.isArray(value)) {
+    if (!value.length) return null;
+    return value.length === 1 ? normalize(value[0]) : value.map(normalize);
+  }
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (!text) return null;
+    if (text.startsWith("{")) {
+      try {
+        return sortKeys(JSON.parse(text));
+      } catch {
+        return text;
+      }
+    }
+    return text;
+  }
+  if (typeof value === "object") return sortKeys(value);
+  return value;
+}
+
+function same(a: unknown, b: unknown) {
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) < 0.005;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// Fields in `next` whose value differs from `current`. JSON blobs (App Meta) are diffed one level
+// deep so the preview says `App Meta.specs` rather than dumping both payloads.
+export function diffFields(next: Record<string, unknown>, current: Record<string, unknown>, ignore: string[] = []): SyncPlanChange[] {
+  const changes: SyncPlanChange[] = [];
+  for (const field of Object.keys(next)) {
+    if (ignore.includes(field)) continue;
+    const to = normalize(next[field]);
+    const from = normalize(current?.[field]);
+    if (same(from, to)) continue;
+    if (isPlainObject(from) && isPlainObject(to)) {
+      for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        const a = from[key] ?? null;
+        const b = to[key] ?? null;
+        if (!same(a, b)) changes.push({ field: `${field}.${key}`, from: a, to: b });
+      }
+      continue;
+    }
+    changes.push({ field, from, to });
+  }
+  return changes;
+}
@@ -0,0 +1,25 @@
+import type { SyncPullOptions, SyncPullResult, SyncPushBody, SyncPushResult } from "../contracts.js";
+
+// Contract between the `/api/sync/*` handlers and whichever store actually holds the data. The wire
+// shapes themselves are zod schemas in ../contracts.ts, shared with the client.
+// Record ids handed back to clients must look like Airtable ids (`rec...`): the client uses that
+// prefix to tell synced records from local-only ones.
+
+export type {
+  SyncEntityKey,
+  SyncPlanChange,
+  SyncPlanEntity,
+  SyncPlanEntry,
+  SyncPullOptions,
+  SyncPullResult,
+  SyncPushBody,
+  SyncPushError,
+  SyncPushPlan,
+  SyncPushResult,
+} from "../contracts.js";
+
+export interface SyncBackend {
+  name: "airtable" | "json";
+  push(body: SyncPushBody): Promise<SyncPushResult>;
+  pull(opts: SyncPullOptions): Promise<SyncPullResult>;
+}
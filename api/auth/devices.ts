@@ -0,0 +1,32 @@
+import { requireAuth } from "../_lib/auth.js";
+import { authRevokeQuerySchema, type AuthDevicesResponse, type EmptyOkResponse } from "../_lib/contracts.js";
+import { listDevices, revokeDevice } from "../_lib/devices.js";
+import { errorMessage, methodNotAllowed, parseQuery, sendJson, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+
+// GET: signed-in devices. DELETE ?id=: revoke a device (its session cookie and token stop working).
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== "GET" && req.method !== "DELETE") {
+    methodNotAllowed(res);
+    return;
+  }
+
+  const session = await requireAuth(req, res);
+  if (!session) return;
+
+  try {
+    if (req.method === "DELETE") {
+      const query = parseQuery(req, res, authRevokeQuerySchema);
+      if (!query) return;
+      if (await revokeDevice(query.id)) sendJson<EmptyOkResponse>(res, 200, { ok: true });
+      else sendJson(res, 404, { ok: false, message: "Device not found." });
+      return;
+    }
+
+    const devices = (await listDevices())
+      .map(({ tokenHash: _tokenHash, revokedAt: _revokedAt, ...d }) => ({ ...d, current: d.id === session.deviceId }))
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+    sendJson<AuthDevicesResponse>(res, 200, { ok: true, devices });
+  } catch (err) {
+    sendJson(res, 500, { ok: false, message: errorMessage(err, "Devices request failed") });
+  }
+}
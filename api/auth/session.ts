@@ -0,0 +1,78 @@
+import { authPasscode, canBypassAuth, getSession, passcodeMatches, sessionCookie, signSession } from "../_lib/auth.js";
+import {
+  authSignInBodySchema,
+  type AuthSignInResponse,
+  type AuthStateResponse,
+  type EmptyOkResponse,
+} from "../_lib/contracts.js";
+import { findDeviceByToken, registerDevice, revokeDevice } from "../_lib/devices.js";
+import { errorMessage, methodNotAllowed, parseJsonBody, sendJson, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+
+// GET: current session. POST: sign in with `{ passcode, deviceName }` (registers a new device and
+// returns its token once) or `{ deviceToken }`. DELETE: sign out and revoke this device.
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  try {
+    if (req.method === "GET") {
+      const session = await getSession(req);
+      sendJson<AuthStateResponse>(res, 200, {
+        ok: true,
+        required: !canBypassAuth(req),
+        configured: Boolean(authPasscode()),
+        authenticated: Boolean(session),
+        device: session ? { id: session.deviceId, name: session.deviceName, local: session.local } : null,
+      });
+      return;
+    }
+
+    if (req.method === "POST") {
+      if (!authPasscode()) {
+        sendJson(res, 500, {
+          ok: false,
+          message: "Missing APP_PASSCODE in environment variables.",
+          hint: "Set APP_PASSCODE in .env.local (self-hosted) or Vercel env vars (production).",
+        });
+        return;
+      }
+      const body = await parseJsonBody(req, res, authSignInBodySchema);
+      if (!body) return;
+      const deviceToken = body.deviceToken || "";
+      const passcode = body.passcode || "";
+
+      let device = deviceToken ? await findDeviceByToken(deviceToken) : null;
+      let newToken: string | null = null;
+      if (!device && passcodeMatches(passcode)) {
+        const userAgent = typeof req.headers?.["user-agent"] === "string" ? req.headers["user-agent"] : null;
+        const created = await registerDevice(body.deviceName || "", userAgent);
+        device = created.device;
+        newToken = created.token;
+      }
+
+      if (!device) {
+        // Slow down passcode guessing a little.
+        await new Promise((resolve) => setTimeout(resolve, 750));
+        sendJson(res, 401, {
+          ok: false,
+          authRequired: true,
+          message: deviceToken && !passcode ? "This device was signed out. Enter the passcode again." : "Wrong passcode.",
+        });
+        return;
+      }
+
+      res.setHeader("Set-Cookie", sessionCookie(req, signSession(device.id)));
+      sendJson<AuthSignInResponse>(res, 200, { ok: true, device: { id: device.id, name: device.name, local: false }, deviceToken: newToken });
+      return;
+    }
+
+    if (req.method === "DELETE") {
+      const session = await getSession(req);
+      if (session && !session.local) await revokeDevice(session.deviceId);
+      res.setHeader("Set-Cookie", sessionCookie(req, null));
+      sendJson<EmptyOkResponse>(res, 200, { ok: true });
+      return;
+    }
+
+    methodNotAllowed(res);
+  } catch (err) {
+    sendJson(res, 500, { ok: false, message: errorMessage(err, "Auth failed") });
+  }
+}
@@ -1,32 +1,22 @@
 import { createRecords, getAirtableConfig } from "./_lib/airtable.js";
+import { appMetaFields, resolveAppMetaField } from "./_lib/appMeta.js";
+import { isLocalHostRequest } from "./_lib/auth.js";
+import { clipBodySchema, type ClipResponse } from "./_lib/contracts.js";
+import { parseDimensionsText } from "./_lib/dimensions.js";
+import { errorMessage, methodNotAllowed, parseInput, readJsonBody, sendJson, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+import { normalizeVariants } from "./_lib/scrape/variants.js";
 import fs from "node:fs";
 import path from "node:path";
 
 const ALLOWED_STATUSES = new Set(["Idea", "Shortlist", "Selected", "Ordered", "Delivered", "Installed"]);
 const ENV_FILES = [".env.local", ".env.development.local", ".env.development", ".env"];
 
-function setCors(res: any) {
+function setCors(res: ApiResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "POST,OPTIONS");
   res.setHeader("Access-Control-Allow-Headers", "Content-Type,X-Clipper-Token");
 }
 
-function parseBody(req: any): Promise<any> {
-  if (req.body && typeof req.body === "object") return Promise.resolve(req.body);
-  return new Promise((resolve, reject) => {
-    let data = "";
-    req.on("data", (chunk: any) => (data += String(chunk)));
-    req.on("end", () => {
-      try {
-        resolve(data ? JSON.parse(data) : {});
-      } catch (err) {
-        reject(err);
-      }
-    });
-    req.on("error", reject);
-  });
-}
-
 function cleanEnvValue(raw: string): string {
   const trimmed = raw.trim();
   if (!trimmed) return "";
@@ -81,19 +71,6 @@ function readClipperToken(req: any, body: any): string {
   return incomingBody;
 }
 
-function isLocalHostRequest(req: any): boolean {
-  const host = String(req?.headers?.host || "").toLowerCase();
-  return host.includes("127.0.0.1") || host.includes("localhost");
-}
-
-function buildNotes(userNotesRaw: any, meta: any) {
-  const userNotes = typeof userNotesRaw === "string" ? userNotesRaw.trimEnd() : "";
-  const metaObj = meta && typeof meta === "object" ? meta : null;
-  if (!metaObj || Object.keys(metaObj).length === 0) return userNotes;
-  const json = JSON.stringify(metaObj);
-  return `--- app_meta ---\n${json}\n--- /app_meta ---${userNotes ? `\n\n${userNotes}` : ""}`;
-}
-
 function normalizeText(input: unknown): string {
   return String(input ?? "")
     .replace(/\s+/g, " ")
@@ -189,7 +166,7 @@ function truncateJson(value: unknown, maxChars = 20000): string | null {
   return `${json.slice(0, maxChars)}...<truncated>`;
 }
 
-export default async function handler(req: any, res: any) {
+export default async function handler(req: ApiRequest, res: ApiResponse) {
   setCors(res);
 
   if (req.method === "OPTIONS") {
@@ -199,15 +176,20 @@ export default async function handler(req: any, res: any) {
   }
 
   if (req.method !== "POST") {
-    res.statusCode = 405;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ ok: false, message: "Method not allowed" }));
+    methodNotAllowed(res);
     return;
   }
 
+  let rawBody: unknown;
   try {
-    const body = await parseBody(req);
-    const incomingToken = readClipperToken(req, body);
+    rawBody = await readJsonBody(req);
+  } catch {
+    sendJson(res, 400, { ok: false, message: "Request body is not valid JSON." });
+    return;
+  }
+
+  try {
+    const incomingToken = readClipperToken(req, rawBody);
 
     let expectedToken = resolveExpectedClipperToken();
 
@@ -224,51 +206,49 @@ export default async function handler(req: any, res: any) {
     }
 
     if (!expectedToken) {
-      res.statusCode = 500;
-      res.setHeader("Content-Type", "application/json");
-      res.end(
-        JSON.stringify({
-          ok: false,
-          message: "Missing CLIPPER_TOKEN in environment variables.",
-          hint: "Set CLIPPER_TOKEN in .env.local (local) or Vercel env vars (production).",
-        }),
-      );
+      sendJson(res, 500, {
+        ok: false,
+        message: "Missing CLIPPER_TOKEN in environment variables.",
+        hint: "Set CLIPPER_TOKEN in .env.local (local) or Vercel env vars (production).",
+      });
       return;
     }
 
     if (!incomingToken || incomingToken !== expectedToken) {
-      res.statusCode = 401;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ ok: false, message: "Unauthorized clipper request." }));
+      sendJson(res, 401, { ok: false, message: "Unauthorized clipper request." });
       return;
     }
 
-    const sourceUrl = normalizeUrl(body?.sourceUrl || body?.url);
-    const name = normalizeText(body?.name);
+    // Validated only after the token check, so field errors aren't handed to unauthorized callers.
+    const body = parseInput(res, clipBodySchema, rawBody);
+    if (!body) return;
+
+    const sourceUrl = normalizeUrl(body.sourceUrl || body.url);
+    const name = normalizeText(body.name);
     if (!sourceUrl || !name) {
-      res.statusCode = 400;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ ok: false, message: "Missing required fields: sourceUrl and name." }));
+      sendJson(res, 400, { ok: false, message: "Missing required fields: sourceUrl and name." });
       return;
     }
 
-    const sourceDomain = normalizeDomain(body?.sourceDomain, sourceUrl);
-    const captureMethod = normalizeCaptureMethod(body?.captureMethod);
-    const room = normalizeText(body?.room || "Living") || "Living";
-    const status = ALLOWED_STATUSES.has(String(body?.status || "").trim()) ? String(body.status).trim() : "Shortlist";
-    const qty = normalizeQty(body?.qty);
-    const price = normalizeNumber(body?.price);
-    const originalPrice = normalizeNumber(body?.originalPrice);
-    const discountPercent = normalizeNumber(body?.discountPercent);
-    const currency = normalizeOptionalString(body?.currency);
-    const imageUrl = normalizeUrl(body?.imageUrl);
-    const brand = normalizeOptionalString(body?.brand);
-    const description = normalizeOptionalString(body?.description);
-    const dimensionsText = normalizeOptionalString(body?.dimensionsText);
-    const variantText = normalizeOptionalString(body?.variantText);
-    const store = normalizeOptionalString(body?.store);
-
-    const specs = toSpecsMap(body?.specs);
+    const sourceDomain = normalizeDomain(body.sourceDomain, sourceUrl);
+    const captureMethod = normalizeCaptureMethod(body.captureMethod);
+    const room = normalizeText(body.room || "Living") || "Living";
+    const status = ALLOWED_STATUSES.has(String(body.status || "").trim()) ? String(body.status).trim() : "Shortlist";
+    const qty = normalizeQty(body.qty);
+    const price = normalizeNumber(body.price);
+    const originalPrice = normalizeNumber(body.originalPrice);
+    const discountPercent = normalizeNumber(body.discountPercent);
+    const currency = normalizeOptionalString(body.currency);
+    const imageUrl = normalizeUrl(body.imageUrl);
+    const brand = normalizeOptionalString(body.brand);
+    const description = normalizeOptionalString(body.description);
+    const dimensionsText = normalizeOptionalString(body.dimensionsText);
+    const variantText = normalizeOptionalString(body.variantText);
+    const store = normalizeOptionalString(body.store);
+    // Kept on the item so the app can offer to turn it into a placeholder with one option per variant.
+    const variants = normalizeVariants(body.variants);
+
+    const specs = toSpecsMap(body.specs);
     if (brand) specs.brand = brand;
     if (imageUrl) specs.imageUrl = imageUrl;
     if (currency) specs.currency = currency;
@@ -280,11 +260,12 @@ export default async function handler(req: any, res: any) {
     specs.captureMethod = captureMethod;
     specs.captureSource = "extension";
 
-    const clipRawJson = truncateJson(body?.raw, 20000);
+    const clipRawJson = truncateJson(body.raw, 20000);
     const meta = {
       category: "Other",
       kind: "standalone",
-      dimensions: null,
+      dimensions: parseDimensionsText(dimensionsText),
+      variants: variants.length ? variants : null,
       sort: null,
       specs: Object.keys(specs).length ? specs : null,
       discountType: null,
@@ -305,6 +286,7 @@ export default async function handler(req: any, res: any) {
     const SYNC_SOURCE_FIELD = process.env.AIRTABLE_SYNC_SOURCE_FIELD || "Last Sync Source";
     const SYNC_AT_FIELD = process.env.AIRTABLE_SYNC_AT_FIELD || "Last Sync At";
     const syncAtIso = new Date().toISOString();
+    const metaField = await resolveAppMetaField({ token, baseId, tableId });
 
     const fields: Record<string, unknown> = {
       "Record Type": "Item",
@@ -315,7 +297,7 @@ export default async function handler(req: any, res: any) {
       Quantity: qty,
       Store: store,
       Link: sourceUrl,
-      Notes: buildNotes(description, meta),
+      ...appMetaFields(description, meta, metaField),
       Dimensions: dimensionsText,
       [SYNC_SOURCE_FIELD]: SYNC_SOURCE,
       [SYNC_AT_FIELD]: syncAtIso,
@@ -334,19 +316,13 @@ export default async function handler(req: any, res: any) {
       throw new Error("Clip created without an Airtable record id.");
     }
 
-    res.statusCode = 200;
-    res.setHeader("Content-Type", "application/json");
-    res.end(
-      JSON.stringify({
-        ok: true,
-        itemId,
-        captureMethod,
-        sourceUrl,
-      }),
-    );
-  } catch (err: any) {
-    res.statusCode = 500;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ ok: false, message: err?.message || "Failed to create clipped item." }));
+    sendJson<ClipResponse>(res, 200, {
+      ok: true,
+      itemId,
+      captureMethod,
+      sourceUrl,
+    });
+  } catch (err) {
+    sendJson(res, 500, { ok: false, message: errorMessage(err, "Failed to create clipped item.") });
   }
 }
@@ -1,11 +1,18 @@
-export default async function handler(req: any, res: any) {
+import { appMetaFieldName, hasAppMetaField } from "./_lib/appMeta.js";
+import { syncTargetQuerySchema, type HealthResponse } from "./_lib/contracts.js";
+import { errorMessage, methodNotAllowed, parseQuery, sendJson, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+import { getSyncBackendName } from "./_lib/sync/index.js";
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
   if (req.method !== "GET") {
-    res.statusCode = 405;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ ok: false, airtableConfigured: false, message: "Method not allowed" }));
+    methodNotAllowed(res);
     return;
   }
 
+  // Homes other than the default one may bring their own base and/or table.
+  const target = parseQuery(req, res, syncTargetQuerySchema);
+  if (!target) return;
+
   const tokenRaw = process.env.AIRTABLE_TOKEN;
   const baseIdRaw = process.env.AIRTABLE_BASE_ID;
   const tableIdRaw = process.env.AIRTABLE_TABLE_ID;
@@ -21,21 +28,53 @@ export default async function handler(req: any, res: any) {
     AIRTABLE_TABLE_ID: Boolean(tableId) && tableId !== "tblXXXXXXXXXXXXXX",
   };
 
-  const configured = env.AIRTABLE_TOKEN && env.AIRTABLE_BASE_ID && env.AIRTABLE_TABLE_ID;
-  const missing = Object.entries(env)
+  const hasBase = Boolean(target.airtableBaseId) || env.AIRTABLE_BASE_ID;
+  const hasTable = Boolean(target.airtableTableId) || env.AIRTABLE_TABLE_ID;
+  // A home with neither would sync into the default home's table; the sync routes refuse that too.
+  const homeUnset = Boolean(target.home) && !target.airtableBaseId && !target.airtableTableId;
+  const configured = env.AIRTABLE_TOKEN && hasBase && hasTable && !homeUnset;
+  const missing = Object.entries({ ...env, AIRTABLE_BASE_ID: hasBase, AIRTABLE_TABLE_ID: hasTable })
     .filter(([, ok]) => !ok)
     .map(([k]) => k);
 
-  res.statusCode = 200;
-  res.setHeader("Content-Type", "application/json");
-  res.end(
-    JSON.stringify({
-      ok: true,
-      airtableConfigured: configured,
-      env,
-      message: configured
-        ? "Airtable env vars present."
-        : `Missing env vars: ${missing.join(", ")}. Local dev: put them in .env.local and restart \`npm run dev\`.`,
-    }),
-  );
+  let syncBackend: HealthResponse["syncBackend"];
+  try {
+    syncBackend = getSyncBackendName();
+  } catch (err) {
+    const message = errorMessage(err, "Sync backend not configured");
+    sendJson<HealthResponse>(res, 200, { ok: true, airtableConfigured: configured, syncConfigured: false, env, message });
+    return;
+  }
+  // The JSON-file backend needs no credentials; it stores data next to the server.
+  const syncConfigured = syncBackend === "json" || configured;
+
+  // Without the App Meta field, sync still works but keeps metadata in Notes (legacy layout).
+  // Only checked for the env table: this route is public, so it doesn't probe caller-supplied bases.
+  let appMeta: HealthResponse["appMeta"];
+  if (syncBackend === "airtable" && configured && !target.airtableBaseId && !target.airtableTableId) {
+    try {
+      appMeta = { field: appMetaFieldName(), present: await hasAppMetaField({ token, baseId, tableId }) };
+    } catch (err) {
+      appMeta = { field: appMetaFieldName(), present: null, message: errorMessage(err, "Could not check the table") };
+    }
+  }
+
+  sendJson<HealthResponse>(res, 200, {
+    ok: true,
+    airtableConfigured: configured,
+    syncBackend,
+    syncConfigured,
+    appMeta,
+    env,
+    message:
+      syncBackend === "json"
+        ? "Syncing to the self-hosted JSON backend."
+        : homeUnset
+          ? `Home "${target.home}" has no Airtable base or table set (Settings -> Homes).`
+          : configured
+            ? appMeta?.present === false
+              ? `Airtable env vars present. Add the "${appMeta.field}" field (npm run airtable:ensure-fields) to stop storing app metadata in Notes.`
+              : "Airtable env vars present."
+            : `Missing env vars: ${missing.join(", ")}. Local dev: put them in .env.local and restart \`npm run dev\`.`,
+  });
 }
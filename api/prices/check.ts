@@ -0,0 +1,51 @@
+import { requireAuth } from "../_lib/auth.js";
+import { priceCheckBodySchema, type PriceCheckResponse } from "../_lib/contracts.js";
+import { errorMessage, methodNotAllowed, parseJsonBody, sendJson, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+import { getPageFetchers } from "../_lib/scrape/fetchers/index.js";
+import { normalizeUrl } from "../_lib/scrape/html.js";
+import { scrapeProduct } from "../_lib/scrape/scrape.js";
+
+// Re-scrapes one watched link for the price watch (src/sync/priceWatch.ts). The app calls it a link
+// at a time so a slow page never holds up the rest of the batch.
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== "POST") {
+    methodNotAllowed(res);
+    return;
+  }
+
+  const session = await requireAuth(req, res);
+  if (!session) return;
+
+  const body = await parseJsonBody(req, res, priceCheckBodySchema);
+  if (!body) return;
+
+  try {
+    const url = normalizeUrl(body.url);
+    if (!url) {
+      sendJson(res, 400, { ok: false, message: "Please provide a valid product URL." });
+      return;
+    }
+
+    const result = await scrapeProduct(url, getPageFetchers());
+    if (!result.ok) {
+      sendJson(res, 422, { ok: false, message: result.message });
+      return;
+    }
+
+    const { product } = result;
+    sendJson<PriceCheckResponse>(res, 200, {
+      ok: true,
+      data: {
+        url,
+        price: product.price,
+        originalPrice: product.originalPrice,
+        currency: product.currency,
+        availability: product.availability,
+        checkedAt: Date.now(),
+      },
+      mode: result.mode,
+    });
+  } catch (err) {
+    sendJson(res, 500, { ok: false, message: errorMessage(err, "Failed to check the price.") });
+  }
+}
@@ -1,20 +1,14 @@
-import { GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
-
-function parseBody(req: any): Promise<any> {
-  if (req.body && typeof req.body === "object") return Promise.resolve(req.body);
-  return new Promise((resolve, reject) => {
-    let data = "";
-    req.on("data", (chunk: any) => (data += String(chunk)));
-    req.on("end", () => {
-      try {
-        resolve(data ? JSON.parse(data) : {});
-      } catch (e) {
-        reject(e);
-      }
-    });
-    req.on("error", reject);
-  });
-}
+import { requireAuth } from "../_lib/auth.js";
+import {
+  s3JsonPutBodySchema,
+  s3JsonQuerySchema,
+  type S3JsonGetResponse,
+  type S3JsonListResponse,
+  type S3JsonPutResponse,
+  type S3Snapshot,
+} from "../_lib/contracts.js";
+import { errorMessage, methodNotAllowed, parseJsonBody, parseQuery, sendJson, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+import { exportPrefix, getObjectStorage, type ObjectStorage } from "../_lib/storage/index.js";
 
 function sanitizeKeyPart(value: string) {
   return value.replace(/[^\w.-]+/g, "-").replace(/-+/g, "-").replace(/^-+|-+$/g, "");
@@ -30,93 +24,44 @@ function formatExportStamp(ts = new Date()) {
   return `${y}${m}${d}_${hh}${mm}`;
 }
 
-async function streamToString(body: any): Promise<string> {
-  if (!body) return "";
-  if (typeof body === "string") return body;
-  if (body instanceof Uint8Array) return Buffer.from(body).toString("utf-8");
-  if (typeof body.getReader === "function") {
-    const reader = body.getReader();
-    const chunks: Uint8Array[] = [];
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      if (value) chunks.push(value);
-    }
-    return Buffer.concat(chunks.map((c) => Buffer.from(c))).toString("utf-8");
-  }
-  if (typeof body.on === "function") {
-    return await new Promise<string>((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      body.on("data", (chunk: any) => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
-      body.on("error", reject);
-      body.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
-    });
-  }
-  return "";
-}
-
-async function readJsonFromKey(client: S3Client, bucket: string, key: string) {
-  const getCommand = new GetObjectCommand({ Bucket: bucket, Key: key });
-  const out = await client.send(getCommand);
-  const raw = await streamToString(out.Body as any);
-  return raw ? JSON.parse(raw) : null;
-}
-
-async function writeJsonToKey(client: S3Client, bucket: string, key: string, data: unknown) {
-  const payload = JSON.stringify(data, null, 2);
-  await client.send(
-    new PutObjectCommand({
-      Bucket: bucket,
-      Key: key,
-      Body: payload,
-      ContentType: "application/json",
-    }),
-  );
-}
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  const session = await requireAuth(req, res);
+  if (!session) return;
 
-export default async function handler(req: any, res: any) {
-  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
-  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
-  const region = process.env.AWS_REGION;
-  const bucket = process.env.AWS_S3_BUCKET;
-  const basePrefix = "uploads/exports";
   const legacyPrefix = "exports";
 
-  if (!accessKeyId || !secretAccessKey || !region || !bucket) {
-    res.statusCode = 500;
-    res.setHeader("Content-Type", "application/json");
-    res.end(JSON.stringify({ ok: false, message: "Missing AWS env vars." }));
+  let storage: ObjectStorage;
+  try {
+    storage = getObjectStorage();
+  } catch (err) {
+    sendJson(res, 500, { ok: false, message: errorMessage(err, "Object storage is not configured.") });
     return;
   }
 
-  const client = new S3Client({
-    region,
-    credentials: { accessKeyId, secretAccessKey },
-  });
-
   if (req.method === "GET") {
+    const query = parseQuery(req, res, s3JsonQuerySchema);
+    if (!query) return;
+
+    const basePrefix = exportPrefix(query.home);
     try {
-      const url = new URL(req.url || "", "http://localhost");
-      const list = url.searchParams.get("list");
-      const keyParam = url.searchParams.get("key");
-      const key = keyParam && keyParam.trim() ? keyParam.trim() : `${basePrefix}/latest.json`;
+      const key = query.key || `${basePrefix}/latest.json`;
 
-      if (list) {
+      if (query.list) {
         const latestMetaKey = `${basePrefix}/latest.meta.json`;
         const previousMetaKey = `${basePrefix}/previous.meta.json`;
         const latestKey = `${basePrefix}/latest.json`;
         const previousKey = `${basePrefix}/previous.json`;
-        const snapshots: Array<{ key: string; name: string | null; exportedAt: string | null; filename: string | null }> = [];
+        const snapshots: S3Snapshot[] = [];
 
         async function readMeta(metaKey: string, dataKey: string) {
           try {
-            const meta = await readJsonFromKey(client, bucket, metaKey);
+            const meta = await storage.getJson(metaKey);
             if (meta && typeof meta === "object") return meta as any;
           } catch {
             // ignore
           }
           try {
-            const data = await readJsonFromKey(client, bucket, dataKey);
+            const data = await storage.getJson(dataKey);
             if (data && typeof data === "object") {
               return {
                 filename: typeof (data as any)?.exportMeta?.sessionId === "string" ? null : null,
@@ -155,10 +100,8 @@ export default async function handler(req: any, res: any) {
           });
         }
 
-        res.statusCode = 200;
-        res.setHeader("Content-Type", "application/json");
-        // Fallback: try legacy prefix if no snapshots yet.
-        if (!snapshots.length) {
+        // Fallback: try legacy prefix if no snapshots yet (default home only).
+        if (!snapshots.length && !query.home) {
           const legacyLatestMetaKey = `${legacyPrefix}/latest.meta.json`;
           const legacyPreviousMetaKey = `${legacyPrefix}/previous.meta.json`;
           const legacyLatestKey = `${legacyPrefix}/latest.json`;
@@ -185,44 +128,33 @@ export default async function handler(req: any, res: any) {
           }
         }
 
-        res.end(JSON.stringify({ ok: true, snapshots }));
+        sendJson<S3JsonListResponse>(res, 200, { ok: true, snapshots });
         return;
       }
 
-      if (!key.startsWith(`${basePrefix}/`) && !key.startsWith(`${legacyPrefix}/`)) {
-        res.statusCode = 400;
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ ok: false, message: "Invalid key." }));
+      if (!key.startsWith(`${basePrefix}/`) && (query.home || !key.startsWith(`${legacyPrefix}/`))) {
+        sendJson(res, 400, { ok: false, message: "Invalid key." });
         return;
       }
 
-      const data = await readJsonFromKey(client, bucket, key);
+      const data = await storage.getJson(key);
 
-      res.statusCode = 200;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ ok: true, key, data }));
+      sendJson<S3JsonGetResponse>(res, 200, { ok: true, key, data });
       return;
-    } catch (err: any) {
-      res.statusCode = 500;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ ok: false, message: err?.message || "Failed to fetch JSON from S3" }));
+    } catch (err) {
+      sendJson(res, 500, { ok: false, message: errorMessage(err, "Failed to fetch JSON from S3") });
       return;
     }
   }
 
   if (req.method === "POST") {
-    try {
-      const body = await parseBody(req);
-      const data = body?.data ?? body?.bundle ?? null;
-      if (!data || typeof data !== "object") {
-        res.statusCode = 400;
-        res.setHeader("Content-Type", "application/json");
-        res.end(JSON.stringify({ ok: false, message: "Missing JSON payload." }));
-        return;
-      }
+    const body = await parseJsonBody(req, res, s3JsonPutBodySchema);
+    if (!body) return;
 
-      const filenameRaw = typeof body?.filename === "string" ? body.filename : "";
-      const safeFilename = filenameRaw ? sanitizeKeyPart(filenameRaw) : `furniture_tracker_export_${formatExportStamp()}.json`;
+    const basePrefix = exportPrefix(body.home);
+    try {
+      const data = body.data ?? body.bundle;
+      const safeFilename = body.filename ? sanitizeKeyPart(body.filename) : `furniture_tracker_export_${formatExportStamp()}.json`;
       const key = `${basePrefix}/${safeFilename.endsWith(".json") ? safeFilename : `${safeFilename}.json`}`;
       const latestKey = `${basePrefix}/latest.json`;
       const previousKey = `${basePrefix}/previous.json`;
@@ -240,37 +172,31 @@ export default async function handler(req: any, res: any) {
 
       // Move latest -> previous (best effort).
       try {
-        const latestPayload = await readJsonFromKey(client, bucket, latestKey);
-        if (latestPayload) await writeJsonToKey(client, bucket, previousKey, latestPayload);
+        const latestPayload = await storage.getJson(latestKey);
+        if (latestPayload) await storage.putJson(previousKey, latestPayload);
       } catch {
         // ignore
       }
       try {
-        const latestMeta = await readJsonFromKey(client, bucket, latestMetaKey);
-        if (latestMeta) await writeJsonToKey(client, bucket, previousMetaKey, latestMeta);
+        const latestMeta = await storage.getJson(latestMetaKey);
+        if (latestMeta) await storage.putJson(previousMetaKey, latestMeta);
       } catch {
         // ignore
       }
 
-      await writeJsonToKey(client, bucket, key, data);
-      await writeJsonToKey(client, bucket, latestKey, data);
-      await writeJsonToKey(client, bucket, latestMetaKey, meta);
+      await storage.putJson(key, data);
+      await storage.putJson(latestKey, data);
+      await storage.putJson(latestMetaKey, meta);
 
-      const publicUrl = `https://${bucket}.s3.${region}.amazonaws.com/${key}`;
+      const publicUrl = storage.publicUrl(key);
 
-      res.statusCode = 200;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ ok: true, key, latestKey, previousKey, publicUrl, meta }));
+      sendJson<S3JsonPutResponse>(res, 200, { ok: true, key, latestKey, previousKey, publicUrl, meta });
       return;
-    } catch (err: any) {
-      res.statusCode = 500;
-      res.setHeader("Content-Type", "application/json");
-      res.end(JSON.stringify({ ok: false, message: err?.message || "Failed to upload JSON to S3" }));
+    } catch (err) {
+      sendJson(res, 500, { ok: false, message: errorMessage(err, "Failed to upload JSON to S3") });
       return;
     }
   }
 
-  res.statusCode = 405;
-  res.setHeader("Content-Type", "application/json");
-  res.end(JSON.stringify({ ok: false, message: "Method not allowed" }));
+  methodNotAllowed(res);
 }
@@ -0,0 +1,88 @@
+import { requireAuth } from "../_lib/auth.js";
+import { storageGcBodySchema, type StorageGcResponse, type SyncTarget } from "../_lib/contracts.js";
+import { errorMessage, methodNotAllowed, parseJsonBody, sendJson, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+import { exportPrefix, getObjectStorage, LEGACY_UPLOAD_PREFIXES, uploadPrefix, type ObjectStorage } from "../_lib/storage/index.js";
+import { collectUploadKeys, findOrphanedUploads } from "../_lib/storage/orphans.js";
+import { getSyncBackend } from "../_lib/sync/index.js";
+
+// Finds (and unless it's a dry run, deletes) attachment uploads that no synced record and no latest
+// backup of the given homes mentions: files of deleted attachments and items, and duplicates left
+// by retried uploads. Only the given homes' upload prefixes are swept, so homes the caller doesn't
+// know about keep their files. Uploads from before homes had their own prefix may belong to any home,
+// so they are only swept on request, alongside the default home, against all the given homes' records.
+
+const MAX_LISTED_ORPHANS = 200;
+const DAY_MS = 24 * 60 * 60_000;
+
+function homeLabel(target: SyncTarget) {
+  return target.home ? `home "${target.home}"` : "the default home";
+}
+
+// Everything the sync backend holds for the home (for Airtable, the attachments in each record's
+// app metadata) plus its latest JSON backup.
+async function collectReferences(storage: ObjectStorage, target: SyncTarget, into: Set<string>) {
+  const pulled = await getSyncBackend().pull({ since: null, full: true, target });
+  collectUploadKeys(pulled.bundle, into);
+  collectUploadKeys(await storage.getJson(`${exportPrefix(target.home)}/latest.json`), into);
+  if (!target.home) collectUploadKeys(await storage.getJson("exports/latest.json"), into);
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== "POST") {
+    methodNotAllowed(res);
+    return;
+  }
+
+  const session = await requireAuth(req, res);
+  if (!session) return;
+
+  const body = await parseJsonBody(req, res, storageGcBodySchema);
+  if (!body) return;
+
+  let storage: ObjectStorage;
+  try {
+    storage = getObjectStorage();
+  } catch (err) {
+    sendJson(res, 500, { ok: false, message: errorMessage(err, "Object storage is not configured.") });
+    return;
+  }
+
+  // An incomplete reference set would delete live files, so any failure stops the run.
+  const referenced = new Set<string>(body.keep);
+  for (const target of body.targets) {
+    try {
+      await collectReferences(storage, target, referenced);
+    } catch (err) {
+      sendJson(res, 502, {
+        ok: false,
+        message: `Could not read the records of ${homeLabel(target)}; nothing was deleted. ${errorMessage(err, "")}`.trim(),
+      });
+      return;
+    }
+  }
+
+  try {
+    const prefixes = [...new Set(body.targets.map((target) => uploadPrefix(target.home)))];
+    if (body.legacy && body.targets.some((target) => !target.home)) prefixes.push(...LEGACY_UPLOAD_PREFIXES);
+    const objects = (await Promise.all(prefixes.map((prefix) => storage.list(prefix)))).flat();
+    const { orphans, recent } = findOrphanedUploads(objects, referenced, { now: Date.now(), graceMs: body.graceDays * DAY_MS });
+    orphans.sort((a, b) => (a.lastModified ?? 0) - (b.lastModified ?? 0));
+    if (!body.dryRun && orphans.length) await storage.remove(orphans.map((obj) => obj.key));
+
+    sendJson<StorageGcResponse>(res, 200, {
+      ok: true,
+      dryRun: body.dryRun,
+      graceDays: body.graceDays,
+      prefixes,
+      scanned: objects.length,
+      referenced: referenced.size,
+      recent,
+      orphanCount: orphans.length,
+      orphanBytes: orphans.reduce((sum, obj) => sum + obj.size, 0),
+      orphans: orphans.slice(0, MAX_LISTED_ORPHANS),
+      deleted: body.dryRun ? 0 : orphans.length,
+    });
+  } catch (err) {
+    sendJson(res, 500, { ok: false, message: errorMessage(err, "Upload cleanup failed") });
+  }
+}
@@ -0,0 +1,92 @@
+import { requireAuth } from "../_lib/auth.js";
+import { methodNotAllowed, sendJson, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+import { getObjectStorageName } from "../_lib/storage/index.js";
+import { readLocalObject, verifyUploadSignature, writeLocalObject } from "../_lib/storage/localDisk.js";
+
+// Reads and writes files for the local-disk object storage (OBJECT_STORAGE=local). GET needs a
+// session like every other route; PUT is authorized by the signed URL from /api/s3/sign instead,
+// the same way an S3 presigned upload is.
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// Files are served from the app's own origin, so only types a browser won't run as a page are shown
+// inline. Anything else (SVG, HTML, unknown) is sent as a download.
+const CONTENT_TYPES: Record<string, string> = {
+  json: "application/json",
+  pdf: "application/pdf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  heic: "image/heic",
+  heif: "image/heif",
+};
+
+function contentTypeFor(key: string) {
+  const ext = key.includes(".") ? key.slice(key.lastIndexOf(".") + 1).toLowerCase() : "";
+  return CONTENT_TYPES[ext] || "application/octet-stream";
+}
+
+function readRawBody(req: ApiRequest): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer | string) => {
+      const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      size += buf.length;
+      if (size <= MAX_UPLOAD_BYTES) chunks.push(buf);
+    });
+    req.on("end", () => resolve(size > MAX_UPLOAD_BYTES ? null : Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (getObjectStorageName() !== "local") {
+    sendJson(res, 404, { ok: false, message: "Local object storage is not enabled (OBJECT_STORAGE=local)." });
+    return;
+  }
+
+  const url = new URL(req.url || "", "http://localhost");
+  const key = url.searchParams.get("key") || "";
+
+  if (req.method === "GET") {
+    const session = await requireAuth(req, res);
+    if (!session) return;
+    const body = await readLocalObject(key);
+    if (!body) {
+      sendJson(res, 404, { ok: false, message: "Not found." });
+      return;
+    }
+    res.statusCode = 200;
+    const contentType = contentTypeFor(key);
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Content-Security-Policy", "sandbox; default-src 'none'");
+    if (contentType === "application/octet-stream") res.setHeader("Content-Disposition", "attachment");
+    // Upload keys are unique per file; JSON backups like `latest.json` are rewritten.
+    res.setHeader("Cache-Control", key.endsWith(".json") ? "private, no-cache" : "private, max-age=31536000, immutable");
+    res.end(body);
+    return;
+  }
+
+  if (req.method === "PUT") {
+    const expires = Number(url.searchParams.get("expires"));
+    if (!verifyUploadSignature(key, expires, url.searchParams.get("signature") || "")) {
+      sendJson(res, 403, { ok: false, message: "Upload URL is invalid or has expired." });
+      return;
+    }
+    const body = await readRawBody(req);
+    if (!body) {
+      sendJson(res, 413, { ok: false, message: `Upload is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.` });
+      return;
+    }
+    await writeLocalObject(key, body);
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  methodNotAllowed(res);
+}
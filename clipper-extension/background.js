@@ -297,6 +297,7 @@ function mergePayload(basePayload, scraperData, sourceUrl, fallbackReason = "")
     dimensionsText: cleanText(base.dimensionsText || scraper.dimensionsText) || null,
     specs: Array.isArray(base.specs) ? base.specs : [],
     variantText: cleanText(base.variantText || scraper.variantText) || null,
+    variants: Array.isArray(base.variants) && base.variants.length ? base.variants : scraper.variants || [],
     captureMethod: "fallback_scraper",
     raw: {
       browser: base.raw || null,
@@ -131,6 +131,63 @@
     return null;
   }
 
+  // Colour/size/fabric variants from a JSON-LD ProductGroup (`hasVariant`). The app offers to turn
+  // them into options; /api/clip does the final clean-up.
+  function variantsFromLd(products) {
+    const group = products.find((product) => Array.isArray(product.hasVariant) && product.hasVariant.length > 1);
+    if (!group) return [];
+    const groupName = cleanText(group.name || "");
+    return group.hasVariant
+      .filter((node) => node && typeof node === "object")
+      .map((node) => {
+        const offers = extractOffer(node.offers);
+        const attributes = [node.color, node.material, node.pattern, node.size].map((value) => cleanText(value || "")).filter(Boolean);
+        let name = attributes.join(" / ") || cleanText(node.name || "");
+        if (!attributes.length && groupName && name.toLowerCase().startsWith(groupName.toLowerCase())) {
+          name = name.slice(groupName.length).replace(/^[\s,:|/–—-]+/, "").trim() || name;
+        }
+        const offer = Array.isArray(node.offers) ? node.offers[0] : node.offers;
+        return {
+          name,
+          sku: cleanText(node.sku || "") || null,
+          price: offers.price,
+          originalPrice: offers.originalPrice,
+          imageUrl: extractImage(node.image),
+          dimensionsText: null,
+          url: firstTruthy(offer?.url, node.url),
+        };
+      })
+      .filter((variant) => variant.name);
+  }
+
+  // A colour/size/fabric <select> with at least two real choices.
+  function variantsFromSelects() {
+    const selects = Array.from(document.querySelectorAll("select")).filter((select) => {
+      const label = `${select.name} ${select.id} ${select.getAttribute("aria-label") || ""}`;
+      return /colou?r|fabric|finish|size|variant|option|style|material/i.test(label) && !/qty|quantity|country|sort/i.test(label);
+    });
+    for (const select of selects) {
+      const variants = Array.from(select.options)
+        .filter((option) => option.value && !/^(select|choose|pick|--)/i.test(cleanText(option.textContent || "")))
+        .map((option) => {
+          const text = cleanText(option.textContent || "");
+          const priceText = text.match(/[$£€]\s?\d[\d,]*(?:\.\d{1,2})?/)?.[0] || null;
+          return {
+            name: cleanText(priceText ? text.replace(priceText, "") : text).replace(/[\s(–—-]+\)?$/, ""),
+            sku: cleanText(option.dataset.sku || "") || null,
+            price: toNumber(option.dataset.price) ?? (priceText ? parsePriceText(priceText).amount : null),
+            originalPrice: null,
+            imageUrl: cleanText(option.dataset.image || "") || null,
+            dimensionsText: null,
+            url: null,
+          };
+        })
+        .filter((variant) => variant.name);
+      if (variants.length > 1) return variants;
+    }
+    return [];
+  }
+
   function parseJsonLd() {
     const scripts = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
     const rawScripts = [];
@@ -179,6 +236,7 @@
         originalPrice: null,
         discountPercent: null,
       },
+      variants: variantsFromLd(products),
       raw: rawScripts.slice(0, 8),
     };
   }
@@ -421,6 +479,7 @@
     const dimensionsText = firstTruthy(amazon.dimensionsText, generic.dimensionsText);
     const variantText = firstTruthy(amazon.variantText, generic.variantText);
     const specs = mergeSpecs(amazon.specs, generic.specs);
+    const variants = (ld.variants.length ? ld.variants : variantsFromSelects()).slice(0, 40);
 
     return {
       sourceUrl,
@@ -436,6 +495,7 @@
       dimensionsText: dimensionsText || null,
       specs,
       variantText: variantText || null,
+      variants,
       captureMethod: "browser",
       raw: {
         jsonLd: ld.raw,
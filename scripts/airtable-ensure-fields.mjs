@@ -12,13 +12,17 @@ const tableRef = requiredEnv("AIRTABLE_TABLE_ID");
 const PRIORITY_FIELD = process.env.AIRTABLE_PRIORITY_FIELD || "Priority";
 const SYNC_SOURCE_FIELD = process.env.AIRTABLE_SYNC_SOURCE_FIELD || "Last Sync Source";
 const SYNC_AT_FIELD = process.env.AIRTABLE_SYNC_AT_FIELD || "Last Sync At";
+const APP_META_FIELD = process.env.AIRTABLE_APP_META_FIELD || "App Meta";
+const APP_META_SCHEMA_VERSION = 2;
+const MIGRATE_APP_META = process.argv.includes("--migrate-app-meta");
 
 const META_BASE = `https://api.airtable.com/v0/meta/bases/${baseId}`;
+const DATA_BASE = `https://api.airtable.com/v0/${baseId}`;
 
 const selectChoices = (names) => ({ choices: names.map((name) => ({ name })) });
 
 const REQUIRED_FIELDS = [
-  { name: "Record Type", type: "singleSelect", options: selectChoices(["Item", "Option", "Measurement", "Note", "Purchase"]) },
+  { name: "Record Type", type: "singleSelect", options: selectChoices(["Item", "Option", "SubItem", "Measurement", "Note", "Purchase"]) },
   { name: "Title", type: "singleLineText" },
   { name: "Room", type: "singleLineText" },
   { name: "Status", type: "singleSelect", options: selectChoices(["Idea", "Shortlist", "Selected", "Ordered", "Delivered", "Installed", "Returned"]) },
@@ -43,6 +47,7 @@ const REQUIRED_FIELDS = [
   { name: "Selected Option Id", type: "singleLineText" },
   { name: SYNC_SOURCE_FIELD, type: "singleLineText" },
   { name: SYNC_AT_FIELD, type: "singleLineText" },
+  { name: APP_META_FIELD, type: "multilineText" },
 ];
 
 const airtableFetch = async (path, init = {}) => {
@@ -81,6 +86,72 @@ const createField = async (tableId, field) => {
   });
 };
 
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Same parsing as the server's legacy reader (api/_lib/appMeta.ts).
+const splitLegacyNotes = (notesRaw) => {
+  const notes = typeof notesRaw === "string" ? notesRaw : "";
+  const openTag = "--- app_meta ---";
+  const closeTag = "--- /app_meta ---";
+  const start = notes.lastIndexOf(openTag);
+  const end = notes.lastIndexOf(closeTag);
+  if (start === -1 || end === -1 || end < start) return null;
+  let meta = null;
+  try {
+    meta = JSON.parse(notes.slice(start + openTag.length, end).trim());
+  } catch {
+    return null;
+  }
+  if (!meta || typeof meta !== "object") return null;
+  const before = notes.slice(0, start).trimEnd();
+  const after = notes.slice(end + closeTag.length).trimStart();
+  return { userNotes: [before, after].filter(Boolean).join("\n\n").trimEnd(), meta };
+};
+
+// Moves `--- app_meta ---` blocks out of Notes into the App Meta field. Records that already have
+// App Meta are left alone; blocks that no longer parse stay in Notes for a human to look at.
+const migrateAppMeta = async (table) => {
+  let offset = "";
+  const updates = [];
+  do {
+    const u = new URL(`${DATA_BASE}/${table.id}`);
+    u.searchParams.set("pageSize", "100");
+    u.searchParams.append("fields[]", "Notes");
+    u.searchParams.append("fields[]", APP_META_FIELD);
+    if (offset) u.searchParams.set("offset", offset);
+    const json = await airtableFetch(u.toString(), { method: "GET" });
+    for (const rec of json?.records || []) {
+      const fields = rec.fields || {};
+      if (typeof fields[APP_META_FIELD] === "string" && fields[APP_META_FIELD].trim()) continue;
+      const legacy = splitLegacyNotes(fields.Notes);
+      if (!legacy) continue;
+      updates.push({
+        id: rec.id,
+        fields: {
+          Notes: legacy.userNotes,
+          [APP_META_FIELD]: JSON.stringify({ schemaVersion: APP_META_SCHEMA_VERSION, ...legacy.meta }),
+        },
+      });
+    }
+    offset = json?.offset || "";
+    await sleep(250);
+  } while (offset);
+
+  if (!updates.length) {
+    console.log("No legacy app_meta blocks to migrate.");
+    return;
+  }
+  console.log(`Migrating app metadata on ${updates.length} record(s)...`);
+  for (let i = 0; i < updates.length; i += 10) {
+    await airtableFetch(`${DATA_BASE}/${table.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ records: updates.slice(i, i + 10) }),
+    });
+    // Stay under Airtable's 5 requests/second per base.
+    await sleep(250);
+  }
+};
+
 const main = async () => {
   const table = await getTable();
   const existing = new Set((table.fields || []).map((f) => f.name));
@@ -88,14 +159,16 @@ const main = async () => {
 
   if (!missing.length) {
     console.log("All required fields already exist.");
-    return;
+  } else {
+    console.log(`Creating ${missing.length} missing field(s) in ${table.name} (${table.id})...`);
+    for (const field of missing) {
+      console.log(`- Creating ${field.name}`);
+      await createField(table.id, field);
+    }
   }
 
-  console.log(`Creating ${missing.length} missing field(s) in ${table.name} (${table.id})...`);
-  for (const field of missing) {
-    console.log(`- Creating ${field.name}`);
-    await createField(table.id, field);
-  }
+  if (MIGRATE_APP_META) await migrateAppMeta(table);
+  else console.log(`Run with --migrate-app-meta to move legacy Notes metadata into "${APP_META_FIELD}".`);
 
   console.log("Done.");
 };
@@ -16,6 +16,8 @@ import Budget from "@/pages/Budget";
 import Review from "@/pages/Review";
 import Stores from "@/pages/Stores";
 import Settings from "@/pages/Settings";
+import Conflicts from "@/pages/Conflicts";
+import SyncHistory from "@/pages/SyncHistory";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -41,6 +43,8 @@ const App = () => (
                 <Route path="stores" element={<Stores />} />
                 <Route path="budget" element={<Budget />} />
                 <Route path="settings" element={<Settings />} />
+                <Route path="settings/conflicts" element={<Conflicts />} />
+                <Route path="settings/sync-history" element={<SyncHistory />} />
                 <Route path="*" element={<NotFound />} />
               </Route>
             </Routes>
@@ -0,0 +1,76 @@
+import { ATTACHMENT_KINDS, ATTACHMENT_KIND_LABELS, attachmentKind, type AttachmentKind } from "@/lib/attachmentKinds";
+import type { AttachmentRecord } from "@/storage/attachments";
+
+export function AttachmentKindSelect({
+  value,
+  onChange,
+  kinds = ATTACHMENT_KINDS,
+  label = "Attachment kind",
+  className,
+}: {
+  value: AttachmentKind;
+  onChange: (kind: AttachmentKind) => void;
+  kinds?: AttachmentKind[];
+  label?: string;
+  className?: string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as AttachmentKind)}
+      aria-label={label}
+      className={["h-8 rounded-md border bg-background px-2 text-xs", className].filter(Boolean).join(" ")}
+    >
+      {kinds.map((kind) => (
+        <option key={kind} value={kind}>
+          {ATTACHMENT_KIND_LABELS[kind]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export type AttachmentKindFilterValue = AttachmentKind | "all";
+
+// "All" plus one chip per kind present, with counts. Hidden when there is only one kind to show.
+export function AttachmentKindFilter({
+  attachments,
+  value,
+  onChange,
+}: {
+  attachments: AttachmentRecord[];
+  value: AttachmentKindFilterValue;
+  onChange: (value: AttachmentKindFilterValue) => void;
+}) {
+  const counts = new Map<AttachmentKind, number>();
+  for (const att of attachments) {
+    const kind = attachmentKind(att);
+    counts.set(kind, (counts.get(kind) || 0) + 1);
+  }
+  if (counts.size < 2 && value === "all") return null;
+  const chips: Array<{ value: AttachmentKindFilterValue; label: string }> = [
+    { value: "all", label: `All (${attachments.length})` },
+    ...ATTACHMENT_KINDS.filter((kind) => counts.has(kind) || kind === value).map((kind) => ({
+      value: kind,
+      label: `${ATTACHMENT_KIND_LABELS[kind]} (${counts.get(kind) || 0})`,
+    })),
+  ];
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {chips.map((chip) => (
+        <button
+          key={chip.value}
+          type="button"
+          onClick={() => onChange(chip.value)}
+          className={[
+            "rounded-full border px-2.5 py-1 text-xs font-medium",
+            chip.value === value ? "border-foreground bg-foreground text-background" : "bg-background",
+          ].join(" ")}
+        >
+          {chip.label}
+        </button>
+      ))}
+    </div>
+  );
+}
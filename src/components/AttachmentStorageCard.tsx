@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { formatBytes } from "@/lib/format";
+import {
+  clearAttachmentCache,
+  getAttachmentCacheSettings,
+  getAttachmentStorageUsage,
+  setAttachmentCacheSettings,
+  type AttachmentStorageUsage,
+} from "@/storage/attachmentCache";
+import { getImageSettings, setImageSettings } from "@/storage/attachments";
+
+export function AttachmentStorageCard() {
+  const { toast } = useToast();
+  const [usage, setUsage] = useState<AttachmentStorageUsage | null>(null);
+  const [quota, setQuota] = useState<{ usage: number; quota: number } | null>(null);
+  const [budgetMb, setBudgetMb] = useState("");
+  const [maxDimension, setMaxDimension] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    const [nextUsage, settings, images] = await Promise.all([
+      getAttachmentStorageUsage(),
+      getAttachmentCacheSettings(),
+      getImageSettings(),
+    ]);
+    setUsage(nextUsage);
+    setBudgetMb(String(settings.budgetMb));
+    setMaxDimension(String(images.maxDimension));
+    const estimate = await navigator.storage?.estimate?.().catch(() => null);
+    setQuota(estimate?.quota ? { usage: estimate.usage || 0, quota: estimate.quota } : null);
+  }
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function onSave() {
+    const budget = Number(budgetMb);
+    const max = Number(maxDimension);
+    if (!Number.isFinite(budget) || budget < 0) {
+      toast({ title: "Invalid budget", description: "Enter a size in MB (0 keeps no downloaded copies)." });
+      return;
+    }
+    if (!Number.isFinite(max) || max < 320) {
+      toast({ title: "Invalid photo size", description: "Enter a longest side of at least 320 px." });
+      return;
+    }
+    setBusy(true);
+    try {
+      const [next, images] = await Promise.all([setAttachmentCacheSettings({ budgetMb: budget }), setImageSettings({ maxDimension: max })]);
+      toast({
+        title: "Storage settings saved",
+        description: `${next.budgetMb} MB for downloads; new photos up to ${images.maxDimension} px.`,
+      });
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onClear() {
+    setBusy(true);
+    try {
+      const count = await clearAttachmentCache();
+      toast({ title: "Downloads cleared", description: `${count} file(s) removed from this device.` });
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="text-sm font-semibold">Photos & receipts storage</div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        Synced photos and receipts download when first shown (or per room via "Save photos offline") and stay on this device for
+        offline use. The least recently viewed ones are removed first when the budget is full.
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        New photos are resized so their longest side fits the max size, saved as WebP (or JPEG) without location data, and
+        get a small thumbnail for lists. PDFs, and HEIC photos the browser can't open, are kept as they are.
+      </div>
+      {usage ? (
+        <div className="mt-3 space-y-1 text-xs">
+          <div>
+            Downloaded: <span className="font-medium">{formatBytes(usage.cachedBytes)}</span> ({usage.cachedCount} file(s))
+          </div>
+          <div>
+            Waiting to upload: <span className="font-medium">{formatBytes(usage.queuedBytes)}</span> ({usage.queuedCount} file(s), never
+            removed)
+          </div>
+          <div className="text-muted-foreground">Not downloaded yet: {usage.remoteOnlyCount} file(s)</div>
+          {quota ? (
+            <div className="text-muted-foreground">
+              This site uses {formatBytes(quota.usage)} of {formatBytes(quota.quota)} available to the browser.
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+      <div className="mt-3 flex flex-wrap items-end gap-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="attachment_budget">Storage budget (MB)</Label>
+          <Input
+            id="attachment_budget"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={budgetMb}
+            onChange={(e) => setBudgetMb(e.target.value)}
+            className="h-11 w-32 text-base"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="photo_max_dimension">Max photo size (px)</Label>
+          <Input
+            id="photo_max_dimension"
+            type="number"
+            inputMode="numeric"
+            min={320}
+            value={maxDimension}
+            onChange={(e) => setMaxDimension(e.target.value)}
+            className="h-11 w-32 text-base"
+          />
+        </div>
+        <Button variant="secondary" onClick={() => void onSave()} disabled={busy}>
+          Save
+        </Button>
+        <Button variant="secondary" onClick={() => void onClear()} disabled={busy || !usage?.cachedCount}>
+          Clear downloads
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useData } from "@/data/DataContext";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { cn } from "@/lib/utils";
+
+// Copies the given items/stores into another home on this device. Renders nothing with only one home.
+export function CopyToHome({
+  itemIds,
+  storeIds,
+  label,
+  className,
+}: {
+  itemIds?: string[];
+  storeIds?: string[];
+  label: string;
+  className?: string;
+}) {
+  const { copyToWorkspace } = useData();
+  const { toast } = useToast();
+  const { workspaces, active } = useWorkspaces();
+  const others = workspaces.filter((w) => w.id !== active.id);
+  const [targetId, setTargetId] = useState("");
+  const [copying, setCopying] = useState(false);
+
+  if (!others.length) return null;
+  const target = others.find((w) => w.id === targetId) || others[0];
+
+  async function onCopy() {
+    setCopying(true);
+    try {
+      const res = await copyToWorkspace(target.id, { itemIds, storeIds });
+      const parts = [res.items ? `${res.items} item(s)` : "", res.stores ? `${res.stores} store(s)` : ""].filter(Boolean);
+      toast({
+        title: parts.length ? `Copied to ${target.name}` : "Nothing to copy",
+        description: parts.length ? parts.join(" · ") : `${target.name} already has everything selected.`,
+      });
+    } catch (err) {
+      toast({ title: "Copy failed", description: err instanceof Error ? err.message : "Unknown error" });
+    } finally {
+      setCopying(false);
+    }
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <select
+        value={target.id}
+        onChange={(e) => setTargetId(e.target.value)}
+        className="h-9 rounded-md border bg-background px-2 text-sm"
+        aria-label="Copy to home"
+      >
+        {others.map((w) => (
+          <option key={w.id} value={w.id}>
+            {w.name}
+          </option>
+        ))}
+      </select>
+      <Button size="sm" variant="secondary" onClick={() => void onCopy()} disabled={copying}>
+        {copying ? "Copying..." : "Copy"}
+      </Button>
+    </div>
+  );
+}
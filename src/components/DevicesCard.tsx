@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { SignInDialog } from "@/components/SignInDialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthState, listAuthDevices, revokeAuthDevice, signOut, type AuthDevice, type AuthState } from "@/sync/auth";
+
+export function DevicesCard() {
+  const { toast } = useToast();
+  const [auth, setAuth] = useState<AuthState | null>(null);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<AuthDevice[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  async function load() {
+    try {
+      const next = await getAuthState();
+      setAuth(next);
+      setAuthError(null);
+      setDevices(next.authenticated && next.configured ? await listAuthDevices() : []);
+    } catch (err) {
+      setAuthError(err instanceof Error ? err.message : "Could not reach /api/auth/session");
+    }
+  }
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function onRevoke(device: AuthDevice) {
+    const prompt = device.current
+      ? "Sign this device out? You will need the passcode to sign in again."
+      : `Revoke "${device.name}"? It will need the passcode to sign in again.`;
+    if (!confirm(prompt)) return;
+    setBusyId(device.id);
+    try {
+      if (device.current) await signOut();
+      else await revokeAuthDevice(device.id);
+      toast({ title: device.current ? "Signed out" : "Device revoked", description: device.name });
+      await load();
+    } catch (err) {
+      toast({ title: "Revoke failed", description: err instanceof Error ? err.message : "Unknown error" });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold">Devices</div>
+          <div className="mt-1 text-xs text-muted-foreground">
+            Devices signed in with the household passcode (`APP_PASSCODE`). Revoking one signs it out on its next request.
+          </div>
+        </div>
+        {auth?.configured && !auth.authenticated ? (
+          <Button size="sm" onClick={() => setSigningIn(true)}>
+            Sign in
+          </Button>
+        ) : null}
+      </div>
+      {authError ? <div className="mt-2 text-xs text-red-700">{authError}</div> : null}
+      {auth && !auth.required ? (
+        <div className="mt-2 text-xs text-muted-foreground">Local dev: requests from this machine skip sign-in.</div>
+      ) : null}
+      {auth && !auth.configured ? (
+        <div className="mt-2 text-xs text-muted-foreground">
+          `APP_PASSCODE` is not set on the server, so other devices cannot sign in yet.
+        </div>
+      ) : null}
+      {devices.length ? (
+        <ul className="mt-3 space-y-2">
+          {devices.map((d) => (
+            <li key={d.id} className="flex items-center justify-between gap-2 rounded-lg border bg-background p-2 text-xs">
+              <div className="min-w-0">
+                <div className="truncate font-medium">
+                  {d.name}
+                  {d.current ? <span className="ml-2 text-muted-foreground">(this device)</span> : null}
+                </div>
+                <div className="text-muted-foreground">
+                  Signed in {new Date(d.createdAt).toLocaleDateString()} · last seen {new Date(d.lastSeenAt).toLocaleString()}
+                </div>
+              </div>
+              <Button size="sm" variant="secondary" onClick={() => void onRevoke(d)} disabled={busyId !== null}>
+                {busyId === d.id ? "Revoking..." : d.current ? "Sign out" : "Revoke"}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <SignInDialog
+        open={signingIn}
+        onClose={() => setSigningIn(false)}
+        onSignedIn={() => {
+          setSigningIn(false);
+          void load();
+        }}
+      />
+    </Card>
+  );
+}
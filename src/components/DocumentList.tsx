@@ -0,0 +1,65 @@
+import { useMemo, useState } from "react";
+import { AttachmentKindFilter, AttachmentKindSelect, type AttachmentKindFilterValue } from "@/components/AttachmentKinds";
+import { UploadStatus } from "@/components/UploadStatus";
+import { useAttachmentUrls } from "@/hooks/use-attachment-urls";
+import { ATTACHMENT_KIND_LABELS, attachmentKind, isDocumentKind, type AttachmentKind } from "@/lib/attachmentKinds";
+import type { AttachmentRecord } from "@/storage/attachments";
+
+export type DocumentEntry = {
+  attachment: AttachmentRecord;
+  // Where the file is attached, e.g. "Sofa · Gray · Delivery".
+  context: string;
+};
+
+// Receipts, invoices and warranties gathered from several records (an item and its options and
+// sub-items, or everything bought at a store). Other kinds are left out.
+export function DocumentList({
+  entries,
+  emptyText,
+  onKindChange,
+}: {
+  entries: DocumentEntry[];
+  emptyText: string;
+  onKindChange?: (attachment: AttachmentRecord, kind: AttachmentKind) => void;
+}) {
+  const [filter, setFilter] = useState<AttachmentKindFilterValue>("all");
+  const documents = useMemo(() => entries.filter((entry) => isDocumentKind(attachmentKind(entry.attachment))), [entries]);
+  const attachments = useMemo(() => documents.map((entry) => entry.attachment), [documents]);
+  const urls = useAttachmentUrls(attachments);
+  const shown = filter === "all" ? documents : documents.filter((entry) => attachmentKind(entry.attachment) === filter);
+
+  if (!documents.length) return <div className="text-xs text-muted-foreground">{emptyText}</div>;
+
+  return (
+    <div className="space-y-2">
+      <AttachmentKindFilter attachments={attachments} value={filter} onChange={setFilter} />
+      {shown.map((entry) => {
+        const att = entry.attachment;
+        const kind = attachmentKind(att);
+        return (
+          <div key={att.id} className="flex items-center justify-between gap-3 rounded-lg border bg-background/70 px-3 py-2 text-xs">
+            <div className="min-w-0">
+              <div className="truncate font-medium">{att.name || ATTACHMENT_KIND_LABELS[kind]}</div>
+              <div className="truncate text-[10px] text-muted-foreground">{entry.context}</div>
+              <UploadStatus attachment={att} compact className="bg-transparent px-0" />
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              {onKindChange ? (
+                <AttachmentKindSelect value={kind} onChange={(next) => onKindChange(att, next)} />
+              ) : (
+                <span className="text-[10px] text-muted-foreground">{ATTACHMENT_KIND_LABELS[kind]}</span>
+              )}
+              {urls[att.id] ? (
+                <a href={urls[att.id]} target="_blank" rel="noreferrer" className="whitespace-nowrap text-primary underline">
+                  View
+                </a>
+              ) : (
+                <span className="text-[10px] text-muted-foreground">Loading</span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { syncTargetSchema } from "../../api/_lib/contracts";
+import { CopyToHome } from "@/components/CopyToHome";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useData } from "@/data/DataContext";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { DEFAULT_WORKSPACE_ID, type Workspace } from "@/lib/workspaces";
+import { idbDropWorkspace } from "@/storage/idb";
+import { createWorkspace, removeWorkspace, switchWorkspace } from "@/storage/workspaces";
+
+function targetLabel(ws: Workspace) {
+  if (ws.id === DEFAULT_WORKSPACE_ID) return "Syncs to the server's default base/table";
+  const airtable = [ws.airtableBaseId ? `base ${ws.airtableBaseId}` : "", ws.airtableTableId ? `table ${ws.airtableTableId}` : ""]
+    .filter(Boolean)
+    .join(", ");
+  return `${airtable ? `Airtable ${airtable}` : "No Airtable base/table (JSON backend only)"} · backups under homes/${ws.id}`;
+}
+
+export function HomesCard() {
+  const { toast } = useToast();
+  const { orderedStores } = useData();
+  const { workspaces, active } = useWorkspaces();
+  const loc = useLocation();
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [name, setName] = useState("");
+  const [baseId, setBaseId] = useState("");
+  const [tableId, setTableId] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (loc.hash === "#homes") cardRef.current?.scrollIntoView({ block: "start" });
+  }, [loc.hash]);
+
+  function onCreate() {
+    if (!name.trim()) {
+      toast({ title: "Name required", description: "Give the new home a name." });
+      return;
+    }
+    const target = syncTargetSchema.safeParse({ airtableBaseId: baseId.trim() || undefined, airtableTableId: tableId.trim() || undefined });
+    if (!target.success) {
+      toast({ title: "Check the Airtable base", description: target.error.issues[0]?.message || "Invalid Airtable target." });
+      return;
+    }
+    const ws = createWorkspace({ name, airtableBaseId: target.data.airtableBaseId, airtableTableId: target.data.airtableTableId });
+    setName("");
+    setBaseId("");
+    setTableId("");
+    toast({ title: "Home added", description: `Switch to "${ws.name}" from the header or the list below.` });
+  }
+
+  async function onDelete(ws: Workspace) {
+    if (!confirm(`Delete "${ws.name}" from this device? Its local data is removed; anything already synced stays on the server.`)) return;
+    setBusyId(ws.id);
+    try {
+      await idbDropWorkspace(ws.id);
+      removeWorkspace(ws.id);
+      toast({ title: "Home deleted", description: ws.name });
+    } catch (err) {
+      toast({ title: "Delete failed", description: err instanceof Error ? err.message : "Unknown error" });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <Card className="p-4" ref={cardRef} id="homes">
+      <div className="text-sm font-semibold">Homes</div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        Each home has its own rooms, items, stores, planner, backups and sync target. Switching reloads the app.
+      </div>
+
+      <ul className="mt-3 space-y-2">
+        {workspaces.map((ws) => (
+          <li key={ws.id} className="flex items-center justify-between gap-2 rounded-lg border bg-background p-2 text-xs">
+            <div className="min-w-0">
+              <div className="truncate font-medium">
+                {ws.name}
+                {ws.id === active.id ? <span className="ml-2 text-muted-foreground">(open)</span> : null}
+              </div>
+              <div className="text-muted-foreground">{targetLabel(ws)}</div>
+            </div>
+            {ws.id === active.id ? null : (
+              <div className="flex shrink-0 gap-2">
+                <Button size="sm" variant="secondary" onClick={() => switchWorkspace(ws.id)} disabled={busyId !== null}>
+                  Switch
+                </Button>
+                {ws.id === DEFAULT_WORKSPACE_ID ? null : (
+                  <Button size="sm" variant="destructive" onClick={() => void onDelete(ws)} disabled={busyId !== null}>
+                    {busyId === ws.id ? "Deleting..." : "Delete"}
+                  </Button>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {orderedStores.length ? (
+        <CopyToHome storeIds={orderedStores.map((s) => s.id)} label={`Copy all ${orderedStores.length} stores to`} className="mt-3" />
+      ) : null}
+
+      <div className="mt-4 grid gap-3 border-t pt-3">
+        <div className="text-xs font-semibold">Add a home</div>
+        <div className="space-y-1.5">
+          <Label>Name</Label>
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Oak Street 4B" className="h-11 text-base" />
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Airtable base id (optional)</Label>
+            <Input value={baseId} onChange={(e) => setBaseId(e.target.value)} placeholder="appXXXXXXXXXXXXXX" className="h-11 text-base" />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Airtable table (optional)</Label>
+            <Input value={tableId} onChange={(e) => setTableId(e.target.value)} placeholder="tblXXXXXXXXXXXXXX or name" className="h-11 text-base" />
+          </div>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          With the Airtable backend a new home needs its own base or table (a missing one falls back to the server's env value).
+          The sync target can't be changed later: records synced there keep their ids.
+        </div>
+        <div>
+          <Button variant="secondary" onClick={onCreate}>
+            Add home
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import type { Dimensions } from "@/lib/domain";
+import { DIMENSIONS_CONFIDENCE_LABELS, dimensionsFromText, formatDimsLabelled, hasDims } from "@/lib/fit";
+
+// Dimensions filled in from text (scrape, clip, import) wait here for a check. Confirming keeps the
+// numbers and drops the confidence flag. With no numbers at all but readable text, offers to use it.
+export function ParsedDimensionsNotice({
+  dimensions,
+  sourceText,
+  onConfirm,
+}: {
+  dimensions: Dimensions | null | undefined;
+  sourceText: string | null | undefined;
+  onConfirm: (dimensions: Dimensions) => void;
+}) {
+  const unconfirmed = hasDims(dimensions) && dimensions?.confidence ? dimensions : null;
+  const suggested = !hasDims(dimensions) ? dimensionsFromText(sourceText) : undefined;
+  const shown = unconfirmed || suggested;
+  if (!shown?.confidence) return null;
+
+  const confirmed: Dimensions = { wIn: shown.wIn ?? null, dIn: shown.dIn ?? null, hIn: shown.hIn ?? null };
+  return (
+    <div
+      className="flex items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900"
+    >
+      <div className="min-w-0">
+        <div className="font-medium">
+          {unconfirmed ? "Read" : "Reads"} as {formatDimsLabelled(shown)} · {DIMENSIONS_CONFIDENCE_LABELS[shown.confidence]}
+        </div>
+        {sourceText ? <div className="truncate opacity-80">From "{sourceText}"</div> : null}
+      </div>
+      <Button type="button" size="sm" variant="secondary" className="shrink-0" onClick={() => onConfirm(confirmed)}>
+        {unconfirmed ? "Confirm" : "Use these"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useData } from "@/data/DataContext";
+import { usePriceWatchStatus } from "@/hooks/use-price-watch-status";
+import { formatMoneyUSD } from "@/lib/format";
+import { AVAILABILITY_LABELS, collectPriceChanges } from "@/lib/priceWatch";
+import { cn } from "@/lib/utils";
+import { checkPrices } from "@/sync/priceWatch";
+
+// Watched item and option links with their latest price. Renders nothing until a link is watched
+// and checked; links at or below their target price come first.
+export function PriceChangesCard({ className }: { className?: string }) {
+  const nav = useNavigate();
+  const { items, options } = useData();
+  const status = usePriceWatchStatus();
+  const changes = useMemo(() => collectPriceChanges(items, options), [items, options]);
+  if (!changes.length) return null;
+
+  return (
+    <Card className={cn("glass rounded-2xl border border-border/50 p-5 shadow-elegant", className)}>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="font-heading text-lg font-semibold text-foreground">Price changes</h2>
+          <p className="text-xs text-muted-foreground">
+            {status.running
+              ? `Checking ${status.done}/${status.total || "?"}...`
+              : status.lastRunAt
+                ? `Last checked ${new Date(status.lastRunAt).toLocaleString()}`
+                : "Watched links are checked while the app is open"}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          className="rounded-xl text-primary hover:bg-primary/10"
+          onClick={() => void checkPrices({ force: true })}
+          disabled={status.running}
+        >
+          Check all
+        </Button>
+      </div>
+      <div className="mt-4 space-y-2">
+        {changes.map((c) => (
+          <button
+            key={`${c.parentType}:${c.id}`}
+            type="button"
+            onClick={() => nav(`/items/${c.itemId}`)}
+            className={cn(
+              "w-full rounded-xl border bg-card p-3 text-left transition-colors hover:bg-secondary/40",
+              c.belowTarget ? "border-emerald-300 bg-emerald-50/60" : "border-border",
+            )}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="truncate text-sm font-semibold">{c.title}</div>
+                <div className="mt-0.5 truncate text-xs text-muted-foreground">
+                  {c.previous ? `was ${formatMoneyUSD(c.previous.price)}` : "no change yet"}
+                  {c.changedAt ? ` · ${new Date(c.changedAt).toLocaleDateString()}` : ""}
+                  {c.latest.availability ? ` · ${AVAILABILITY_LABELS[c.latest.availability]}` : ""}
+                  {c.targetPrice !== null ? ` · target ${formatMoneyUSD(c.targetPrice)}` : ""}
+                </div>
+                {c.lastError ? <div className="truncate text-xs text-red-700">Last check failed: {c.lastError}</div> : null}
+              </div>
+              <div className="shrink-0 text-right">
+                <div className="text-sm font-semibold">{formatMoneyUSD(c.latest.price)}</div>
+                {c.changePercent !== null ? (
+                  <div className={cn("text-xs font-medium", c.changePercent < 0 ? "text-emerald-700" : "text-red-700")}>
+                    {c.changePercent > 0 ? "+" : ""}
+                    {c.changePercent}%
+                  </div>
+                ) : null}
+                {c.belowTarget ? (
+                  <Badge variant="secondary" className="mt-1 bg-emerald-100 text-emerald-800">
+                    Target reached
+                  </Badge>
+                ) : null}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { emptyPriceWatch, type PriceWatch } from "../../api/_lib/priceWatch";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { usePriceWatchStatus } from "@/hooks/use-price-watch-status";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoneyUSD, parseNumberOrNull } from "@/lib/format";
+import { AVAILABILITY_LABELS, isBelowTarget, latestPricePoint } from "@/lib/priceWatch";
+import { cn } from "@/lib/utils";
+import { checkPrices } from "@/sync/priceWatch";
+
+const chartConfig = {
+  price: { label: "Price", color: "hsl(var(--primary))" },
+  originalPrice: { label: "Was", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+function formatDay(at: number) {
+  return new Date(at).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+export function PriceHistoryChart({ watch, className }: { watch: PriceWatch; className?: string }) {
+  const data = watch.history.filter((point) => point.price !== null);
+  if (data.length < 2) return null;
+  const hasOriginal = data.some((point) => point.originalPrice !== null);
+  return (
+    <ChartContainer config={chartConfig} className={cn("aspect-auto h-40 w-full", className)}>
+      <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="at" type="number" scale="time" domain={["dataMin", "dataMax"]} tickFormatter={formatDay} tickLine={false} />
+        <YAxis width={56} tickFormatter={(v: number) => formatMoneyUSD(v)} tickLine={false} axisLine={false} domain={["auto", "auto"]} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent labelFormatter={(_, payload) => new Date(payload?.[0]?.payload?.at ?? 0).toLocaleString()} />
+          }
+        />
+        {watch.targetPrice !== null ? (
+          <ReferenceLine y={watch.targetPrice} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+        ) : null}
+        {hasOriginal ? (
+          <Line
+            dataKey="originalPrice"
+            type="stepAfter"
+            stroke="var(--color-originalPrice)"
+            strokeDasharray="3 3"
+            dot={false}
+            connectNulls
+          />
+        ) : null}
+        <Line dataKey="price" type="stepAfter" stroke="var(--color-price)" strokeWidth={2} dot={{ r: 2 }} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+// Watch controls and price history for one item or option link. `onChange` saves the record's
+// `priceWatch`; turning the watch off keeps the history so turning it back on picks up from there.
+export function PriceWatchPanel({
+  store,
+  id,
+  link,
+  watch,
+  onChange,
+}: {
+  store: "items" | "options";
+  id: string;
+  link: string | null | undefined;
+  watch: PriceWatch | null | undefined;
+  onChange: (next: PriceWatch) => Promise<void>;
+}) {
+  const { toast } = useToast();
+  const status = usePriceWatchStatus();
+  const [target, setTarget] = useState(watch?.targetPrice === null || watch?.targetPrice === undefined ? "" : String(watch.targetPrice));
+
+  useEffect(() => {
+    setTarget(watch?.targetPrice === null || watch?.targetPrice === undefined ? "" : String(watch.targetPrice));
+  }, [watch?.targetPrice]);
+
+  if (!link?.trim()) return null;
+
+  async function checkNow() {
+    const checked = await checkPrices({ force: true, only: { store, id } });
+    if (checked === null) toast({ title: "Price check already running", description: "Try again once it finishes." });
+    else if (!checked) {
+      toast({ title: "Price not checked", description: navigator.onLine ? "Sign in to check prices." : "You're offline." });
+    }
+  }
+
+  async function startWatching() {
+    await onChange(watch ? { ...watch, enabled: true } : emptyPriceWatch());
+    await checkNow();
+  }
+
+  if (!watch?.enabled) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-lg border bg-background px-3 py-2 text-xs">
+        <div className="text-muted-foreground">
+          Watch this link for price changes{watch?.history.length ? ` (${watch.history.length} recorded)` : ""}.
+        </div>
+        <Button type="button" size="sm" variant="secondary" onClick={() => void startWatching()} disabled={status.running}>
+          Watch price
+        </Button>
+      </div>
+    );
+  }
+
+  const latest = latestPricePoint(watch);
+  const availability = watch.history[watch.history.length - 1]?.availability ?? null;
+  const belowTarget = isBelowTarget(watch);
+  return (
+    <div className="space-y-2 rounded-lg border bg-background p-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm font-medium">Price watch</div>
+          <div className="text-xs text-muted-foreground">
+            {latest ? `Now ${formatMoneyUSD(latest.price)}` : "No price yet"}
+            {availability ? ` · ${AVAILABILITY_LABELS[availability]}` : ""}
+            {watch.lastCheckedAt ? ` · checked ${new Date(watch.lastCheckedAt).toLocaleString()}` : " · not checked yet"}
+          </div>
+          {belowTarget ? <div className="text-xs font-medium text-emerald-700">At or below your target price</div> : null}
+          {watch.lastError ? <div className="text-xs text-red-700">Last check failed: {watch.lastError}</div> : null}
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <Button type="button" size="sm" variant="secondary" onClick={() => void checkNow()} disabled={status.running}>
+            {status.running ? "Checking..." : "Check now"}
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => void onChange({ ...watch, enabled: false })}>
+            Stop watching
+          </Button>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor={`price_target_${id}`} className="text-xs text-muted-foreground">
+          Target price
+        </Label>
+        <Input
+          id={`price_target_${id}`}
+          inputMode="decimal"
+          className="h-8 w-28"
+          placeholder="None"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onBlur={() => {
+            const next = parseNumberOrNull(target);
+            if (next !== watch.targetPrice) void onChange({ ...watch, targetPrice: next });
+          }}
+        />
+      </div>
+      <PriceHistoryChart watch={watch} />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { usePriceWatchStatus } from "@/hooks/use-price-watch-status";
+import { useToast } from "@/hooks/use-toast";
+import { checkPrices, getPriceWatchSettings, setPriceWatchSettings, type PriceWatchSettings } from "@/sync/priceWatch";
+
+export function PriceWatchCard() {
+  const { toast } = useToast();
+  const status = usePriceWatchStatus();
+  const [settings, setSettings] = useState<PriceWatchSettings | null>(null);
+  const [hours, setHours] = useState("");
+
+  useEffect(() => {
+    void getPriceWatchSettings().then((next) => {
+      setSettings(next);
+      setHours(String(next.intervalHours));
+    });
+  }, []);
+
+  async function onSave(next: PriceWatchSettings) {
+    try {
+      await setPriceWatchSettings(next);
+      const saved = await getPriceWatchSettings();
+      setSettings(saved);
+      setHours(String(saved.intervalHours));
+    } catch (err) {
+      toast({ title: "Save failed", description: err instanceof Error ? err.message : "Unknown error" });
+    }
+  }
+
+  if (!settings) return null;
+
+  return (
+    <Card className="p-4">
+      <div className="text-sm font-semibold">Price watch</div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        Re-checks the links of items and options marked "Watch price" on their page, records price and stock changes, and lists
+        them under Price changes on the Shopping page. Checks only run while the app is open and signed in.
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="price_watch"
+            checked={settings.enabled}
+            onCheckedChange={(v) => void onSave({ ...settings, enabled: Boolean(v) })}
+          />
+          <Label htmlFor="price_watch" className="text-sm">
+            Check automatically
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="price_watch_hours" className="text-xs text-muted-foreground">
+            Every
+          </Label>
+          <Input
+            id="price_watch_hours"
+            type="number"
+            min={1}
+            className="h-8 w-20"
+            value={hours}
+            disabled={!settings.enabled}
+            onChange={(e) => setHours(e.target.value)}
+            onBlur={() => void onSave({ ...settings, intervalHours: Number(hours) })}
+          />
+          <span className="text-xs text-muted-foreground">hours</span>
+        </div>
+        <Button size="sm" variant="secondary" onClick={() => void checkPrices({ force: true })} disabled={status.running}>
+          {status.running ? `Checking ${status.done}/${status.total || "?"}...` : "Check all now"}
+        </Button>
+      </div>
+      {status.lastRunAt ? (
+        <div className="mt-2 text-xs text-muted-foreground">Last run: {new Date(status.lastRunAt).toLocaleString()}</div>
+      ) : null}
+    </Card>
+  );
+}
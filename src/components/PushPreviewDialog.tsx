@@ -0,0 +1,106 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { PushPlan, PushPlanEntry } from "@/sync/syncNow";
+
+const ENTITY_LABELS: Record<string, string> = {
+  items: "Items",
+  options: "Options",
+  subItems: "Sub-items",
+  measurements: "Measurements",
+  rooms: "Rooms",
+  stores: "Stores",
+  other: "Other records",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "empty";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function PlanEntries({ label, entries, tone }: { label: string; entries: PushPlanEntry[]; tone: string }) {
+  if (!entries.length) return null;
+  return (
+    <div className="mt-2">
+      <div className={`text-xs font-semibold ${tone}`}>
+        {label} ({entries.length})
+      </div>
+      <ul className="mt-1 space-y-1">
+        {entries.map((entry, i) => (
+          <li key={`${entry.id || "new"}_${i}`} className="text-xs">
+            <span className="font-medium">{entry.title || entry.id || "Untitled"}</span>
+            {entry.changes ? (
+              entry.changes.length ? (
+                <ul className="ml-3 mt-0.5 space-y-0.5 text-muted-foreground">
+                  {entry.changes.map((c) => (
+                    <li key={c.field}>
+                      {c.field}: <span className="line-through">{formatValue(c.from)}</span> → {formatValue(c.to)}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <span className="text-muted-foreground"> (no field changes)</span>
+              )
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function PushPreviewDialog({
+  open,
+  mode,
+  plan,
+  busy,
+  onCancel,
+  onConfirm,
+}: {
+  open: boolean;
+  mode: "commit" | "reset";
+  plan: PushPlan | null;
+  busy: boolean;
+  onCancel: () => void;
+  onConfirm: () => void;
+}) {
+  const groups = Object.entries(plan || {}).filter(
+    ([, bucket]) => bucket && bucket.creates.length + bucket.updates.length + bucket.deletes.length > 0,
+  );
+  return (
+    <Dialog open={open} onOpenChange={(next) => (!next ? onCancel() : null)}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{mode === "reset" ? "Review reset + push" : "Review push"}</DialogTitle>
+          <DialogDescription>
+            {mode === "reset"
+              ? "Every record below is deleted from the sync backend first, then local data is written back."
+              : "These changes will be written to the sync backend. Nothing has been sent yet."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[420px] space-y-3 overflow-y-auto pr-1">
+          {groups.length ? (
+            groups.map(([entity, bucket]) => (
+              <div key={entity} className="rounded-lg border p-3">
+                <div className="text-sm font-semibold">{ENTITY_LABELS[entity] || entity}</div>
+                <PlanEntries label="Delete" entries={bucket!.deletes} tone="text-red-700" />
+                <PlanEntries label="Create" entries={bucket!.creates} tone="text-emerald-700" />
+                <PlanEntries label="Update" entries={bucket!.updates} tone="text-amber-700" />
+              </div>
+            ))
+          ) : (
+            <div className="text-sm text-muted-foreground">Nothing to push.</div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="secondary" onClick={onCancel} disabled={busy}>
+            Cancel
+          </Button>
+          <Button variant={mode === "reset" ? "destructive" : "default"} onClick={onConfirm} disabled={busy || !groups.length}>
+            {busy ? "Pushing..." : mode === "reset" ? "Reset + push" : "Push"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
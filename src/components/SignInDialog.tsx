@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { signIn } from "@/sync/auth";
+
+function guessDeviceName() {
+  const ua = navigator.userAgent;
+  if (/iPhone/.test(ua)) return "iPhone";
+  if (/iPad/.test(ua)) return "iPad";
+  if (/Android/.test(ua)) return "Android";
+  if (/Macintosh/.test(ua)) return "Mac";
+  if (/Windows/.test(ua)) return "Windows PC";
+  return "Browser";
+}
+
+export function SignInDialog({ open, onClose, onSignedIn }: { open: boolean; onClose: () => void; onSignedIn: () => void }) {
+  const [passcode, setPasscode] = useState("");
+  const [deviceName, setDeviceName] = useState(guessDeviceName);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await signIn(passcode, deviceName.trim());
+      setPasscode("");
+      onSignedIn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (!next ? onClose() : null)}>
+      <DialogContent className="max-w-sm">
+        <form onSubmit={(e) => void onSubmit(e)}>
+          <DialogHeader>
+            <DialogTitle>Sign in to sync</DialogTitle>
+            <DialogDescription>
+              Enter the household passcode. This device stays signed in until it is revoked in Settings.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="mt-4 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="signin-passcode">Passcode</Label>
+              <Input
+                id="signin-passcode"
+                type="password"
+                autoComplete="current-password"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="signin-device">Device name</Label>
+              <Input id="signin-device" value={deviceName} onChange={(e) => setDeviceName(e.target.value)} />
+            </div>
+            {error ? <div className="text-xs text-red-700">{error}</div> : null}
+          </div>
+          <DialogFooter className="mt-4">
+            <Button type="button" variant="secondary" onClick={onClose} disabled={busy}>
+              Not now
+            </Button>
+            <Button type="submit" disabled={busy || !passcode}>
+              {busy ? "Signing in..." : "Sign in"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { formatBytes } from "@/lib/format";
+import { cleanUpServerUploads } from "@/sync/uploads";
+import type { StorageGcResponse } from "../../api/_lib/contracts";
+
+export function UploadCleanupCard() {
+  const { toast } = useToast();
+  const [graceDays, setGraceDays] = useState("7");
+  const [legacy, setLegacy] = useState(false);
+  const [report, setReport] = useState<StorageGcResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function run(dryRun: boolean) {
+    const days = Number(graceDays);
+    if (!Number.isInteger(days) || days < 1) {
+      toast({ title: "Invalid grace period", description: "Enter a whole number of days (at least 1)." });
+      return;
+    }
+    if (!dryRun && !confirm(`Delete ${report?.orphanCount ?? 0} unused file(s) from the server? This can't be undone.`)) return;
+    setBusy(true);
+    try {
+      const next = await cleanUpServerUploads({ dryRun, graceDays: days, legacy });
+      setReport(next);
+      setError(null);
+      if (!dryRun) toast({ title: "Unused uploads deleted", description: `${next.deleted} file(s), ${formatBytes(next.orphanBytes)}.` });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload cleanup failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="text-sm font-semibold">Unused uploads</div>
+      <div className="mt-1 text-xs text-muted-foreground">
+        Finds photos and receipts on the server that no synced record or latest backup of this device's homes mentions, such as
+        files of deleted items. Each home keeps its uploads apart, and only the homes on this device are checked. Files that
+        records waiting to be pushed mention, and files newer than the grace period, are kept. Files uploaded before homes had
+        their own folders may belong to any home, so only include them when every home is set up on this device.
+      </div>
+      <div className="mt-3 flex items-center gap-2">
+        <Checkbox
+          id="upload_gc_legacy"
+          checked={legacy}
+          onCheckedChange={(v) => {
+            setLegacy(Boolean(v));
+            setReport(null);
+          }}
+        />
+        <Label htmlFor="upload_gc_legacy" className="text-sm">
+          Also check files uploaded before homes had their own folders
+        </Label>
+      </div>
+      <div className="mt-3 flex flex-wrap items-end gap-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="upload_gc_grace">Grace period (days)</Label>
+          <Input
+            id="upload_gc_grace"
+            type="number"
+            inputMode="numeric"
+            min={1}
+            value={graceDays}
+            onChange={(e) => {
+              setGraceDays(e.target.value);
+              setReport(null);
+            }}
+            className="h-11 w-32 text-base"
+          />
+        </div>
+        <Button variant="secondary" onClick={() => void run(true)} disabled={busy}>
+          {busy ? "Checking..." : "Find unused uploads"}
+        </Button>
+        {report?.dryRun && report.orphanCount ? (
+          <Button variant="destructive" onClick={() => void run(false)} disabled={busy}>
+            Delete {report.orphanCount} file(s)
+          </Button>
+        ) : null}
+      </div>
+      {error ? <div className="mt-2 text-xs text-red-700">{error}</div> : null}
+      {report ? (
+        <div className="mt-3 space-y-1 text-xs">
+          <div>
+            {report.dryRun ? "Unused" : "Deleted"}:{" "}
+            <span className="font-medium">{report.dryRun ? report.orphanCount : report.deleted}</span> file(s),{" "}
+            {formatBytes(report.orphanBytes)}
+          </div>
+          <div className="text-muted-foreground">
+            Scanned {report.scanned} upload(s); {report.referenced} referenced; {report.recent} unused but newer than{" "}
+            {report.graceDays} day(s).
+          </div>
+          <div className="text-muted-foreground">
+            Folders checked: <span className="font-mono">{report.prefixes.join(", ")}</span>
+          </div>
+          {report.dryRun && report.orphans.length ? (
+            <ul className="mt-2 max-h-48 space-y-1 overflow-auto rounded-lg border bg-background p-2">
+              {report.orphans.map((obj) => (
+                <li key={obj.key} className="flex justify-between gap-2">
+                  <span className="truncate font-mono">{obj.key}</span>
+                  <span className="shrink-0 text-muted-foreground">{formatBytes(obj.size)}</span>
+                </li>
+              ))}
+              {report.orphanCount > report.orphans.length ? (
+                <li className="text-muted-foreground">...and {report.orphanCount - report.orphans.length} more</li>
+              ) : null}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { attachmentUploadState, subscribeAttachmentUploads, type AttachmentRecord } from "@/storage/attachments";
+import { runUploads } from "@/sync/uploads";
+
+const LABELS = {
+  pending: "Waiting to upload",
+  uploading: "Uploading...",
+  failed: "Upload failed",
+} as const;
+
+// Upload progress of one attachment; renders nothing once it is on S3. `compact` is a dot for small thumbnails.
+export function UploadStatus({ attachment, compact, className }: { attachment: AttachmentRecord; compact?: boolean; className?: string }) {
+  const [current, setCurrent] = useState(attachment);
+
+  useEffect(() => {
+    setCurrent(attachment);
+    return subscribeAttachmentUploads((att) => {
+      if (att.id === attachment.id) setCurrent(att);
+    });
+  }, [attachment]);
+
+  const state = attachmentUploadState(current);
+  if (state === "uploaded") return null;
+  const label = state === "pending" && !navigator.onLine ? "Saved offline" : LABELS[state];
+  const title = state === "failed" && current.uploadError ? `${label}: ${current.uploadError}` : label;
+
+  if (compact) {
+    return (
+      <span
+        title={title}
+        aria-label={title}
+        className={cn("h-2 w-2 rounded-full", state === "failed" ? "bg-destructive" : "bg-amber-500", state === "uploading" && "animate-pulse", className)}
+      />
+    );
+  }
+
+  return (
+    <div
+      title={title}
+      className={cn(
+        "flex items-center justify-between gap-1 truncate bg-background/85 px-1 py-0.5 text-[10px]",
+        state === "failed" ? "text-destructive" : "text-muted-foreground",
+        className,
+      )}
+    >
+      <span className="truncate">{label}</span>
+      {state === "failed" ? (
+        <button type="button" className="shrink-0 underline" onClick={() => void runUploads()}>
+          Retry
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import type { ProductVariant } from "../../api/_lib/contracts";
+import { Checkbox } from "@/components/ui/checkbox";
+import { dimensionsFromText, formatDimsLabelled } from "@/lib/fit";
+import { formatMoneyUSD } from "@/lib/format";
+
+// Variants read from a product page, each with a checkbox. Chosen ones become options of a
+// placeholder item; `selected` holds variant names.
+export function VariantPicker({
+  variants,
+  selected,
+  onChange,
+}: {
+  variants: ProductVariant[];
+  selected: string[];
+  onChange: (names: string[]) => void;
+}) {
+  const chosen = new Set(selected);
+  const allChosen = variants.every((variant) => chosen.has(variant.name));
+  const toggle = (name: string, on: boolean) =>
+    onChange(variants.map((v) => v.name).filter((n) => (n === name ? on : chosen.has(n))));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">
+          {variants.length} variants · {chosen.size} chosen
+        </span>
+        <button
+          type="button"
+          className="font-medium text-primary underline"
+          onClick={() => onChange(allChosen ? [] : variants.map((v) => v.name))}
+        >
+          {allChosen ? "Clear" : "Choose all"}
+        </button>
+      </div>
+      <div className="max-h-64 space-y-1 overflow-y-auto">
+        {variants.map((variant, index) => {
+          const id = `variant_${index}`;
+          const dims = dimensionsFromText(variant.dimensionsText);
+          const details = [formatMoneyUSD(variant.price), dims ? formatDimsLabelled(dims) : variant.dimensionsText, variant.sku]
+            .filter(Boolean)
+            .join(" · ");
+          return (
+            <label
+              key={variant.name}
+              htmlFor={id}
+              className="flex cursor-pointer items-center gap-3 rounded-lg border bg-background/70 px-3 py-2 text-xs"
+            >
+              <Checkbox id={id} checked={chosen.has(variant.name)} onCheckedChange={(v) => toggle(variant.name, v === true)} />
+              {variant.imageUrl ? (
+                <img src={variant.imageUrl} alt="" className="h-8 w-8 shrink-0 rounded object-cover" loading="lazy" />
+              ) : null}
+              <div className="min-w-0">
+                <div className="truncate font-medium">{variant.name}</div>
+                {details ? <div className="truncate text-[10px] text-muted-foreground">{details}</div> : null}
+              </div>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useNavigate } from "react-router-dom";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { switchWorkspace } from "@/storage/workspaces";
+
+const MANAGE = "__manage__";
+
+// Header picker for the active home. Switching reloads the app onto that home's database.
+export function WorkspaceSwitcher() {
+  const nav = useNavigate();
+  const { workspaces, active } = useWorkspaces();
+
+  return (
+    <select
+      value={active.id}
+      onChange={(e) => {
+        if (e.target.value === MANAGE) nav("/settings#homes");
+        else switchWorkspace(e.target.value);
+      }}
+      className="max-w-[12rem] truncate rounded-md border-none bg-transparent p-0 text-xs font-medium text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/30"
+      aria-label="Home"
+    >
+      {workspaces.map((w) => (
+        <option key={w.id} value={w.id}>
+          {w.name}
+        </option>
+      ))}
+      <option value={MANAGE}>Manage homes…</option>
+    </select>
+  );
+}
@@ -1,10 +1,18 @@
-import { ArrowLeft, Sparkles } from "lucide-react";
+import { useEffect, useState } from "react";
+import { ArrowLeft, Cloud, CloudOff, RefreshCw, Sparkles } from "lucide-react";
 import { Outlet, useLocation, useNavigate } from "react-router-dom";
 import { BottomNav } from "@/components/layout/BottomNav";
+import { SignInDialog } from "@/components/SignInDialog";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
 import { Button } from "@/components/ui/button";
 import { useData } from "@/data/DataContext";
+import { useSignInNeeded } from "@/hooks/use-sign-in-needed";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+import { runAutoSync, startAutoSync, type SyncStatus } from "@/sync/autoSync";
+import { startPriceWatch } from "@/sync/priceWatch";
+import { startUploads } from "@/sync/uploads";
 
-function titleForPath(pathname: string) {
+function titleForPath(pathname: string, homeName: string) {
   if (pathname.startsWith("/items/")) return "Item Details";
   if (pathname.startsWith("/rooms/")) return "Room Details";
   switch (pathname) {
@@ -22,15 +30,19 @@ function titleForPath(pathname: string) {
       return "Budget";
     case "/settings":
       return "Settings";
+    case "/settings/conflicts":
+      return "Sync Conflicts";
+    case "/settings/sync-history":
+      return "Sync History";
     default:
-      return "Town Hollywood";
+      return homeName;
   }
 }
 
-function subtitleForPath(pathname: string) {
+function subtitleForPath(pathname: string, homeName: string) {
   switch (pathname) {
     case "/shopping":
-      return "2B/2B @ Town Hollywood ✨";
+      return `${homeName} ✨`;
     case "/items":
       return "Furniture Collection";
     case "/rooms":
@@ -43,22 +55,93 @@ function subtitleForPath(pathname: string) {
       return "Policies & Perks";
     case "/settings":
       return "Preferences";
+    case "/settings/conflicts":
+      return "Pick a Side";
+    case "/settings/sync-history":
+      return "What Happened";
     default:
       return "Your New Home Awaits";
   }
 }
 
+function syncStatusLabel(s: SyncStatus) {
+  const pending = s.pending ? `${s.pending} pending` : "";
+  switch (s.state) {
+    case "syncing":
+      return "Syncing…";
+    case "offline":
+      return pending ? `Offline · ${pending}` : "Offline";
+    case "error": {
+      const mins = s.nextAttemptAt ? Math.max(1, Math.ceil((s.nextAttemptAt - Date.now()) / 60_000)) : null;
+      return mins ? `Sync failed · retry in ${mins}m` : "Sync failed";
+    }
+    case "disabled":
+      return pending || "Auto-sync off";
+    default:
+      return pending || "Synced";
+  }
+}
+
+function SyncStatusPill() {
+  const status = useSyncStatus();
+  const Icon = status.state === "offline" || status.state === "error" ? CloudOff : status.state === "syncing" ? RefreshCw : Cloud;
+  const tone =
+    status.state === "error"
+      ? "border-destructive/40 text-destructive"
+      : status.state === "offline" || status.pending
+        ? "border-amber-300 text-amber-700"
+        : "border-border text-muted-foreground";
+  return (
+    <button
+      type="button"
+      className={`inline-flex shrink-0 items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs font-medium ${tone}`}
+      title={status.lastError || (status.lastSuccessAt ? `Last synced ${new Date(status.lastSuccessAt).toLocaleString()}` : "Not synced yet")}
+      onClick={() => void runAutoSync("manual")}
+      disabled={status.state === "syncing"}
+    >
+      <Icon className={`h-3.5 w-3.5 ${status.state === "syncing" ? "animate-spin" : ""}`} />
+      {syncStatusLabel(status)}
+    </button>
+  );
+}
+
 export function AppShell() {
-  const { items, options } = useData();
+  const { home, items, options } = useData();
   const nav = useNavigate();
   const loc = useLocation();
 
-  const title = titleForPath(loc.pathname);
-  const subtitle = subtitleForPath(loc.pathname);
-  const showBack = loc.pathname.startsWith("/items/") || (loc.pathname.startsWith("/rooms/") && loc.pathname !== "/rooms");
+  const title = titleForPath(loc.pathname, home.name);
+  const subtitle = subtitleForPath(loc.pathname, home.name);
+  const showBack =
+    loc.pathname.startsWith("/items/") ||
+    (loc.pathname.startsWith("/rooms/") && loc.pathname !== "/rooms") ||
+    loc.pathname.startsWith("/settings/");
   const isHome = loc.pathname === "/" || loc.pathname === "/shopping";
   const totalItems = items.filter((i) => i.syncState !== "deleted").length;
   const totalOptions = options.filter((o) => o.syncState !== "deleted").length;
+  const signInNeeded = useSignInNeeded();
+  const [signInDismissed, setSignInDismissed] = useState(false);
+
+  useEffect(() => {
+    if (!signInNeeded) setSignInDismissed(false);
+  }, [signInNeeded]);
+
+  useEffect(() => {
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    void startAutoSync().then((fn) => {
+      if (cancelled) fn();
+      else stop = fn;
+    });
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, []);
+
+  useEffect(() => startUploads(), []);
+
+  useEffect(() => startPriceWatch(), []);
 
   return (
     <div className="min-h-screen">
@@ -86,10 +169,14 @@ export function AppShell() {
               <p className="text-xs font-semibold uppercase tracking-widest text-primary/80">{subtitle}</p>
             )}
             <h1 className="truncate font-heading text-xl font-semibold tracking-tight text-foreground">{title}</h1>
-            <p className="mt-1 text-xs text-muted-foreground">
-              Items {totalItems} · Versions {totalOptions}
+            <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+              <WorkspaceSwitcher />
+              <span>
+                · Items {totalItems} · Versions {totalOptions}
+              </span>
             </p>
           </div>
+          <SyncStatusPill />
         </div>
       </header>
 
@@ -98,6 +185,12 @@ export function AppShell() {
       </main>
 
       <BottomNav />
+
+      <SignInDialog
+        open={signInNeeded && !signInDismissed}
+        onClose={() => setSignInDismissed(true)}
+        onSignedIn={() => void runAutoSync("manual")}
+      />
     </div>
   );
 }
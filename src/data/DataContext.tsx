@@ -13,28 +13,38 @@ import type {
   RoomId,
   Store,
   SubItem,
+  SyncConflict,
 } from "@/lib/domain";
+import { sanitizeAttachmentKind, type AttachmentKind } from "@/lib/attachmentKinds";
 import { DEFAULT_ROOMS, ITEM_STATUSES, inferItemKind, normalizeItemKind } from "@/lib/domain";
 import { formatMoneyUSD, nowMs, parseNumberOrNull } from "@/lib/format";
 import { diffItem, diffMeasurement, diffOption, diffStore, diffSubItem } from "@/lib/diff";
+import { dimensionsFromText } from "@/lib/fit";
 import { newId } from "@/lib/id";
 import { sanitizeProvenance } from "@/lib/provenance";
+import { copyForWorkspace, DEFAULT_WORKSPACE_ID } from "@/lib/workspaces";
 import { DEFAULT_HOME, makeDefaultRooms } from "@/data/seed";
+import { normalizePriceWatch } from "../../api/_lib/priceWatch";
+import { normalizeVariants } from "../../api/_lib/scrape/variants";
 import {
+  idbAddToWorkspace,
   idbBulkPut,
   idbDelete,
   idbGetAll,
   idbGetAllByIndex,
+  idbGetAllFrom,
   idbGetSnapshot,
   idbPut,
   idbResetAll,
   idbSetMeta,
 } from "@/storage/idb";
 import { notifyDbChanged, subscribeDbChanges } from "@/storage/notify";
+import { getActiveWorkspace, updateWorkspace } from "@/storage/workspaces";
 import { getTownHollywoodExampleBundle } from "@/examples/town-hollywood";
 import { buildRoomNameMap, ensureRoomNames, normalizeRoomName, orderRooms } from "@/lib/rooms";
 import { buildStoreIndex, normalizeStoreName, optionTotalWithoutStore, orderStores, storeKey } from "@/lib/storePricing";
-import { moveAttachmentsParent, type AttachmentRecord } from "@/storage/attachments";
+import { keepCachedBlob } from "@/storage/attachmentCache";
+import { attachmentUploadState, moveAttachmentsParent, type AttachmentRecord } from "@/storage/attachments";
 
 type HomeMeta = NonNullable<ExportBundleV1["home"]>;
 
@@ -53,7 +63,9 @@ type OptionSortDir = "asc" | "desc";
 type AttachmentMeta = {
   id: string;
   url: string;
+  thumbUrl?: string | null;
   name: string | null;
+  kind: AttachmentKind | null;
   mime: string | null;
   size: number | null;
   createdAt: number;
@@ -83,6 +95,7 @@ type DataContextValue = {
   lastSyncSummary: SyncSummary | null;
   lastPullAt: number | null;
   dirtyCounts: { items: number; options: number; subItems: number; measurements: number; rooms: number; stores: number };
+  syncConflicts: SyncConflict[];
 
   saveHome: (home: HomeMeta) => Promise<void>;
   savePlanner: (planner: PlannerMeta) => Promise<void>;
@@ -131,12 +144,23 @@ type DataContextValue = {
   importBundle: (bundle: unknown, opts?: { mode?: "merge" | "replace"; aiAssisted?: boolean }) => Promise<void>;
   resetLocal: () => Promise<void>;
   loadExampleTownHollywood: (mode?: "merge" | "replace") => Promise<void>;
+  // Copies items (with their options, sub-items and attachments) and stores into another workspace.
+  copyToWorkspace: (
+    workspaceId: string,
+    selection: { itemIds?: string[]; storeIds?: string[] },
+  ) => Promise<{ items: number; stores: number }>;
 };
 
 const DataContext = createContext<DataContextValue | null>(null);
 
+// Workspaces other than the default one start from a blank home named after the workspace.
+function defaultHomeMeta(): HomeMeta {
+  const ws = getActiveWorkspace();
+  return ws.id === DEFAULT_WORKSPACE_ID ? { ...DEFAULT_HOME } : { name: ws.name, tags: [], description: "" };
+}
+
 function sanitizeHomeMeta(input: unknown): HomeMeta {
-  const base = { ...DEFAULT_HOME };
+  const base = defaultHomeMeta();
   if (!input || typeof input !== "object") return base;
   const obj = input as Record<string, unknown>;
   if (typeof obj.name === "string" && obj.name.trim()) base.name = obj.name.trim();
@@ -215,7 +239,14 @@ function coerceDims(input: unknown): Item["dimensions"] {
   if (wIn !== null) out.wIn = wIn;
   if (hIn !== null) out.hIn = hIn;
   if (dIn !== null) out.dIn = dIn;
-  return Object.keys(out).length ? out : undefined;
+  if (!Object.keys(out).length) return undefined;
+  if (obj.confidence === "low" || obj.confidence === "med" || obj.confidence === "high") out.confidence = obj.confidence;
+  return out;
+}
+
+function coerceVariants(input: unknown): Item["variants"] {
+  const variants = normalizeVariants(input);
+  return variants.length ? variants : null;
 }
 
 function coerceSort(input: unknown): number | null | undefined {
@@ -310,7 +341,9 @@ function parseAttachmentMeta(raw: any): AttachmentMeta | null {
   return {
     id: typeof raw.id === "string" && raw.id ? raw.id : newId("att"),
     url,
+    thumbUrl: typeof raw.thumbUrl === "string" && raw.thumbUrl.trim() ? raw.thumbUrl.trim() : null,
     name: typeof raw.name === "string" ? raw.name : null,
+    kind: sanitizeAttachmentKind(raw.kind),
     mime: typeof raw.mime === "string" ? raw.mime : null,
     size: typeof raw.size === "number" ? raw.size : null,
     createdAt: typeof raw.createdAt === "number" ? raw.createdAt : Date.now(),
@@ -325,7 +358,10 @@ function attachmentParentKey(parentType: "item" | "option" | "subItem", parentId
 async function replaceAttachmentsForParent(parentType: "item" | "option" | "subItem", parentId: string, metas: AttachmentMeta[]) {
   const existing = await idbGetAllByIndex<AttachmentRecord>("attachments", "parentKey", attachmentParentKey(parentType, parentId));
   const nextIds = new Set(metas.map((m) => m.id));
+  const existingById = new Map(existing.map((att) => [att.id, att]));
   for (const att of existing) {
+    // Not uploaded yet, so not on the server either: keep it for the upload queue.
+    if (attachmentUploadState(att) !== "uploaded") continue;
     if (!nextIds.has(att.id)) await idbDelete("attachments", att.id);
   }
   for (const meta of metas) {
@@ -335,10 +371,13 @@ async function replaceAttachmentsForParent(parentType: "item" | "option" | "subI
       parentId,
       parentKey: attachmentParentKey(parentType, parentId),
       name: meta.name,
+      kind: meta.kind,
       sourceUrl: meta.url,
+      thumbUrl: meta.thumbUrl ?? null,
       mime: meta.mime,
       size: meta.size,
-      blob: new Blob([], { type: meta.mime || "" }),
+      ...keepCachedBlob(existingById.get(meta.id), meta.url, meta.mime),
+      uploadState: "uploaded",
       createdAt: meta.createdAt,
       updatedAt: meta.updatedAt,
     } as AttachmentRecord);
@@ -483,10 +522,14 @@ function normalizeBundle(raw: unknown): ExportBundleV1 | ExportBundleV2 | null {
         qty: coerceQty((it as any)?.qty),
         store: normalizeStoreName((it as any)?.store) || null,
         link: typeof (it as any)?.link === "string" ? (it as any).link : null,
+        priceWatch: normalizePriceWatch((it as Record<string, unknown> | null)?.priceWatch),
         notes: typeof (it as any)?.notes === "string" ? (it as any).notes : null,
         priority: coerceNumberOrNull((it as any)?.priority),
         tags: coerceTags((it as any)?.tags),
-        dimensions: coerceDims((it as any)?.dimensions),
+        dimensions:
+          coerceDims((it as Record<string, unknown> | null)?.dimensions) ??
+          dimensionsFromText(coerceSpecs((it as Record<string, unknown> | null)?.specs)?.dimensionsText),
+        variants: coerceVariants((it as Record<string, unknown> | null)?.variants),
         specs: coerceSpecs((it as any)?.specs),
         createdAt,
         updatedAt,
@@ -508,6 +551,7 @@ function normalizeBundle(raw: unknown): ExportBundleV1 | ExportBundleV2 | null {
             sort: coerceSort((op as any)?.sort),
             store: normalizeStoreName((op as any)?.store) || null,
             link: typeof (op as any)?.link === "string" ? (op as any).link : null,
+            priceWatch: normalizePriceWatch((op as Record<string, unknown> | null)?.priceWatch),
             promoCode: typeof (op as any)?.promoCode === "string" ? (op as any).promoCode : null,
             price: coerceNumberOrNull((op as any)?.price),
             shipping: coerceNumberOrNull((op as any)?.shipping),
@@ -518,7 +562,9 @@ function normalizeBundle(raw: unknown): ExportBundleV1 | ExportBundleV2 | null {
               coerceNumberOrNull((op as any)?.discountValue) ??
               (typeof (op as any)?.discount === "number" ? (op as any).discount : null),
             dimensionsText: typeof (op as any)?.dimensionsText === "string" ? (op as any).dimensionsText : null,
-            dimensions: coerceDims((op as any)?.dimensions),
+            dimensions:
+              coerceDims((op as Record<string, unknown> | null)?.dimensions) ??
+              dimensionsFromText((op as Record<string, unknown> | null)?.dimensionsText),
             specs: coerceSpecs((op as any)?.specs),
             notes: typeof (op as any)?.notes === "string" ? (op as any).notes : null,
             priority: coerceNumberOrNull((op as any)?.priority),
@@ -660,7 +706,7 @@ function normalizeBundle(raw: unknown): ExportBundleV1 | ExportBundleV2 | null {
         link: typeof (it as any)?.link === "string" ? (it as any).link : null,
         notes: typeof (it as any)?.notes === "string" ? (it as any).notes : null,
         priority: typeof (it as any)?.priority === "number" ? (it as any).priority : null,
-        dimensions: dimsFromLegacySpecs(specs),
+        dimensions: dimsFromLegacySpecs(specs) ?? dimensionsFromText(specs?.dimensionsText),
         specs,
         createdAt: ts,
         updatedAt: ts,
@@ -693,6 +739,7 @@ function normalizeBundle(raw: unknown): ExportBundleV1 | ExportBundleV2 | null {
           discountType: typeof (op as any)?.discount === "number" ? "amount" : null,
           discountValue: typeof (op as any)?.discount === "number" ? (op as any).discount : null,
           dimensionsText: typeof (op as any)?.dimensions === "string" ? (op as any).dimensions : null,
+          dimensions: dimensionsFromText((op as Record<string, unknown> | null)?.dimensions),
           notes: typeof (op as any)?.notes === "string" ? (op as any).notes : null,
           selected: false,
           createdAt: ts,
@@ -802,7 +849,7 @@ function touchProvenanceForHumanEdit(existing: Provenance | undefined, patch: Pr
 
 export function DataProvider({ children }: { children: React.ReactNode }) {
   const [ready, setReady] = useState(false);
-  const [home, setHome] = useState<HomeMeta>(DEFAULT_HOME);
+  const [home, setHome] = useState<HomeMeta>(defaultHomeMeta);
   const [planner, setPlanner] = useState<PlannerMeta>(null);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [measurements, setMeasurements] = useState<Measurement[]>([]);
@@ -810,6 +857,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
   const [options, setOptions] = useState<Option[]>([]);
   const [subItems, setSubItems] = useState<SubItem[]>([]);
   const [stores, setStores] = useState<Store[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
   const [unitPreference, setUnitPreferenceState] = useState<UnitPreference>("in");
   const [lastSyncAt, setLastSyncAt] = useState<number | null>(null);
   const [lastSyncSummary, setLastSyncSummary] = useState<SyncSummary | null>(null);
@@ -818,6 +866,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
   const saveHome = useCallback(async (next: HomeMeta) => {
     const sanitized = sanitizeHomeMeta(next);
     await idbSetMeta("home", sanitized);
+    updateWorkspace(getActiveWorkspace().id, { name: sanitized.name });
     setHome(sanitized);
     notifyDbChanged();
   }, []);
@@ -849,6 +898,8 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
 
     const homeMeta = sanitizeHomeMeta(snap.meta.home);
     if (!snap.meta.home) await idbSetMeta("home", homeMeta);
+    // The switcher lists workspaces by home name (also picks up renames made in other tabs).
+    if (homeMeta.name && homeMeta.name !== getActiveWorkspace().name) updateWorkspace(getActiveWorkspace().id, { name: homeMeta.name });
     const plannerMeta = sanitizePlannerMeta(snap.meta.planner);
     if (snap.meta.planner && !plannerMeta) await idbSetMeta("planner", plannerMeta);
     const unitPref = sanitizeUnitPreference(snap.meta.unitPreference);
@@ -970,6 +1021,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     setOptions(snap.options);
     setSubItems(migratedSubItems as SubItem[]);
     setStores(nextStores);
+    setSyncConflicts(snap.conflicts.slice().sort((a, b) => a.detectedAt - b.detectedAt));
     setUnitPreferenceState(unitPref);
     setLastSyncAt(syncAt);
     setLastSyncSummary(syncSummary);
@@ -1086,6 +1138,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
         priority: typeof partial.priority === "number" ? partial.priority : null,
         tags: coerceTags(partial.tags),
         dimensions: partial.dimensions ? partial.dimensions : undefined,
+        variants: coerceVariants(partial.variants),
         specs: partial.specs ? partial.specs : null,
         provenance: makeHumanCreatedProvenance(partial.provenance, ts),
         createdAt: ts,
@@ -1392,7 +1445,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
             ? partial.discount
             : null,
       dimensionsText: typeof partial.dimensionsText === "string" ? partial.dimensionsText : null,
-      dimensions: partial.dimensions ? partial.dimensions : undefined,
+      dimensions: partial.dimensions ? partial.dimensions : dimensionsFromText(partial.dimensionsText),
       specs: partial.specs ? partial.specs : null,
       notes: typeof partial.notes === "string" ? partial.notes : null,
       priority: typeof partial.priority === "number" ? partial.priority : null,
@@ -2013,7 +2066,9 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
         const entry: AttachmentMeta = {
           id: att.id,
           url: att.sourceUrl,
+          thumbUrl: att.thumbUrl ?? null,
           name: att.name ?? null,
+          kind: att.kind ?? null,
           mime: att.mime ?? null,
           size: typeof att.size === "number" ? att.size : null,
           createdAt: typeof att.createdAt === "number" ? att.createdAt : Date.now(),
@@ -2360,6 +2415,36 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     [importBundle],
   );
 
+  const copyToWorkspace = useCallback(
+    async (workspaceId: string, selection: { itemIds?: string[]; storeIds?: string[] }) => {
+      if (workspaceId === getActiveWorkspace().id) throw new Error("Pick another home to copy to.");
+      const [snap, attachments, targetStores, existingRooms] = await Promise.all([
+        idbGetSnapshot(),
+        idbGetAll<AttachmentRecord>("attachments"),
+        idbGetAllFrom<Store>(workspaceId, "stores"),
+        idbGetAllFrom<Room>(workspaceId, "rooms"),
+      ]);
+      // A home that was never opened has no rooms yet; seed its defaults so copied rooms add to them.
+      const seededRooms = existingRooms.length ? [] : makeDefaultRooms();
+      const copied = copyForWorkspace(
+        { ...snap, attachments },
+        { stores: targetStores, rooms: [...existingRooms, ...seededRooms] },
+        selection,
+        nowMs(),
+      );
+      await idbAddToWorkspace(workspaceId, {
+        items: copied.items,
+        options: copied.options,
+        subItems: copied.subItems,
+        stores: copied.stores,
+        rooms: [...seededRooms, ...copied.rooms],
+        attachments: copied.attachments,
+      });
+      return { items: copied.items.length, stores: copied.stores.length };
+    },
+    [],
+  );
+
   const dirtyCounts = useMemo(
     () => ({
       items: items.filter((i) => i.syncState !== "clean").length,
@@ -2391,6 +2476,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       lastSyncSummary,
       lastPullAt,
       dirtyCounts,
+      syncConflicts,
       saveHome,
       savePlanner,
       setUnitPreference: saveUnitPreference,
@@ -2426,6 +2512,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       importBundle,
       resetLocal,
       loadExampleTownHollywood,
+      copyToWorkspace,
     }),
     [
       ready,
@@ -2445,6 +2532,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       lastSyncSummary,
       lastPullAt,
       dirtyCounts,
+      syncConflicts,
       saveHome,
       savePlanner,
       saveUnitPreference,
@@ -2480,6 +2568,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       importBundle,
       resetLocal,
       loadExampleTownHollywood,
+      copyToWorkspace,
     ],
   );
 
@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { fetchAttachmentBlob, hasLocalBlob, markAttachmentsUsed } from "@/storage/attachmentCache";
+import type { AttachmentRecord } from "@/storage/attachments";
+
+// Display URLs for attachments: the local copy when there is one (works offline), otherwise the
+// remote URL while the file downloads into the cache, then the cached copy. With `thumbnails`, the
+// small preview is preferred and full files are only downloaded for attachments without one.
+export function useAttachmentUrls(attachments: AttachmentRecord[], opts?: { thumbnails?: boolean }) {
+  const thumbnails = Boolean(opts?.thumbnails);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let active = true;
+    const toRevoke: string[] = [];
+    const objectUrl = (blob: Blob) => {
+      const url = URL.createObjectURL(blob);
+      toRevoke.push(url);
+      return url;
+    };
+
+    const next: Record<string, string> = {};
+    const toFetch: AttachmentRecord[] = [];
+    for (const att of attachments) {
+      if (thumbnails && att.thumbBlob && att.thumbBlob.size > 0) next[att.id] = objectUrl(att.thumbBlob);
+      else if (thumbnails && att.thumbUrl && navigator.onLine) next[att.id] = att.thumbUrl;
+      else if (hasLocalBlob(att)) next[att.id] = objectUrl(att.blob);
+      else if (thumbnails && att.thumbUrl) next[att.id] = att.thumbUrl;
+      else if (att.sourceUrl) {
+        next[att.id] = att.sourceUrl;
+        toFetch.push(att);
+      }
+    }
+    setUrls(next);
+    if (!thumbnails) void markAttachmentsUsed(attachments.filter(hasLocalBlob));
+
+    for (const att of toFetch) {
+      void fetchAttachmentBlob(att).then((blob) => {
+        if (!active || !blob) return;
+        const url = objectUrl(blob);
+        setUrls((cur) => ({ ...cur, [att.id]: url }));
+      });
+    }
+
+    return () => {
+      active = false;
+      toRevoke.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [attachments, thumbnails]);
+
+  return urls;
+}
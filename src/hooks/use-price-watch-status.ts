@@ -0,0 +1,13 @@
+import * as React from "react";
+import { getPriceWatchStatus, subscribePriceWatchStatus, type PriceWatchStatus } from "@/sync/priceWatch";
+
+export function usePriceWatchStatus(): PriceWatchStatus {
+  const [status, setStatus] = React.useState<PriceWatchStatus>(getPriceWatchStatus());
+
+  React.useEffect(() => {
+    setStatus(getPriceWatchStatus());
+    return subscribePriceWatchStatus(setStatus);
+  }, []);
+
+  return status;
+}
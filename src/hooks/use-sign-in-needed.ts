@@ -0,0 +1,13 @@
+import * as React from "react";
+import { isSignInNeeded, subscribeSignInNeeded } from "@/sync/auth";
+
+export function useSignInNeeded(): boolean {
+  const [needed, setNeeded] = React.useState<boolean>(isSignInNeeded());
+
+  React.useEffect(() => {
+    setNeeded(isSignInNeeded());
+    return subscribeSignInNeeded(setNeeded);
+  }, []);
+
+  return needed;
+}
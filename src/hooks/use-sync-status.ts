@@ -0,0 +1,13 @@
+import * as React from "react";
+import { getSyncStatus, subscribeSyncStatus, type SyncStatus } from "@/sync/autoSync";
+
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = React.useState<SyncStatus>(getSyncStatus());
+
+  React.useEffect(() => {
+    setStatus(getSyncStatus());
+    return subscribeSyncStatus(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,16 @@
+import * as React from "react";
+import type { Workspace } from "@/lib/workspaces";
+import { getActiveWorkspace, listWorkspaces, subscribeWorkspaces } from "@/storage/workspaces";
+
+export function useWorkspaces(): { workspaces: Workspace[]; active: Workspace } {
+  const [workspaces, setWorkspaces] = React.useState<Workspace[]>(listWorkspaces);
+
+  React.useEffect(() => {
+    setWorkspaces(listWorkspaces());
+    return subscribeWorkspaces(() => setWorkspaces(listWorkspaces()));
+  }, []);
+
+  const activeId = getActiveWorkspace().id;
+  const active = workspaces.find((w) => w.id === activeId) || workspaces[0];
+  return { workspaces, active };
+}
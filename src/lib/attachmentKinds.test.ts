@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { attachmentKind, defaultAttachmentKind, sanitizeAttachmentKind, type AttachmentKind } from "./attachmentKinds";
+
+describe("attachment kinds", () => {
+  it("defaults by parent and file type, keeping explicit kinds", () => {
+    expect(attachmentKind({ parentType: "item", mime: "image/webp" })).toBe("photo");
+    expect(attachmentKind({ parentType: "option", mime: "application/pdf" })).toBe("spec");
+    expect(attachmentKind({ parentType: "subItem", mime: "image/jpeg" })).toBe("receipt");
+    expect(attachmentKind({ parentType: "item", name: "scan.PNG" })).toBe("photo");
+    expect(attachmentKind({ kind: "warranty", parentType: "subItem", mime: "application/pdf" })).toBe("warranty");
+    expect(attachmentKind({ kind: "bogus" as AttachmentKind, parentType: "item", mime: "image/png" })).toBe("photo");
+  });
+
+  it("does not file a PDF as a photo", () => {
+    expect(defaultAttachmentKind({ parentType: "item", mime: "application/pdf" }, "photo")).toBe("spec");
+    expect(defaultAttachmentKind({ parentType: "item", mime: "application/pdf" }, "invoice")).toBe("invoice");
+    expect(sanitizeAttachmentKind("receipt")).toBe("receipt");
+    expect(sanitizeAttachmentKind(42)).toBeNull();
+  });
+});
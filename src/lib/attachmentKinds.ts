@@ -0,0 +1,51 @@
+// What an attachment is, independent of its file type: a receipt can be a photo of a paper slip and
+// a spec sheet can be an image. Set when the file is added and editable afterwards; synced and
+// exported with the attachment as `kind`.
+
+export type AttachmentKind = "photo" | "receipt" | "invoice" | "warranty" | "spec";
+
+export const ATTACHMENT_KINDS: AttachmentKind[] = ["photo", "receipt", "invoice", "warranty", "spec"];
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  photo: "Photo",
+  receipt: "Receipt",
+  invoice: "Invoice",
+  warranty: "Warranty",
+  spec: "Spec sheet",
+};
+
+// Paperwork listed in the per-item and per-store "Documents" views.
+export const DOCUMENT_KINDS: AttachmentKind[] = ["receipt", "invoice", "warranty"];
+
+type KindSource = {
+  kind?: AttachmentKind | null;
+  parentType: "item" | "option" | "subItem";
+  mime?: string | null;
+  name?: string | null;
+};
+
+export function sanitizeAttachmentKind(raw: unknown): AttachmentKind | null {
+  return typeof raw === "string" && (ATTACHMENT_KINDS as string[]).includes(raw) ? (raw as AttachmentKind) : null;
+}
+
+function isImage(att: Pick<KindSource, "mime" | "name">) {
+  if (att.mime) return att.mime.startsWith("image/");
+  return /\.(jpe?g|png|gif|webp|bmp|svg|heic|heif|avif)$/i.test(att.name || "");
+}
+
+// The kind a new file gets when the user didn't pick one: sub-items only ever held receipts, and a
+// non-image file added as a "photo" is most likely a spec sheet.
+export function defaultAttachmentKind(att: Omit<KindSource, "kind">, requested?: AttachmentKind | null): AttachmentKind {
+  if (requested && (requested !== "photo" || isImage(att))) return requested;
+  if (att.parentType === "subItem") return "receipt";
+  return isImage(att) ? "photo" : "spec";
+}
+
+// Attachments saved before kinds existed have none; they are read with the default.
+export function attachmentKind(att: KindSource): AttachmentKind {
+  return sanitizeAttachmentKind(att.kind) || defaultAttachmentKind(att);
+}
+
+export function isDocumentKind(kind: AttachmentKind) {
+  return DOCUMENT_KINDS.includes(kind);
+}
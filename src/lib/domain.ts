@@ -1,3 +1,6 @@
+import type { ProductVariant } from "../../api/_lib/contracts";
+import type { PriceWatch } from "../../api/_lib/priceWatch";
+
 export const DEFAULT_ROOMS = [
   "Living",
   "Dining",
@@ -59,8 +62,8 @@ export type Actor = "human" | "ai" | "import" | "system" | null;
 
 export type ProvenanceChangeLogEntry = {
   field: string;
-  from: unknown;
-  to: unknown;
+  from?: unknown;
+  to?: unknown;
   by: Actor;
   at: number;
   sessionId?: string;
@@ -84,6 +87,9 @@ export type Dimensions = {
   wIn?: number | null;
   hIn?: number | null;
   dIn?: number | null;
+  // Set when the numbers were parsed from dimension text (scrape, clip, import) rather than typed;
+  // cleared once someone confirms or edits them.
+  confidence?: "low" | "med" | "high" | null;
 };
 
 export type Item = {
@@ -106,10 +112,15 @@ export type Item = {
   qty: number;
   store?: string | null;
   link?: string | null;
+  // Re-scrapes `link` on a schedule and keeps its price history (see src/sync/priceWatch.ts).
+  priceWatch?: PriceWatch | null;
   notes?: string | null;
   priority?: number | null;
   tags?: string[] | null;
   dimensions?: Dimensions;
+  // Variants listed on the product page when it was scraped or clipped; offered as options until
+  // used or dismissed.
+  variants?: ProductVariant[] | null;
   // Flexible per-item attributes (size, finish, etc).
   specs?: Record<string, string | number | boolean | null> | null;
 
@@ -129,6 +140,7 @@ export type Option = {
   sort?: number | null;
   store?: string | null;
   link?: string | null;
+  priceWatch?: PriceWatch | null;
   promoCode?: string | null;
   price?: number | null;
   shipping?: number | null;
@@ -271,3 +283,56 @@ export type ExportBundleV2 = Omit<ExportBundleV1, "version" | "exportMeta"> & {
     sessionId?: string;
   };
 };
+
+// Snapshot of a record as last agreed with the remote (after a pull or a successful push).
+export type SyncBaseRecord = {
+  key: string; // `${entity}:${id}`
+  entity: EntityType;
+  recordId: string;
+  record: unknown;
+  syncedAt: number;
+};
+
+export type SyncConflictField = {
+  field: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+};
+
+// A pulled record whose fields collided with unpushed local edits. The record is held back from
+// push until every field is resolved.
+export type SyncConflict = {
+  id: string; // `${entity}:${recordId}`
+  entity: EntityType;
+  recordId: string;
+  title: string;
+  fields: SyncConflictField[];
+  // The record was deleted remotely while it still had unpushed local edits (no field entries).
+  remoteDeleted?: boolean;
+  detectedAt: number;
+};
+
+// A record the sync backend refused during a push.
+export type SyncRunError = {
+  entity: EntityType;
+  action: "create" | "update";
+  id?: string; // remote id (updates)
+  localId?: string; // id this device sent
+  title?: string;
+  message: string;
+};
+
+// One entry in the sync journal (Settings → Sync history).
+export type SyncRun = {
+  id: string;
+  kind: "sync" | "push" | "reset" | "pull" | "fullPull" | "retry";
+  trigger: "manual" | "auto";
+  startedAt: number;
+  durationMs: number;
+  ok: boolean;
+  counts: { push: Record<string, number>; pull: Record<string, number> };
+  errors: SyncRunError[];
+  // Failure message when the run threw before finishing.
+  message?: string | null;
+};
@@ -1,4 +1,5 @@
-import type { Item, Measurement } from "@/lib/domain";
+import { parseDimensionsText } from "../../api/_lib/dimensions";
+import type { Dimensions, Item, Measurement } from "@/lib/domain";
 import { formatNumber, inchesToCm } from "@/lib/format";
 
 export type ItemDimsIn = {
@@ -35,9 +36,46 @@ export function getItemDimsIn(item: Item): ItemDimsIn {
     }
   }
 
+  // Items captured before dimensions were parsed only have the retailer's text.
+  if (wIn === null && dIn === null && hIn === null && specs) {
+    const parsed = parseDimensionsText(specs.dimensionsText);
+    if (parsed) return { wIn: parsed.wIn, dIn: parsed.dIn, hIn: parsed.hIn };
+  }
+
   return { wIn, dIn, hIn };
 }
 
+// Structured dimensions for free text, flagged with the parser's confidence until confirmed.
+export function dimensionsFromText(text: unknown): Dimensions | undefined {
+  const parsed = parseDimensionsText(text);
+  if (!parsed) return undefined;
+  const out: Dimensions = { confidence: parsed.confidence };
+  if (parsed.wIn !== null) out.wIn = parsed.wIn;
+  if (parsed.dIn !== null) out.dIn = parsed.dIn;
+  if (parsed.hIn !== null) out.hIn = parsed.hIn;
+  return out;
+}
+
+export function hasDims(d: Dimensions | null | undefined) {
+  return Boolean(d) && [d?.wIn, d?.dIn, d?.hIn].some((v) => typeof v === "number");
+}
+
+export const DIMENSIONS_CONFIDENCE_LABELS: Record<NonNullable<Dimensions["confidence"]>, string> = {
+  high: "High confidence",
+  med: "Medium confidence",
+  low: "Low confidence",
+};
+
+// "84 W x 38 D x 33 H in", naming each axis so a wrong guess is easy to spot.
+export function formatDimsLabelled(d: Dimensions) {
+  const parts = [
+    typeof d.wIn === "number" ? `${formatNumber(d.wIn, 1)} W` : null,
+    typeof d.dIn === "number" ? `${formatNumber(d.dIn, 1)} D` : null,
+    typeof d.hIn === "number" ? `${formatNumber(d.hIn, 1)} H` : null,
+  ].filter(Boolean);
+  return parts.length ? `${parts.join(" x ")} in` : "";
+}
+
 export function formatDimsCompact(d: ItemDimsIn) {
   const parts: string[] = [];
   if (d.wIn !== null) parts.push(formatNumber(d.wIn, 1));
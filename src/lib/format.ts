@@ -23,6 +23,13 @@ export function formatNumber(value: number | null | undefined, digits = 0) {
   }
 }
 
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${formatNumber(bytes / 1024, 0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${formatNumber(bytes / (1024 * 1024), 1)} MB`;
+  return `${formatNumber(bytes / (1024 * 1024 * 1024), 2)} GB`;
+}
+
 export function clampNumber(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value));
 }
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { canProcessImage, fitWithin, renameForType, sanitizeImageSettings } from "@/lib/images";
+
+describe("image pipeline helpers", () => {
+  it("scales the longer side down to the max and never scales up", () => {
+    expect(fitWithin(4032, 3024, 2048)).toEqual({ width: 2048, height: 1536 });
+    expect(fitWithin(3024, 4032, 320)).toEqual({ width: 240, height: 320 });
+    expect(fitWithin(800, 600, 2048)).toEqual({ width: 800, height: 600 });
+    expect(sanitizeImageSettings({ maxDimension: 100 })).toEqual({ maxDimension: 2048 });
+    expect(sanitizeImageSettings({ maxDimension: "1600" })).toEqual({ maxDimension: 1600 });
+  });
+
+  it("only re-encodes still images and renames them to the new type", () => {
+    expect(canProcessImage("image/heic")).toBe(true);
+    expect(canProcessImage("image/gif")).toBe(false);
+    expect(canProcessImage("application/pdf")).toBe(false);
+    expect(renameForType("IMG_0042.HEIC", "image/webp")).toBe("IMG_0042.webp");
+    expect(renameForType("tag.png", "image/jpeg")).toBe("tag.jpg");
+    expect(renameForType(null, "image/webp")).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+// Client-side image pipeline for photos and receipts: downsizes to a max dimension and re-encodes as
+// WebP (JPEG where the browser can't encode WebP). Re-encoding through a canvas drops EXIF, including
+// GPS location; the orientation is applied to the pixels first. Files the browser can't decode (HEIC
+// outside Safari, PDFs) and formats that would lose something (GIF animation, SVG) pass through as is.
+
+export type ImageSettings = { maxDimension: number };
+
+export type PreparedImage = { blob: Blob; thumb: Blob | null; width: number | null; height: number | null };
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = { maxDimension: 2048 };
+export const THUMB_DIMENSION = 320;
+
+const PASSTHROUGH_TYPES = new Set(["image/gif", "image/svg+xml"]);
+
+export function sanitizeImageSettings(input: unknown): ImageSettings {
+  const obj = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const max = Number(obj.maxDimension);
+  return { maxDimension: Number.isFinite(max) && max >= 320 ? Math.min(8192, Math.round(max)) : DEFAULT_IMAGE_SETTINGS.maxDimension };
+}
+
+// Scales width x height down (never up) so the longer side is at most `max`.
+export function fitWithin(width: number, height: number, max: number) {
+  const longest = Math.max(width, height);
+  if (!longest || longest <= max) return { width, height };
+  const scale = max / longest;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+export function canProcessImage(type: string | null | undefined) {
+  return Boolean(type && type.startsWith("image/") && !PASSTHROUGH_TYPES.has(type));
+}
+
+// `photo.HEIC` -> `photo.webp`, so the stored name matches the re-encoded type.
+export function renameForType(name: string | null, type: string) {
+  if (!name) return name;
+  const ext = type === "image/webp" ? "webp" : type === "image/jpeg" ? "jpg" : null;
+  if (!ext) return name;
+  const dot = name.lastIndexOf(".");
+  return `${dot > 0 ? name.slice(0, dot) : name}.${ext}`;
+}
+
+async function decode(blob: Blob): Promise<ImageBitmap | null> {
+  if (typeof createImageBitmap !== "function") return null;
+  try {
+    return await createImageBitmap(blob, { imageOrientation: "from-image" });
+  } catch {
+    return null;
+  }
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+async function encode(bitmap: ImageBitmap, max: number, quality: number, opaque: boolean) {
+  const size = fitWithin(bitmap.width, bitmap.height, max);
+  const canvas = document.createElement("canvas");
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  if (opaque) {
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, size.width, size.height);
+  }
+  ctx.drawImage(bitmap, 0, 0, size.width, size.height);
+  // Browsers that can't encode WebP silently fall back to PNG.
+  const webp = await toBlob(canvas, "image/webp", quality);
+  if (webp?.type === "image/webp") return { blob: webp, ...size };
+  if (opaque) {
+    const jpeg = await toBlob(canvas, "image/jpeg", quality);
+    return jpeg ? { blob: jpeg, ...size } : null;
+  }
+  // JPEG has no alpha channel: redo with a white background.
+  return await encode(bitmap, max, quality, true);
+}
+
+export async function prepareImage(blob: Blob, settings: ImageSettings = DEFAULT_IMAGE_SETTINGS): Promise<PreparedImage> {
+  const original: PreparedImage = { blob, thumb: null, width: null, height: null };
+  if (!canProcessImage(blob.type)) return original;
+  const bitmap = await decode(blob);
+  if (!bitmap) return original;
+  try {
+    const full = await encode(bitmap, settings.maxDimension, 0.82, false);
+    const thumb = await encode(bitmap, THUMB_DIMENSION, 0.7, false);
+    if (!full) return original;
+    return { blob: full.blob, thumb: thumb?.blob ?? null, width: full.width, height: full.height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// A thumbnail for an image that is already processed (or only cached locally); null if it can't be decoded.
+export async function makeThumbnail(blob: Blob): Promise<Blob | null> {
+  if (!canProcessImage(blob.type)) return null;
+  const bitmap = await decode(blob);
+  if (!bitmap) return null;
+  try {
+    return (await encode(bitmap, THUMB_DIMENSION, 0.7, false))?.blob ?? null;
+  } finally {
+    bitmap.close();
+  }
+}
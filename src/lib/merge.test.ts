@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { diffItem } from "@/lib/diff";
+import type { Item } from "@/lib/domain";
+import { setFieldValue, threeWayMerge } from "@/lib/merge";
+
+const base: Item = {
+  id: "i_1",
+  name: "Sofa",
+  room: "Living",
+  category: "Seating",
+  status: "Idea",
+  price: 1000,
+  qty: 1,
+  notes: "base",
+  dimensions: { wIn: 80, hIn: 30, dIn: 35 },
+  specs: { color: "gray" },
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+describe("threeWayMerge", () => {
+  it("takes remote-only edits and keeps local-only edits", () => {
+    const local: Item = { ...base, notes: "local", updatedAt: 2 };
+    const remote: Item = { ...base, price: 900, specs: { color: "blue" }, updatedAt: 3 };
+
+    const { merged, applied, conflicts } = threeWayMerge(base, local, remote, diffItem);
+    expect(conflicts).toEqual([]);
+    expect(applied.sort()).toEqual(["price", "specs.color"]);
+    expect(merged.notes).toBe("local");
+    expect(merged.price).toBe(900);
+    expect(merged.specs).toEqual({ color: "blue" });
+  });
+
+  it("reports fields changed differently on both sides", () => {
+    const local: Item = { ...base, price: 950, dimensions: { ...base.dimensions, wIn: 82 } };
+    const remote: Item = { ...base, price: 900, dimensions: { ...base.dimensions, wIn: 82 } };
+
+    const { merged, conflicts } = threeWayMerge(base, local, remote, diffItem);
+    expect(conflicts).toEqual([{ field: "price", base: 1000, local: 950, remote: 900 }]);
+    expect(merged.price).toBe(950);
+    expect(merged.dimensions?.wIn).toBe(82);
+  });
+
+  it("treats every difference as a conflict without a base", () => {
+    const local: Item = { ...base, notes: "local" };
+    const remote: Item = { ...base, notes: "remote" };
+
+    const { conflicts } = threeWayMerge(null, local, remote, diffItem);
+    expect(conflicts.map((c) => c.field)).toEqual(["notes"]);
+  });
+});
+
+describe("setFieldValue", () => {
+  it("clones nested objects and removes undefined keys", () => {
+    const next = setFieldValue(base, "specs.color", undefined);
+    expect(next.specs).toEqual({});
+    expect(base.specs).toEqual({ color: "gray" });
+  });
+});
@@ -0,0 +1,93 @@
+import type { DiffChange } from "@/lib/diff";
+import type { SyncConflictField } from "@/lib/domain";
+
+export type MergeResult<T> = {
+  merged: T;
+  // Fields taken from the remote because only the remote changed them.
+  applied: string[];
+  conflicts: SyncConflictField[];
+};
+
+function normalizeNullish(value: unknown): unknown {
+  return typeof value === "undefined" ? null : value;
+}
+
+// Reads a tracked field path ("name", "dimensions.wIn", "specs.color") from a record.
+export function getFieldValue(record: unknown, field: string): unknown {
+  let cur = record;
+  for (const part of field.split(".")) {
+    if (!cur || typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[part];
+  }
+  return cur;
+}
+
+// Returns a copy of `record` with the field path set. Nested objects along the path are cloned;
+// `undefined` removes the key.
+export function setFieldValue<T>(record: T, field: string, value: unknown): T {
+  const parts = field.split(".");
+  const root: Record<string, unknown> = { ...(record as Record<string, unknown>) };
+  let cur = root;
+  for (let i = 0; i < parts.length - 1; i++) {
+    const next = cur[parts[i]];
+    const copy: Record<string, unknown> = next && typeof next === "object" ? { ...next } : {};
+    cur[parts[i]] = copy;
+    cur = copy;
+  }
+  const last = parts[parts.length - 1];
+  if (typeof value === "undefined") delete cur[last];
+  else cur[last] = value;
+  return root as T;
+}
+
+/**
+ * Field-level three-way merge of a pulled record into a locally edited one.
+ *
+ * - changed only remotely -> remote value is taken
+ * - changed only locally -> local value is kept
+ * - changed on both sides to the same value -> no conflict
+ * - changed on both sides differently -> conflict (local value is kept until resolved)
+ *
+ * Without a base every differing field is reported as a conflict, since there is no way to tell
+ * which side made the edit.
+ */
+export function threeWayMerge<T>(
+  base: T | null,
+  local: T,
+  remote: T,
+  diff: (existing: T, incoming: T) => DiffChange[]
+): MergeResult<T> {
+  if (!base) {
+    const conflicts = diff(local, remote).map((c) => ({
+      field: c.field,
+      base: null,
+      local: getFieldValue(local, c.field),
+      remote: getFieldValue(remote, c.field),
+    }));
+    return { merged: local, applied: [], conflicts };
+  }
+
+  const localChanges = new Map(diff(base, local).map((c) => [c.field, c]));
+  const remoteChanges = diff(base, remote);
+
+  let merged = local;
+  const applied: string[] = [];
+  const conflicts: SyncConflictField[] = [];
+  for (const rc of remoteChanges) {
+    const lc = localChanges.get(rc.field);
+    if (!lc) {
+      merged = setFieldValue(merged, rc.field, getFieldValue(remote, rc.field));
+      applied.push(rc.field);
+      continue;
+    }
+    if (Object.is(normalizeNullish(lc.to), normalizeNullish(rc.to))) continue;
+    conflicts.push({
+      field: rc.field,
+      base: getFieldValue(base, rc.field),
+      local: getFieldValue(local, rc.field),
+      remote: getFieldValue(remote, rc.field),
+    });
+  }
+
+  return { merged, applied, conflicts };
+}
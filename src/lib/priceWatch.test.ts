@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { Item, Option } from "./domain";
+import { collectPriceChanges } from "./priceWatch";
+
+const point = (at: number, price: number | null) => ({ at, price, originalPrice: null, availability: null });
+const watch = (targetPrice: number | null, ...history: ReturnType<typeof point>[]) => ({
+  enabled: true,
+  targetPrice,
+  lastCheckedAt: history[history.length - 1]?.at ?? null,
+  lastError: null,
+  history,
+});
+
+const item = (id: string, name: string, patch: Partial<Item> = {}): Item => ({
+  id,
+  name,
+  room: "Living",
+  category: "Other",
+  status: "Shortlist",
+  qty: 1,
+  createdAt: 0,
+  updatedAt: 0,
+  ...patch,
+});
+
+describe("collectPriceChanges", () => {
+  it("lists targets reached first, then the latest moves", () => {
+    const items = [
+      item("i1", "Sofa", { link: "https://a.example/sofa", priceWatch: watch(null, point(1, 1299), point(2, 1299), point(5, 1039)) }),
+      item("i2", "Lamp", { link: "https://a.example/lamp", priceWatch: watch(null, point(1, 99), point(8, 119)) }),
+      item("i3", "Rug", { link: "https://a.example/rug", priceWatch: watch(null, point(1, 400)) }),
+      item("i4", "Desk", { priceWatch: { ...watch(null, point(1, 300)), enabled: false } }),
+      item("i5", "Bed", { kind: "placeholder" }),
+    ];
+    const options: Option[] = [
+      {
+        id: "o1",
+        itemId: "i5",
+        title: "Oak",
+        priceWatch: watch(850, point(1, 999), point(3, null), point(4, 849)),
+        createdAt: 0,
+        updatedAt: 0,
+      },
+    ];
+
+    const changes = collectPriceChanges(items, options);
+    expect(changes.map((c) => [c.title, c.changePercent, c.belowTarget])).toEqual([
+      ["Bed · Oak", -15, true],
+      ["Lamp", 20.2, false],
+      ["Sofa", -20, false],
+      ["Rug", null, false],
+    ]);
+    expect(changes[2]).toMatchObject({ parentType: "item", changedAt: 5, previous: { at: 2, price: 1299 } });
+  });
+});
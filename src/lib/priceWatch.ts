@@ -0,0 +1,86 @@
+import type { ProductAvailability } from "../../api/_lib/contracts";
+import type { PricePoint, PriceWatch } from "../../api/_lib/priceWatch";
+import type { Item, Option } from "@/lib/domain";
+
+export const AVAILABILITY_LABELS: Record<ProductAvailability, string> = {
+  in_stock: "In stock",
+  out_of_stock: "Out of stock",
+  preorder: "Pre-order",
+  backorder: "Backorder",
+  discontinued: "Discontinued",
+};
+
+export type PriceChange = {
+  parentType: "item" | "option";
+  id: string;
+  itemId: string;
+  title: string;
+  link: string | null;
+  latest: PricePoint;
+  // The last recorded point with a different price, if the price ever moved.
+  previous: PricePoint | null;
+  // When the price moved to the latest one; null if it never moved.
+  changedAt: number | null;
+  // Negative for a drop.
+  changePercent: number | null;
+  targetPrice: number | null;
+  belowTarget: boolean;
+  lastError: string | null;
+};
+
+export function latestPricePoint(watch: PriceWatch | null | undefined): PricePoint | null {
+  const history = watch?.history || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].price !== null) return history[i];
+  }
+  return null;
+}
+
+export function isBelowTarget(watch: PriceWatch | null | undefined): boolean {
+  const latest = latestPricePoint(watch);
+  return latest?.price != null && watch?.targetPrice != null && latest.price <= watch.targetPrice;
+}
+
+function priceChangeOf(watch: PriceWatch) {
+  const latest = latestPricePoint(watch);
+  if (!latest) return null;
+  const history = watch.history.filter((point) => point.price !== null && point.at < latest.at);
+  const previous = [...history].reverse().find((point) => point.price !== latest.price) ?? null;
+  const changedAt = previous ? (history.find((point) => point.at > previous.at)?.at ?? latest.at) : null;
+  const changePercent =
+    previous?.price && latest.price !== null ? Number((((latest.price - previous.price) / previous.price) * 100).toFixed(1)) : null;
+  return { latest, previous, changedAt, changePercent };
+}
+
+// Watched items and options with a recorded price: those at or below their target first, then the
+// most recent moves, then the rest.
+export function collectPriceChanges(items: Item[], options: Option[]): PriceChange[] {
+  const itemsById = new Map(items.filter((i) => i.syncState !== "deleted").map((i) => [i.id, i]));
+  const out: PriceChange[] = [];
+  const add = (parentType: PriceChange["parentType"], record: Item | Option, itemId: string, title: string) => {
+    const watch = record.priceWatch;
+    if (!watch?.enabled) return;
+    const change = priceChangeOf(watch);
+    if (!change) return;
+    out.push({
+      parentType,
+      id: record.id,
+      itemId,
+      title,
+      link: record.link || null,
+      ...change,
+      targetPrice: watch.targetPrice,
+      belowTarget: isBelowTarget(watch),
+      lastError: watch.lastError,
+    });
+  };
+  for (const item of itemsById.values()) add("item", item, item.id, item.name);
+  for (const option of options) {
+    const item = itemsById.get(option.itemId);
+    if (option.syncState === "deleted" || !item) continue;
+    add("option", option, item.id, `${item.name} · ${option.title}`);
+  }
+  return out.sort(
+    (a, b) => Number(b.belowTarget) - Number(a.belowTarget) || (b.changedAt ?? 0) - (a.changedAt ?? 0) || a.title.localeCompare(b.title),
+  );
+}
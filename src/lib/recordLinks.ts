@@ -0,0 +1,41 @@
+import type { EntityType, Measurement, Option, SubItem } from "@/lib/domain";
+
+// Page that shows a synced record, or null if it can't be located (e.g. deleted since).
+export function recordHref(
+  entity: EntityType,
+  recordId: string,
+  data: { options: Option[]; subItems: SubItem[]; measurements: Measurement[] },
+): string | null {
+  switch (entity) {
+    case "item":
+      return `/items/${recordId}`;
+    case "option": {
+      const opt = data.options.find((o) => o.id === recordId);
+      return opt ? `/items/${opt.itemId}` : null;
+    }
+    case "subItem": {
+      const sub = data.subItems.find((s) => s.id === recordId);
+      const opt = sub ? data.options.find((o) => o.id === sub.optionId) : null;
+      return opt ? `/items/${opt.itemId}` : null;
+    }
+    case "measurement": {
+      const m = data.measurements.find((x) => x.id === recordId);
+      return m ? `/rooms/${m.room}` : null;
+    }
+    case "room":
+      return `/rooms/${recordId}`;
+    case "store":
+      return "/stores";
+    default:
+      return null;
+  }
+}
+
+export function entityLabel(entity: EntityType) {
+  switch (entity) {
+    case "subItem":
+      return "sub-item";
+    default:
+      return entity;
+  }
+}
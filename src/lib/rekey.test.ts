@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { rekeyParentId, rekeyRecord, type RekeyMaps } from "@/lib/rekey";
+
+const maps: RekeyMaps = {
+  items: { i_local: "recItem" },
+  options: { o_local: "recOption" },
+};
+
+describe("rekeyRecord", () => {
+  it("moves created records onto their remote id and marks them clean", () => {
+    const item = { id: "i_local", syncState: "dirty", selectedOptionId: "o_local", name: "Sofa" };
+    expect(rekeyRecord("items", item, maps)).toEqual({
+      id: "recItem",
+      remoteId: "recItem",
+      syncState: "clean",
+      selectedOptionId: "recOption",
+      name: "Sofa",
+    });
+  });
+
+  it("rewrites references without touching sync state", () => {
+    const option = { id: "recOther", syncState: "clean", itemId: "i_local", sourceItemId: "i_local" };
+    expect(rekeyRecord("options", option, maps)).toEqual({ ...option, itemId: "recItem", sourceItemId: "recItem" });
+    expect(rekeyRecord("measurements", { id: "m_1", forItemId: "i_local" }, maps)).toEqual({
+      id: "m_1",
+      forItemId: "recItem",
+      syncState: "dirty",
+    });
+    expect(rekeyRecord("subItems", { id: "s_1", optionId: "o_other", syncState: "clean" }, maps)).toBeNull();
+    expect(rekeyParentId("option", "o_local", maps)).toBe("recOption");
+    expect(rekeyParentId("subItem", "o_local", maps)).toBeNull();
+  });
+});
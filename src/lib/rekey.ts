@@ -0,0 +1,47 @@
+// Local id -> remote record id for everything a push just created (rooms are keyed by name instead).
+export type RekeyMaps = {
+  items?: Record<string, string>;
+  options?: Record<string, string>;
+  subItems?: Record<string, string>;
+  measurements?: Record<string, string>;
+  stores?: Record<string, string>;
+};
+
+export type RekeyableStore = keyof RekeyMaps;
+
+// Returns the record with its own id and every reference to a created record rewritten, or null when
+// nothing changed. A created record becomes clean under its remote id; rows that only had a reference
+// rewritten keep their sync state (missing still means dirty, as on push).
+export function rekeyRecord<T extends { id: string; remoteId?: string | null; syncState?: string }>(
+  store: RekeyableStore,
+  row: T,
+  maps: RekeyMaps,
+): T | null {
+  const next: Record<string, unknown> = { ...row };
+  let changed = false;
+  const swap = (field: string, map: Record<string, string> | undefined) => {
+    const id = next[field];
+    if (typeof id === "string" && map?.[id]) {
+      next[field] = map[id];
+      changed = true;
+    }
+  };
+  if (store === "items") swap("selectedOptionId", maps.options);
+  if (store === "options") {
+    swap("itemId", maps.items);
+    swap("sourceItemId", maps.items);
+  }
+  if (store === "subItems") swap("optionId", maps.options);
+  if (store === "measurements") swap("forItemId", maps.items);
+
+  const remoteId = maps[store]?.[row.id];
+  if (remoteId) return { ...next, id: remoteId, remoteId, syncState: "clean" } as T;
+  if (!changed) return null;
+  return { ...next, syncState: row.syncState || "dirty" } as T;
+}
+
+// Attachment parents: "item" -> items map, etc.
+export function rekeyParentId(parentType: "item" | "option" | "subItem", parentId: string, maps: RekeyMaps) {
+  const map = parentType === "item" ? maps.items : parentType === "option" ? maps.options : maps.subItems;
+  return map?.[parentId] || null;
+}
@@ -85,6 +85,9 @@ export const ITEM_TRACKED_FIELDS: TrackedFieldSpec<Item>[] = [
   { field: "dimensions.dIn", get: (i) => i.dimensions?.dIn, normalize: normalizeOptionalNumber },
   { field: "provenance.dataSource", get: (i) => i.provenance?.dataSource, normalize: normalizeDataSource },
   { field: "provenance.sourceRef", get: (i) => i.provenance?.sourceRef, normalize: normalizeOptionalString },
+  // Price history is joined rather than compared (mergePriceWatch in api/_lib/priceWatch.ts).
+  { field: "priceWatch.enabled", get: (i) => i.priceWatch?.enabled, normalize: normalizeBoolean },
+  { field: "priceWatch.targetPrice", get: (i) => i.priceWatch?.targetPrice, normalize: normalizeOptionalNumber },
   // NOTE: specs are compared per-key in diff logic (see src/lib/diff.ts).
 ];
 
@@ -112,6 +115,8 @@ export const OPTION_TRACKED_FIELDS: TrackedFieldSpec<Option>[] = [
   { field: "sourceItemId", get: (o) => o.sourceItemId, normalize: normalizeOptionalString },
   { field: "provenance.dataSource", get: (o) => o.provenance?.dataSource, normalize: normalizeDataSource },
   { field: "provenance.sourceRef", get: (o) => o.provenance?.sourceRef, normalize: normalizeOptionalString },
+  { field: "priceWatch.enabled", get: (o) => o.priceWatch?.enabled, normalize: normalizeBoolean },
+  { field: "priceWatch.targetPrice", get: (o) => o.priceWatch?.targetPrice, normalize: normalizeOptionalNumber },
 ];
 
 export const SUB_ITEM_TRACKED_FIELDS: TrackedFieldSpec<SubItem>[] = [
@@ -0,0 +1,41 @@
+import type { ProductVariant } from "../../api/_lib/contracts";
+import type { Option } from "@/lib/domain";
+
+export type VariantProduct = {
+  link: string | null;
+  store: string | null;
+  price: number | null;
+  imageUrl: string | null;
+  dimensionsText: string | null;
+};
+
+// A product page variant as an option of the captured item. Anything the page didn't list per
+// variant (price, image, size) falls back to the product's own value.
+export function optionFromVariant(variant: ProductVariant, product: VariantProduct): Partial<Option> {
+  const specs: NonNullable<Option["specs"]> = { variantText: variant.name };
+  const imageUrl = variant.imageUrl || product.imageUrl;
+  if (imageUrl) specs.imageUrl = imageUrl;
+  if (variant.sku) specs.sku = variant.sku;
+  if (variant.originalPrice !== null) specs.originalPrice = variant.originalPrice;
+  return {
+    title: variant.name,
+    price: variant.price ?? product.price,
+    link: variant.url || product.link,
+    store: product.store,
+    dimensionsText: variant.dimensionsText || product.dimensionsText,
+    specs,
+  };
+}
+
+// Options are created newest-first at the top of the list, so the page order is kept by creating
+// them back to front.
+export async function createVariantOptions(
+  createOption: (partial: Partial<Option> & { itemId: string }) => Promise<string>,
+  itemId: string,
+  variants: ProductVariant[],
+  product: VariantProduct,
+) {
+  for (const variant of [...variants].reverse()) {
+    await createOption({ ...optionFromVariant(variant, product), itemId });
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { Item, Option, Room, Store, SubItem } from "@/lib/domain";
+import { copyForWorkspace, sanitizeWorkspaces, workspaceSlug } from "@/lib/workspaces";
+import type { AttachmentRecord } from "@/storage/attachments";
+
+describe("workspaces", () => {
+  it("keeps the default workspace first and drops entries with unusable ids", () => {
+    const list = sanitizeWorkspaces([
+      { id: "oak-street", name: " Oak Street ", airtableBaseId: "appAAAAAAAAAAAAAA", createdAt: 5 },
+      { id: "Bad Id", name: "Nope" },
+      { id: "oak-street", name: "Duplicate" },
+    ]);
+    expect(list.map((w) => w.id)).toEqual(["default", "oak-street"]);
+    expect(list[1]).toMatchObject({ name: "Oak Street", airtableBaseId: "appAAAAAAAAAAAAAA", airtableTableId: null });
+    expect(workspaceSlug("Oak Street!", ["oak-street"])).toBe("oak-street-2");
+    expect(workspaceSlug("Default", [])).toBe("default-2");
+  });
+
+  it("copies items with fresh ids and shares stores the target already has", () => {
+    const item = { id: "recItem", remoteId: "recItem", syncState: "clean", name: "Sofa", room: "Den", store: "IKEA", qty: 1 } as Item;
+    const option = { id: "recOpt", remoteId: "recOpt", itemId: "recItem", sourceItemId: "recOther", title: "Grey", store: "Muji" } as Option;
+    const subItem = { id: "recSub", optionId: "recOpt", title: "Legs" } as SubItem;
+    const stores = [{ id: "s_1", name: "IKEA" }, { id: "s_2", name: "Muji" }, { id: "s_3", name: "Unused" }] as Store[];
+    const out = copyForWorkspace(
+      {
+        items: [item],
+        options: [option],
+        subItems: [subItem],
+        stores,
+        rooms: [{ id: "Den", name: "Den" } as Room],
+        attachments: [{ id: "att_1", parentType: "option", parentId: "recOpt", parentKey: "option:recOpt" } as AttachmentRecord],
+      },
+      { stores: [{ id: "s_9", name: "ikea" } as Store], rooms: [] },
+      { itemIds: ["recItem"] },
+      100,
+    );
+
+    const [copy] = out.items;
+    expect(copy.id).not.toBe("recItem");
+    expect(copy).toMatchObject({ remoteId: null, syncState: "dirty", name: "Sofa", createdAt: 100 });
+    expect(out.options[0]).toMatchObject({ itemId: copy.id, sourceItemId: undefined, remoteId: null });
+    expect(out.subItems[0].optionId).toBe(out.options[0].id);
+    expect(out.stores.map((s) => s.name)).toEqual(["Muji"]);
+    expect(out.rooms.map((r) => r.id)).toEqual(["Den"]);
+    expect(out.attachments[0]).toMatchObject({ parentId: out.options[0].id, parentKey: `option:${out.options[0].id}` });
+  });
+});
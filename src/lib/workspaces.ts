@@ -0,0 +1,166 @@
+import { homeIdSchema, type SyncTarget } from "../../api/_lib/contracts";
+import type { Item, Option, Room, Store, SubItem } from "@/lib/domain";
+import { newId } from "@/lib/id";
+import { rekeyParentId, rekeyRecord, type RekeyMaps } from "@/lib/rekey";
+import { buildStoreIndex, storeKey } from "@/lib/storePricing";
+import type { AttachmentRecord } from "@/storage/attachments";
+
+// A workspace is one home (or project) on this device: its own local database, planner, backups and
+// sync target. The default workspace is the original single-home setup and syncs to the server's
+// env base/table; every other one is identified to the server by its id.
+
+export const DEFAULT_WORKSPACE_ID = "default";
+
+export type Workspace = {
+  id: string; // "default", or a slug like "oak-street" (also its backup prefix and JSON-backend file)
+  name: string;
+  // Where a non-default home syncs with the Airtable backend; either one overrides the env value.
+  airtableBaseId?: string | null;
+  airtableTableId?: string | null;
+  createdAt: number;
+};
+
+export function makeDefaultWorkspace(): Workspace {
+  return { id: DEFAULT_WORKSPACE_ID, name: "Main home", createdAt: 0 };
+}
+
+export function workspaceSlug(name: string, taken: string[]) {
+  const base =
+    name
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40)
+      .replace(/-+$/, "") || "home";
+  const used = new Set([DEFAULT_WORKSPACE_ID, ...taken]);
+  if (!used.has(base)) return base;
+  for (let n = 2; ; n++) {
+    if (!used.has(`${base}-${n}`)) return `${base}-${n}`;
+  }
+}
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Parses the stored registry; the default workspace is always present and listed first.
+export function sanitizeWorkspaces(input: unknown): Workspace[] {
+  const out: Workspace[] = [];
+  const seen = new Set<string>();
+  for (const raw of Array.isArray(input) ? input : []) {
+    const id = typeof raw?.id === "string" ? raw.id : "";
+    if (!id || seen.has(id) || (id !== DEFAULT_WORKSPACE_ID && !homeIdSchema.safeParse(id).success)) continue;
+    seen.add(id);
+    out.push({
+      id,
+      name: optionalText(raw.name) || (id === DEFAULT_WORKSPACE_ID ? makeDefaultWorkspace().name : id),
+      airtableBaseId: id === DEFAULT_WORKSPACE_ID ? null : optionalText(raw.airtableBaseId),
+      airtableTableId: id === DEFAULT_WORKSPACE_ID ? null : optionalText(raw.airtableTableId),
+      createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+    });
+  }
+  const def = out.find((w) => w.id === DEFAULT_WORKSPACE_ID) || makeDefaultWorkspace();
+  return [def, ...out.filter((w) => w.id !== DEFAULT_WORKSPACE_ID)];
+}
+
+// What the `/api/*` routes need to find this workspace's data (nothing for the default one).
+export function syncTargetFor(ws: Workspace): SyncTarget | undefined {
+  if (ws.id === DEFAULT_WORKSPACE_ID) return undefined;
+  return {
+    home: ws.id,
+    airtableBaseId: ws.airtableBaseId || undefined,
+    airtableTableId: ws.airtableTableId || undefined,
+  };
+}
+
+export function syncTargetParams(ws: Workspace) {
+  const target = syncTargetFor(ws);
+  const params = new URLSearchParams();
+  if (target?.home) params.set("home", target.home);
+  if (target?.airtableBaseId) params.set("base", target.airtableBaseId);
+  if (target?.airtableTableId) params.set("table", target.airtableTableId);
+  return params;
+}
+
+export type CopySource = {
+  items: Item[];
+  options: Option[];
+  subItems: SubItem[];
+  stores: Store[];
+  rooms: Room[];
+  attachments: AttachmentRecord[];
+};
+
+export type CopyResult = CopySource;
+
+// Builds fresh local copies of the chosen items (with their options, sub-items and attachments) and
+// stores for another workspace. Stores and rooms the copies refer to come along unless the target
+// already has one by that name; nothing keeps its remote id, so the copies sync as new records there.
+export function copyForWorkspace(
+  source: CopySource,
+  target: { stores: Store[]; rooms: Room[] },
+  selection: { itemIds?: string[]; storeIds?: string[] },
+  ts: number,
+): CopyResult {
+  const live = <T extends { syncState?: string }>(rows: T[]) => rows.filter((r) => r.syncState !== "deleted");
+  const itemIds = new Set(selection.itemIds || []);
+  const items = live(source.items).filter((it) => itemIds.has(it.id));
+  const options = live(source.options).filter((o) => itemIds.has(o.itemId));
+  const optionIds = new Set(options.map((o) => o.id));
+  const subItems = live(source.subItems).filter((s) => optionIds.has(s.optionId));
+
+  const maps: RekeyMaps = { items: {}, options: {}, subItems: {} };
+  for (const it of items) maps.items![it.id] = newId("i");
+  for (const o of options) maps.options![o.id] = newId("o");
+  for (const s of subItems) maps.subItems![s.id] = newId("si");
+
+  const fresh = { remoteId: null, syncState: "dirty" as const, createdAt: ts, updatedAt: ts };
+  const copy = <T extends { id: string }>(store: "items" | "options" | "subItems", row: T): T => ({
+    ...(rekeyRecord(store, row, maps) as T),
+    ...fresh,
+  });
+
+  const out: CopyResult = {
+    items: items.map((it) => copy("items", it)),
+    options: options.map((o) => {
+      const next = copy("options", o);
+      // Links back to an item that stayed behind would dangle in the other home.
+      if (next.sourceItemId && !maps.items![o.sourceItemId!]) next.sourceItemId = undefined;
+      return next;
+    }),
+    subItems: subItems.map((s) => copy("subItems", s)),
+    stores: [],
+    rooms: [],
+    attachments: [],
+  };
+
+  const targetStores = buildStoreIndex(target.stores);
+  const wantedStores = new Set(
+    [...items.map((it) => it.store), ...options.map((o) => o.store)].map(storeKey).filter(Boolean),
+  );
+  const storeIds = new Set(selection.storeIds || []);
+  let storeSort = live(target.stores).length;
+  for (const st of live(source.stores)) {
+    const key = storeKey(st.name);
+    if (!key || targetStores.has(key) || !(storeIds.has(st.id) || wantedStores.has(key))) continue;
+    targetStores.set(key, st);
+    out.stores.push({ ...st, id: newId("s"), sort: storeSort++, ...fresh });
+  }
+
+  const targetRooms = new Set(live(target.rooms).map((r) => r.id));
+  let roomSort = live(target.rooms).length;
+  for (const roomId of new Set(items.map((it) => it.room))) {
+    if (targetRooms.has(roomId)) continue;
+    const room = source.rooms.find((r) => r.id === roomId);
+    out.rooms.push({ ...(room || { id: roomId, name: roomId, notes: "" }), sort: roomSort++, ...fresh });
+  }
+
+  for (const att of source.attachments) {
+    const parentId = rekeyParentId(att.parentType, att.parentId, maps);
+    if (!parentId) continue;
+    out.attachments.push({ ...att, id: newId("att"), parentId, parentKey: `${att.parentType}:${parentId}`, createdAt: ts, updatedAt: ts });
+  }
+
+  return out;
+}
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useData } from "@/data/DataContext";
+import { useToast } from "@/hooks/use-toast";
+import type { SyncConflict } from "@/lib/domain";
+import { entityLabel, recordHref } from "@/lib/recordLinks";
+import { resolveConflict, resolveRemoteDeletion, type ConflictChoice } from "@/sync/syncNow";
+
+function formatConflictValue(value: unknown) {
+  if (value === null || typeof value === "undefined") return "(empty)";
+  if (typeof value === "string") return value.trim() || "(empty)";
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+export default function Conflicts() {
+  const { syncConflicts, options, subItems, measurements } = useData();
+  const { toast } = useToast();
+  const nav = useNavigate();
+  const [choices, setChoices] = useState<Record<string, Record<string, ConflictChoice>>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const hrefFor = useMemo(() => {
+    return (c: SyncConflict) => recordHref(c.entity, c.recordId, { options, subItems, measurements });
+  }, [options, subItems, measurements]);
+
+  function pick(conflictId: string, field: string, choice: ConflictChoice) {
+    setChoices((prev) => ({ ...prev, [conflictId]: { ...(prev[conflictId] || {}), [field]: choice } }));
+  }
+
+  function pickAll(c: SyncConflict, choice: ConflictChoice) {
+    setChoices((prev) => ({ ...prev, [c.id]: Object.fromEntries(c.fields.map((f) => [f.field, choice])) }));
+  }
+
+  async function onApply(c: SyncConflict) {
+    setBusyId(c.id);
+    try {
+      await resolveConflict(c.id, choices[c.id] || {});
+      setChoices((prev) => {
+        const next = { ...prev };
+        delete next[c.id];
+        return next;
+      });
+      toast({ title: "Conflict resolved", description: `${c.title} will be pushed on the next sync.` });
+    } catch (err) {
+      toast({ title: "Resolve failed", description: err instanceof Error ? err.message : "Unknown error" });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function onSettleDeletion(c: SyncConflict, keep: boolean) {
+    setBusyId(c.id);
+    try {
+      await resolveRemoteDeletion(c.id, keep);
+      toast({
+        title: keep ? "Kept local copy" : "Deleted",
+        description: keep ? `${c.title} will be re-created on the next sync.` : `${c.title} was removed from this device.`,
+      });
+    } catch (err) {
+      toast({ title: "Resolve failed", description: err instanceof Error ? err.message : "Unknown error" });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="text-sm font-semibold">Sync conflicts</div>
+        <div className="mt-1 text-xs text-muted-foreground">
+          These records were edited here and in Airtable since the last sync. Pick a value per field; records stay
+          out of pushes until resolved.
+        </div>
+      </Card>
+
+      {syncConflicts.length ? (
+        <div className="space-y-3">
+          {syncConflicts.map((c) => {
+            const picked = choices[c.id] || {};
+            const href = hrefFor(c);
+            if (c.remoteDeleted) {
+              return (
+                <Card key={c.id} className="p-4">
+                  <div className="min-w-0">
+                    {href ? (
+                      <button type="button" className="truncate text-left text-base font-semibold" onClick={() => nav(href)}>
+                        {c.title}
+                      </button>
+                    ) : (
+                      <div className="truncate text-base font-semibold">{c.title}</div>
+                    )}
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {entityLabel(c.entity)} · deleted in Airtable while you had unpushed edits
+                    </div>
+                  </div>
+                  <div className="mt-3 flex justify-end gap-2">
+                    <Button variant="secondary" onClick={() => onSettleDeletion(c, false)} disabled={busyId === c.id}>
+                      Delete here too
+                    </Button>
+                    <Button onClick={() => onSettleDeletion(c, true)} disabled={busyId === c.id}>
+                      Keep mine
+                    </Button>
+                  </div>
+                </Card>
+              );
+            }
+            return (
+              <Card key={c.id} className="p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    {href ? (
+                      <button type="button" className="truncate text-left text-base font-semibold" onClick={() => nav(href)}>
+                        {c.title}
+                      </button>
+                    ) : (
+                      <div className="truncate text-base font-semibold">{c.title}</div>
+                    )}
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {entityLabel(c.entity)} · detected {new Date(c.detectedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => pickAll(c, "local")}>
+                      All mine
+                    </Button>
+                    <Button size="sm" variant="secondary" onClick={() => pickAll(c, "remote")}>
+                      All theirs
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="mt-3 space-y-3">
+                  {c.fields.map((f) => {
+                    const choice = picked[f.field] || "local";
+                    return (
+                      <div key={f.field} className="rounded-lg border bg-background p-3 text-xs">
+                        <div className="font-medium">{f.field}</div>
+                        <div className="mt-1 text-muted-foreground">Was: {formatConflictValue(f.base)}</div>
+                        <div className="mt-2 grid grid-cols-2 gap-2">
+                          <Button
+                            size="sm"
+                            variant={choice === "local" ? "default" : "outline"}
+                            className="h-auto justify-start whitespace-normal break-words py-2 text-left"
+                            onClick={() => pick(c.id, f.field, "local")}
+                          >
+                            Mine: {formatConflictValue(f.local)}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant={choice === "remote" ? "default" : "outline"}
+                            className="h-auto justify-start whitespace-normal break-words py-2 text-left"
+                            onClick={() => pick(c.id, f.field, "remote")}
+                          >
+                            Theirs: {formatConflictValue(f.remote)}
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="mt-3 flex justify-end">
+                  <Button onClick={() => onApply(c)} disabled={busyId === c.id}>
+                    {busyId === c.id ? "Applying…" : "Apply"}
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground">No sync conflicts.</div>
+        </Card>
+      )}
+    </div>
+  );
+}
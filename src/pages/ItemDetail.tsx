@@ -1,8 +1,15 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { CopyToHome } from "@/components/CopyToHome";
 import { DataSourceBadge } from "@/components/DataSourceBadge";
 import { ReviewStatusBadge } from "@/components/ReviewStatusBadge";
 import { StatusBadge } from "@/components/StatusBadge";
+import { AttachmentKindFilter, AttachmentKindSelect, type AttachmentKindFilterValue } from "@/components/AttachmentKinds";
+import { DocumentList, type DocumentEntry } from "@/components/DocumentList";
+import { ParsedDimensionsNotice } from "@/components/ParsedDimensions";
+import { PriceWatchPanel } from "@/components/PriceWatch";
+import { UploadStatus } from "@/components/UploadStatus";
+import { VariantPicker } from "@/components/VariantPicker";
 import { DragReorderList } from "@/components/reorder/DragReorderList";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -12,13 +19,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useData } from "@/data/DataContext";
+import { ATTACHMENT_KIND_LABELS, attachmentKind, type AttachmentKind } from "@/lib/attachmentKinds";
 import { ITEM_STATUSES, inferItemKind, type DataSource, type Item, type ItemStatus, type Option, type ReviewStatus, type RoomId, type SubItem } from "@/lib/domain";
 import { formatMoneyUSD, nowMs, parseNumberOrNull } from "@/lib/format";
-import { computeItemFitWarnings } from "@/lib/fit";
+import { computeItemFitWarnings, dimensionsFromText, hasDims } from "@/lib/fit";
 import { markProvenanceNeedsReview, markProvenanceVerified } from "@/lib/provenance";
+import { useAttachmentUrls } from "@/hooks/use-attachment-urls";
 import { useToast } from "@/hooks/use-toast";
 import { shareData } from "@/lib/share";
-import { addAttachment, addAttachmentFromBlob, deleteAttachment, listAttachments, type AttachmentRecord } from "@/storage/attachments";
+import { createVariantOptions } from "@/lib/variants";
+import {
+  addAttachment,
+  copyAttachment,
+  deleteAttachment,
+  listAttachments,
+  setAttachmentKind,
+  type AttachmentRecord,
+} from "@/storage/attachments";
 import { buildStoreIndex, computeStoreAllocation, optionTotalWithoutStore, storeKey } from "@/lib/storePricing";
 
 function optionPreDiscountTotalOrNull(o: Option): number | null {
@@ -106,6 +123,10 @@ function isPdfFileLike(file: File): boolean {
   return file.type === "application/pdf" || fileExt(file.name) === "pdf";
 }
 
+function isPhotoAttachment(att: AttachmentRecord) {
+  return attachmentKind(att) === "photo";
+}
+
 const CATEGORY_PRESETS: Record<string, string[]> = {
   Bed: ["size", "type", "headboard", "finish"],
   Mattress: ["size", "firmness", "material", "thickness_in"],
@@ -332,6 +353,8 @@ export default function ItemDetail() {
   const [importQuery, setImportQuery] = useState("");
   const [importSelectedId, setImportSelectedId] = useState<string | null>(null);
   const [importBusy, setImportBusy] = useState(false);
+  const [chosenVariants, setChosenVariants] = useState<string[]>([]);
+  const [variantsBusy, setVariantsBusy] = useState(false);
   const [optionSpecDrafts, setOptionSpecDrafts] = useState<Record<string, { key: string; value: string }>>({});
 
   const filteredOptions = useMemo(() => {
@@ -596,6 +619,21 @@ export default function ItemDetail() {
     await updateItem(item.id, patch);
   }
 
+  // New text re-fills dimensions that are empty or still unconfirmed; typed numbers are left alone.
+  async function updateOptionDimensionsText(opt: Option, text: string | null) {
+    if (text === (opt.dimensionsText || null)) return;
+    const keepTyped = hasDims(opt.dimensions) && !opt.dimensions?.confidence;
+    await updateOption(opt.id, keepTyped ? { dimensionsText: text } : { dimensionsText: text, dimensions: dimensionsFromText(text) });
+  }
+
+  // Typing a different number counts as confirming parsed dimensions; leaving a field unchanged doesn't.
+  async function commitDims() {
+    const next = { wIn: parseNumberOrNull(dimW), dIn: parseNumberOrNull(dimD), hIn: parseNumberOrNull(dimH) };
+    const cur = item.dimensions;
+    if (next.wIn === (cur?.wIn ?? null) && next.dIn === (cur?.dIn ?? null) && next.hIn === (cur?.hIn ?? null)) return;
+    await commit({ dimensions: next });
+  }
+
   function computeDiscountAmount(priceValue: number | null, type: "amount" | "percent", value: number | null): number | null {
     if (value === null || value <= 0) return null;
     if (type === "amount") return value;
@@ -615,7 +653,7 @@ export default function ItemDetail() {
         : priceValue === null
           ? null
           : Math.max(0, priceValue - itemDiscountAmount);
-  const inheritedItemPhotos = selectedOptionId ? optionAttachments[selectedOptionId] || [] : [];
+  const inheritedItemPhotos = selectedOptionId ? (optionAttachments[selectedOptionId] || []).filter(isPhotoAttachment) : [];
   const inheritedItemPhotoLabel = selectedOption ? `Using photos from "${selectedOption.title}".` : undefined;
 
   async function onSelectStatus(s: ItemStatus) {
@@ -686,7 +724,7 @@ export default function ItemDetail() {
       const itemAtts = itemAttachments.length ? itemAttachments : await listAttachments("item", item.id);
       await Promise.all(
         itemAtts.slice(0, maxAttachments).map((att) =>
-          addAttachmentFromBlob("item", newId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+          copyAttachment(att, "item", newId),
         ),
       );
 
@@ -726,7 +764,7 @@ export default function ItemDetail() {
         const optAtts = optionAttachments[oldId] || (await listAttachments("option", oldId));
         await Promise.all(
           optAtts.slice(0, maxAttachments).map((att) =>
-            addAttachmentFromBlob("option", newOptId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+            copyAttachment(att, "option", newOptId),
           ),
         );
 
@@ -747,7 +785,7 @@ export default function ItemDetail() {
           const subAtts = subItemAttachments[sub.id] || (await listAttachments("subItem", sub.id));
           await Promise.all(
             subAtts.slice(0, maxAttachments).map((att) =>
-              addAttachmentFromBlob("subItem", newSubId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+              copyAttachment(att, "subItem", newSubId),
             ),
           );
         }
@@ -802,7 +840,7 @@ export default function ItemDetail() {
       const optAtts = optionAttachments[opt.id] || (await listAttachments("option", opt.id));
       await Promise.all(
         optAtts.slice(0, maxAttachments).map((att) =>
-          addAttachmentFromBlob("option", newOptId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+          copyAttachment(att, "option", newOptId),
         ),
       );
       const optSubItems = subItemsByOption.get(opt.id) || [];
@@ -822,7 +860,7 @@ export default function ItemDetail() {
         const subAtts = subItemAttachments[sub.id] || (await listAttachments("subItem", sub.id));
         await Promise.all(
           subAtts.slice(0, maxAttachments).map((att) =>
-            addAttachmentFromBlob("subItem", newSubId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+            copyAttachment(att, "subItem", newSubId),
           ),
         );
       }
@@ -889,20 +927,25 @@ export default function ItemDetail() {
     }
   }
 
+  async function convertToPlaceholder(patch: Partial<Item> = {}) {
+    await commit({
+      kind: "placeholder",
+      price: null,
+      discountType: null,
+      discountValue: null,
+      store: null,
+      link: null,
+      ...patch,
+    });
+    setPrice("");
+    setDiscountValue("");
+    setStore("");
+    setLink("");
+  }
+
   async function onConvertToPlaceholder() {
     try {
-      await commit({
-        kind: "placeholder",
-        price: null,
-        discountType: null,
-        discountValue: null,
-        store: null,
-        link: null,
-      });
-      setPrice("");
-      setDiscountValue("");
-      setStore("");
-      setLink("");
+      await convertToPlaceholder();
       toast({ title: "Converted", description: "This item is now a placeholder for variations." });
     } catch (err: any) {
       toast({ title: "Conversion failed", description: err?.message || "Could not convert this item." });
@@ -922,6 +965,34 @@ export default function ItemDetail() {
     }
   }
 
+  // The item's own price, link, store, image and size fill in whatever a variant doesn't list.
+  async function onCreateVariantOptions() {
+    const chosen = (item.variants || []).filter((variant) => chosenVariants.includes(variant.name));
+    if (!chosen.length || variantsBusy) return;
+    setVariantsBusy(true);
+    try {
+      const product = {
+        link: item.link || null,
+        store: item.store || null,
+        price: typeof item.price === "number" ? item.price : null,
+        imageUrl: typeof item.specs?.imageUrl === "string" ? item.specs.imageUrl : null,
+        dimensionsText: typeof item.specs?.dimensionsText === "string" ? item.specs.dimensionsText : null,
+      };
+      if (itemIsPlaceholder) await commit({ variants: null });
+      else await convertToPlaceholder({ variants: null });
+      await createVariantOptions(createOption, item.id, chosen, product);
+      setChosenVariants([]);
+      toast({ title: "Options created", description: `${chosen.length} option(s) from the product page variants.` });
+    } catch (err) {
+      toast({
+        title: "Could not create options",
+        description: err instanceof Error ? err.message : "Failed to create options from variants.",
+      });
+    } finally {
+      setVariantsBusy(false);
+    }
+  }
+
   async function onAddOption() {
     if (!itemIsPlaceholder) {
       toast({ title: "Placeholder required", description: "Convert this item to a placeholder to add variations." });
@@ -976,11 +1047,18 @@ export default function ItemDetail() {
     }
   }
 
-  async function handleAddAttachments(parentType: "item" | "option" | "subItem", parentId: string, files: FileList | null) {
+  async function handleAddAttachments(
+    parentType: "item" | "option" | "subItem",
+    parentId: string,
+    files: FileList | null,
+    kind: AttachmentKind = parentType === "subItem" ? "receipt" : "photo",
+  ) {
     if (!files || !files.length) return;
     const existing =
       parentType === "item" ? itemAttachments : parentType === "option" ? optionAttachments[parentId] || [] : subItemAttachments[parentId] || [];
-    const remainingSlots = 3 - existing.length;
+    // Items and options hold up to 3 photos (documents don't count); sub-items up to 3 files.
+    const capped = parentType === "subItem" || kind === "photo";
+    const remainingSlots = capped ? 3 - (parentType === "subItem" ? existing : existing.filter(isPhotoAttachment)).length : files.length;
     if (remainingSlots <= 0) {
       toast({
         title: "Limit reached",
@@ -989,26 +1067,32 @@ export default function ItemDetail() {
       return;
     }
     const incoming = Array.from(files)
-      .filter((f) => (parentType === "subItem" ? isImageFileLike(f) || isPdfFileLike(f) : isImageFileLike(f)))
+      .filter((f) => (kind === "photo" ? isImageFileLike(f) : isImageFileLike(f) || isPdfFileLike(f)))
       .slice(0, remainingSlots);
     if (!incoming.length) {
       toast({
         title: "Unsupported file",
-        description: parentType === "subItem" ? "Please choose a PDF or image file." : "Please choose an image file.",
+        description: kind === "photo" ? "Please choose an image file." : "Please choose a PDF or image file.",
       });
       return;
     }
+    const label = ATTACHMENT_KIND_LABELS[kind];
     try {
-      await Promise.all(incoming.map((file) => addAttachment(parentType, parentId, file)));
+      await Promise.all(incoming.map((file) => addAttachment(parentType, parentId, file, kind)));
       await refreshAttachments(parentType, parentId);
     } catch (err: any) {
       toast({
-        title: parentType === "subItem" ? "Receipt upload failed" : "Photo upload failed",
-        description: err?.message || (parentType === "subItem" ? "Could not upload receipt." : "Could not upload photo."),
+        title: `${label} not saved`,
+        description: err?.message || `Could not save ${label.toLowerCase()}.`,
       });
     }
   }
 
+  async function handleAttachmentKind(att: AttachmentRecord, kind: AttachmentKind) {
+    await setAttachmentKind(att.id, kind);
+    await refreshAttachments(att.parentType, att.parentId);
+  }
+
   async function handleRemoveAttachment(parentType: "item" | "option" | "subItem", parentId: string, attachmentId: string) {
     await deleteAttachment(attachmentId);
     await refreshAttachments(parentType, parentId);
@@ -1032,6 +1116,22 @@ export default function ItemDetail() {
     }
   }
 
+  // Paperwork from the item, its options and their sub-items, for the "Documents" card.
+  const itemDocuments = useMemo(() => {
+    const itemName = item?.name || "Item";
+    const entries: DocumentEntry[] = itemAttachments.map((attachment) => ({ attachment, context: itemName }));
+    for (const opt of itemOptions) {
+      const optionTitle = opt.title || "Option";
+      for (const attachment of optionAttachments[opt.id] || []) entries.push({ attachment, context: `${itemName} · ${optionTitle}` });
+      for (const sub of subItemsByOption.get(opt.id) || []) {
+        for (const attachment of subItemAttachments[sub.id] || []) {
+          entries.push({ attachment, context: `${itemName} · ${optionTitle} · ${sub.title || "Sub-item"}` });
+        }
+      }
+    }
+    return entries.sort((a, b) => b.attachment.updatedAt - a.attachment.updatedAt);
+  }, [item?.name, itemAttachments, itemOptions, optionAttachments, subItemsByOption, subItemAttachments]);
+
   const optionToOpen = useMemo(() => {
     const sp = new URLSearchParams(loc.search);
     const v = sp.get("option");
@@ -1155,6 +1255,26 @@ export default function ItemDetail() {
           </div>
         ) : (
           <div className="mt-4 space-y-3">
+            {item.variants?.length ? (
+              <div className="space-y-2 rounded-lg border border-amber-200 bg-amber-50/60 p-3">
+                <div>
+                  <div className="text-sm font-medium">Variants on the product page</div>
+                  <div className="text-xs text-muted-foreground">
+                    Choose variants to make this a placeholder with one option each, with its own price, size and image.
+                  </div>
+                </div>
+                <VariantPicker variants={item.variants} selected={chosenVariants} onChange={setChosenVariants} />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => void onCreateVariantOptions()} disabled={!chosenVariants.length || variantsBusy}>
+                    {variantsBusy ? "Creating..." : chosenVariants.length ? `Create ${chosenVariants.length} options` : "Create options"}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => void commit({ variants: null })} disabled={variantsBusy}>
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+
             <div className="space-y-2">
               <div className="text-sm font-medium">One-tap status</div>
               <div className="flex flex-wrap gap-2">
@@ -1537,6 +1657,15 @@ export default function ItemDetail() {
               />
             </div>
           </div>
+          {!placeholderFields ? (
+            <PriceWatchPanel
+              store="items"
+              id={item.id}
+              link={item.link}
+              watch={item.priceWatch}
+              onChange={(priceWatch) => commit({ priceWatch })}
+            />
+          ) : null}
 
           {storeForItem ? (
             <Card className="rounded-2xl border border-border/50 bg-background/70 p-4 shadow-sm">
@@ -1613,15 +1742,7 @@ export default function ItemDetail() {
                 inputMode="decimal"
                 value={dimW}
                 onChange={(e) => setDimW(e.target.value)}
-                onBlur={() =>
-                  void commit({
-                    dimensions: {
-                      wIn: parseNumberOrNull(dimW),
-                      dIn: parseNumberOrNull(dimD),
-                      hIn: parseNumberOrNull(dimH),
-                    },
-                  })
-                }
+                onBlur={() => void commitDims()}
                 placeholder="W"
                 className="h-12 text-base"
               />
@@ -1629,15 +1750,7 @@ export default function ItemDetail() {
                 inputMode="decimal"
                 value={dimD}
                 onChange={(e) => setDimD(e.target.value)}
-                onBlur={() =>
-                  void commit({
-                    dimensions: {
-                      wIn: parseNumberOrNull(dimW),
-                      dIn: parseNumberOrNull(dimD),
-                      hIn: parseNumberOrNull(dimH),
-                    },
-                  })
-                }
+                onBlur={() => void commitDims()}
                 placeholder="D"
                 className="h-12 text-base"
               />
@@ -1645,19 +1758,16 @@ export default function ItemDetail() {
                 inputMode="decimal"
                 value={dimH}
                 onChange={(e) => setDimH(e.target.value)}
-                onBlur={() =>
-                  void commit({
-                    dimensions: {
-                      wIn: parseNumberOrNull(dimW),
-                      dIn: parseNumberOrNull(dimD),
-                      hIn: parseNumberOrNull(dimH),
-                    },
-                  })
-                }
+                onBlur={() => void commitDims()}
                 placeholder="H"
                 className="h-12 text-base"
               />
             </div>
+            <ParsedDimensionsNotice
+              dimensions={item.dimensions}
+              sourceText={typeof item.specs?.dimensionsText === "string" ? item.specs.dimensionsText : null}
+              onConfirm={(dimensions) => void commit({ dimensions })}
+            />
           </div>
 
           <div className="space-y-2">
@@ -1786,8 +1896,9 @@ export default function ItemDetail() {
             attachments={itemAttachments}
             inheritedAttachments={inheritedItemPhotos}
             inheritedLabel={inheritedItemPhotoLabel}
-            onAdd={(files) => void handleAddAttachments("item", item.id, files)}
+            onAdd={(files, kind) => void handleAddAttachments("item", item.id, files, kind)}
             onRemove={(attId) => void handleRemoveAttachment("item", item.id, attId)}
+            onKindChange={(att, kind) => void handleAttachmentKind(att, kind)}
           />
         </div>
         )}
@@ -2154,6 +2265,13 @@ export default function ItemDetail() {
                                 onBlur={(e) => void updateOption(o.id, { link: e.target.value.trim() || null })}
                               />
                             </div>
+                            <PriceWatchPanel
+                              store="options"
+                              id={o.id}
+                              link={o.link}
+                              watch={o.priceWatch}
+                              onChange={(priceWatch) => updateOption(o.id, { priceWatch })}
+                            />
 
                             <div className="grid grid-cols-2 gap-3">
                               <div className="space-y-1.5">
@@ -2448,6 +2566,7 @@ export default function ItemDetail() {
                                           attachments={subItemAttachments[sub.id] || []}
                                           onAdd={(files) => void handleAddAttachments("subItem", sub.id, files)}
                                           onRemove={(attId) => void handleRemoveAttachment("subItem", sub.id, attId)}
+                                          onKindChange={(att, kind) => void handleAttachmentKind(att, kind)}
                                         />
                                       </Card>
                                     );
@@ -2462,11 +2581,13 @@ export default function ItemDetail() {
                               <Label>Dimensions (in)</Label>
                               <div className="grid grid-cols-3 gap-3">
                                 <Input
+                                  key={`${o.id}-wIn-${o.dimensions?.wIn ?? ""}`}
                                   inputMode="decimal"
                                   defaultValue={o.dimensions?.wIn === null || o.dimensions?.wIn === undefined ? "" : String(o.dimensions?.wIn)}
                                   placeholder="W"
                                   className="h-11 text-base"
                                   onBlur={(e) => {
+                                    if (parseNumberOrNull(e.target.value) === (o.dimensions?.wIn ?? null)) return;
                                     const next = normalizeDimensionsInput({
                                       wIn: parseNumberOrNull(e.target.value),
                                       dIn: o.dimensions?.dIn ?? null,
@@ -2476,11 +2597,13 @@ export default function ItemDetail() {
                                   }}
                                 />
                                 <Input
+                                  key={`${o.id}-dIn-${o.dimensions?.dIn ?? ""}`}
                                   inputMode="decimal"
                                   defaultValue={o.dimensions?.dIn === null || o.dimensions?.dIn === undefined ? "" : String(o.dimensions?.dIn)}
                                   placeholder="D"
                                   className="h-11 text-base"
                                   onBlur={(e) => {
+                                    if (parseNumberOrNull(e.target.value) === (o.dimensions?.dIn ?? null)) return;
                                     const next = normalizeDimensionsInput({
                                       wIn: o.dimensions?.wIn ?? null,
                                       dIn: parseNumberOrNull(e.target.value),
@@ -2490,11 +2613,13 @@ export default function ItemDetail() {
                                   }}
                                 />
                                 <Input
+                                  key={`${o.id}-hIn-${o.dimensions?.hIn ?? ""}`}
                                   inputMode="decimal"
                                   defaultValue={o.dimensions?.hIn === null || o.dimensions?.hIn === undefined ? "" : String(o.dimensions?.hIn)}
                                   placeholder="H"
                                   className="h-11 text-base"
                                   onBlur={(e) => {
+                                    if (parseNumberOrNull(e.target.value) === (o.dimensions?.hIn ?? null)) return;
                                     const next = normalizeDimensionsInput({
                                       wIn: o.dimensions?.wIn ?? null,
                                       dIn: o.dimensions?.dIn ?? null,
@@ -2512,7 +2637,12 @@ export default function ItemDetail() {
                                 defaultValue={o.dimensionsText || ""}
                                 className="h-11 text-base"
                                 placeholder='e.g. "90x39x34 in"'
-                                onBlur={(e) => void updateOption(o.id, { dimensionsText: e.target.value.trim() || null })}
+                                onBlur={(e) => void updateOptionDimensionsText(o, e.target.value.trim() || null)}
+                              />
+                              <ParsedDimensionsNotice
+                                dimensions={o.dimensions}
+                                sourceText={o.dimensionsText}
+                                onConfirm={(dimensions) => void updateOption(o.id, { dimensions })}
                               />
                             </div>
 
@@ -2603,8 +2733,9 @@ export default function ItemDetail() {
                             <AttachmentGallery
                               label="Option photos"
                               attachments={optionAttachments[o.id] || []}
-                              onAdd={(files) => void handleAddAttachments("option", o.id, files)}
+                              onAdd={(files, kind) => void handleAddAttachments("option", o.id, files, kind)}
                               onRemove={(attId) => void handleRemoveAttachment("option", o.id, attId)}
+                              onKindChange={(att, kind) => void handleAttachmentKind(att, kind)}
                             />
                           </div>
                         ) : null}
@@ -2654,6 +2785,16 @@ export default function ItemDetail() {
         ) : null}
       </Card>
 
+      <Card className="p-4">
+        <div className="text-sm font-semibold">Documents</div>
+        <div className="mb-3 text-xs text-muted-foreground">Receipts, invoices and warranties for this item, its options and sub-items.</div>
+        <DocumentList
+          entries={itemDocuments}
+          emptyText="No documents yet. Add a receipt to a sub-item, or add a file as an invoice or warranty."
+          onKindChange={(att, kind) => void handleAttachmentKind(att, kind)}
+        />
+      </Card>
+
       <Card className="p-4">
         <div className="text-sm font-semibold">Relationships</div>
         <div className="mt-2 space-y-1 text-sm text-muted-foreground">
@@ -2670,6 +2811,7 @@ export default function ItemDetail() {
           </div>
           <div>Child options: {childOptionsLabel}</div>
         </div>
+        <CopyToHome itemIds={[item.id]} label="Copy this item (with its options) to" className="mt-3 border-t pt-3" />
       </Card>
 
       <Dialog
@@ -2824,33 +2966,17 @@ function SubItemReceipts({
   attachments,
   onAdd,
   onRemove,
+  onKindChange,
 }: {
   attachments: AttachmentRecord[];
   onAdd: (files: FileList | null) => void;
   onRemove: (id: string) => void;
+  onKindChange: (att: AttachmentRecord, kind: AttachmentKind) => void;
 }) {
   const fileRef = useRef<HTMLInputElement | null>(null);
-  const [urls, setUrls] = useState<Record<string, string>>({});
+  const urls = useAttachmentUrls(attachments);
   const max = 3;
 
-  useEffect(() => {
-    const next: Record<string, string> = {};
-    const toRevoke: string[] = [];
-    for (const att of attachments) {
-      if (att.sourceUrl) {
-        next[att.id] = att.sourceUrl;
-        continue;
-      }
-      const url = URL.createObjectURL(att.blob);
-      next[att.id] = url;
-      toRevoke.push(url);
-    }
-    setUrls(next);
-    return () => {
-      toRevoke.forEach((url) => URL.revokeObjectURL(url));
-    };
-  }, [attachments]);
-
   return (
     <div className="mt-3 space-y-2">
       <div className="flex items-center justify-between gap-2">
@@ -2877,8 +3003,10 @@ function SubItemReceipts({
               <div className="min-w-0">
                 <div className="truncate font-medium">{att.name || "Receipt"}</div>
                 <div className="text-[10px] text-muted-foreground">{att.mime || "file"}</div>
+                <UploadStatus attachment={att} className="bg-transparent px-0" />
               </div>
               <div className="flex items-center gap-2">
+                <AttachmentKindSelect value={attachmentKind(att)} onChange={(kind) => onKindChange(att, kind)} />
                 {urls[att.id] ? (
                   <a href={urls[att.id]} target="_blank" rel="noreferrer" className="text-primary underline">
                     View
@@ -2906,87 +3034,92 @@ function AttachmentGallery({
   inheritedLabel,
   onAdd,
   onRemove,
+  onKindChange,
 }: {
   label: string;
   attachments: AttachmentRecord[];
   inheritedAttachments?: AttachmentRecord[];
   inheritedLabel?: string;
-  onAdd: (files: FileList | null) => void;
+  onAdd: (files: FileList | null, kind: AttachmentKind) => void;
   onRemove: (id: string) => void;
+  onKindChange: (att: AttachmentRecord, kind: AttachmentKind) => void;
 }) {
   const fileRef = useRef<HTMLInputElement | null>(null);
-  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [addKind, setAddKind] = useState<AttachmentKind>("photo");
+  const [filter, setFilter] = useState<AttachmentKindFilterValue>("all");
   const max = 3;
-  const usingInherited = attachments.length === 0 && Boolean(inheritedAttachments && inheritedAttachments.length);
-  const displayAttachments = usingInherited ? inheritedAttachments || [] : attachments;
-
-  useEffect(() => {
-    const next: Record<string, string> = {};
-    const toRevoke: string[] = [];
-    for (const att of displayAttachments) {
-      if (att.sourceUrl) {
-        next[att.id] = att.sourceUrl;
-        continue;
-      }
-      const url = URL.createObjectURL(att.blob);
-      next[att.id] = url;
-      toRevoke.push(url);
-    }
-    setUrls(next);
-    return () => {
-      toRevoke.forEach((url) => URL.revokeObjectURL(url));
-    };
-  }, [displayAttachments]);
+  const photoCount = attachments.filter(isPhotoAttachment).length;
+  const usingInherited = photoCount === 0 && Boolean(inheritedAttachments && inheritedAttachments.length);
+  const shownAttachments = filter === "all" ? attachments : attachments.filter((att) => attachmentKind(att) === filter);
+  const urls = useAttachmentUrls(usingInherited ? [...attachments, ...(inheritedAttachments || [])] : attachments);
 
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between gap-2">
         <Label>{label}</Label>
-        <Button
-          type="button"
-          size="sm"
-          variant="secondary"
-          onClick={() => fileRef.current?.click()}
-          disabled={attachments.length >= max}
-        >
-          Add photo
-        </Button>
+        <div className="flex items-center gap-2">
+          <AttachmentKindSelect value={addKind} onChange={setAddKind} label="Add as" />
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            onClick={() => fileRef.current?.click()}
+            disabled={addKind === "photo" && photoCount >= max}
+          >
+            Add {ATTACHMENT_KIND_LABELS[addKind].toLowerCase()}
+          </Button>
+        </div>
       </div>
       <input
         ref={fileRef}
         type="file"
-        accept="image/*"
+        accept={addKind === "photo" ? "image/*" : "application/pdf,image/*"}
         multiple
         className="hidden"
         onChange={(e) => {
-          onAdd(e.target.files);
+          onAdd(e.target.files, addKind);
           e.target.value = "";
         }}
       />
-      {attachments.length ? (
+      <AttachmentKindFilter attachments={attachments} value={filter} onChange={setFilter} />
+      {shownAttachments.length ? (
         <div className="flex flex-wrap gap-2">
-          {attachments.map((att) => (
-            <div key={att.id} className="relative h-24 w-24 overflow-hidden rounded-md border bg-background">
-              {urls[att.id] ? (
-                <img src={urls[att.id]} alt={att.name || "Attachment"} className="h-full w-full object-cover" />
-              ) : (
-                <div className="flex h-full w-full items-center justify-center text-xs text-muted-foreground">Loading</div>
-              )}
-              <button
-                type="button"
-                onClick={() => onRemove(att.id)}
-                className="absolute right-1 top-1 rounded-full border bg-background px-1.5 text-xs text-muted-foreground hover:text-foreground"
-                aria-label="Remove photo"
-              >
-                &times;
-              </button>
+          {shownAttachments.map((att) => (
+            <div key={att.id} className="w-24 space-y-1">
+              <div className="relative h-24 w-24 overflow-hidden rounded-md border bg-background">
+                {att.mime && !att.mime.startsWith("image/") ? (
+                  <a
+                    href={urls[att.id]}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex h-full w-full items-center justify-center break-all p-2 text-center text-[10px] text-primary underline"
+                  >
+                    {att.name || ATTACHMENT_KIND_LABELS[attachmentKind(att)]}
+                  </a>
+                ) : urls[att.id] ? (
+                  <img src={urls[att.id]} alt={att.name || "Attachment"} className="h-full w-full object-cover" />
+                ) : (
+                  <div className="flex h-full w-full items-center justify-center text-xs text-muted-foreground">Loading</div>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onRemove(att.id)}
+                  className="absolute right-1 top-1 rounded-full border bg-background px-1.5 text-xs text-muted-foreground hover:text-foreground"
+                  aria-label="Remove attachment"
+                >
+                  &times;
+                </button>
+                <UploadStatus attachment={att} className="absolute inset-x-0 bottom-0" />
+              </div>
+              <AttachmentKindSelect value={attachmentKind(att)} onChange={(kind) => onKindChange(att, kind)} className="w-full" />
             </div>
           ))}
         </div>
-      ) : usingInherited ? (
+      ) : null}
+      {usingInherited && (filter === "all" || filter === "photo") ? (
         <div className="space-y-2">
           <div className="flex flex-wrap gap-2">
-            {displayAttachments.slice(0, max).map((att) => (
+            {(inheritedAttachments || []).slice(0, max).map((att) => (
               <div key={att.id} className="relative h-24 w-24 overflow-hidden rounded-md border bg-background">
                 {urls[att.id] ? (
                   <img src={urls[att.id]} alt={att.name || "Attachment"} className="h-full w-full object-cover" />
@@ -2998,10 +3131,10 @@ function AttachmentGallery({
           </div>
           <div className="text-xs text-muted-foreground">{inheritedLabel || "Showing photos from the selected option."}</div>
         </div>
-      ) : (
+      ) : !attachments.length ? (
         <div className="text-xs text-muted-foreground">No photos yet.</div>
-      )}
-      <div className="text-xs text-muted-foreground">Up to {max} photos.</div>
+      ) : null}
+      <div className="text-xs text-muted-foreground">Up to {max} photos, plus any receipts, invoices, warranties or spec sheets.</div>
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { Link, useNavigate } from "react-router-dom";
 import { DataSourceBadge } from "@/components/DataSourceBadge";
 import { ReviewStatusBadge } from "@/components/ReviewStatusBadge";
 import { StatusBadge } from "@/components/StatusBadge";
+import { UploadStatus } from "@/components/UploadStatus";
 import { DragReorderList } from "@/components/reorder/DragReorderList";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Button } from "@/components/ui/button";
@@ -11,6 +12,7 @@ import { Collapsible, CollapsibleContent } from "@/components/ui/collapsible";
 import { Input } from "@/components/ui/input";
 import { useData } from "@/data/DataContext";
 import { ITEM_STATUSES, inferItemKind, type Item, type ItemStatus, type Option, type RoomId } from "@/lib/domain";
+import { attachmentKind } from "@/lib/attachmentKinds";
 import { formatMoneyUSD, parseNumberOrNull } from "@/lib/format";
 import {
   buildStoreIndex,
@@ -18,8 +20,9 @@ import {
   optionTotalWithoutStore,
   storeKey,
 } from "@/lib/storePricing";
+import { useAttachmentUrls } from "@/hooks/use-attachment-urls";
 import { useToast } from "@/hooks/use-toast";
-import { addAttachment, addAttachmentFromBlob, deleteAttachment, listAttachments, type AttachmentRecord } from "@/storage/attachments";
+import { addAttachment, copyAttachment, deleteAttachment, listAttachments, type AttachmentRecord } from "@/storage/attachments";
 import { Badge } from "@/components/ui/badge";
 import { ChevronDown } from "lucide-react";
 
@@ -52,6 +55,12 @@ const DEFAULT_ITEMS_FILTERS: ItemsFiltersState = {
   maxPrice: "",
 };
 
+// List thumbnails show photos only; receipts and other documents live on the item page.
+async function listPhotoAttachments(parentType: "item" | "option", parentId: string) {
+  const rows = await listAttachments(parentType, parentId);
+  return rows.filter((att) => attachmentKind(att) === "photo");
+}
+
 function loadItemsUiState(): ItemsUiState {
   try {
     if (typeof window === "undefined") return { openRooms: [], openItemOptions: {} };
@@ -256,7 +265,7 @@ export default function Items() {
       const itemAtts = await listAttachments("item", it.id);
       await Promise.all(
         itemAtts.slice(0, maxAttachments).map((att) =>
-          addAttachmentFromBlob("item", newId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+          copyAttachment(att, "item", newId),
         ),
       );
 
@@ -297,7 +306,7 @@ export default function Items() {
         const optAtts = await listAttachments("option", oldId);
         await Promise.all(
           optAtts.slice(0, maxAttachments).map((att) =>
-            addAttachmentFromBlob("option", newOptId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+            copyAttachment(att, "option", newOptId),
           ),
         );
 
@@ -318,7 +327,7 @@ export default function Items() {
           const subAtts = await listAttachments("subItem", sub.id);
           await Promise.all(
             subAtts.slice(0, maxAttachments).map((att) =>
-              addAttachmentFromBlob("subItem", newSubId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+              copyAttachment(att, "subItem", newSubId),
             ),
           );
         }
@@ -360,7 +369,7 @@ export default function Items() {
       const optAtts = await listAttachments("option", option.id);
       await Promise.all(
         optAtts.slice(0, maxAttachments).map((att) =>
-          addAttachmentFromBlob("option", newOptId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+          copyAttachment(att, "option", newOptId),
         ),
       );
       const optionSubItems = subItemsByOption.get(option.id) || [];
@@ -380,7 +389,7 @@ export default function Items() {
         const subAtts = await listAttachments("subItem", sub.id);
         await Promise.all(
           subAtts.slice(0, maxAttachments).map((att) =>
-            addAttachmentFromBlob("subItem", newSubId, att.blob, { name: att.name ?? null, sourceUrl: att.sourceUrl ?? null }),
+            copyAttachment(att, "subItem", newSubId),
           ),
         );
       }
@@ -1217,15 +1226,15 @@ export default function Items() {
 function ItemPhotoStrip({ itemId, fallbackOptionId }: { itemId: string; fallbackOptionId?: string | null }) {
   const { toast } = useToast();
   const [attachments, setAttachments] = useState<AttachmentRecord[]>([]);
-  const [urls, setUrls] = useState<Record<string, string>>({});
+  const urls = useAttachmentUrls(attachments, { thumbnails: true });
   const [fallbackAttachments, setFallbackAttachments] = useState<AttachmentRecord[]>([]);
-  const [fallbackUrls, setFallbackUrls] = useState<Record<string, string>>({});
+  const fallbackUrls = useAttachmentUrls(fallbackAttachments, { thumbnails: true });
   const max = 3;
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     let active = true;
-    listAttachments("item", itemId)
+    listPhotoAttachments("item", itemId)
       .then((rows) => {
         if (active) setAttachments(rows);
       })
@@ -1243,7 +1252,7 @@ function ItemPhotoStrip({ itemId, fallbackOptionId }: { itemId: string; fallback
       return;
     }
     let active = true;
-    listAttachments("option", fallbackOptionId)
+    listPhotoAttachments("option", fallbackOptionId)
       .then((rows) => {
         if (active) setFallbackAttachments(rows);
       })
@@ -1255,42 +1264,6 @@ function ItemPhotoStrip({ itemId, fallbackOptionId }: { itemId: string; fallback
     };
   }, [fallbackOptionId]);
 
-  useEffect(() => {
-    const next: Record<string, string> = {};
-    const toRevoke: string[] = [];
-    for (const att of attachments) {
-      if (att.sourceUrl) {
-        next[att.id] = att.sourceUrl;
-        continue;
-      }
-      const url = URL.createObjectURL(att.blob);
-      next[att.id] = url;
-      toRevoke.push(url);
-    }
-    setUrls(next);
-    return () => {
-      toRevoke.forEach((url) => URL.revokeObjectURL(url));
-    };
-  }, [attachments]);
-
-  useEffect(() => {
-    const next: Record<string, string> = {};
-    const toRevoke: string[] = [];
-    for (const att of fallbackAttachments) {
-      if (att.sourceUrl) {
-        next[att.id] = att.sourceUrl;
-        continue;
-      }
-      const url = URL.createObjectURL(att.blob);
-      next[att.id] = url;
-      toRevoke.push(url);
-    }
-    setFallbackUrls(next);
-    return () => {
-      toRevoke.forEach((url) => URL.revokeObjectURL(url));
-    };
-  }, [fallbackAttachments]);
-
   async function onRemove(attId: string) {
     await deleteAttachment(attId);
     setAttachments((cur) => cur.filter((att) => att.id !== attId));
@@ -1310,10 +1283,10 @@ function ItemPhotoStrip({ itemId, fallbackOptionId }: { itemId: string; fallback
     }
     try {
       await Promise.all(incoming.map((file) => addAttachment("item", itemId, file)));
-      const rows = await listAttachments("item", itemId);
+      const rows = await listPhotoAttachments("item", itemId);
       setAttachments(rows);
     } catch (err: any) {
-      toast({ title: "Photo upload failed", description: err?.message || "Could not upload photo." });
+      toast({ title: "Photo not saved", description: err?.message || "Could not save photo." });
     }
   }
 
@@ -1351,6 +1324,7 @@ function ItemPhotoStrip({ itemId, fallbackOptionId }: { itemId: string; fallback
                   &times;
                 </button>
               ) : null}
+              {!usingFallback ? <UploadStatus attachment={displayAttachments[0]} className="absolute inset-x-0 bottom-0" /> : null}
             </div>
           )}
           {/* Smaller thumbnails for others */}
@@ -1377,6 +1351,7 @@ function ItemPhotoStrip({ itemId, fallbackOptionId }: { itemId: string; fallback
                       &times;
                     </button>
                   ) : null}
+                  {!usingFallback ? <UploadStatus attachment={att} compact className="absolute bottom-0.5 left-0.5" /> : null}
                 </div>
               ))}
             </div>
@@ -1415,13 +1390,13 @@ function ItemPhotoStrip({ itemId, fallbackOptionId }: { itemId: string; fallback
 function OptionPhotoStrip({ optionId }: { optionId: string }) {
   const { toast } = useToast();
   const [attachments, setAttachments] = useState<AttachmentRecord[]>([]);
-  const [urls, setUrls] = useState<Record<string, string>>({});
+  const urls = useAttachmentUrls(attachments, { thumbnails: true });
   const max = 3;
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     let active = true;
-    listAttachments("option", optionId)
+    listPhotoAttachments("option", optionId)
       .then((rows) => {
         if (active) setAttachments(rows);
       })
@@ -1433,24 +1408,6 @@ function OptionPhotoStrip({ optionId }: { optionId: string }) {
     };
   }, [optionId]);
 
-  useEffect(() => {
-    const next: Record<string, string> = {};
-    const toRevoke: string[] = [];
-    for (const att of attachments) {
-      if (att.sourceUrl) {
-        next[att.id] = att.sourceUrl;
-        continue;
-      }
-      const url = URL.createObjectURL(att.blob);
-      next[att.id] = url;
-      toRevoke.push(url);
-    }
-    setUrls(next);
-    return () => {
-      toRevoke.forEach((url) => URL.revokeObjectURL(url));
-    };
-  }, [attachments]);
-
   async function onRemove(attId: string) {
     await deleteAttachment(attId);
     setAttachments((cur) => cur.filter((att) => att.id !== attId));
@@ -1470,10 +1427,10 @@ function OptionPhotoStrip({ optionId }: { optionId: string }) {
     }
     try {
       await Promise.all(incoming.map((file) => addAttachment("option", optionId, file)));
-      const rows = await listAttachments("option", optionId);
+      const rows = await listPhotoAttachments("option", optionId);
       setAttachments(rows);
     } catch (err: any) {
-      toast({ title: "Photo upload failed", description: err?.message || "Could not upload photo." });
+      toast({ title: "Photo not saved", description: err?.message || "Could not save photo." });
     }
   }
 
@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useData } from "@/data/DataContext";
+import { useToast } from "@/hooks/use-toast";
 import { type DataSource, type Measurement, type ReviewStatus, type RoomId } from "@/lib/domain";
 import { cmToInches, formatInAndCm, inchesToCm, nowMs, parseNumberOrNull } from "@/lib/format";
 import { computeItemFitWarnings, formatDimsCompact, formatRectInAndCm, getItemDimsIn, pickRoomGlobalDims } from "@/lib/fit";
@@ -20,11 +21,13 @@ import {
   prettyPlannerKey,
   suggestCategoryFromTags,
 } from "@/lib/planner";
+import { prefetchRoomAttachments } from "@/storage/attachmentCache";
 
 export default function RoomDetail() {
   const { id } = useParams();
   const nav = useNavigate();
   const loc = useLocation();
+  const { toast } = useToast();
   const {
     planner,
     rooms,
@@ -67,9 +70,34 @@ export default function RoomDetail() {
   const [reorderMode, setReorderMode] = useState(false);
   const [plannerOpen, setPlannerOpen] = useState(false);
   const [openMeasurements, setOpenMeasurements] = useState<Record<string, boolean>>({});
+  const [savingOffline, setSavingOffline] = useState(false);
 
   const labelRef = useRef<HTMLInputElement | null>(null);
 
+  async function savePhotosOffline() {
+    if (!roomId) return;
+    if (!navigator.onLine) {
+      toast({ title: "Offline", description: "Connect to download this room's photos and receipts." });
+      return;
+    }
+    setSavingOffline(true);
+    try {
+      const res = await prefetchRoomAttachments(roomId);
+      const parts = [`${res.downloaded} downloaded`, `${res.alreadyCached} already on this device`];
+      if (res.failed) parts.push(`${res.failed} failed`);
+      toast({
+        title: res.budgetReached ? "Storage budget reached" : "Saved for offline",
+        description: res.budgetReached
+          ? `${parts.join(", ")}. Raise the budget in Settings to keep the rest.`
+          : res.total
+            ? parts.join(", ")
+            : "No photos or receipts in this room yet.",
+      });
+    } finally {
+      setSavingOffline(false);
+    }
+  }
+
   async function saveNotes() {
     if (!roomId) return;
     await updateRoom(roomId, { notes: notes });
@@ -689,9 +717,18 @@ export default function RoomDetail() {
       </Card>
 
       <Card className="p-4">
-        <div className="text-sm font-semibold">Items & fit</div>
-        <div className="mt-1 text-xs text-muted-foreground">
-          Items are checked against room/category measurements when dimensions are available.
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold">Items & fit</div>
+            <div className="mt-1 text-xs text-muted-foreground">
+              Items are checked against room/category measurements when dimensions are available.
+            </div>
+          </div>
+          {itemsInRoom.length ? (
+            <Button size="sm" variant="secondary" onClick={() => void savePhotosOffline()} disabled={savingOffline}>
+              {savingOffline ? "Saving..." : "Save photos offline"}
+            </Button>
+          ) : null}
         </div>
         <div className="mt-3 space-y-2">
           {itemsInRoom.length ? (
@@ -1,4 +1,14 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  healthResponseSchema,
+  s3JsonGetResponseSchema,
+  s3JsonListResponseSchema,
+  s3JsonPutResponseSchema,
+  type HealthResponse,
+  type S3JsonPutBody,
+  type S3Snapshot,
+} from "../../api/_lib/contracts";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -7,11 +17,23 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useData } from "@/data/DataContext";
 import { useToast } from "@/hooks/use-toast";
-import { pullNow, pushNow } from "@/sync/syncNow";
+import { AttachmentStorageCard } from "@/components/AttachmentStorageCard";
+import { DevicesCard } from "@/components/DevicesCard";
+import { HomesCard } from "@/components/HomesCard";
+import { PriceWatchCard } from "@/components/PriceWatchCard";
+import { UploadCleanupCard } from "@/components/UploadCleanupCard";
+import { PushPreviewDialog } from "@/components/PushPreviewDialog";
+import { previewPush, pullNow, pushNow, type PushPlan } from "@/sync/syncNow";
+import { getAutoSyncSettings, setAutoSyncSettings, type AutoSyncSettings } from "@/sync/autoSync";
+import { readApiResult } from "@/sync/api";
+import { apiFetch } from "@/sync/auth";
 import type { RoomId } from "@/lib/domain";
+import { DEFAULT_WORKSPACE_ID, syncTargetFor, syncTargetParams } from "@/lib/workspaces";
+import { getActiveWorkspace } from "@/storage/workspaces";
 import { normalizeRoomName } from "@/lib/rooms";
 
-type Health = { ok: boolean; airtableConfigured: boolean; message?: string };
+// A failed check is shown in place of the health response.
+type Health = Omit<HealthResponse, "ok" | "syncConfigured" | "env"> & { ok: boolean; syncConfigured?: boolean };
 
 const SHOPPING_DATA_JSON = import.meta.glob("../../Shopping Data/*.json", {
   query: "?raw",
@@ -41,10 +63,17 @@ function formatExportStamp(ts = new Date()) {
 
 function makeExportFilename(suffix?: string) {
   const stamp = formatExportStamp();
-  const base = `furniture_tracker_export_${stamp}`;
+  const ws = getActiveWorkspace();
+  const base = ws.id === DEFAULT_WORKSPACE_ID ? `furniture_tracker_export_${stamp}` : `furniture_tracker_${ws.id}_export_${stamp}`;
   return suffix ? `${base}_${suffix}.json` : `${base}.json`;
 }
 
+// Backups of homes other than the default one live under their own prefix on S3.
+function backupQuery(extra: Record<string, string>) {
+  const home = syncTargetFor(getActiveWorkspace())?.home;
+  return new URLSearchParams({ ...(home ? { home } : {}), ...extra }).toString();
+}
+
 function parseMarkdownTasks(text: string, rooms: Array<{ id: RoomId; name: string }>, fallbackRoom: RoomId) {
   const items: Array<{ title: string; room: RoomId; priority?: number; status: string; category?: string }> = [];
   const roomTags = new Map<string, RoomId>();
@@ -120,6 +149,7 @@ function formatPushWarnings(
 
 export default function Settings() {
   const { toast } = useToast();
+  const nav = useNavigate();
   const {
     home,
     planner,
@@ -129,6 +159,7 @@ export default function Settings() {
     lastSyncSummary,
     lastPullAt,
     dirtyCounts,
+    syncConflicts,
     saveHome,
     savePlanner,
     setUnitPreference,
@@ -147,10 +178,14 @@ export default function Settings() {
   const [pulling, setPulling] = useState(false);
   const [pushing, setPushing] = useState(false);
   const [resetting, setResetting] = useState(false);
+  const [previewing, setPreviewing] = useState<"commit" | "reset" | null>(null);
+  const [pushPreview, setPushPreview] = useState<{ mode: "commit" | "reset"; plan: PushPlan } | null>(null);
+  const [autoSync, setAutoSync] = useState<AutoSyncSettings | null>(null);
+  const [autoSyncMinutes, setAutoSyncMinutes] = useState("");
   const [s3Pushing, setS3Pushing] = useState(false);
   const [s3Pulling, setS3Pulling] = useState(false);
   const [s3LastKey, setS3LastKey] = useState<string | null>(null);
-  const [s3Snapshots, setS3Snapshots] = useState<Array<{ key: string; name: string | null; exportedAt: string | null; filename: string | null }>>([]);
+  const [s3Snapshots, setS3Snapshots] = useState<S3Snapshot[]>([]);
   const [s3SnapshotsLoading, setS3SnapshotsLoading] = useState(false);
 
   const [plannerText, setPlannerText] = useState("");
@@ -169,26 +204,17 @@ export default function Settings() {
   useEffect(() => {
     void runHealth();
     void loadS3Snapshots();
+    void getAutoSyncSettings().then((next) => {
+      setAutoSync(next);
+      setAutoSyncMinutes(String(next.intervalMinutes));
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   async function runHealth() {
     setHealthLoading(true);
     try {
-      const res = await fetch("/api/health");
-      const text = await res.text();
-      let json: Health | null = null;
-      try {
-        json = JSON.parse(text) as Health;
-      } catch {
-        json = null;
-      }
-      if (!res.ok) {
-        throw new Error(json?.message || `/api/health returned ${res.status} ${res.statusText}`);
-      }
-      if (!json || typeof json.ok !== "boolean") {
-        throw new Error("Invalid /api/health response");
-      }
+      const json = await readApiResult(await fetch(`/api/health?${syncTargetParams(getActiveWorkspace())}`), healthResponseSchema, "/api/health");
       setHealth(json);
     } catch (err: any) {
       setHealth({ ok: false, airtableConfigured: false, message: err?.message || "Failed to reach /api/health" });
@@ -197,12 +223,24 @@ export default function Settings() {
     }
   }
 
-  async function onPullNow() {
+  async function onSaveAutoSync(next: AutoSyncSettings) {
+    try {
+      await setAutoSyncSettings(next);
+      const saved = await getAutoSyncSettings();
+      setAutoSync(saved);
+      setAutoSyncMinutes(String(saved.intervalMinutes));
+    } catch (err: any) {
+      toast({ title: "Save failed", description: err?.message || "Unknown error" });
+    }
+  }
+
+  async function onPullNow(full = false) {
+    if (full && !confirm("Re-download every Airtable record? Use this if this device looks out of date.")) return null;
     setPulling(true);
     try {
-      const res = await pullNow();
-      const msg = `Pulled: ${formatSyncCounts(res.pull)}`;
-      toast({ title: "Pulled", description: msg });
+      const res = await pullNow({ full });
+      const msg = `Pulled${res.delta ? " changes" : " everything"}: ${formatSyncCounts(res.pull)}`;
+      toast({ title: full ? "Full resync done" : "Pulled", description: msg });
       console.info("[Airtable] Pull", msg, res);
       void runHealth();
       return res;
@@ -215,6 +253,25 @@ export default function Settings() {
     }
   }
 
+  async function onPreviewPush(mode: "commit" | "reset") {
+    setPreviewing(mode);
+    try {
+      setPushPreview({ mode, plan: await previewPush(mode) });
+    } catch (err: any) {
+      toast({ title: "Preview failed", description: err?.message || "Unknown error" });
+      console.error("[Airtable] Push preview failed", err);
+    } finally {
+      setPreviewing(null);
+    }
+  }
+
+  async function onConfirmPush() {
+    if (!pushPreview) return;
+    if (pushPreview.mode === "reset") await onResetAndPush();
+    else await onPushNow();
+    setPushPreview(null);
+  }
+
   async function onPushNow() {
     setPushing(true);
     try {
@@ -237,10 +294,8 @@ export default function Settings() {
     }
   }
 
+  // Confirmed through the push preview dialog.
   async function onResetAndPush() {
-    if (!confirm("Reset Airtable records in the current view, then push local data? This deletes Airtable rows first.")) {
-      return null;
-    }
     setResetting(true);
     try {
       const res = await pushNow("reset");
@@ -277,22 +332,13 @@ export default function Settings() {
     try {
       const bundle = await exportBundle();
       const filename = makeExportFilename();
-      const res = await fetch("/api/s3/json", {
+      const res = await apiFetch("/api/s3/json", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ data: bundle, filename }),
+        body: JSON.stringify({ data: bundle, filename, home: syncTargetFor(getActiveWorkspace())?.home } satisfies S3JsonPutBody),
       });
-      const text = await res.text();
-      let json: any = null;
-      try {
-        json = JSON.parse(text);
-      } catch {
-        json = null;
-      }
-      if (!res.ok || !json?.ok) {
-        throw new Error(json?.message || `S3 upload failed (${res.status})`);
-      }
-      setS3LastKey(typeof json.key === "string" ? json.key : null);
+      const json = await readApiResult(res, s3JsonPutResponseSchema, "S3 upload");
+      setS3LastKey(json.key);
       toast({ title: "Uploaded to S3", description: json.key ? `Saved: ${json.key}` : "Backup saved." });
       console.info("[S3] JSON upload", json);
       void loadS3Snapshots();
@@ -308,18 +354,9 @@ export default function Settings() {
     setS3Pulling(true);
     try {
       const key = keyOverride || s3LastKey;
-      const url = key ? `/api/s3/json?key=${encodeURIComponent(key)}` : "/api/s3/json";
-      const res = await fetch(url);
-      const text = await res.text();
-      let json: any = null;
-      try {
-        json = JSON.parse(text);
-      } catch {
-        json = null;
-      }
-      if (!res.ok || !json?.ok) {
-        throw new Error(json?.message || `S3 download failed (${res.status})`);
-      }
+      const url = `/api/s3/json?${backupQuery(key ? { key } : {})}`;
+      const res = await apiFetch(url);
+      const json = await readApiResult(res, s3JsonGetResponseSchema, "S3 download");
       const payload = JSON.stringify(json.data || {}, null, 2);
       setImportError(null);
       setImportText(payload);
@@ -336,26 +373,9 @@ export default function Settings() {
   async function loadS3Snapshots() {
     setS3SnapshotsLoading(true);
     try {
-      const res = await fetch("/api/s3/json?list=1");
-      const text = await res.text();
-      let json: any = null;
-      try {
-        json = JSON.parse(text);
-      } catch {
-        json = null;
-      }
-      if (!res.ok || !json?.ok) throw new Error(json?.message || `S3 snapshot list failed (${res.status})`);
-      const list = Array.isArray(json.snapshots) ? json.snapshots : [];
-      setS3Snapshots(
-        list
-          .filter((s: any) => s && typeof s.key === "string")
-          .map((s: any) => ({
-            key: s.key,
-            name: typeof s.name === "string" ? s.name : null,
-            exportedAt: typeof s.exportedAt === "string" ? s.exportedAt : null,
-            filename: typeof s.filename === "string" ? s.filename : null,
-          })),
-      );
+      const res = await apiFetch(`/api/s3/json?${backupQuery({ list: "1" })}`);
+      const json = await readApiResult(res, s3JsonListResponseSchema, "S3 snapshot list");
+      setS3Snapshots(json.snapshots);
     } catch (err: any) {
       console.error("[S3] Snapshot list failed", err);
       setS3Snapshots([]);
@@ -461,7 +481,7 @@ export default function Settings() {
           <div className="space-y-1.5">
             <Label>Home name</Label>
             <Input value={homeName} onChange={(e) => setHomeName(e.target.value)} className="h-11 text-base" />
-            <div className="text-xs text-muted-foreground">Currently informational (does not sync yet).</div>
+            <div className="text-xs text-muted-foreground">Shown in the home switcher (does not sync yet).</div>
           </div>
           <div className="space-y-1.5">
             <Label>Tags (comma separated)</Label>
@@ -499,6 +519,8 @@ export default function Settings() {
         </div>
       </Card>
 
+      <HomesCard />
+
       <Card className="p-4">
         <div className="text-sm font-semibold">Units</div>
         <div className="mt-3 grid gap-3">
@@ -701,32 +723,45 @@ export default function Settings() {
         <div className="mt-2 text-xs text-muted-foreground">
           Pull uses the Airtable view if `AIRTABLE_VIEW_ID` or `AIRTABLE_VIEW_NAME` is set. Push always writes to the table.
         </div>
+        <div className="mt-2 text-xs text-muted-foreground">
+          Pull only downloads records changed since the last pull. Full resync re-downloads everything.
+        </div>
         <div className="mt-2 text-xs text-muted-foreground">
           Reset + push deletes Airtable rows in the current view first, then writes local data (useful for template resets).
         </div>
-        <div className="mt-3 flex gap-2">
+        <div className="mt-2 text-xs text-muted-foreground">
+          Push and reset show a preview of every create, update and delete first; nothing is written until you confirm.
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
           <Button variant="secondary" onClick={() => void runHealth()} disabled={healthLoading}>
             {healthLoading ? "Checking..." : "Check backend"}
           </Button>
           <Button
             variant="secondary"
             onClick={() => void onPullNow()}
-            disabled={pulling || pushing || resetting || healthLoading || !health?.ok || !health.airtableConfigured}
+            disabled={pulling || pushing || resetting || healthLoading || !health?.ok || !(health.syncConfigured ?? health.airtableConfigured)}
           >
             {pulling ? "Pulling..." : "Pull from Airtable"}
           </Button>
           <Button
-            onClick={() => void onPushNow()}
-            disabled={pulling || pushing || resetting || healthLoading || !health?.ok || !health.airtableConfigured}
+            variant="secondary"
+            onClick={() => void onPullNow(true)}
+            disabled={pulling || pushing || resetting || healthLoading || !health?.ok || !(health.syncConfigured ?? health.airtableConfigured)}
           >
-            {pushing ? "Pushing..." : "Push to Airtable"}
+            Full resync
+          </Button>
+          <Button
+            onClick={() => void onPreviewPush("commit")}
+            disabled={pulling || pushing || resetting || Boolean(previewing) || healthLoading || !health?.ok || !(health.syncConfigured ?? health.airtableConfigured)}
+          >
+            {pushing ? "Pushing..." : previewing === "commit" ? "Checking..." : "Push to Airtable"}
           </Button>
           <Button
             variant="destructive"
-            onClick={() => void onResetAndPush()}
-            disabled={pulling || pushing || resetting || healthLoading || !health?.ok || !health.airtableConfigured}
+            onClick={() => void onPreviewPush("reset")}
+            disabled={pulling || pushing || resetting || Boolean(previewing) || healthLoading || !health?.ok || !(health.syncConfigured ?? health.airtableConfigured)}
           >
-            {resetting ? "Resetting..." : "Reset + Push"}
+            {resetting ? "Resetting..." : previewing === "reset" ? "Checking..." : "Reset + Push"}
           </Button>
         </div>
         {health ? (
@@ -734,19 +769,44 @@ export default function Settings() {
             <div>
               Backend: <span className="font-semibold">{health.ok ? "OK" : "Not reachable"}</span>
             </div>
-            <div>
-              Airtable env:{" "}
-              <span className="font-semibold">
-                {health.ok ? (health.airtableConfigured ? "Configured" : "Missing") : "Unknown"}
-              </span>
-            </div>
+            {health.syncBackend === "json" ? (
+              <div>
+                Sync store: <span className="font-semibold">Self-hosted JSON</span>
+              </div>
+            ) : (
+              <div>
+                Airtable env:{" "}
+                <span className="font-semibold">
+                  {health.ok ? (health.airtableConfigured ? "Configured" : "Missing") : "Unknown"}
+                </span>
+              </div>
+            )}
+            {health.appMeta ? (
+              <div>
+                App Meta field:{" "}
+                <span className="font-semibold">
+                  {health.appMeta.present === null ? "Unknown" : health.appMeta.present ? "Present" : "Missing (metadata kept in Notes)"}
+                </span>
+              </div>
+            ) : null}
             {health.message ? <div className="mt-1 text-xs text-muted-foreground">{health.message}</div> : null}
           </div>
         ) : null}
         <div className="mt-3 text-xs text-muted-foreground">
-          Pending changes: items {dirtyCounts.items}, options {dirtyCounts.options}, measurements {dirtyCounts.measurements}, rooms{" "}
-          {dirtyCounts.rooms}, stores {dirtyCounts.stores}.
+          Pending changes: items {dirtyCounts.items}, options {dirtyCounts.options}, sub-items {dirtyCounts.subItems},{" "}
+          measurements {dirtyCounts.measurements}, rooms {dirtyCounts.rooms}, stores {dirtyCounts.stores}.
         </div>
+        {syncConflicts.length ? (
+          <div className="mt-2 flex items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+            <span>
+              {syncConflicts.length} record{syncConflicts.length === 1 ? "" : "s"} edited here and in Airtable. They are
+              held back from push until resolved.
+            </span>
+            <Button size="sm" variant="secondary" onClick={() => nav("/settings/conflicts")}>
+              Resolve
+            </Button>
+          </div>
+        ) : null}
         <div className="mt-1 text-xs text-muted-foreground">
           Since last pull ({formatWhen(lastPullAt)}): {formatSyncCounts(dirtyCounts as Record<string, number>)} to push.
         </div>
@@ -759,11 +819,65 @@ export default function Settings() {
             Last sync summary: Push {formatSyncCounts(lastSyncSummary.push)} \u00b7 Pull {formatSyncCounts(lastSyncSummary.pull)}
           </div>
         ) : null}
+        <div className="mt-2">
+          <Button size="sm" variant="secondary" onClick={() => nav("/settings/sync-history")}>
+            Sync history
+          </Button>
+        </div>
+        {autoSync ? (
+          <div className="mt-3 flex flex-wrap items-center gap-3 rounded-lg border bg-background p-3 text-sm">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="auto_sync"
+                checked={autoSync.enabled}
+                onCheckedChange={(v) => void onSaveAutoSync({ ...autoSync, enabled: Boolean(v) })}
+              />
+              <Label htmlFor="auto_sync" className="text-sm">
+                Sync automatically
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="auto_sync_minutes" className="text-xs text-muted-foreground">
+                Every
+              </Label>
+              <Input
+                id="auto_sync_minutes"
+                type="number"
+                min={1}
+                className="h-8 w-20"
+                value={autoSyncMinutes}
+                disabled={!autoSync.enabled}
+                onChange={(e) => setAutoSyncMinutes(e.target.value)}
+                onBlur={() => void onSaveAutoSync({ ...autoSync, intervalMinutes: Number(autoSyncMinutes) })}
+              />
+              <span className="text-xs text-muted-foreground">minutes</span>
+            </div>
+            <div className="w-full text-xs text-muted-foreground">
+              Also syncs when the app regains focus or the device comes back online. Failed attempts retry with backoff.
+            </div>
+          </div>
+        ) : null}
+        <PushPreviewDialog
+          open={Boolean(pushPreview)}
+          mode={pushPreview?.mode || "commit"}
+          plan={pushPreview?.plan || null}
+          busy={pushing || resetting}
+          onCancel={() => setPushPreview(null)}
+          onConfirm={() => void onConfirmPush()}
+        />
         <div className="mt-3 text-xs text-muted-foreground">
           Required env vars: `AIRTABLE_TOKEN`, `AIRTABLE_BASE_ID`, `AIRTABLE_TABLE_ID`. Optional: `AIRTABLE_VIEW_NAME`.
         </div>
       </Card>
 
+      <DevicesCard />
+
+      <AttachmentStorageCard />
+
+      <UploadCleanupCard />
+
+      <PriceWatchCard />
+
       <Card className="p-4">
         <div className="text-sm font-semibold">Local data</div>
         <div className="mt-3">
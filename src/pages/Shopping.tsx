@@ -1,41 +1,26 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { scrapeProductResponseSchema, type ProductVariant, type ScrapeProductBody } from "../../api/_lib/contracts";
+import { PriceChangesCard } from "@/components/PriceChangesCard";
 import { StatusBadge } from "@/components/StatusBadge";
+import { VariantPicker } from "@/components/VariantPicker";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useData } from "@/data/DataContext";
 import { inferItemKind, type RoomId } from "@/lib/domain";
+import { DIMENSIONS_CONFIDENCE_LABELS, dimensionsFromText, formatDimsLabelled } from "@/lib/fit";
 import { formatMoneyUSD, parseNumberOrNull } from "@/lib/format";
+import { createVariantOptions } from "@/lib/variants";
 import { useToast } from "@/hooks/use-toast";
+import { readApiResult } from "@/sync/api";
+import { apiFetch } from "@/sync/auth";
 
 const RECENT_ROOMS_KEY = "ft_recentRooms";
 
 type CaptureSpec = { key: string; value: string };
 
-type ExtractResponse = {
-  ok: boolean;
-  data?: {
-    name?: string | null;
-    price?: number | null;
-    description?: string | null;
-    imageUrl?: string | null;
-    brand?: string | null;
-    sourceUrl?: string | null;
-    sourceDomain?: string | null;
-    currency?: string | null;
-    originalPrice?: number | null;
-    discountPercent?: number | null;
-    dimensionsText?: string | null;
-    variantText?: string | null;
-    specs?: CaptureSpec[] | null;
-    raw?: unknown;
-    captureMethod?: "fallback_scraper" | "browser";
-  };
-  message?: string;
-};
-
 type StandaloneDraft = {
   name: string;
   room: RoomId;
@@ -50,6 +35,7 @@ type StandaloneDraft = {
   discountPercent: number | null;
   dimensionsText: string | null;
   variantText: string | null;
+  variants: ProductVariant[];
   specs: CaptureSpec[];
   captureMethod: "fallback_scraper" | "browser" | "manual";
 };
@@ -88,7 +74,7 @@ function sourceDomainFromUrl(value: string): string {
 export default function Shopping() {
   const nav = useNavigate();
   const { toast } = useToast();
-  const { orderedRooms, roomNameById, items, createItem, reorderItems } = useData();
+  const { orderedRooms, roomNameById, items, createItem, createOption, reorderItems } = useData();
 
   const orderedRoomIds = useMemo(() => orderedRooms.map((r) => r.id), [orderedRooms]);
   const validRoomIds = useMemo(() => new Set(orderedRoomIds), [orderedRoomIds]);
@@ -109,6 +95,8 @@ export default function Shopping() {
   const [captureDiscountPercent, setCaptureDiscountPercent] = useState("");
   const [captureDimensionsText, setCaptureDimensionsText] = useState("");
   const [captureVariantText, setCaptureVariantText] = useState("");
+  const [captureVariants, setCaptureVariants] = useState<ProductVariant[]>([]);
+  const [chosenVariants, setChosenVariants] = useState<string[]>([]);
   const [captureSourceDomain, setCaptureSourceDomain] = useState("");
   const [captureSpecs, setCaptureSpecs] = useState<CaptureSpec[]>([]);
   const [captureMethod, setCaptureMethod] = useState<"fallback_scraper" | "browser" | "manual">("manual");
@@ -118,6 +106,7 @@ export default function Shopping() {
   const [quickDescription, setQuickDescription] = useState("");
 
   const [recentRooms, setRecentRooms] = useState<string[]>(() => loadRecents(RECENT_ROOMS_KEY));
+  const capturedDims = useMemo(() => dimensionsFromText(captureDimensionsText), [captureDimensionsText]);
 
   useEffect(() => {
     if (!orderedRoomIds.length) return;
@@ -138,7 +127,9 @@ export default function Shopping() {
     setRecentRooms(loadRecents(RECENT_ROOMS_KEY).filter((r) => validRoomIds.has(r)));
   }
 
-  async function createStandaloneFromDraft(draft: StandaloneDraft) {
+  // With variants chosen, the item becomes a placeholder with one option per variant; otherwise the
+  // variants stay on the standalone item so they can still be turned into options from its page.
+  async function createItemFromDraft(draft: StandaloneDraft, chosen: ProductVariant[] = []) {
     const specsMap: Record<string, string | number | boolean | null> = {};
 
     for (const entry of draft.specs) {
@@ -158,19 +149,32 @@ export default function Shopping() {
     if (draft.variantText) specsMap.variantText = draft.variantText;
     specsMap.captureMethod = draft.captureMethod;
 
-    return await createItem({
+    const asPlaceholder = chosen.length > 0;
+    const id = await createItem({
       name: draft.name,
       room: draft.room,
-      kind: "standalone",
+      kind: asPlaceholder ? "placeholder" : "standalone",
       status: "Shortlist",
-      price: draft.price,
+      price: asPlaceholder ? null : draft.price,
       store: null,
       notes: draft.description,
       qty: 1,
-      link: draft.link,
+      link: asPlaceholder ? null : draft.link,
+      dimensions: dimensionsFromText(draft.dimensionsText),
+      variants: asPlaceholder ? null : draft.variants,
       specs: Object.keys(specsMap).length ? specsMap : null,
       category: "Other",
     });
+    if (asPlaceholder) {
+      await createVariantOptions(createOption, id, chosen, {
+        link: draft.link,
+        store: null,
+        price: draft.price,
+        imageUrl: draft.imageUrl,
+        dimensionsText: draft.dimensionsText,
+      });
+    }
+    return id;
   }
 
   async function onExtract() {
@@ -186,15 +190,12 @@ export default function Shopping() {
 
     setIsExtracting(true);
     try {
-      const res = await fetch("/api/scrape/product", {
+      const res = await apiFetch("/api/scrape/product", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: target }),
+        body: JSON.stringify({ url: target } satisfies ScrapeProductBody),
       });
-      const json = (await res.json().catch(() => null)) as ExtractResponse | null;
-      if (!res.ok || !json?.ok || !json?.data) {
-        throw new Error(json?.message || `Extraction failed (${res.status})`);
-      }
+      const json = await readApiResult(res, scrapeProductResponseSchema, "Extraction");
 
       const extractedUrl = normalizeText(json.data.sourceUrl || target);
       const extractedName = normalizeText(json.data.name) || "New Item";
@@ -220,9 +221,11 @@ export default function Shopping() {
       setCaptureDiscountPercent(extractedDiscount === null ? "" : String(extractedDiscount));
       setCaptureDimensionsText(normalizeText(json.data.dimensionsText));
       setCaptureVariantText(normalizeText(json.data.variantText));
+      setCaptureVariants(json.data.variants);
+      setChosenVariants([]);
       setCaptureSourceDomain(normalizeText(json.data.sourceDomain) || sourceDomainFromUrl(extractedUrl));
       setCaptureSpecs(Array.isArray(json.data.specs) ? json.data.specs.filter((s) => normalizeText(s?.key) && normalizeText(s?.value)) : []);
-      setCaptureMethod(json.data.captureMethod === "browser" ? "browser" : "fallback_scraper");
+      setCaptureMethod(json.data.captureMethod);
       setProductUrl(extractedUrl || target);
 
       toast({
@@ -248,23 +251,28 @@ export default function Shopping() {
     const trimmedUrl = productUrl.trim() || null;
     const sourceDomain = normalizeText(captureSourceDomain) || sourceDomainFromUrl(trimmedUrl || "");
 
-    const id = await createStandaloneFromDraft({
-      name: trimmedName,
-      room: captureRoom,
-      price: parseNumberOrNull(capturePrice),
-      description: captureDescription.trim() || null,
-      link: trimmedUrl,
-      brand: captureBrand.trim() || null,
-      imageUrl: captureImageUrl.trim() || null,
-      currency: captureCurrency.trim() || null,
-      sourceDomain: sourceDomain || null,
-      originalPrice: parseNumberOrNull(captureOriginalPrice),
-      discountPercent: parseNumberOrNull(captureDiscountPercent),
-      dimensionsText: captureDimensionsText.trim() || null,
-      variantText: captureVariantText.trim() || null,
-      specs: captureSpecs,
-      captureMethod: captureMethod,
-    });
+    const chosen = captureVariants.filter((variant) => chosenVariants.includes(variant.name));
+    const id = await createItemFromDraft(
+      {
+        name: trimmedName,
+        room: captureRoom,
+        price: parseNumberOrNull(capturePrice),
+        description: captureDescription.trim() || null,
+        link: trimmedUrl,
+        brand: captureBrand.trim() || null,
+        imageUrl: captureImageUrl.trim() || null,
+        currency: captureCurrency.trim() || null,
+        sourceDomain: sourceDomain || null,
+        originalPrice: parseNumberOrNull(captureOriginalPrice),
+        discountPercent: parseNumberOrNull(captureDiscountPercent),
+        dimensionsText: captureDimensionsText.trim() || null,
+        variantText: captureVariantText.trim() || null,
+        variants: captureVariants,
+        specs: captureSpecs,
+        captureMethod: captureMethod,
+      },
+      chosen,
+    );
 
     // Keep URL captures at the top of the room list for quick drag/reorder to placeholders.
     const roomItemIds = items
@@ -285,12 +293,16 @@ export default function Shopping() {
     setCaptureDiscountPercent("");
     setCaptureDimensionsText("");
     setCaptureVariantText("");
+    setCaptureVariants([]);
+    setChosenVariants([]);
     setCaptureSourceDomain("");
     setCaptureSpecs([]);
     setCaptureMethod("manual");
     toast({
       title: "Item added",
-      description: `${trimmedName} · ${roomNameById.get(captureRoom) || captureRoom}`,
+      description: chosen.length
+        ? `${trimmedName} · ${chosen.length} options · ${roomNameById.get(captureRoom) || captureRoom}`
+        : `${trimmedName} · ${roomNameById.get(captureRoom) || captureRoom}`,
     });
 
     if (openAfter) nav(`/items/${id}`);
@@ -303,7 +315,7 @@ export default function Shopping() {
       return;
     }
 
-    await createStandaloneFromDraft({
+    await createItemFromDraft({
       name: trimmedName,
       room: quickRoom,
       price: null,
@@ -317,6 +329,7 @@ export default function Shopping() {
       discountPercent: null,
       dimensionsText: null,
       variantText: null,
+      variants: [],
       specs: [],
       captureMethod: "manual",
     });
@@ -423,6 +436,30 @@ export default function Shopping() {
             </div>
           </div>
 
+          {captureDimensionsText ? (
+            <div className="rounded-xl border bg-background/70 px-3 py-2 text-xs">
+              <div className="text-muted-foreground">Dimensions: {captureDimensionsText}</div>
+              {capturedDims ? (
+                <div className="mt-1 font-medium text-foreground">
+                  Read as {formatDimsLabelled(capturedDims)}
+                  {capturedDims.confidence ? ` · ${DIMENSIONS_CONFIDENCE_LABELS[capturedDims.confidence]}` : ""}. Confirm them on the
+                  item page.
+                </div>
+              ) : (
+                <div className="mt-1 text-muted-foreground">Couldn't read sizes from this; add them on the item page.</div>
+              )}
+            </div>
+          ) : null}
+
+          {captureVariants.length ? (
+            <div className="space-y-2 rounded-xl border bg-background/70 px-3 py-2">
+              <div className="text-xs text-muted-foreground">
+                Choose variants to add this as a placeholder with one option each, or leave them unchecked to add a single item.
+              </div>
+              <VariantPicker variants={captureVariants} selected={chosenVariants} onChange={setChosenVariants} />
+            </div>
+          ) : null}
+
           <div className="space-y-1.5">
             <label htmlFor="capture_room" className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Room</label>
             <select
@@ -441,7 +478,7 @@ export default function Shopping() {
 
           <div className="pt-2">
             <Button className="h-12 w-full rounded-xl text-base shadow-sm transition-all duration-150 hover:opacity-90 active:scale-[0.98]" onClick={() => void onAddCaptured(false)}>
-              Add Item
+              {chosenVariants.length ? `Add Placeholder + ${chosenVariants.length} Options` : "Add Item"}
             </Button>
           </div>
         </div>
@@ -487,6 +524,8 @@ export default function Shopping() {
           )}
         </div>
       </Card>
+
+      <PriceChangesCard className="order-4" />
     </div>
   );
 }
@@ -1,24 +1,19 @@
 import { useEffect, useMemo, useState } from "react";
+import { CopyToHome } from "@/components/CopyToHome";
+import { DocumentList, type DocumentEntry } from "@/components/DocumentList";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useData } from "@/data/DataContext";
+import type { AttachmentKind } from "@/lib/attachmentKinds";
 import type { Store } from "@/lib/domain";
 import { formatMoneyUSD, parseNumberOrNull } from "@/lib/format";
 import { buildStoreIndex, computeStoreAllocation, normalizeStoreName, storeKey } from "@/lib/storePricing";
 import { useToast } from "@/hooks/use-toast";
 import { DragReorderList } from "@/components/reorder/DragReorderList";
-import { listAttachments, type AttachmentRecord } from "@/storage/attachments";
-
-type StoreReceiptEntry = {
-  attachment: AttachmentRecord;
-  itemName: string;
-  optionTitle: string;
-  subItemTitle: string;
-  subItemId: string;
-};
+import { listAttachments, setAttachmentKind, type AttachmentRecord } from "@/storage/attachments";
 
 export default function Stores() {
   const { toast } = useToast();
@@ -26,7 +21,8 @@ export default function Stores() {
   const [newName, setNewName] = useState("");
   const [open, setOpen] = useState<Record<string, boolean>>({});
   const [reorderMode, setReorderMode] = useState(false);
-  const [storeReceipts, setStoreReceipts] = useState<Record<string, StoreReceiptEntry[]>>({});
+  const [storeDocuments, setStoreDocuments] = useState<Record<string, DocumentEntry[]>>({});
+  const [documentsVersion, setDocumentsVersion] = useState(0);
 
   const storeByName = useMemo(() => buildStoreIndex(orderedStores), [orderedStores]);
   const itemNameById = useMemo(() => new Map(items.filter((i) => i.syncState !== "deleted").map((i) => [i.id, i.name])), [items]);
@@ -140,45 +136,48 @@ export default function Stores() {
 
   useEffect(() => {
     let active = true;
-    async function loadStoreReceipts() {
+    // Documents of every option bought at an open store, and of those options' sub-items.
+    async function loadStoreDocuments() {
       if (!openStoreKeys.size) {
-        if (active) setStoreReceipts({});
+        if (active) setStoreDocuments({});
         return;
       }
-      const next: Record<string, StoreReceiptEntry[]> = {};
+      const next: Record<string, DocumentEntry[]> = {};
+      const push = (key: string, atts: AttachmentRecord[], context: string) => {
+        if (!atts.length) return;
+        if (!next[key]) next[key] = [];
+        for (const attachment of atts) next[key].push({ attachment, context });
+      };
+      for (const opt of optionById.values()) {
+        const key = storeKey(opt.store);
+        if (!key || !openStoreKeys.has(key)) continue;
+        push(key, await listAttachments("option", opt.id), `${itemNameById.get(opt.itemId) || "Item"} · ${opt.title || "Option"}`);
+      }
       for (const sub of subItems) {
         if (sub.syncState === "deleted") continue;
         const opt = optionById.get(sub.optionId);
         if (!opt) continue;
         const key = storeKey(opt.store);
         if (!key || !openStoreKeys.has(key)) continue;
-        const atts = await listAttachments("subItem", sub.id);
-        if (!atts.length) continue;
-        if (!next[key]) next[key] = [];
-        const itemName = itemNameById.get(opt.itemId) || "Item";
-        const optionTitle = opt.title || "Option";
-        const subItemTitle = sub.title || "Sub-item";
-        for (const att of atts) {
-          next[key].push({
-            attachment: att,
-            itemName,
-            optionTitle,
-            subItemTitle,
-            subItemId: sub.id,
-          });
-        }
+        const context = `${itemNameById.get(opt.itemId) || "Item"} · ${opt.title || "Option"} · ${sub.title || "Sub-item"}`;
+        push(key, await listAttachments("subItem", sub.id), context);
       }
       for (const key of Object.keys(next)) {
         next[key].sort((a, b) => b.attachment.updatedAt - a.attachment.updatedAt);
       }
       if (!active) return;
-      setStoreReceipts(next);
+      setStoreDocuments(next);
     }
-    void loadStoreReceipts();
+    void loadStoreDocuments();
     return () => {
       active = false;
     };
-  }, [itemNameById, openStoreKeys, optionById, subItems]);
+  }, [documentsVersion, itemNameById, openStoreKeys, optionById, subItems]);
+
+  async function onDocumentKind(att: AttachmentRecord, kind: AttachmentKind) {
+    await setAttachmentKind(att.id, kind);
+    setDocumentsVersion((v) => v + 1);
+  }
 
   async function onAddStore() {
     const name = normalizeStoreName(newName);
@@ -310,7 +309,17 @@ export default function Stores() {
                     />
                   </div>
 
-                  <StoreReceiptsPanel entries={key ? storeReceipts[key] || [] : []} />
+                  <div className="rounded-lg border bg-secondary/20 p-3">
+                    <div className="text-sm font-semibold">Documents</div>
+                    <div className="mb-2 text-xs text-muted-foreground">
+                      Receipts, invoices and warranties from options and sub-items bought here.
+                    </div>
+                    <DocumentList
+                      entries={key ? storeDocuments[key] || [] : []}
+                      emptyText="No documents for this store yet."
+                      onKindChange={(att, kind) => void onDocumentKind(att, kind)}
+                    />
+                  </div>
 
                   <div className="grid grid-cols-2 gap-3">
                     <div className="space-y-1.5">
@@ -426,6 +435,8 @@ export default function Stores() {
                     />
                   </div>
 
+                  <CopyToHome storeIds={[store.id]} label="Copy this store to" />
+
                   <div className="flex items-center justify-between gap-3 border-t pt-3">
                     <div className="text-xs text-muted-foreground">Delete this store if it is no longer needed.</div>
                     <Button variant="destructive" onClick={() => void onDeleteStore(store)}>
@@ -470,60 +481,3 @@ export default function Stores() {
     </div>
   );
 }
-
-function StoreReceiptsPanel({ entries }: { entries: StoreReceiptEntry[] }) {
-  const [urls, setUrls] = useState<Record<string, string>>({});
-
-  useEffect(() => {
-    const next: Record<string, string> = {};
-    const toRevoke: string[] = [];
-    for (const entry of entries) {
-      const att = entry.attachment;
-      if (att.sourceUrl) {
-        next[att.id] = att.sourceUrl;
-        continue;
-      }
-      const url = URL.createObjectURL(att.blob);
-      next[att.id] = url;
-      toRevoke.push(url);
-    }
-    setUrls(next);
-    return () => {
-      toRevoke.forEach((url) => URL.revokeObjectURL(url));
-    };
-  }, [entries]);
-
-  return (
-    <div className="rounded-lg border bg-secondary/20 p-3">
-      <div className="text-sm font-semibold">Receipts</div>
-      <div className="text-xs text-muted-foreground">Auto-linked from sub-items using this store.</div>
-      {entries.length ? (
-        <div className="mt-2 space-y-2">
-          {entries.map((entry) => {
-            const att = entry.attachment;
-            const key = `${att.id}:${entry.subItemId}`;
-            return (
-              <div key={key} className="flex items-center justify-between gap-3 rounded-lg border bg-background/70 px-3 py-2 text-xs">
-                <div className="min-w-0">
-                  <div className="truncate font-medium">{att.name || "Receipt"}</div>
-                  <div className="truncate text-[10px] text-muted-foreground">
-                    {entry.itemName} · {entry.optionTitle} · {entry.subItemTitle}
-                  </div>
-                </div>
-                {urls[att.id] ? (
-                  <a href={urls[att.id]} target="_blank" rel="noreferrer" className="whitespace-nowrap text-primary underline">
-                    View
-                  </a>
-                ) : (
-                  <span className="text-[10px] text-muted-foreground">Loading</span>
-                )}
-              </div>
-            );
-          })}
-        </div>
-      ) : (
-        <div className="mt-2 text-xs text-muted-foreground">No sub-item receipts for this store yet.</div>
-      )}
-    </div>
-  );
-}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useData } from "@/data/DataContext";
+import { useToast } from "@/hooks/use-toast";
+import type { SyncRun } from "@/lib/domain";
+import { entityLabel, recordHref } from "@/lib/recordLinks";
+import { subscribeDbChanges } from "@/storage/notify";
+import { clearSyncRuns, listSyncRuns } from "@/sync/journal";
+import { retryFailedRecords } from "@/sync/syncNow";
+
+const KIND_LABELS: Record<SyncRun["kind"], string> = {
+  sync: "Sync",
+  push: "Push",
+  reset: "Reset + push",
+  pull: "Pull",
+  fullPull: "Full resync",
+  retry: "Retry failed",
+};
+
+function formatCounts(counts: Record<string, number>) {
+  const entries = Object.entries(counts || {}).filter(([, v]) => Number.isFinite(v) && v > 0);
+  return entries.length ? entries.map(([k, v]) => `${k} ${v}`).join(", ") : "none";
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export default function SyncHistory() {
+  const { items, options, subItems, measurements, rooms, stores } = useData();
+  const { toast } = useToast();
+  const nav = useNavigate();
+  const [runs, setRuns] = useState<SyncRun[] | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => void listSyncRuns().then(setRuns);
+    load();
+    return subscribeDbChanges(load);
+  }, []);
+
+  // Failed records that are still waiting to be pushed; fixed or deleted ones drop out of a retry.
+  function isStillPending(e: SyncRun["errors"][number]) {
+    const id = e.localId || e.id;
+    const rows: Array<{ id: string; syncState?: string }> =
+      e.entity === "item"
+        ? items
+        : e.entity === "option"
+          ? options
+          : e.entity === "subItem"
+            ? subItems
+            : e.entity === "measurement"
+              ? measurements
+              : e.entity === "room"
+                ? rooms
+                : stores;
+    const row = rows.find((r) => r.id === id);
+    return Boolean(row && row.syncState !== "clean");
+  }
+
+  async function onRetry(run: SyncRun) {
+    setRetryingId(run.id);
+    try {
+      const res = await retryFailedRecords(run.id);
+      const failed = res.pushErrors?.length || 0;
+      toast({
+        title: failed ? "Retry finished with errors" : "Retried",
+        description: failed ? `${failed} record(s) still failing.` : `Pushed: ${formatCounts(res.push)}`,
+      });
+    } catch (err) {
+      toast({ title: "Retry failed", description: err instanceof Error ? err.message : "Unknown error" });
+    } finally {
+      setRetryingId(null);
+    }
+  }
+
+  async function onClear() {
+    if (!confirm("Clear the sync history on this device?")) return;
+    await clearSyncRuns();
+    setRuns([]);
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold">Sync history</div>
+            <div className="mt-1 text-xs text-muted-foreground">
+              Recent pushes and pulls on this device. Background runs that found nothing to do are not listed.
+            </div>
+          </div>
+          <Button size="sm" variant="secondary" onClick={() => void onClear()} disabled={!runs?.length}>
+            Clear
+          </Button>
+        </div>
+      </Card>
+
+      {runs === null ? null : runs.length ? (
+        <div className="space-y-3">
+          {runs.map((run) => {
+            const retryable = run.errors.filter(isStillPending);
+            return (
+              <Card key={run.id} className="p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-base font-semibold">
+                      {KIND_LABELS[run.kind]}
+                      <span
+                        className={[
+                          "ml-2 rounded-full px-2 py-0.5 text-xs font-medium",
+                          run.ok ? "bg-emerald-50 text-emerald-800" : "bg-red-50 text-red-800",
+                        ].join(" ")}
+                      >
+                        {run.ok ? "OK" : run.errors.length ? `${run.errors.length} failed` : "Failed"}
+                      </span>
+                    </div>
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {new Date(run.startedAt).toLocaleString()} · {formatDuration(run.durationMs)} ·{" "}
+                      {run.trigger === "auto" ? "automatic" : "manual"}
+                    </div>
+                  </div>
+                  {retryable.length ? (
+                    <Button size="sm" onClick={() => void onRetry(run)} disabled={retryingId !== null}>
+                      {retryingId === run.id ? "Retrying..." : `Retry ${retryable.length}`}
+                    </Button>
+                  ) : null}
+                </div>
+                <div className="mt-2 text-xs text-muted-foreground">
+                  Push {formatCounts(run.counts.push)} · Pull {formatCounts(run.counts.pull)}
+                </div>
+                {run.message ? <div className="mt-2 text-xs text-red-700">{run.message}</div> : null}
+                {run.errors.length ? (
+                  <ul className="mt-3 space-y-2">
+                    {run.errors.map((e, i) => {
+                      const recordId = e.localId || e.id;
+                      const href = recordId ? recordHref(e.entity, recordId, { options, subItems, measurements }) : null;
+                      return (
+                        <li key={`${recordId || "record"}_${i}`} className="rounded-lg border bg-background p-2 text-xs">
+                          <div className="flex items-center justify-between gap-2">
+                            {href ? (
+                              <button type="button" className="truncate text-left font-medium underline" onClick={() => nav(href)}>
+                                {e.title || recordId}
+                              </button>
+                            ) : (
+                              <span className="truncate font-medium">{e.title || recordId || "Unknown record"}</span>
+                            )}
+                            <span className="shrink-0 text-muted-foreground">
+                              {entityLabel(e.entity)} {e.action}
+                            </span>
+                          </div>
+                          <div className="mt-1 break-words text-muted-foreground">
+                            {String(e.message || "").replace(/^Airtable error \d+:\s*/i, "") || "Unknown error"}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                ) : null}
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground">No sync runs recorded yet.</div>
+        </Card>
+      )}
+    </div>
+  );
+}
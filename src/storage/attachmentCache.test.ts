@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearAttachmentCache,
+  enforceAttachmentBudget,
+  fetchAttachmentBlob,
+  getAttachmentStorageUsage,
+  keepCachedBlob,
+  setAttachmentCacheSettings,
+} from "@/storage/attachmentCache";
+import type { AttachmentRecord } from "@/storage/attachments";
+import { idbGet, idbGetAll, idbPut } from "@/storage/idb";
+import { resetMemoryIdb } from "@/test/memoryIdb";
+
+vi.mock("@/storage/idb", () => import("@/test/memoryIdb"));
+
+const T = 1_700_000_000_000;
+const KB = 1024;
+const HOUR = 60 * 60_000;
+
+const bytes = (size: number) => new Blob([new Uint8Array(size)], { type: "image/jpeg" });
+
+const attachment = (id: string, patch: Partial<AttachmentRecord>): AttachmentRecord => ({
+  id,
+  parentType: "item",
+  parentId: "item_1",
+  parentKey: "item:item_1",
+  name: `${id}.jpg`,
+  sourceUrl: `https://bucket.example/uploads/default/item/item_1/${id}.jpg`,
+  mime: "image/jpeg",
+  size: null,
+  blob: bytes(0),
+  uploadState: "uploaded",
+  createdAt: T,
+  updatedAt: T,
+  ...patch,
+});
+
+// Downloaded copies, with the last time each was shown.
+const cached = (id: string, size: number, lastUsedAt: number) =>
+  attachment(id, { blob: bytes(size), size, thumbBlob: bytes(KB), cachedAt: T - 10 * HOUR, lastUsedAt });
+
+// Files saved on this device that haven't reached S3: the local blob is the only copy.
+const queued = (id: string, size: number, uploadState: AttachmentRecord["uploadState"]) =>
+  attachment(id, { blob: bytes(size), size, sourceUrl: null, uploadState, lastUsedAt: T - 100 * HOUR });
+
+async function blobSizes() {
+  const rows = await idbGetAll<AttachmentRecord>("attachments");
+  return Object.fromEntries(rows.map((att) => [att.id, att.blob.size]));
+}
+
+beforeEach(async () => {
+  resetMemoryIdb();
+  vi.useFakeTimers({ now: T });
+  await setAttachmentCacheSettings({ budgetMb: 1 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("attachment cache", () => {
+  it("evicts the least recently used downloads and never a file waiting to upload", async () => {
+    await idbPut("attachments", cached("att_stale", 400 * KB, T - 3 * HOUR));
+    await idbPut("attachments", cached("att_older", 400 * KB, T - 2 * HOUR));
+    await idbPut("attachments", cached("att_recent", 400 * KB, T - HOUR));
+    await idbPut("attachments", queued("att_pending", 2048 * KB, "pending"));
+    await idbPut("attachments", queued("att_uploading", 2048 * KB, "uploading"));
+    await idbPut("attachments", queued("att_failed", 2048 * KB, "failed"));
+
+    expect(await enforceAttachmentBudget()).toEqual(["att_stale"]);
+    expect(await blobSizes()).toEqual({
+      att_stale: 0,
+      att_older: 400 * KB,
+      att_recent: 400 * KB,
+      att_pending: 2048 * KB,
+      att_uploading: 2048 * KB,
+      att_failed: 2048 * KB,
+    });
+    // The evicted download keeps its thumbnail and can be downloaded again.
+    expect(await idbGet<AttachmentRecord>("attachments", "att_stale")).toMatchObject({ cachedAt: null, lastUsedAt: null });
+    expect((await idbGet<AttachmentRecord>("attachments", "att_stale"))?.thumbBlob?.size).toBe(KB);
+
+    // Ids the caller is about to show are skipped, even when older.
+    await idbPut("meta", { key: "attachmentCache", value: { budgetMb: 0 } });
+    expect(await enforceAttachmentBudget(new Set(["att_older"]))).toEqual(["att_recent"]);
+    expect(await blobSizes()).toMatchObject({ att_older: 400 * KB, att_recent: 0, att_pending: 2048 * KB });
+  });
+
+  it("clears every download but keeps the upload queue", async () => {
+    await idbPut("attachments", cached("att_cached", 300 * KB, T));
+    await idbPut("attachments", queued("att_pending", 300 * KB, "pending"));
+    await idbPut("attachments", attachment("att_remote", {}));
+
+    expect(await getAttachmentStorageUsage()).toEqual({
+      cachedBytes: 300 * KB,
+      cachedCount: 1,
+      queuedBytes: 300 * KB,
+      queuedCount: 1,
+      remoteOnlyCount: 1,
+    });
+    expect(await clearAttachmentCache()).toBe(1);
+    expect(await getAttachmentStorageUsage()).toEqual({
+      cachedBytes: 0,
+      cachedCount: 0,
+      queuedBytes: 300 * KB,
+      queuedCount: 1,
+      remoteOnlyCount: 2,
+    });
+  });
+
+  it("keeps a fresh download and makes room for it by evicting older ones", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(new Uint8Array(700 * KB), { status: 200, headers: { "Content-Type": "image/jpeg" } })),
+    );
+    await idbPut("attachments", cached("att_old", 600 * KB, T - HOUR));
+    await idbPut("attachments", queued("att_pending", 2048 * KB, "pending"));
+    const remote = attachment("att_remote", { thumbUrl: "https://bucket.example/thumb.jpg" });
+    await idbPut("attachments", remote);
+
+    expect((await fetchAttachmentBlob(remote))?.size).toBe(700 * KB);
+    expect(await blobSizes()).toEqual({ att_old: 0, att_pending: 2048 * KB, att_remote: 700 * KB });
+    expect(await idbGet<AttachmentRecord>("attachments", "att_remote")).toMatchObject({ cachedAt: T, lastUsedAt: T });
+  });
+
+  it("keeps downloaded files across pulls unless the file changed", () => {
+    const prev = cached("att_1", 10 * KB, T);
+    expect(keepCachedBlob(prev, prev.sourceUrl!, "image/jpeg")).toMatchObject({ blob: prev.blob, lastUsedAt: T });
+    const replaced = keepCachedBlob(prev, "https://bucket.example/other.jpg", "image/png");
+    expect(replaced).toMatchObject({ thumbBlob: null, cachedAt: null, lastUsedAt: null });
+    expect(replaced.blob.size).toBe(0);
+    expect(replaced.blob.type).toBe("image/png");
+  });
+});
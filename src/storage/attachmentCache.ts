@@ -0,0 +1,210 @@
+import type { Item, Option, SubItem } from "@/lib/domain";
+import { nowMs } from "@/lib/format";
+import { makeThumbnail } from "@/lib/images";
+import { attachmentUploadState, type AttachmentParentType, type AttachmentRecord } from "@/storage/attachments";
+import { idbGet, idbGetAll, idbGetAllByIndex, idbGetMeta, idbPut, idbSetMeta } from "@/storage/idb";
+
+// Offline copies of synced attachments. Pulled attachments arrive as metadata plus a `sourceUrl` with an
+// empty blob; their files are downloaded when first shown (or per room, ahead of time) and kept in the
+// `attachments` store. Downloaded copies are evicted least-recently-used first to stay within the
+// storage budget; attachments still waiting to upload are never evicted (they are the only copy).
+
+export type AttachmentCacheSettings = { budgetMb: number };
+
+export type AttachmentStorageUsage = {
+  cachedBytes: number;
+  cachedCount: number;
+  queuedBytes: number;
+  queuedCount: number;
+  remoteOnlyCount: number;
+};
+
+const SETTINGS_KEY = "attachmentCache";
+const DEFAULT_SETTINGS: AttachmentCacheSettings = { budgetMb: 250 };
+// Last-used times only steer eviction; don't rewrite a record (blob included) on every view.
+const TOUCH_INTERVAL_MS = 60 * 60_000;
+
+const inflight = new Map<string, Promise<Blob | null>>();
+
+export function hasLocalBlob(att: Pick<AttachmentRecord, "blob">) {
+  return Boolean(att.blob && att.blob.size > 0);
+}
+
+function lastUsed(att: AttachmentRecord) {
+  return att.lastUsedAt ?? att.cachedAt ?? att.updatedAt ?? 0;
+}
+
+function isEvictable(att: AttachmentRecord) {
+  return hasLocalBlob(att) && Boolean(att.sourceUrl) && attachmentUploadState(att) === "uploaded";
+}
+
+function sanitizeSettings(input: unknown): AttachmentCacheSettings {
+  const obj = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const budgetMb = Number(obj.budgetMb);
+  return { budgetMb: Number.isFinite(budgetMb) && budgetMb >= 0 ? Math.round(budgetMb) : DEFAULT_SETTINGS.budgetMb };
+}
+
+export async function getAttachmentCacheSettings(): Promise<AttachmentCacheSettings> {
+  return sanitizeSettings(await idbGetMeta(SETTINGS_KEY));
+}
+
+export async function setAttachmentCacheSettings(next: AttachmentCacheSettings) {
+  const settings = sanitizeSettings(next);
+  await idbSetMeta(SETTINGS_KEY, settings);
+  await enforceAttachmentBudget();
+  return settings;
+}
+
+// Keeps downloaded files across pulls, which rewrite every attachment of a changed parent.
+export function keepCachedBlob(prev: AttachmentRecord | undefined, url: string, mime: string | null) {
+  const same = Boolean(prev && prev.sourceUrl === url);
+  const thumbBlob = same ? prev!.thumbBlob ?? null : null;
+  if (same && hasLocalBlob(prev!)) {
+    return { blob: prev!.blob, thumbBlob, cachedAt: prev!.cachedAt ?? null, lastUsedAt: prev!.lastUsedAt ?? null };
+  }
+  return { blob: new Blob([], { type: mime || "" }), thumbBlob, cachedAt: null, lastUsedAt: null };
+}
+
+export async function getAttachmentStorageUsage(): Promise<AttachmentStorageUsage> {
+  const usage: AttachmentStorageUsage = { cachedBytes: 0, cachedCount: 0, queuedBytes: 0, queuedCount: 0, remoteOnlyCount: 0 };
+  for (const att of await idbGetAll<AttachmentRecord>("attachments")) {
+    if (attachmentUploadState(att) !== "uploaded") {
+      usage.queuedBytes += att.blob?.size || 0;
+      usage.queuedCount += 1;
+    } else if (hasLocalBlob(att)) {
+      usage.cachedBytes += att.blob.size;
+      usage.cachedCount += 1;
+    } else if (att.sourceUrl) {
+      usage.remoteOnlyCount += 1;
+    }
+  }
+  return usage;
+}
+
+async function budgetBytes() {
+  return (await getAttachmentCacheSettings()).budgetMb * 1024 * 1024;
+}
+
+// Drops the least recently used downloads until they fit. Returns the evicted ids.
+async function evictToFit(budget: number, keepIds: Set<string>) {
+  const cached = (await idbGetAll<AttachmentRecord>("attachments")).filter(isEvictable);
+  let total = cached.reduce((sum, att) => sum + att.blob.size, 0);
+  const evicted: string[] = [];
+  for (const att of cached.sort((a, b) => lastUsed(a) - lastUsed(b))) {
+    if (total <= budget) break;
+    if (keepIds.has(att.id)) continue;
+    // Thumbnails are small and stay, so list views keep working offline.
+    await idbPut("attachments", { ...att, blob: new Blob([], { type: att.mime || "" }), cachedAt: null, lastUsedAt: null });
+    total -= att.blob.size;
+    evicted.push(att.id);
+  }
+  return evicted;
+}
+
+export async function enforceAttachmentBudget(keepIds: Set<string> = new Set()) {
+  return await evictToFit(await budgetBytes(), keepIds);
+}
+
+// Frees every downloaded copy; they download again when next shown.
+export async function clearAttachmentCache() {
+  return (await evictToFit(0, new Set())).length;
+}
+
+// Records a view of locally available attachments for LRU eviction.
+export async function markAttachmentsUsed(atts: AttachmentRecord[]) {
+  const ts = nowMs();
+  for (const att of atts) {
+    if (!isEvictable(att) || ts - lastUsed(att) < TOUCH_INTERVAL_MS) continue;
+    const cur = await idbGet<AttachmentRecord>("attachments", att.id);
+    if (cur && hasLocalBlob(cur)) await idbPut("attachments", { ...cur, lastUsedAt: ts });
+  }
+}
+
+async function download(att: AttachmentRecord, keepIds?: Set<string>): Promise<Blob | null> {
+  const cur = await idbGet<AttachmentRecord>("attachments", att.id);
+  if (!cur) return null;
+  if (hasLocalBlob(cur)) return cur.blob;
+  if (!cur.sourceUrl || !navigator.onLine) return null;
+
+  const res = await fetch(cur.sourceUrl);
+  if (!res.ok) throw new Error(`Download failed (${res.status})`);
+  const blob = await res.blob();
+
+  // The attachment may have been removed or replaced while downloading.
+  const latest = await idbGet<AttachmentRecord>("attachments", att.id);
+  if (!latest || latest.sourceUrl !== cur.sourceUrl) return blob;
+  const ts = nowMs();
+  // Older attachments have no thumbnail on S3; make a local one for the list views.
+  const thumbBlob = latest.thumbBlob || (latest.thumbUrl ? null : await makeThumbnail(blob).catch(() => null));
+  await idbPut("attachments", { ...latest, blob, thumbBlob, mime: latest.mime || blob.type || null, cachedAt: ts, lastUsedAt: ts });
+  await enforceAttachmentBudget(new Set([att.id, ...(keepIds || [])]));
+  return blob;
+}
+
+// The attachment's file, downloading and caching it when only the remote copy exists. Null when it
+// can't be had right now (offline, or nothing to download).
+export function fetchAttachmentBlob(att: AttachmentRecord): Promise<Blob | null> {
+  if (hasLocalBlob(att)) return Promise.resolve(att.blob);
+  let pending = inflight.get(att.id);
+  if (!pending) {
+    pending = download(att)
+      .catch(() => null)
+      .finally(() => inflight.delete(att.id));
+    inflight.set(att.id, pending);
+  }
+  return pending;
+}
+
+async function listForParents(parents: Array<[AttachmentParentType, string]>) {
+  const rows = await Promise.all(
+    parents.map(([type, id]) => idbGetAllByIndex<AttachmentRecord>("attachments", "parentKey", `${type}:${id}`)),
+  );
+  return rows.flat();
+}
+
+// Downloads every photo and receipt of a room's items (with their options and sub-items) for offline
+// use. Stops early once this room's files alone would exceed the budget.
+export async function prefetchRoomAttachments(roomId: string) {
+  const live = <T extends { syncState?: string }>(rows: T[]) => rows.filter((r) => r.syncState !== "deleted");
+  const items = live(await idbGetAll<Item>("items")).filter((it) => it.room === roomId);
+  const itemIds = new Set(items.map((it) => it.id));
+  const options = live(await idbGetAll<Option>("options")).filter((o) => itemIds.has(o.itemId));
+  const optionIds = new Set(options.map((o) => o.id));
+  const subItems = live(await idbGetAll<SubItem>("subItems")).filter((s) => optionIds.has(s.optionId));
+  const atts = await listForParents([
+    ...items.map((it) => ["item", it.id] as [AttachmentParentType, string]),
+    ...options.map((o) => ["option", o.id] as [AttachmentParentType, string]),
+    ...subItems.map((s) => ["subItem", s.id] as [AttachmentParentType, string]),
+  ]);
+
+  const result = { total: atts.length, downloaded: 0, alreadyCached: 0, failed: 0, budgetReached: false };
+  const budget = await budgetBytes();
+  const kept = new Set<string>();
+  let keptBytes = 0;
+  for (const att of atts) {
+    if (hasLocalBlob(att) || !att.sourceUrl) {
+      result.alreadyCached += 1;
+      kept.add(att.id);
+      keptBytes += att.blob?.size || 0;
+      continue;
+    }
+    if (keptBytes + (att.size || 0) > budget) {
+      result.budgetReached = true;
+      break;
+    }
+    try {
+      const blob = await download(att, kept);
+      if (!blob) {
+        result.failed += 1;
+        continue;
+      }
+      result.downloaded += 1;
+      kept.add(att.id);
+      keptBytes += blob.size;
+    } catch {
+      result.failed += 1;
+    }
+  }
+  await markAttachmentsUsed(atts.filter((att) => kept.has(att.id)));
+  return result;
+}
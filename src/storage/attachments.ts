@@ -1,24 +1,76 @@
+import { s3SignResponseSchema, type S3SignBody } from "../../api/_lib/contracts";
+import { attachmentKind, defaultAttachmentKind, type AttachmentKind } from "@/lib/attachmentKinds";
 import { nowMs } from "@/lib/format";
 import { newId } from "@/lib/id";
 import type { Item, Option, SubItem } from "@/lib/domain";
-import { idbDelete, idbGet, idbGetAllByIndex, idbPut } from "@/storage/idb";
+import { makeThumbnail, prepareImage, renameForType, sanitizeImageSettings, type ImageSettings } from "@/lib/images";
+import { syncTargetFor } from "@/lib/workspaces";
+import { idbDelete, idbGet, idbGetAll, idbGetAllByIndex, idbGetMeta, idbPut, idbSetMeta } from "@/storage/idb";
+import { getActiveWorkspace } from "@/storage/workspaces";
+import { readApiResult } from "@/sync/api";
+import { apiFetch } from "@/sync/auth";
 
 export type AttachmentParentType = "item" | "option" | "subItem";
 
+// Attachments are saved locally first and uploaded to S3 in the background (src/sync/uploads.ts);
+// only uploaded ones have a `sourceUrl` and are included in pushes.
+export type AttachmentUploadState = "pending" | "uploading" | "uploaded" | "failed";
+
 export type AttachmentRecord = {
   id: string;
   parentType: AttachmentParentType;
   parentId: string;
   parentKey: string;
   name: string | null;
+  // Missing on records saved before kinds existed; read them with `attachmentKind` (src/lib/attachmentKinds.ts).
+  kind?: AttachmentKind | null;
   sourceUrl?: string | null;
   mime: string | null;
   size: number | null;
   blob: Blob;
+  // Small preview for list views (see src/lib/images.ts); uploaded next to the full image as `thumbUrl`.
+  thumbBlob?: Blob | null;
+  thumbUrl?: string | null;
+  uploadState?: AttachmentUploadState;
+  uploadError?: string | null;
+  // Set when the blob is a downloaded copy of `sourceUrl` (see attachmentCache.ts); used for LRU eviction.
+  cachedAt?: number | null;
+  lastUsedAt?: number | null;
   createdAt: number;
   updatedAt: number;
 };
 
+// Records saved before the upload queue existed were uploaded before being written.
+export function attachmentUploadState(att: Pick<AttachmentRecord, "uploadState" | "sourceUrl">): AttachmentUploadState {
+  return att.uploadState || (att.sourceUrl ? "uploaded" : "pending");
+}
+
+const uploadListeners = new Set<(att: AttachmentRecord) => void>();
+
+// Upload progress for the UI and the background uploader (new attachments start it).
+export function subscribeAttachmentUploads(cb: (att: AttachmentRecord) => void) {
+  uploadListeners.add(cb);
+  return () => {
+    uploadListeners.delete(cb);
+  };
+}
+
+function emitUpload(att: AttachmentRecord) {
+  for (const cb of uploadListeners) cb(att);
+}
+
+const IMAGE_SETTINGS_KEY = "imageSettings";
+
+export async function getImageSettings(): Promise<ImageSettings> {
+  return sanitizeImageSettings(await idbGetMeta(IMAGE_SETTINGS_KEY));
+}
+
+export async function setImageSettings(next: ImageSettings) {
+  const settings = sanitizeImageSettings(next);
+  await idbSetMeta(IMAGE_SETTINGS_KEY, settings);
+  return settings;
+}
+
 function parentKey(parentType: AttachmentParentType, parentId: string) {
   return `${parentType}:${parentId}`;
 }
@@ -73,21 +125,12 @@ async function signUpload(params: {
   parentType: AttachmentParentType;
   parentId: string;
 }): Promise<SignedUpload> {
-  const res = await fetch("/api/s3/sign", {
+  const res = await apiFetch("/api/s3/sign", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(params),
+    body: JSON.stringify({ ...params, home: syncTargetFor(getActiveWorkspace())?.home } satisfies S3SignBody),
   });
-  const text = await res.text().catch(() => "");
-  let json: any = null;
-  try {
-    json = text ? JSON.parse(text) : null;
-  } catch {
-    json = null;
-  }
-  if (!res.ok || !json?.ok) {
-    throw new Error(json?.message || text || `S3 sign failed (${res.status})`);
-  }
+  const json = await readApiResult(res, s3SignResponseSchema, "S3 sign");
   return { uploadUrl: json.uploadUrl, publicUrl: json.publicUrl, key: json.key };
 }
 
@@ -132,36 +175,106 @@ export async function addAttachment(
   parentType: AttachmentParentType,
   parentId: string,
   file: File,
+  kind?: AttachmentKind | null,
 ): Promise<AttachmentRecord> {
-  return addAttachmentFromBlob(parentType, parentId, file, { name: file.name || null, sourceUrl: null });
+  return addAttachmentFromBlob(parentType, parentId, file, { name: file.name || null, sourceUrl: null, kind });
 }
 
 export async function addAttachmentFromBlob(
   parentType: AttachmentParentType,
   parentId: string,
   blob: Blob,
-  opts?: { name?: string | null; sourceUrl?: string | null },
+  opts?: { name?: string | null; sourceUrl?: string | null; thumbUrl?: string | null; kind?: AttachmentKind | null },
 ): Promise<AttachmentRecord> {
-  const remoteUrl = await uploadToS3(blob, { name: opts?.name ?? null, parentType, parentId });
   const ts = nowMs();
+  // A copy of an already uploaded attachment reuses its files; anything new is downsized first.
+  const sourceUrl = opts?.sourceUrl || null;
+  const thumbUrl = sourceUrl ? opts?.thumbUrl || null : null;
+  const prepared = sourceUrl
+    ? { blob, thumb: !thumbUrl && blob.size ? await makeThumbnail(blob) : null }
+    : await prepareImage(blob, await getImageSettings());
+  const name = opts?.name ?? null;
   const record: AttachmentRecord = {
     id: newId("att"),
     parentType,
     parentId,
     parentKey: parentKey(parentType, parentId),
-    name: opts?.name ?? null,
-    sourceUrl: remoteUrl ?? opts?.sourceUrl ?? null,
-    mime: blob.type || null,
-    size: blob.size || null,
-    blob,
+    name: prepared.blob === blob ? name : renameForType(name, prepared.blob.type),
+    kind: defaultAttachmentKind({ parentType, mime: blob.type || null, name }, opts?.kind),
+    sourceUrl,
+    mime: prepared.blob.type || null,
+    size: prepared.blob.size || null,
+    blob: prepared.blob,
+    thumbBlob: prepared.thumb,
+    thumbUrl,
+    uploadState: sourceUrl ? "uploaded" : "pending",
+    uploadError: null,
     createdAt: ts,
     updatedAt: ts,
   };
   await idbPut("attachments", record);
   await touchParent(parentType, parentId);
+  emitUpload(record);
   return record;
 }
 
+// Sends one queued attachment to S3. On success the parent is marked dirty again so the next push
+// carries the new `sourceUrl`; failures are recorded on the attachment and rethrown.
+export async function uploadAttachment(id: string): Promise<AttachmentRecord | null> {
+  const cur = await idbGet<AttachmentRecord>("attachments", id);
+  if (!cur || attachmentUploadState(cur) === "uploaded") return cur ?? null;
+  const uploading: AttachmentRecord = { ...cur, uploadState: "uploading", uploadError: null };
+  await idbPut("attachments", uploading);
+  emitUpload(uploading);
+
+  let sourceUrl: string;
+  let thumbUrl = cur.thumbUrl ?? null;
+  try {
+    sourceUrl = await uploadToS3(cur.blob, { name: cur.name, parentType: cur.parentType, parentId: cur.parentId });
+    if (cur.thumbBlob && !thumbUrl) {
+      // Without a thumbnail the list views show the full image, so this one may fail.
+      const thumbName = renameForType(`${(cur.name || "photo").replace(/\.[^.]*$/, "")}-thumb`, cur.thumbBlob.type);
+      thumbUrl = await uploadToS3(cur.thumbBlob, { name: thumbName, parentType: cur.parentType, parentId: cur.parentId }).catch(
+        () => null,
+      );
+    }
+  } catch (err: any) {
+    const latest = await idbGet<AttachmentRecord>("attachments", id);
+    if (latest) {
+      const failed: AttachmentRecord = { ...latest, uploadState: "failed", uploadError: err?.message || "Upload failed" };
+      await idbPut("attachments", failed);
+      emitUpload(failed);
+    }
+    throw err;
+  }
+
+  // Re-read: the attachment may have been removed or moved to another parent while uploading.
+  const latest = await idbGet<AttachmentRecord>("attachments", id);
+  if (!latest) return null;
+  const done: AttachmentRecord = { ...latest, sourceUrl, thumbUrl, uploadState: "uploaded", uploadError: null, updatedAt: nowMs() };
+  await idbPut("attachments", done);
+  await touchParent(done.parentType, done.parentId);
+  emitUpload(done);
+  return done;
+}
+
+// Everything still waiting for S3, oldest first. `uploading` rows are included: only one uploader
+// runs at a time, so any left over were interrupted.
+export async function listQueuedAttachments(): Promise<AttachmentRecord[]> {
+  const rows = await idbGetAll<AttachmentRecord>("attachments");
+  return rows.filter((att) => attachmentUploadState(att) !== "uploaded").sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Duplicates an attachment onto another parent, sharing its uploaded files.
+export async function copyAttachment(att: AttachmentRecord, parentType: AttachmentParentType, parentId: string) {
+  return await addAttachmentFromBlob(parentType, parentId, att.blob, {
+    name: att.name ?? null,
+    sourceUrl: att.sourceUrl ?? null,
+    thumbUrl: att.thumbUrl ?? null,
+    kind: attachmentKind(att),
+  });
+}
+
 export async function addAttachmentFromUrl(
   parentType: AttachmentParentType,
   parentId: string,
@@ -174,32 +287,22 @@ export async function addAttachmentFromUrl(
   return await addAttachmentFromBlob(parentType, parentId, blob, { name });
 }
 
+// Re-files an attachment (e.g. a photo that is really a receipt); the parent is queued so it syncs.
+export async function setAttachmentKind(id: string, kind: AttachmentKind): Promise<AttachmentRecord | null> {
+  const cur = await idbGet<AttachmentRecord>("attachments", id);
+  if (!cur) return null;
+  const next: AttachmentRecord = { ...cur, kind, updatedAt: nowMs() };
+  await idbPut("attachments", next);
+  await touchParent(cur.parentType, cur.parentId);
+  return next;
+}
+
 export async function deleteAttachment(id: string): Promise<void> {
   const cur = await idbGet<AttachmentRecord>("attachments", id);
   await idbDelete("attachments", id);
   if (cur) await touchParent(cur.parentType, cur.parentId);
 }
 
-export async function rekeyAttachmentParent(
-  parentType: AttachmentParentType,
-  oldParentId: string,
-  newParentId: string,
-): Promise<void> {
-  const rows = await idbGetAllByIndex<AttachmentRecord>("attachments", "parentKey", parentKey(parentType, oldParentId));
-  if (!rows.length) return;
-  const ts = nowMs();
-  await Promise.all(
-    rows.map((att) =>
-      idbPut("attachments", {
-        ...att,
-        parentId: newParentId,
-        parentKey: parentKey(parentType, newParentId),
-        updatedAt: ts,
-      }),
-    ),
-  );
-}
-
 export async function moveAttachmentsParent(
   fromType: AttachmentParentType,
   fromId: string,
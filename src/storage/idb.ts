@@ -1,16 +1,66 @@
-import type { Item, Measurement, Option, Room, Store, SubItem } from "@/lib/domain";
+import type { Item, Measurement, Option, Room, Store, SubItem, SyncConflict } from "@/lib/domain";
+import { rekeyParentId, rekeyRecord, type RekeyableStore, type RekeyMaps } from "@/lib/rekey";
+import type { AttachmentRecord } from "@/storage/attachments";
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces";
+import { activeWorkspaceId } from "@/storage/workspaces";
 
 const DB_NAME = "furnishing-tracker";
-const DB_VERSION = 5;
+const DB_VERSION = 8;
 
-type StoreName = "items" | "options" | "subItems" | "measurements" | "rooms" | "stores" | "meta" | "attachments";
+// One database per workspace; the default workspace keeps the original name.
+function dbNameFor(workspaceId: string) {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? DB_NAME : `${DB_NAME}--${workspaceId}`;
+}
+
+type StoreName =
+  | "items"
+  | "options"
+  | "subItems"
+  | "measurements"
+  | "rooms"
+  | "stores"
+  | "meta"
+  | "attachments"
+  | "syncBases"
+  | "conflicts"
+  | "outbox"
+  | "syncRuns";
+
+// Stores whose records carry a `syncState`. Writes to them keep the outbox in step, in the same transaction.
+const SYNCED_STORES: StoreName[] = ["items", "options", "subItems", "measurements", "rooms", "stores"];
+
+export type OutboxEntry = {
+  key: string; // `${store}:${recordId}`
+  store: StoreName;
+  recordId: string;
+  op: "upsert" | "delete";
+  queuedAt: number;
+};
 
-let dbPromise: Promise<IDBDatabase> | null = null;
+function isSyncedStore(store: StoreName) {
+  return SYNCED_STORES.includes(store);
+}
+
+// Anything not explicitly clean is pending (matches push, which treats a missing syncState as dirty).
+function trackOutbox(outbox: IDBObjectStore, store: StoreName, value: unknown) {
+  const { id, syncState } = (value || {}) as { id?: unknown; syncState?: unknown };
+  if (typeof id !== "string" || !id) return;
+  const key = `${store}:${id}`;
+  if (syncState === "clean") outbox.delete(key);
+  else {
+    const entry: OutboxEntry = { key, store, recordId: id, op: syncState === "deleted" ? "delete" : "upsert", queuedAt: Date.now() };
+    outbox.put(entry);
+  }
+}
 
-function openDb(): Promise<IDBDatabase> {
-  if (dbPromise) return dbPromise;
-  dbPromise = new Promise((resolve, reject) => {
-    const req = indexedDB.open(DB_NAME, DB_VERSION);
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+// Opens the active workspace's database unless told otherwise (copies between workspaces, device meta).
+function openDb(workspaceId = activeWorkspaceId()): Promise<IDBDatabase> {
+  const cached = dbPromises.get(workspaceId);
+  if (cached) return cached;
+  const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(dbNameFor(workspaceId), DB_VERSION);
 
     req.onupgradeneeded = () => {
       const db = req.result;
@@ -62,6 +112,38 @@ function openDb(): Promise<IDBDatabase> {
         store.createIndex("updatedAt", "updatedAt", { unique: false });
       }
 
+      // Last-synced copy of each record (keyed `${entity}:${id}`), used as the base for three-way merges on pull.
+      if (!db.objectStoreNames.contains("syncBases")) {
+        db.createObjectStore("syncBases", { keyPath: "key" });
+      }
+
+      if (!db.objectStoreNames.contains("conflicts")) {
+        const store = db.createObjectStore("conflicts", { keyPath: "id" });
+        store.createIndex("detectedAt", "detectedAt", { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains("outbox")) {
+        const outbox = db.createObjectStore("outbox", { keyPath: "key" });
+        outbox.createIndex("queuedAt", "queuedAt", { unique: false });
+        // Seed from records edited before the outbox existed.
+        const tx = req.transaction;
+        for (const name of SYNCED_STORES) {
+          if (!tx || !db.objectStoreNames.contains(name)) continue;
+          const cursorReq = tx.objectStore(name).openCursor();
+          cursorReq.onsuccess = () => {
+            const cursor = cursorReq.result;
+            if (!cursor) return;
+            trackOutbox(outbox, name, cursor.value);
+            cursor.continue();
+          };
+        }
+      }
+
+      if (!db.objectStoreNames.contains("syncRuns")) {
+        const store = db.createObjectStore("syncRuns", { keyPath: "id" });
+        store.createIndex("startedAt", "startedAt", { unique: false });
+      }
+
       if (!db.objectStoreNames.contains("meta")) {
         db.createObjectStore("meta", { keyPath: "key" });
       }
@@ -71,6 +153,7 @@ function openDb(): Promise<IDBDatabase> {
     req.onerror = () => reject(req.error || new Error("Failed to open IndexedDB"));
   });
 
+  dbPromises.set(workspaceId, dbPromise);
   return dbPromise;
 }
 
@@ -78,8 +161,9 @@ async function withStore<T>(
   store: StoreName,
   mode: IDBTransactionMode,
   fn: (s: IDBObjectStore) => IDBRequest<T>,
+  workspaceId?: string,
 ): Promise<T> {
-  const db = await openDb();
+  const db = await openDb(workspaceId);
   return await new Promise<T>((resolve, reject) => {
     const tx = db.transaction(store, mode);
     const s = tx.objectStore(store);
@@ -93,8 +177,9 @@ async function withTx<T>(
   stores: StoreName[],
   mode: IDBTransactionMode,
   fn: (tx: IDBTransaction) => Promise<T>,
+  workspaceId?: string,
 ): Promise<T> {
-  const db = await openDb();
+  const db = await openDb(workspaceId);
   const tx = db.transaction(stores, mode);
   try {
     const res = await fn(tx);
@@ -126,28 +211,72 @@ export async function idbGet<T>(store: StoreName, key: string): Promise<T | unde
   return (await withStore<T | undefined>(store, "readonly", (s) => s.get(key))) as T | undefined;
 }
 
+export async function idbCount(store: StoreName): Promise<number> {
+  return await withStore<number>(store, "readonly", (s) => s.count());
+}
+
 export async function idbPut<T>(store: StoreName, value: T): Promise<void> {
-  await withStore(store, "readwrite", (s) => s.put(value));
+  if (!isSyncedStore(store)) {
+    await withStore(store, "readwrite", (s) => s.put(value));
+    return;
+  }
+  await withTx([store, "outbox"], "readwrite", async (tx) => {
+    tx.objectStore(store).put(value as never);
+    trackOutbox(tx.objectStore("outbox"), store, value);
+  });
 }
 
 export async function idbDelete(store: StoreName, key: string): Promise<void> {
-  await withStore(store, "readwrite", (s) => s.delete(key));
+  if (!isSyncedStore(store)) {
+    await withStore(store, "readwrite", (s) => s.delete(key));
+    return;
+  }
+  await withTx([store, "outbox"], "readwrite", async (tx) => {
+    tx.objectStore(store).delete(key);
+    tx.objectStore("outbox").delete(`${store}:${key}`);
+  });
 }
 
 export async function idbClear(store: StoreName): Promise<void> {
-  await withStore(store, "readwrite", (s) => s.clear());
+  if (!isSyncedStore(store)) {
+    await withStore(store, "readwrite", (s) => s.clear());
+    return;
+  }
+  await withTx([store, "outbox"], "readwrite", async (tx) => {
+    tx.objectStore(store).clear();
+    tx.objectStore("outbox").delete(IDBKeyRange.bound(`${store}:`, `${store}:\uffff`));
+  });
 }
 
 export async function idbBulkPut<T>(store: StoreName, values: T[]): Promise<void> {
-  await withTx([store], "readwrite", async (tx) => {
+  const tracked = isSyncedStore(store);
+  await withTx(tracked ? [store, "outbox"] : [store], "readwrite", async (tx) => {
     const s = tx.objectStore(store);
-    for (const v of values) s.put(v as never);
+    const outbox = tracked ? tx.objectStore("outbox") : null;
+    for (const v of values) {
+      s.put(v as never);
+      if (outbox) trackOutbox(outbox, store, v);
+    }
     return;
   });
 }
 
 export async function idbResetAll(): Promise<void> {
-  await withTx(["items", "options", "subItems", "measurements", "rooms", "stores", "attachments", "meta"], "readwrite", async (tx) => {
+  const stores: StoreName[] = [
+    "items",
+    "options",
+    "subItems",
+    "measurements",
+    "rooms",
+    "stores",
+    "attachments",
+    "syncBases",
+    "conflicts",
+    "outbox",
+    "syncRuns",
+    "meta",
+  ];
+  await withTx(stores, "readwrite", async (tx) => {
     tx.objectStore("items").clear();
     tx.objectStore("options").clear();
     tx.objectStore("subItems").clear();
@@ -155,11 +284,86 @@ export async function idbResetAll(): Promise<void> {
     tx.objectStore("rooms").clear();
     tx.objectStore("stores").clear();
     tx.objectStore("attachments").clear();
+    tx.objectStore("syncBases").clear();
+    tx.objectStore("conflicts").clear();
+    tx.objectStore("outbox").clear();
+    tx.objectStore("syncRuns").clear();
     tx.objectStore("meta").clear();
     return;
   });
 }
 
+function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error || new Error("IndexedDB request failed"));
+  });
+}
+
+// Moves records created by a push onto their remote ids, rewrites every reference to them (parents,
+// selected option, measurement/source item links, attachment parents) and stamps created rooms, all in
+// one transaction: either the whole push response is applied or none of it is.
+export async function idbRekey(maps: RekeyMaps, createdRooms: Record<string, string> = {}): Promise<void> {
+  const scanned: RekeyableStore[] = ["items", "options", "subItems", "measurements"];
+  await withTx([...SYNCED_STORES, "attachments", "outbox"], "readwrite", async (tx) => {
+    const outbox = tx.objectStore("outbox");
+    const write = (store: RekeyableStore, prev: { id: string }, next: { id: string }) => {
+      const s = tx.objectStore(store);
+      if (next.id !== prev.id) {
+        s.delete(prev.id);
+        outbox.delete(`${store}:${prev.id}`);
+      }
+      s.put(next);
+      trackOutbox(outbox, store, next);
+    };
+
+    // References can point at any row, so the four linked stores are scanned once each.
+    const rows = await Promise.all(scanned.map((store) => requestResult(tx.objectStore(store).getAll())));
+    scanned.forEach((store, i) => {
+      for (const row of rows[i]) {
+        const next = rekeyRecord(store, row, maps);
+        if (next) write(store, row, next);
+      }
+    });
+
+    // Nothing references stores or rooms by id, so only the created ones are touched.
+    const stores = await Promise.all(
+      Object.keys(maps.stores || {}).map((id) => requestResult<Store | undefined>(tx.objectStore("stores").get(id))),
+    );
+    for (const row of stores) {
+      const next = row ? rekeyRecord("stores", row, maps) : null;
+      if (row && next) write("stores", row, next);
+    }
+    const rooms = await Promise.all(
+      Object.keys(createdRooms).map((id) => requestResult<Room | undefined>(tx.objectStore("rooms").get(id))),
+    );
+    for (const room of rooms) {
+      if (!room) continue;
+      const next: Room = { ...room, remoteId: createdRooms[room.id], syncState: "clean" };
+      tx.objectStore("rooms").put(next);
+      trackOutbox(outbox, "rooms", next);
+    }
+
+    const parents: Array<["item" | "option" | "subItem", Record<string, string> | undefined]> = [
+      ["item", maps.items],
+      ["option", maps.options],
+      ["subItem", maps.subItems],
+    ];
+    const attachments = tx.objectStore("attachments");
+    const now = Date.now();
+    for (const [parentType, map] of parents) {
+      const found = await Promise.all(
+        Object.keys(map || {}).map((id) => requestResult<AttachmentRecord[]>(attachments.index("parentKey").getAll(`${parentType}:${id}`))),
+      );
+      for (const att of found.flat()) {
+        const parentId = rekeyParentId(parentType, att.parentId, maps);
+        if (!parentId) continue;
+        attachments.put({ ...att, parentId, parentKey: `${parentType}:${parentId}`, updatedAt: now });
+      }
+    }
+  });
+}
+
 export type DbSnapshot = {
   items: Item[];
   options: Option[];
@@ -167,22 +371,24 @@ export type DbSnapshot = {
   measurements: Measurement[];
   rooms: Room[];
   stores: Store[];
+  conflicts: SyncConflict[];
   meta: Record<string, unknown>;
 };
 
 export async function idbGetSnapshot(): Promise<DbSnapshot> {
-  const [items, options, subItems, measurements, rooms, stores, metaRaw] = await Promise.all([
+  const [items, options, subItems, measurements, rooms, stores, conflicts, metaRaw] = await Promise.all([
     idbGetAll<Item>("items"),
     idbGetAll<Option>("options"),
     idbGetAll<SubItem>("subItems"),
     idbGetAll<Measurement>("measurements"),
     idbGetAll<Room>("rooms"),
     idbGetAll<Store>("stores"),
+    idbGetAll<SyncConflict>("conflicts"),
     idbGetAll<{ key: string; value: unknown }>("meta"),
   ]);
   const meta: Record<string, unknown> = {};
   for (const row of metaRaw) meta[row.key] = row.value;
-  return { items, options, subItems, measurements, rooms, stores, meta };
+  return { items, options, subItems, measurements, rooms, stores, conflicts, meta };
 }
 
 export async function idbSetMeta(key: string, value: unknown): Promise<void> {
@@ -193,3 +399,54 @@ export async function idbGetMeta<T>(key: string): Promise<T | undefined> {
   const row = await idbGet<{ key: string; value: T }>("meta", key);
   return row?.value;
 }
+
+// Device-wide settings (e.g. the sign-in device token) stay in the default workspace's database, so
+// every workspace on this device shares them.
+export async function idbSetDeviceMeta(key: string, value: unknown): Promise<void> {
+  await withStore("meta", "readwrite", (s) => s.put({ key, value }), DEFAULT_WORKSPACE_ID);
+}
+
+export async function idbGetDeviceMeta<T>(key: string): Promise<T | undefined> {
+  const row = await withStore<{ key: string; value: T } | undefined>("meta", "readonly", (s) => s.get(key), DEFAULT_WORKSPACE_ID);
+  return row?.value;
+}
+
+export async function idbGetAllFrom<T>(workspaceId: string, store: StoreName): Promise<T[]> {
+  return await withStore<T[]>(store, "readonly", (s) => s.getAll(), workspaceId);
+}
+
+// Writes records copied from another workspace in one transaction, queueing synced ones for push.
+export async function idbAddToWorkspace(workspaceId: string, rows: Partial<Record<StoreName, unknown[]>>): Promise<void> {
+  const stores = (Object.keys(rows) as StoreName[]).filter((store) => rows[store]?.length);
+  if (!stores.length) return;
+  await withTx(
+    [...stores, "outbox"],
+    "readwrite",
+    async (tx) => {
+      const outbox = tx.objectStore("outbox");
+      for (const store of stores) {
+        for (const row of rows[store]!) {
+          tx.objectStore(store).put(row);
+          if (isSyncedStore(store)) trackOutbox(outbox, store, row);
+        }
+      }
+    },
+    workspaceId,
+  );
+}
+
+// Deletes a workspace's database. Fails while another tab still has that workspace open.
+export async function idbDropWorkspace(workspaceId: string): Promise<void> {
+  if (workspaceId === DEFAULT_WORKSPACE_ID || workspaceId === activeWorkspaceId()) {
+    throw new Error("Switch to another home before deleting this one.");
+  }
+  const open = dbPromises.get(workspaceId);
+  dbPromises.delete(workspaceId);
+  if (open) (await open.catch(() => null))?.close();
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(dbNameFor(workspaceId));
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error || new Error("Failed to delete IndexedDB"));
+    req.onblocked = () => reject(new Error("That home is still open in another tab. Close it and try again."));
+  });
+}
@@ -1,7 +1,10 @@
+import { activeWorkspaceId } from "@/storage/workspaces";
+
 const EVENT_NAME = "furnishing-db-changed";
 const CHANNEL_NAME = "furnishing-db";
 
-const bc = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL_NAME) : null;
+// Scoped to the workspace: tabs on another one have a different database and don't need to hear about it.
+const bc = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(`${CHANNEL_NAME}:${activeWorkspaceId()}`) : null;
 
 export function notifyDbChanged() {
   try {
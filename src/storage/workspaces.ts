@@ -0,0 +1,94 @@
+import { DEFAULT_WORKSPACE_ID, sanitizeWorkspaces, workspaceSlug, type Workspace } from "@/lib/workspaces";
+
+// The workspace registry lives in localStorage rather than IndexedDB: every workspace has its own
+// database, and which one to open has to be known before opening any.
+
+const WORKSPACES_KEY = "ft_workspaces";
+const ACTIVE_WORKSPACE_KEY = "ft_activeWorkspace";
+
+const listeners = new Set<() => void>();
+
+function readWorkspaces(): Workspace[] {
+  try {
+    return sanitizeWorkspaces(JSON.parse(localStorage.getItem(WORKSPACES_KEY) || "[]"));
+  } catch {
+    return sanitizeWorkspaces([]);
+  }
+}
+
+function writeWorkspaces(list: Workspace[]) {
+  localStorage.setItem(WORKSPACES_KEY, JSON.stringify(list));
+  for (const cb of listeners) cb();
+}
+
+function resolveActiveId() {
+  try {
+    const id = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    return id && readWorkspaces().some((w) => w.id === id) ? id : DEFAULT_WORKSPACE_ID;
+  } catch {
+    return DEFAULT_WORKSPACE_ID;
+  }
+}
+
+// Fixed for the page's lifetime: the open database, sync state and caches all belong to it.
+// Switching reloads the page.
+const pageWorkspaceId = typeof window === "undefined" ? DEFAULT_WORKSPACE_ID : resolveActiveId();
+
+export function activeWorkspaceId() {
+  return pageWorkspaceId;
+}
+
+export function listWorkspaces() {
+  return readWorkspaces();
+}
+
+export function getActiveWorkspace(): Workspace {
+  const list = readWorkspaces();
+  return list.find((w) => w.id === pageWorkspaceId) || list[0];
+}
+
+export function subscribeWorkspaces(cb: () => void) {
+  listeners.add(cb);
+  // Other tabs editing the registry.
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === WORKSPACES_KEY) cb();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(cb);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function createWorkspace(input: { name: string; airtableBaseId?: string | null; airtableTableId?: string | null }) {
+  const list = readWorkspaces();
+  const name = input.name.trim() || "New home";
+  const ws: Workspace = {
+    id: workspaceSlug(name, list.map((w) => w.id)),
+    name,
+    airtableBaseId: input.airtableBaseId?.trim() || null,
+    airtableTableId: input.airtableTableId?.trim() || null,
+    createdAt: Date.now(),
+  };
+  writeWorkspaces([...list, ws]);
+  return ws;
+}
+
+// The id never changes: it names the workspace's database and its data on the server.
+export function updateWorkspace(id: string, patch: Partial<Pick<Workspace, "name" | "airtableBaseId" | "airtableTableId">>) {
+  const list = readWorkspaces();
+  if (!list.some((w) => w.id === id)) return;
+  writeWorkspaces(sanitizeWorkspaces(list.map((w) => (w.id === id ? { ...w, ...patch } : w))));
+}
+
+// Drops the registry entry only; the caller deletes the database (idbDropWorkspace).
+export function removeWorkspace(id: string) {
+  if (id === DEFAULT_WORKSPACE_ID || id === pageWorkspaceId) throw new Error("Switch to another home before deleting this one.");
+  writeWorkspaces(readWorkspaces().filter((w) => w.id !== id));
+}
+
+export function switchWorkspace(id: string) {
+  if (id === pageWorkspaceId) return;
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  window.location.reload();
+}
@@ -0,0 +1,28 @@
+import type { z } from "zod";
+import { apiErrorSchema } from "../../api/_lib/contracts";
+
+// Reads an `/api/*` JSON response against its shared contract (api/_lib/contracts.ts). Error
+// responses throw with the server's message; a success payload that doesn't match the contract
+// throws too, so a shape change fails loudly instead of being half-applied.
+export async function readApiResult<T>(res: Response, schema: z.ZodType<T, z.ZodTypeDef, unknown>, label: string): Promise<T> {
+  const text = await res.text().catch(() => "");
+  let json: unknown = null;
+  try {
+    json = text ? JSON.parse(text) : null;
+  } catch {
+    json = null;
+  }
+
+  if (!res.ok || (json as { ok?: unknown } | null)?.ok !== true) {
+    const error = apiErrorSchema.safeParse(json);
+    if (error.success) throw new Error(error.data.message);
+    throw new Error(json === null && text ? text : `${label} failed (${res.status})`);
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`${label}: unexpected response (${issue.path.join(".") || "body"}: ${issue.message})`);
+  }
+  return parsed.data;
+}
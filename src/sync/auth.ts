@@ -0,0 +1,108 @@
+import { idbGetDeviceMeta, idbSetDeviceMeta } from "@/storage/idb";
+import {
+  authDevicesResponseSchema,
+  authSignInResponseSchema,
+  authStateResponseSchema,
+  emptyOkResponseSchema,
+  type AuthDevice,
+  type AuthDeviceInfo,
+  type AuthStateResponse,
+  type AuthSignInBody,
+} from "../../api/_lib/contracts";
+import { readApiResult } from "./api";
+
+// Client side of the API sign-in (api/_lib/auth.ts). The session itself is an HttpOnly cookie; the
+// device token kept in IndexedDB lets this device quietly get a fresh session when the cookie expires,
+// until the device is revoked.
+
+export type { AuthDevice, AuthDeviceInfo } from "../../api/_lib/contracts";
+
+export type AuthState = Omit<AuthStateResponse, "ok">;
+
+const TOKEN_KEY = "authDeviceToken";
+
+let signInNeeded = false;
+const listeners = new Set<(needed: boolean) => void>();
+
+function setSignInNeeded(next: boolean) {
+  if (next === signInNeeded) return;
+  signInNeeded = next;
+  for (const cb of listeners) cb(next);
+}
+
+export function isSignInNeeded() {
+  return signInNeeded;
+}
+
+export function subscribeSignInNeeded(cb: (needed: boolean) => void) {
+  listeners.add(cb);
+  return () => {
+    listeners.delete(cb);
+  };
+}
+
+export async function getAuthState(): Promise<AuthState> {
+  const { ok, ...state } = await readApiResult(await fetch("/api/auth/session"), authStateResponseSchema, "Auth check");
+  return state;
+}
+
+let refreshing: Promise<boolean> | null = null;
+function refreshSession() {
+  refreshing ??= (async () => {
+    const deviceToken = await idbGetDeviceMeta<string>(TOKEN_KEY);
+    if (!deviceToken) return false;
+    const res = await fetch("/api/auth/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deviceToken } satisfies AuthSignInBody),
+    });
+    // Revoked: forget the token so we stop trying it.
+    if (res.status === 401) await idbSetDeviceMeta(TOKEN_KEY, null);
+    return res.ok;
+  })()
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+// `fetch` for `/api/*` routes behind sign-in. On a 401 it renews the session with the stored device
+// token and retries once; if that fails it raises the sign-in prompt and returns the 401 response.
+export async function apiFetch(input: RequestInfo, init?: RequestInit) {
+  const res = await fetch(input, init);
+  if (res.status !== 401) return res;
+  if (await refreshSession()) {
+    const retry = await fetch(input, init);
+    if (retry.status !== 401) return retry;
+  }
+  setSignInNeeded(true);
+  return res;
+}
+
+export async function signIn(passcode: string, deviceName: string): Promise<AuthDeviceInfo> {
+  const res = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ passcode, deviceName } satisfies AuthSignInBody),
+  });
+  const json = await readApiResult(res, authSignInResponseSchema, "Sign in");
+  if (json.deviceToken) await idbSetDeviceMeta(TOKEN_KEY, json.deviceToken);
+  setSignInNeeded(false);
+  return json.device;
+}
+
+export async function signOut() {
+  await idbSetDeviceMeta(TOKEN_KEY, null);
+  await readApiResult(await fetch("/api/auth/session", { method: "DELETE" }), emptyOkResponseSchema, "Sign out");
+}
+
+export async function listAuthDevices(): Promise<AuthDevice[]> {
+  const json = await readApiResult(await apiFetch("/api/auth/devices"), authDevicesResponseSchema, "Loading devices");
+  return json.devices;
+}
+
+export async function revokeAuthDevice(id: string) {
+  const res = await apiFetch(`/api/auth/devices?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+  await readApiResult(res, emptyOkResponseSchema, "Revoking device");
+}
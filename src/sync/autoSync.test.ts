@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as idb from "@/storage/idb";
+import { resetMemoryIdb } from "@/test/memoryIdb";
+import { pullNow, syncNow } from "@/sync/syncNow";
+
+vi.mock("@/storage/idb", () => import("@/test/memoryIdb"));
+vi.mock("@/sync/syncNow", () => ({ syncNow: vi.fn(), pullNow: vi.fn() }));
+
+const T = 1_700_000_000_000;
+// autoSync only cares whether a run settles, not what it reports.
+const synced = { push: {}, pull: {} } as Awaited<ReturnType<typeof syncNow>>;
+const pulled = { push: {}, pull: {} } as Awaited<ReturnType<typeof pullNow>>;
+
+// autoSync keeps its status in module state, so every test loads a fresh copy.
+async function load() {
+  vi.resetModules();
+  return { ...(await import("@/sync/autoSync")), idb, syncNow: vi.mocked(syncNow), pullNow: vi.mocked(pullNow) };
+}
+
+beforeEach(() => {
+  resetMemoryIdb();
+  vi.mocked(syncNow).mockReset().mockResolvedValue(synced);
+  vi.mocked(pullNow).mockReset().mockResolvedValue(pulled);
+  vi.useFakeTimers({ now: T });
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify({ ok: true, syncConfigured: true }), { status: 200 })),
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("auto sync", () => {
+  it("pushes when the outbox has records and only pulls when it is empty", async () => {
+    const { runAutoSync, getSyncStatus, idb, syncNow, pullNow } = await load();
+
+    await runAutoSync("interval");
+    expect(pullNow).toHaveBeenCalledWith({ trigger: "auto" });
+    expect(syncNow).not.toHaveBeenCalled();
+
+    await idb.idbPut("items", { id: "item_1", syncState: "dirty" });
+    await runAutoSync("manual");
+    expect(syncNow).toHaveBeenCalledWith({ trigger: "auto" });
+    expect(getSyncStatus()).toMatchObject({ state: "idle", pending: 1, lastSuccessAt: T, attempts: 0, nextAttemptAt: null });
+  });
+
+  it("backs off exponentially after failures and retries on its own", async () => {
+    const { runAutoSync, getSyncStatus, idb, syncNow } = await load();
+    await idb.idbPut("items", { id: "item_1", syncState: "dirty" });
+    syncNow.mockRejectedValue(new Error("Airtable error 503"));
+
+    await runAutoSync("manual");
+    expect(getSyncStatus()).toMatchObject({ state: "error", lastError: "Airtable error 503", attempts: 1, nextAttemptAt: T + 30_000 });
+    expect(await idb.idbGetMeta("syncOutbox")).toMatchObject({ attempts: 1, nextAttemptAt: T + 30_000 });
+
+    // Background triggers wait for the backoff window.
+    await runAutoSync("interval");
+    await runAutoSync("focus");
+    expect(syncNow).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(syncNow).toHaveBeenCalledTimes(2);
+    expect(getSyncStatus()).toMatchObject({ attempts: 2, nextAttemptAt: T + 30_000 + 60_000 });
+
+    syncNow.mockResolvedValue(synced);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(syncNow).toHaveBeenCalledTimes(3);
+    expect(getSyncStatus()).toMatchObject({ state: "idle", lastError: null, attempts: 0, nextAttemptAt: null });
+    expect(await idb.idbGetMeta("syncOutbox")).toMatchObject({ attempts: 0, nextAttemptAt: null, lastSuccessAt: T + 90_000 });
+  });
+
+  it("retries right away when the device comes back online", async () => {
+    const { runAutoSync, getSyncStatus, idb, syncNow } = await load();
+    await idb.idbPut("items", { id: "item_1", syncState: "dirty" });
+    const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+    await runAutoSync("interval");
+    expect(getSyncStatus()).toMatchObject({ state: "offline", pending: 1 });
+    expect(syncNow).not.toHaveBeenCalled();
+
+    syncNow.mockRejectedValueOnce(new Error("Failed to fetch"));
+    onLine.mockReturnValue(true);
+    await runAutoSync("online");
+    expect(getSyncStatus()).toMatchObject({ state: "error", attempts: 1 });
+    await runAutoSync("online");
+    expect(syncNow).toHaveBeenCalledTimes(2);
+    expect(getSyncStatus()).toMatchObject({ state: "idle", attempts: 0 });
+  });
+
+  it("restores the backoff after a reload", async () => {
+    const { startAutoSync, getSyncStatus, idb, syncNow, pullNow } = await load();
+    const saved = { lastSuccessAt: T - 60_000, lastError: "Airtable error 503", attempts: 3, nextAttemptAt: T + 120_000 };
+    await idb.idbSetMeta("syncOutbox", saved);
+
+    const stop = await startAutoSync();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getSyncStatus()).toMatchObject({ state: "idle", lastError: "Airtable error 503", attempts: 3, nextAttemptAt: T + 120_000 });
+    expect(pullNow).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(pullNow).toHaveBeenCalledTimes(1);
+    expect(syncNow).not.toHaveBeenCalled();
+    expect(getSyncStatus()).toMatchObject({ attempts: 0, nextAttemptAt: null });
+    stop();
+  });
+
+  it("stays disabled when the server has no sync backend", async () => {
+    const { runAutoSync, getSyncStatus, pullNow } = await load();
+    vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({ ok: true, syncConfigured: false, message: "No backend" })));
+
+    await runAutoSync("interval");
+    expect(getSyncStatus()).toMatchObject({ state: "disabled", lastError: "No backend" });
+    expect(pullNow).not.toHaveBeenCalled();
+
+    await runAutoSync("manual");
+    expect(pullNow).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,223 @@
+import { syncTargetParams } from "@/lib/workspaces";
+import { idbCount, idbGetMeta, idbSetMeta } from "@/storage/idb";
+import { subscribeDbChanges } from "@/storage/notify";
+import { getActiveWorkspace } from "@/storage/workspaces";
+import { pullNow, syncNow } from "@/sync/syncNow";
+
+// Background delivery of the outbox (records whose syncState isn't clean, tracked in the `outbox`
+// store). Runs on `online`, on app focus and on an interval; failures back off exponentially and the
+// retry state is persisted so a reload doesn't reset it.
+
+export type AutoSyncSettings = { enabled: boolean; intervalMinutes: number };
+
+export type SyncStatus = {
+  state: "idle" | "syncing" | "offline" | "error" | "disabled";
+  pending: number;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  attempts: number;
+  nextAttemptAt: number | null;
+};
+
+type OutboxState = Pick<SyncStatus, "lastSuccessAt" | "lastError" | "attempts" | "nextAttemptAt">;
+
+const SETTINGS_KEY = "autoSync";
+const STATE_KEY = "syncOutbox";
+const DEFAULT_SETTINGS: AutoSyncSettings = { enabled: true, intervalMinutes: 5 };
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 30 * 60_000;
+const FOCUS_COOLDOWN_MS = 60_000;
+
+let status: SyncStatus = {
+  state: "idle",
+  pending: 0,
+  lastSuccessAt: null,
+  lastError: null,
+  attempts: 0,
+  nextAttemptAt: null,
+};
+let settings: AutoSyncSettings = DEFAULT_SETTINGS;
+let running = false;
+let intervalId: number | null = null;
+let retryId: number | null = null;
+const listeners = new Set<(s: SyncStatus) => void>();
+
+function setStatus(patch: Partial<SyncStatus>) {
+  status = { ...status, ...patch };
+  for (const cb of listeners) cb(status);
+}
+
+export function getSyncStatus() {
+  return status;
+}
+
+export function subscribeSyncStatus(cb: (s: SyncStatus) => void) {
+  listeners.add(cb);
+  return () => {
+    listeners.delete(cb);
+  };
+}
+
+function sanitizeSettings(input: unknown): AutoSyncSettings {
+  const obj = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const minutes = Number(obj.intervalMinutes);
+  return {
+    enabled: typeof obj.enabled === "boolean" ? obj.enabled : DEFAULT_SETTINGS.enabled,
+    intervalMinutes: Number.isFinite(minutes) && minutes >= 1 ? Math.round(minutes) : DEFAULT_SETTINGS.intervalMinutes,
+  };
+}
+
+export async function getAutoSyncSettings(): Promise<AutoSyncSettings> {
+  return sanitizeSettings(await idbGetMeta(SETTINGS_KEY));
+}
+
+export async function setAutoSyncSettings(next: AutoSyncSettings) {
+  settings = sanitizeSettings(next);
+  await idbSetMeta(SETTINGS_KEY, settings);
+  scheduleInterval();
+  if (!settings.enabled) setStatus({ state: "disabled" });
+  else void runAutoSync("settings");
+}
+
+async function saveState() {
+  const state: OutboxState = {
+    lastSuccessAt: status.lastSuccessAt,
+    lastError: status.lastError,
+    attempts: status.attempts,
+    nextAttemptAt: status.nextAttemptAt,
+  };
+  await idbSetMeta(STATE_KEY, state);
+}
+
+async function refreshPending() {
+  const pending = await idbCount("outbox");
+  if (pending !== status.pending) setStatus({ pending });
+  return pending;
+}
+
+function scheduleRetry(at: number) {
+  if (retryId !== null) window.clearTimeout(retryId);
+  retryId = window.setTimeout(() => {
+    retryId = null;
+    void runAutoSync("retry");
+  }, Math.max(0, at - Date.now()));
+}
+
+function scheduleInterval() {
+  if (intervalId !== null) window.clearInterval(intervalId);
+  intervalId = null;
+  if (!settings.enabled) return;
+  intervalId = window.setInterval(() => void runAutoSync("interval"), settings.intervalMinutes * 60_000);
+}
+
+// Skip background runs (and the error badge) on installs without a sync backend. Checked once per
+// sync target (the home and its Airtable base and table), so editing the active home's base checks again.
+const backendReadyByTarget = new Map<string, Promise<boolean>>();
+function backendReady() {
+  const params = syncTargetParams(getActiveWorkspace()).toString();
+  let ready = backendReadyByTarget.get(params);
+  if (!ready) {
+    ready = fetch(`/api/health?${params}`)
+      .then(async (res) => {
+        const json = await res.json().catch(() => null);
+        const configured = Boolean(res.ok && json?.ok && (json.syncConfigured ?? json.airtableConfigured));
+        if (!configured) setStatus({ state: "disabled", lastError: json?.message || "Sync backend not configured" });
+        return configured;
+      })
+      .catch(() => {
+        // Unreachable right now (offline, server down): let the normal retry path handle it.
+        backendReadyByTarget.delete(params);
+        return true;
+      });
+    backendReadyByTarget.set(params, ready);
+  }
+  return ready;
+}
+
+// Only one tab per workspace syncs at a time when the Web Locks API is available.
+async function withSyncLock(fn: () => Promise<void>) {
+  const locks: LockManager | undefined = navigator.locks;
+  if (!locks?.request) return await fn();
+  await locks.request(`furnishing-auto-sync:${getActiveWorkspace().id}`, { ifAvailable: true }, async (lock) => {
+    if (lock) await fn();
+  });
+}
+
+export async function runAutoSync(reason: "online" | "focus" | "interval" | "retry" | "settings" | "start" | "manual") {
+  if (running) return;
+  if (!settings.enabled && reason !== "manual") return;
+  if (!navigator.onLine) {
+    setStatus({ state: "offline" });
+    await refreshPending();
+    return;
+  }
+  if (!(await backendReady()) && reason !== "manual") return;
+  // Respect the backoff window unless the user asked for it (or we just came back online).
+  if (reason !== "manual" && reason !== "online" && status.nextAttemptAt && Date.now() < status.nextAttemptAt) return;
+  // Focus fires a lot on mobile; skip pull-only runs right after a successful sync.
+  if (reason === "focus" && !status.pending && status.lastSuccessAt && Date.now() - status.lastSuccessAt < FOCUS_COOLDOWN_MS) return;
+
+  running = true;
+  try {
+    await withSyncLock(async () => {
+      const pending = await refreshPending();
+      setStatus({ state: "syncing" });
+      try {
+        // Nothing queued: still pull so edits from other devices show up.
+        if (pending) await syncNow({ trigger: "auto" });
+        else await pullNow({ trigger: "auto" });
+        setStatus({ state: "idle", lastSuccessAt: Date.now(), lastError: null, attempts: 0, nextAttemptAt: null });
+      } catch (err) {
+        const attempts = status.attempts + 1;
+        const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempts - 1));
+        const nextAttemptAt = Date.now() + delay;
+        setStatus({ state: "error", lastError: err instanceof Error ? err.message : "Sync failed", attempts, nextAttemptAt });
+        scheduleRetry(nextAttemptAt);
+      }
+      await saveState();
+      await refreshPending();
+    });
+  } finally {
+    running = false;
+  }
+}
+
+export async function startAutoSync() {
+  settings = await getAutoSyncSettings();
+  const saved = (await idbGetMeta<Partial<OutboxState>>(STATE_KEY)) || {};
+  setStatus({
+    state: settings.enabled ? (navigator.onLine ? "idle" : "offline") : "disabled",
+    lastSuccessAt: typeof saved.lastSuccessAt === "number" ? saved.lastSuccessAt : null,
+    lastError: typeof saved.lastError === "string" ? saved.lastError : null,
+    attempts: typeof saved.attempts === "number" ? saved.attempts : 0,
+    nextAttemptAt: typeof saved.nextAttemptAt === "number" ? saved.nextAttemptAt : null,
+  });
+  await refreshPending();
+
+  const onOnline = () => void runAutoSync("online");
+  const onOffline = () => setStatus({ state: "offline" });
+  const onFocus = () => void runAutoSync("focus");
+  const onVisibility = () => {
+    if (document.visibilityState === "visible") onFocus();
+  };
+  window.addEventListener("online", onOnline);
+  window.addEventListener("offline", onOffline);
+  window.addEventListener("focus", onFocus);
+  document.addEventListener("visibilitychange", onVisibility);
+  const unsubscribe = subscribeDbChanges(() => void refreshPending());
+  scheduleInterval();
+  if (status.nextAttemptAt) scheduleRetry(status.nextAttemptAt);
+  void runAutoSync("start");
+
+  return () => {
+    window.removeEventListener("online", onOnline);
+    window.removeEventListener("offline", onOffline);
+    window.removeEventListener("focus", onFocus);
+    document.removeEventListener("visibilitychange", onVisibility);
+    unsubscribe();
+    if (intervalId !== null) window.clearInterval(intervalId);
+    if (retryId !== null) window.clearTimeout(retryId);
+    intervalId = null;
+    retryId = null;
+  };
+}
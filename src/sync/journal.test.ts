@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { clearSyncRuns, getSyncRun, listSyncRuns, recordSyncRun } from "@/sync/journal";
+import { resetMemoryIdb } from "@/test/memoryIdb";
+
+vi.mock("@/storage/idb", () => import("@/test/memoryIdb"));
+
+const T = 1_700_000_000_000;
+
+const run = (startedAt: number) => ({
+  kind: "sync" as const,
+  trigger: "auto" as const,
+  startedAt,
+  durationMs: 10,
+  ok: true,
+  counts: { push: {}, pull: { items: 1 } },
+  errors: [],
+});
+
+beforeEach(() => {
+  resetMemoryIdb();
+});
+
+describe("sync journal", () => {
+  it("lists runs newest first and keeps only the newest 200", async () => {
+    const first = await recordSyncRun(run(T));
+    for (let i = 1; i <= 200; i += 1) await recordSyncRun(run(T + i * 1000));
+
+    const runs = await listSyncRuns();
+    expect(runs).toHaveLength(200);
+    expect(runs[0].startedAt).toBe(T + 200_000);
+    expect(runs[199].startedAt).toBe(T + 1000);
+    expect(await getSyncRun(first.id)).toBeUndefined();
+  });
+
+  it("keeps a late-recorded older run in order and clears on request", async () => {
+    await recordSyncRun(run(T + 2000));
+    const older = await recordSyncRun(run(T + 1000));
+    expect((await listSyncRuns()).map((r) => r.startedAt)).toEqual([T + 2000, T + 1000]);
+    expect(await getSyncRun(older.id)).toMatchObject({ startedAt: T + 1000, counts: { pull: { items: 1 } } });
+
+    await clearSyncRuns();
+    expect(await listSyncRuns()).toEqual([]);
+  });
+});
@@ -0,0 +1,28 @@
+import type { SyncRun } from "@/lib/domain";
+import { newId } from "@/lib/id";
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut } from "@/storage/idb";
+
+// Persisted log of sync runs (kept to the newest MAX_RUNS), so push errors outlive the toast.
+
+const MAX_RUNS = 200;
+
+export async function listSyncRuns(): Promise<SyncRun[]> {
+  const runs = await idbGetAll<SyncRun>("syncRuns");
+  return runs.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getSyncRun(id: string) {
+  return await idbGet<SyncRun>("syncRuns", id);
+}
+
+export async function recordSyncRun(run: Omit<SyncRun, "id">): Promise<SyncRun> {
+  const entry: SyncRun = { ...run, id: newId("run") };
+  await idbPut("syncRuns", entry);
+  const runs = await listSyncRuns();
+  for (const old of runs.slice(MAX_RUNS)) await idbDelete("syncRuns", old.id);
+  return entry;
+}
+
+export async function clearSyncRuns() {
+  await idbClear("syncRuns");
+}
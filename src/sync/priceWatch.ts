@@ -0,0 +1,162 @@
+import { priceCheckResponseSchema, type PriceCheckBody } from "../../api/_lib/contracts";
+import { recordPriceCheck, recordPriceCheckError, type PriceWatch } from "../../api/_lib/priceWatch";
+import type { Item, Option } from "@/lib/domain";
+import { idbGet, idbGetAll, idbGetMeta, idbPut, idbSetMeta } from "@/storage/idb";
+import { notifyDbChanged } from "@/storage/notify";
+import { getActiveWorkspace } from "@/storage/workspaces";
+import { readApiResult } from "@/sync/api";
+import { apiFetch } from "@/sync/auth";
+
+// Price watch: re-scrapes the links of watched items and options (`priceWatch.enabled`) through
+// /api/prices/check and records each result in the record's price history. While the app is open,
+// links not checked within the configured interval are checked every few minutes; "Check now" runs
+// them all (or one record) at once. Results dirty the record, so the outbox syncs the history.
+
+export type PriceWatchSettings = { enabled: boolean; intervalHours: number };
+
+export type PriceWatchStatus = { running: boolean; done: number; total: number; lastRunAt: number | null };
+
+type WatchedStore = "items" | "options";
+type WatchedRecord = { store: WatchedStore; id: string; link: string; lastCheckedAt: number | null };
+
+const SETTINGS_KEY = "priceWatch";
+const STATE_KEY = "priceWatchState";
+const DEFAULT_SETTINGS: PriceWatchSettings = { enabled: true, intervalHours: 24 };
+const TICK_MS = 10 * 60_000;
+
+let status: PriceWatchStatus = { running: false, done: 0, total: 0, lastRunAt: null };
+let settings: PriceWatchSettings = DEFAULT_SETTINGS;
+const listeners = new Set<(s: PriceWatchStatus) => void>();
+
+function setStatus(patch: Partial<PriceWatchStatus>) {
+  status = { ...status, ...patch };
+  for (const cb of listeners) cb(status);
+}
+
+export function getPriceWatchStatus() {
+  return status;
+}
+
+export function subscribePriceWatchStatus(cb: (s: PriceWatchStatus) => void) {
+  listeners.add(cb);
+  return () => {
+    listeners.delete(cb);
+  };
+}
+
+function sanitizeSettings(input: unknown): PriceWatchSettings {
+  const obj = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const hours = Number(obj.intervalHours);
+  return {
+    enabled: typeof obj.enabled === "boolean" ? obj.enabled : DEFAULT_SETTINGS.enabled,
+    intervalHours: Number.isFinite(hours) && hours >= 1 ? Math.round(hours) : DEFAULT_SETTINGS.intervalHours,
+  };
+}
+
+export async function getPriceWatchSettings(): Promise<PriceWatchSettings> {
+  return sanitizeSettings(await idbGetMeta(SETTINGS_KEY));
+}
+
+export async function setPriceWatchSettings(next: PriceWatchSettings) {
+  settings = sanitizeSettings(next);
+  await idbSetMeta(SETTINGS_KEY, settings);
+  if (settings.enabled) void checkPrices();
+}
+
+function watchedRecords(store: WatchedStore, rows: Array<Item | Option>): WatchedRecord[] {
+  return rows
+    .filter((row) => row.syncState !== "deleted" && row.priceWatch?.enabled && row.link?.trim())
+    .map((row) => ({ store, id: row.id, link: row.link!.trim(), lastCheckedAt: row.priceWatch?.lastCheckedAt ?? null }));
+}
+
+// One tab per workspace checks at a time when the Web Locks API is available.
+async function withPriceWatchLock(fn: () => Promise<void>) {
+  const locks: LockManager | undefined = navigator.locks;
+  if (!locks?.request) return await fn();
+  await locks.request(`furnishing-price-watch:${getActiveWorkspace().id}`, { ifAvailable: true }, async (lock) => {
+    if (lock) await fn();
+  });
+}
+
+// Returns false when the run should stop: offline, or signed out (apiFetch raises the prompt).
+async function checkOne(target: WatchedRecord): Promise<boolean> {
+  let res: Response;
+  try {
+    res = await apiFetch("/api/prices/check", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url: target.link } satisfies PriceCheckBody),
+    });
+  } catch {
+    return false;
+  }
+  if (res.status === 401) return false;
+
+  let next: (watch: PriceWatch | null | undefined) => PriceWatch;
+  try {
+    const { data } = await readApiResult(res, priceCheckResponseSchema, "Price check");
+    next = (watch) => recordPriceCheck(watch, data);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Price check failed";
+    next = (watch) => recordPriceCheckError(watch, message, Date.now());
+  }
+
+  // Re-read: the record may have been edited (or unwatched) while the page was being fetched.
+  const cur = await idbGet<Item | Option>(target.store, target.id);
+  if (!cur || cur.syncState === "deleted" || !cur.priceWatch?.enabled) return true;
+  await idbPut(target.store, { ...cur, priceWatch: next(cur.priceWatch), syncState: "dirty", updatedAt: Date.now() });
+  notifyDbChanged();
+  return true;
+}
+
+// Checks watched links that are due. `force` checks them regardless of when they were last
+// checked; `only` limits the run to one record. Returns the number of links checked, or null when
+// a run was already going.
+export async function checkPrices(opts: { force?: boolean; only?: { store: WatchedStore; id: string } } = {}) {
+  if (status.running) return null;
+  if (!navigator.onLine) return 0;
+  if (!opts.force && !settings.enabled) return 0;
+
+  let checked = 0;
+  setStatus({ running: true, done: 0, total: 0 });
+  try {
+    await withPriceWatchLock(async () => {
+      const [items, options] = await Promise.all([idbGetAll<Item>("items"), idbGetAll<Option>("options")]);
+      const dueBefore = Date.now() - settings.intervalHours * 60 * 60_000;
+      const targets = [...watchedRecords("items", items), ...watchedRecords("options", options)].filter((target) => {
+        if (opts.only) return target.store === opts.only.store && target.id === opts.only.id;
+        return opts.force || target.lastCheckedAt === null || target.lastCheckedAt <= dueBefore;
+      });
+      setStatus({ total: targets.length });
+      for (const target of targets) {
+        if (!(await checkOne(target))) break;
+        checked += 1;
+        setStatus({ done: checked });
+      }
+    });
+  } finally {
+    const lastRunAt = Date.now();
+    setStatus({ running: false, lastRunAt });
+    await idbSetMeta(STATE_KEY, { lastRunAt });
+  }
+  return checked;
+}
+
+export function startPriceWatch() {
+  let cancelled = false;
+  void Promise.all([getPriceWatchSettings(), idbGetMeta<{ lastRunAt?: unknown }>(STATE_KEY)]).then(([saved, state]) => {
+    if (cancelled) return;
+    settings = saved;
+    setStatus({ lastRunAt: typeof state?.lastRunAt === "number" ? state.lastRunAt : null });
+    void checkPrices();
+  });
+  const onOnline = () => void checkPrices();
+  window.addEventListener("online", onOnline);
+  const intervalId = window.setInterval(() => void checkPrices(), TICK_MS);
+
+  return () => {
+    cancelled = true;
+    window.removeEventListener("online", onOnline);
+    window.clearInterval(intervalId);
+  };
+}
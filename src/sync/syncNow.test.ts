@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Item, Option, SubItem, SyncConflict } from "@/lib/domain";
+import { idbBulkPut, idbGet, idbGetAll, idbGetMeta, idbPut, idbSetMeta } from "@/storage/idb";
+import type { AttachmentRecord } from "@/storage/attachments";
+import { resetMemoryIdb } from "@/test/memoryIdb";
+import { listSyncRuns } from "@/sync/journal";
+import { pullNow, pushNow, retryFailedRecords } from "@/sync/syncNow";
+import type { SyncPullResponse, SyncPushBody, SyncPushResponse } from "../../api/_lib/contracts";
+
+vi.mock("@/storage/idb", async () => {
+  const memory = await import("@/test/memoryIdb");
+  return { ...memory, idbBulkPut: vi.fn(memory.idbBulkPut) };
+});
+
+const T = 1_700_000_000_000;
+
+const item = (id: string, patch: Partial<Item> = {}): Item => ({
+  id,
+  remoteId: id.startsWith("rec") ? id : null,
+  syncState: "clean",
+  name: `Item ${id}`,
+  room: "Living",
+  category: "Sofa",
+  status: "Idea",
+  qty: 1,
+  createdAt: T,
+  updatedAt: T,
+  ...patch,
+});
+
+const option = (id: string, itemId: string, patch: Partial<Option> = {}): Option => ({
+  id,
+  remoteId: id.startsWith("rec") ? id : null,
+  syncState: "clean",
+  itemId,
+  title: `Option ${id}`,
+  createdAt: T,
+  updatedAt: T,
+  ...patch,
+});
+
+const subItem = (id: string, optionId: string, patch: Partial<SubItem> = {}): SubItem => ({
+  id,
+  remoteId: id.startsWith("rec") ? id : null,
+  syncState: "clean",
+  optionId,
+  title: `Sub-item ${id}`,
+  createdAt: T,
+  updatedAt: T,
+  ...patch,
+});
+
+const attachment = (id: string, parentId: string, patch: Partial<AttachmentRecord> = {}) =>
+  ({
+    id,
+    parentType: "item",
+    parentId,
+    parentKey: `item:${parentId}`,
+    name: `${id}.jpg`,
+    sourceUrl: `https://bucket.example/uploads/default/item/${parentId}/${id}.jpg`,
+    uploadState: "uploaded",
+    createdAt: T,
+    updatedAt: T,
+    ...patch,
+  }) as AttachmentRecord;
+
+type PullPatch = Partial<Omit<SyncPullResponse, "bundle">> & { bundle?: Partial<SyncPullResponse["bundle"]> };
+
+function pullResponse(patch: PullPatch = {}): SyncPullResponse {
+  return {
+    ok: true,
+    delta: false,
+    cursor: "cursor-2",
+    remoteIds: [],
+    ...patch,
+    bundle: {
+      version: 1,
+      exportedAt: new Date(T).toISOString(),
+      rooms: [],
+      measurements: [],
+      items: [],
+      options: [],
+      subItems: [],
+      stores: [],
+      ...patch.bundle,
+    },
+  };
+}
+
+// Stands in for the API: each test sets what pull and push answer, and the requests are logged.
+let pulled: SyncPullResponse;
+let pushed: SyncPushResponse;
+let requests: Array<{ url: string; body: unknown }> = [];
+
+beforeEach(() => {
+  resetMemoryIdb();
+  requests = [];
+  pulled = pullResponse();
+  pushed = {
+    ok: true,
+    created: { items: {}, options: {}, subItems: {}, measurements: {}, rooms: {}, stores: {} },
+    counts: {},
+    message: "Sync push complete",
+  };
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init?: RequestInit) => {
+      requests.push({ url, body: init?.body ? JSON.parse(String(init.body)) : null });
+      const body = url.startsWith("/api/sync/pull") ? pulled : pushed;
+      return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+    }),
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.mocked(idbBulkPut).mockClear();
+});
+
+describe("pull", () => {
+  it("removes clean records the backend no longer has, along with their uploaded attachments", async () => {
+    await idbBulkPut("items", [item("recGone"), item("recKept")]);
+    await idbBulkPut("attachments", [
+      attachment("att_uploaded", "recGone"),
+      attachment("att_queued", "recGone", { sourceUrl: null, uploadState: "pending" }),
+      attachment("att_other", "recKept"),
+    ]);
+    await idbPut("syncBases", { key: "item:recGone", entity: "item", recordId: "recGone", record: {}, syncedAt: T });
+    pulled = pullResponse({ remoteIds: ["recKept"] });
+
+    const result = await pullNow();
+    expect(result.pull).toMatchObject({ removed: 1, flagged: 0 });
+    expect((await idbGetAll<Item>("items")).map((r) => r.id)).toEqual(["recKept"]);
+    expect(await idbGet("syncBases", "item:recGone")).toBeUndefined();
+    // A file still waiting for its upload is kept for the upload queue.
+    expect((await idbGetAll<AttachmentRecord>("attachments")).map((a) => a.id).sort()).toEqual(["att_other", "att_queued"]);
+  });
+
+  it("queues records with unpushed edits as remote deletions, and only once", async () => {
+    await idbBulkPut("items", [item("recEdited", { syncState: "dirty", name: "Edited sofa" })]);
+    await idbBulkPut("options", [option("recOpt", "recEdited", { syncState: "dirty" })]);
+
+    const first = await pullNow();
+    expect(first.pull).toMatchObject({ removed: 0, flagged: 2 });
+    const conflicts = await idbGetAll<SyncConflict>("conflicts");
+    expect(conflicts.map((c) => [c.id, c.title, c.remoteDeleted])).toEqual([
+      ["option:recOpt", "Option recOpt", true],
+      ["item:recEdited", "Edited sofa", true],
+    ]);
+    expect((await idbGet<Item>("items", "recEdited"))?.syncState).toBe("dirty");
+
+    const second = await pullNow();
+    expect(second.pull).toMatchObject({ removed: 0, flagged: 0 });
+    expect(await idbGetAll<SyncConflict>("conflicts")).toEqual(conflicts);
+  });
+
+  it("only advances the delta cursor once the pulled records are written", async () => {
+    await idbSetMeta("pullCursor", "cursor-1");
+    pulled = pullResponse({ delta: true, cursor: "cursor-2", remoteIds: ["recNew"], bundle: { items: [item("recNew")] } });
+    vi.mocked(idbBulkPut).mockRejectedValueOnce(new Error("QuotaExceededError"));
+
+    await expect(pullNow()).rejects.toThrow("QuotaExceededError");
+    expect(requests[0].url).toContain("since=cursor-1");
+    expect(await idbGetMeta("pullCursor")).toBe("cursor-1");
+
+    await pullNow();
+    expect(requests[1].url).toContain("since=cursor-1");
+    expect(await idbGetMeta("pullCursor")).toBe("cursor-2");
+    expect((await idbGet<Item>("items", "recNew"))?.syncState).toBe("clean");
+  });
+
+  it("attaches delta sub-items to options still keyed by their local id", async () => {
+    await idbSetMeta("pullCursor", "cursor-1");
+    await idbBulkPut("items", [item("recItem")]);
+    await idbBulkPut("options", [option("opt_local", "recItem", { remoteId: "recOpt" })]);
+    pulled = pullResponse({
+      delta: true,
+      remoteIds: ["recItem", "recOpt", "recSub"],
+      bundle: { subItems: [subItem("recSub", "recOpt")] },
+    });
+
+    await pullNow();
+    expect(await idbGet<SubItem>("subItems", "recSub")).toMatchObject({ optionId: "opt_local", syncState: "clean", remoteId: "recSub" });
+  });
+});
+
+describe("push", () => {
+  it("sends sub-items with their option's remote id and moves them onto the ids the backend created", async () => {
+    await idbBulkPut("items", [item("item_1", { syncState: "dirty" })]);
+    await idbBulkPut("options", [option("opt_1", "item_1", { syncState: "dirty" }), option("recOpt", "item_1")]);
+    await idbBulkPut("subItems", [
+      subItem("sub_1", "opt_1", { syncState: "dirty" }),
+      subItem("sub_2", "recOpt", { syncState: "dirty" }),
+    ]);
+    pushed.created = {
+      items: { item_1: "recItem1" },
+      options: { opt_1: "recOpt1" },
+      subItems: { sub_1: "recSub1", sub_2: "recSub2" },
+      measurements: {},
+      rooms: {},
+      stores: {},
+    };
+
+    await pushNow();
+    const body = requests[0].body as SyncPushBody;
+    expect(body.subItems?.map((s) => [s.id, s.optionId, (s as { parentRemoteId?: string | null }).parentRemoteId])).toEqual([
+      ["sub_1", "opt_1", null],
+      ["sub_2", "recOpt", "recOpt"],
+    ]);
+
+    const subItems = await idbGetAll<SubItem>("subItems");
+    expect(subItems.map((s) => [s.id, s.optionId, s.syncState])).toEqual([
+      ["recSub1", "recOpt1", "clean"],
+      ["recSub2", "recOpt", "clean"],
+    ]);
+    expect(await idbGet<Option>("options", "recOpt1")).toMatchObject({ itemId: "recItem1", syncState: "clean" });
+    expect(await idbGet("syncBases", "subItem:recSub1")).toMatchObject({ recordId: "recSub1" });
+    expect(await idbGetAll("outbox")).toEqual([]);
+  });
+});
+
+describe("sync journal", () => {
+  it("records per-record push errors and retries only those records", async () => {
+    await idbBulkPut("items", [item("item_1", { syncState: "dirty" }), item("item_2", { syncState: "dirty", name: "Lamp" })]);
+    pushed.created.items = { item_1: "recItem1" };
+    pushed.errors = [{ entity: "item", action: "create", localId: "item_2", title: "Lamp", message: "INVALID_MULTIPLE_CHOICE_OPTIONS" }];
+
+    await pushNow();
+    const [run] = await listSyncRuns();
+    expect(run).toMatchObject({ kind: "push", trigger: "manual", ok: false, errors: pushed.errors });
+    expect((await idbGet<Item>("items", "item_2"))?.syncState).toBe("dirty");
+
+    pushed.created.items = { item_2: "recItem2" };
+    pushed.errors = [];
+    await idbPut("items", item("recItem1", { syncState: "dirty", name: "Edited again" }));
+    await retryFailedRecords(run.id);
+    expect((requests[1].body as SyncPushBody).items?.map((i) => i.id)).toEqual(["item_2"]);
+    expect((await idbGet<Item>("items", "recItem2"))?.syncState).toBe("clean");
+    expect((await idbGet<Item>("items", "recItem1"))?.syncState).toBe("dirty");
+    // Both runs may start in the same millisecond, so look the retry up by kind.
+    expect((await listSyncRuns()).find((r) => r.kind === "retry")).toMatchObject({ ok: true, errors: [] });
+  });
+});
@@ -1,34 +1,63 @@
-import type { ExportBundleV1, Item, Measurement, Option, Room, Store, SubItem } from "@/lib/domain";
+import type {
+  EntityType,
+  ExportBundleV1,
+  Item,
+  Measurement,
+  Option,
+  Room,
+  Store,
+  SubItem,
+  SyncBaseRecord,
+  SyncConflict,
+  SyncRun,
+  SyncRunError,
+  SyncState,
+} from "@/lib/domain";
+import { diffItem, diffMeasurement, diffOption, diffRoom, diffStore, diffSubItem, type DiffChange } from "@/lib/diff";
+import { sanitizeAttachmentKind, type AttachmentKind } from "@/lib/attachmentKinds";
 import { newId } from "@/lib/id";
-import { idbDelete, idbGet, idbGetAll, idbGetAllByIndex, idbGetSnapshot, idbPut, idbSetMeta } from "@/storage/idb";
+import { syncTargetFor, syncTargetParams } from "@/lib/workspaces";
+import { getFieldValue, setFieldValue, threeWayMerge } from "@/lib/merge";
+import {
+  idbBulkPut,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbGetAllByIndex,
+  idbGetMeta,
+  idbGetSnapshot,
+  idbRekey,
+  idbPut,
+  idbSetMeta,
+} from "@/storage/idb";
 import { notifyDbChanged } from "@/storage/notify";
-import { rekeyAttachmentParent, type AttachmentRecord } from "@/storage/attachments";
+import { getActiveWorkspace } from "@/storage/workspaces";
+import { readApiResult } from "@/sync/api";
+import { apiFetch } from "@/sync/auth";
+import { getSyncRun, recordSyncRun } from "@/sync/journal";
+import { keepCachedBlob } from "@/storage/attachmentCache";
+import { attachmentUploadState, type AttachmentRecord } from "@/storage/attachments";
+import {
+  syncPullResponseSchema,
+  syncPushResponseSchema,
+  type SyncPlanEntry,
+  type SyncPushBody,
+  type SyncPushPlan,
+} from "../../api/_lib/contracts";
+import { mergePriceWatch, type PriceWatch } from "../../api/_lib/priceWatch";
 
 type AttachmentMeta = {
   id: string;
   url: string;
+  thumbUrl?: string | null;
   name: string | null;
+  kind: AttachmentKind | null;
   mime: string | null;
   size: number | null;
   createdAt: number;
   updatedAt: number;
 };
 
-type PushResponse = {
-  ok: boolean;
-  created?: {
-    items?: Record<string, string>;
-    options?: Record<string, string>;
-    measurements?: Record<string, string>;
-    rooms?: Record<string, string>;
-    stores?: Record<string, string>;
-  };
-  counts?: Record<string, number>;
-  errors?: Array<{ entity: string; action: string; id?: string; title?: string; message: string }>;
-  message?: string;
-};
-
-type PullResponse = { ok: boolean; bundle?: ExportBundleV1; message?: string };
 type PushMode = "commit" | "reset";
 
 function isRecordId(id: string) {
@@ -46,7 +75,9 @@ function parseAttachmentMeta(raw: any): AttachmentMeta | null {
   return {
     id: typeof raw.id === "string" && raw.id ? raw.id : newId("att"),
     url,
+    thumbUrl: typeof raw.thumbUrl === "string" && raw.thumbUrl.trim() ? raw.thumbUrl.trim() : null,
     name: typeof raw.name === "string" ? raw.name : null,
+    kind: sanitizeAttachmentKind(raw.kind),
     mime: typeof raw.mime === "string" ? raw.mime : null,
     size: typeof raw.size === "number" ? raw.size : null,
     createdAt: typeof raw.createdAt === "number" ? raw.createdAt : Date.now(),
@@ -61,7 +92,10 @@ async function replaceAttachmentsForParent(
 ) {
   const existing = await idbGetAllByIndex<AttachmentRecord>("attachments", "parentKey", attachmentParentKey(parentType, parentId));
   const nextIds = new Set(metas.map((m) => m.id));
+  const existingById = new Map(existing.map((att) => [att.id, att]));
   for (const att of existing) {
+    // Not uploaded yet, so not on the server either: keep it for the upload queue.
+    if (attachmentUploadState(att) !== "uploaded") continue;
     if (!nextIds.has(att.id)) await idbDelete("attachments", att.id);
   }
   for (const meta of metas) {
@@ -71,129 +105,331 @@ async function replaceAttachmentsForParent(
       parentId,
       parentKey: attachmentParentKey(parentType, parentId),
       name: meta.name,
+      kind: meta.kind,
       sourceUrl: meta.url,
+      thumbUrl: meta.thumbUrl ?? null,
       mime: meta.mime,
       size: meta.size,
-      blob: new Blob([], { type: meta.mime || "" }),
+      ...keepCachedBlob(existingById.get(meta.id), meta.url, meta.mime),
+      uploadState: "uploaded",
       createdAt: meta.createdAt,
       updatedAt: meta.updatedAt,
     } as AttachmentRecord);
   }
 }
 
-async function readJsonOrText<T>(res: Response): Promise<{ json: T | null; text: string }> {
-  const text = await res.text().catch(() => "");
-  if (!text) return { json: null, text: "" };
-  try {
-    return { json: JSON.parse(text) as T, text };
-  } catch {
-    return { json: null, text };
-  }
-}
-
 async function fetchWithTimeout(input: RequestInfo, init: RequestInit, timeoutMs = 20000) {
   const controller = new AbortController();
   const id = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    return await fetch(input, { ...init, signal: controller.signal });
+    return await apiFetch(input, { ...init, signal: controller.signal });
   } finally {
     clearTimeout(id);
   }
 }
 
-async function rekeyItem(localId: string, remoteId: string) {
-  const item = await idbGet<Item>("items", localId);
-  if (!item) return;
-  const next: Item = { ...item, id: remoteId, remoteId, syncState: "clean" };
-  await idbPut("items", next);
-  await idbDelete("items", localId);
-
-  // Update options that referenced the local item id.
+async function buildLocalIdByRemote(): Promise<Map<string, string>> {
   const snap = await idbGetSnapshot();
-  for (const o of snap.options) {
-    if (o.itemId === localId) {
-      await idbPut("options", { ...o, itemId: remoteId, syncState: o.syncState || "dirty" });
-    }
+  const map = new Map<string, string>();
+  for (const row of [...snap.items, ...snap.options]) {
+    if (row.remoteId && row.remoteId !== row.id) map.set(row.remoteId, row.id);
   }
-  await rekeyAttachmentParent("item", localId, remoteId);
+  return map;
 }
 
-async function rekeyOption(localId: string, remoteId: string) {
-  const opt = await idbGet<Option>("options", localId);
-  if (!opt) return;
-  const next: Option = { ...opt, id: remoteId, remoteId, syncState: "clean" };
-  await idbPut("options", next);
-  await idbDelete("options", localId);
-  const snap = await idbGetSnapshot();
-  for (const s of snap.subItems) {
-    if (s.optionId === localId) {
-      await idbPut("subItems", { ...s, optionId: remoteId, syncState: s.syncState || "dirty" });
+export function syncRecordKey(entity: EntityType, id: string) {
+  return `${entity}:${id}`;
+}
+
+const STORE_BY_ENTITY = {
+  item: "items",
+  option: "options",
+  subItem: "subItems",
+  measurement: "measurements",
+  room: "rooms",
+  store: "stores",
+} as const;
+
+type MergeContext = {
+  bases: Map<string, SyncBaseRecord>;
+  conflicts: Map<string, SyncConflict>;
+  nextBases: SyncBaseRecord[];
+  // Records whose local copy was kept (dirty or pending delete); their attachments are left alone.
+  keptLocal: Set<string>;
+};
+
+// Reconcile pulled records with local ones. Clean records take the remote copy; locally edited
+// records get a field-level three-way merge against the last-synced base, and collisions are queued
+// as conflicts (the record keeps its local values until resolved).
+async function mergePulled<T extends { id: string; remoteId?: string | null; syncState?: SyncState }>(
+  entity: EntityType,
+  store: "items" | "options" | "subItems" | "measurements" | "rooms" | "stores",
+  incoming: T[],
+  diff: (existing: T, incoming: T) => DiffChange[],
+  titleOf: (record: T) => string,
+  ctx: MergeContext,
+  // Folds remote data the field merge doesn't cover into the merged record; returns it unchanged otherwise.
+  combine?: (merged: T, remote: T) => T,
+): Promise<T[]> {
+  if (!incoming.length) return [];
+  const localById = new Map((await idbGetAll<T>(store)).map((r) => [r.id, r]));
+  const now = Date.now();
+  const out: T[] = [];
+  for (const remote of incoming) {
+    const key = syncRecordKey(entity, remote.id);
+    const base = ctx.bases.get(key);
+    ctx.nextBases.push({ key, entity, recordId: remote.id, record: remote, syncedAt: now });
+
+    const local = localById.get(remote.id);
+    if (!local || local.syncState === "clean") {
+      out.push(remote);
+      continue;
+    }
+    ctx.keptLocal.add(key);
+    if (local.syncState === "deleted") continue;
+
+    const result = threeWayMerge((base?.record as T) ?? null, local, remote, diff);
+    const { applied, conflicts } = result;
+    const merged = combine ? combine(result.merged, remote) : result.merged;
+    if (applied.length || merged !== result.merged) {
+      out.push({ ...merged, remoteId: remote.remoteId || local.remoteId || null, syncState: "dirty" });
     }
+    if (!conflicts.length) continue;
+
+    const existing = ctx.conflicts.get(key);
+    const fields = new Map((existing?.fields || []).map((f) => [f.field, f]));
+    for (const f of conflicts) fields.set(f.field, f);
+    ctx.conflicts.set(key, {
+      id: key,
+      entity,
+      recordId: remote.id,
+      title: titleOf(local) || titleOf(remote) || remote.id,
+      fields: [...fields.values()],
+      detectedAt: existing?.detectedAt ?? now,
+    });
   }
-  await rekeyAttachmentParent("option", localId, remoteId);
+  return out;
 }
 
-async function rekeyMeasurement(localId: string, remoteId: string) {
-  const m = await idbGet<Measurement>("measurements", localId);
-  if (!m) return;
-  const next: Measurement = { ...m, id: remoteId, remoteId, syncState: "clean" };
-  await idbPut("measurements", next);
-  await idbDelete("measurements", localId);
+// Price checks dirty the record, so both devices' histories are joined instead of one replacing the other.
+function withPulledPriceHistory<T extends { priceWatch?: PriceWatch | null }>(merged: T, remote: T): T {
+  const priceWatch = mergePriceWatch(merged.priceWatch, remote.priceWatch);
+  if (JSON.stringify(priceWatch) === JSON.stringify(merged.priceWatch ?? null)) return merged;
+  return { ...merged, priceWatch };
 }
 
-async function rekeyStore(localId: string, remoteId: string) {
-  const s = await idbGet<Store>("stores", localId);
-  if (!s) return;
-  const next: Store = { ...s, id: remoteId, remoteId, syncState: "clean" };
-  await idbPut("stores", next);
-  await idbDelete("stores", localId);
-}
+async function applyPulledBundle(bundle: ExportBundleV1, opts?: { delta?: boolean }) {
+  // A delta only carries changed records, so parent references can point at remote ids whose
+  // local copy is still keyed by its original local id.
+  const localIdByRemote = opts?.delta ? await buildLocalIdByRemote() : null;
+  const resolveRef = (id: string | null | undefined) => (id && localIdByRemote?.get(id)) || id;
 
-async function applyPulledBundle(bundle: ExportBundleV1) {
-  // Upsert remote records into local DB and mark them clean.
-  for (const r of bundle.rooms || []) {
+  // Upsert remote records into local DB and mark them clean (one transaction per store).
+  const rooms: Room[] = (bundle.rooms || []).map((r) => {
     const name = (r as any).name || r.id;
-    const room: Room = { ...r, name, syncState: "clean", remoteId: r.remoteId || r.id || null };
-    await idbPut("rooms", room);
-  }
-  for (const s of (bundle as any).stores || []) {
-    const store: Store = { ...s, syncState: "clean", remoteId: (s as any).remoteId || (s as any).id || null };
-    await idbPut("stores", store);
-  }
-  for (const m of bundle.measurements || []) {
-    const meas: Measurement = { ...m, syncState: "clean", remoteId: m.remoteId || m.id || null };
-    await idbPut("measurements", meas);
-  }
+    return { ...r, name, syncState: "clean", remoteId: r.remoteId || r.id || null };
+  });
+  const stores: Store[] = ((bundle as any).stores || []).map((s: any) => ({
+    ...s,
+    syncState: "clean",
+    remoteId: s.remoteId || s.id || null,
+  }));
+  const measurements: Measurement[] = (bundle.measurements || []).map((m) => ({
+    ...m,
+    syncState: "clean",
+    remoteId: m.remoteId || m.id || null,
+  }));
+  const ctx: MergeContext = {
+    bases: new Map((await idbGetAll<SyncBaseRecord>("syncBases")).map((b) => [b.key, b])),
+    conflicts: new Map((await idbGetAll<SyncConflict>("conflicts")).map((c) => [c.id, c])),
+    nextBases: [],
+    keptLocal: new Set(),
+  };
+  const roomsOut = await mergePulled("room", "rooms", rooms, diffRoom, (r) => r.name, ctx);
+  const storesOut = await mergePulled("store", "stores", stores, diffStore, (r) => r.name, ctx);
+  const measurementsOut = await mergePulled("measurement", "measurements", measurements, diffMeasurement, (r) => r.label, ctx);
+  if (roomsOut.length) await idbBulkPut("rooms", roomsOut);
+  if (storesOut.length) await idbBulkPut("stores", storesOut);
+  if (measurementsOut.length) await idbBulkPut("measurements", measurementsOut);
+
+  const attachmentsByParent: Array<{ parentType: "item" | "option" | "subItem"; parentId: string; metas: AttachmentMeta[] }> = [];
+  const items: Item[] = [];
   for (const it of bundle.items || []) {
     const anyItem = it as any;
     const attachments = Array.isArray(anyItem.attachments) ? anyItem.attachments : [];
     const { attachments: _ignoredItemAttachments, ...itemRest } = anyItem;
-    const item: Item = { ...itemRest, syncState: "clean", remoteId: anyItem.remoteId || anyItem.id || null };
-    await idbPut("items", item);
-    const metas = attachments.map(parseAttachmentMeta).filter(Boolean) as AttachmentMeta[];
-    await replaceAttachmentsForParent("item", item.id, metas);
+    const item: Item = {
+      ...itemRest,
+      selectedOptionId: resolveRef(itemRest.selectedOptionId) ?? null,
+      syncState: "clean",
+      remoteId: anyItem.remoteId || anyItem.id || null,
+    };
+    items.push(item);
+    attachmentsByParent.push({
+      parentType: "item",
+      parentId: item.id,
+      metas: attachments.map(parseAttachmentMeta).filter(Boolean) as AttachmentMeta[],
+    });
   }
+  const options: Option[] = [];
   for (const o of bundle.options || []) {
     const anyOpt = o as any;
     const attachments = Array.isArray(anyOpt.attachments) ? anyOpt.attachments : [];
     const { attachments: _ignoredOptAttachments, ...optRest } = anyOpt;
-    const opt: Option = { ...optRest, syncState: "clean", remoteId: anyOpt.remoteId || anyOpt.id || null };
-    await idbPut("options", opt);
-    const metas = attachments.map(parseAttachmentMeta).filter(Boolean) as AttachmentMeta[];
-    await replaceAttachmentsForParent("option", opt.id, metas);
+    const opt: Option = {
+      ...optRest,
+      itemId: resolveRef(optRest.itemId),
+      syncState: "clean",
+      remoteId: anyOpt.remoteId || anyOpt.id || null,
+    };
+    options.push(opt);
+    attachmentsByParent.push({
+      parentType: "option",
+      parentId: opt.id,
+      metas: attachments.map(parseAttachmentMeta).filter(Boolean) as AttachmentMeta[],
+    });
   }
+  const subItems: SubItem[] = [];
   for (const s of (bundle as any).subItems || []) {
     const anySub = s as any;
     const attachments = Array.isArray(anySub.attachments) ? anySub.attachments : [];
     const { attachments: _ignoredSubAttachments, ...subRest } = anySub;
-    const sub: SubItem = { ...subRest, syncState: "clean", remoteId: anySub.remoteId || anySub.id || null };
-    await idbPut("subItems", sub);
-    const metas = attachments.map(parseAttachmentMeta).filter(Boolean) as AttachmentMeta[];
-    await replaceAttachmentsForParent("subItem", sub.id, metas);
+    const sub: SubItem = {
+      ...subRest,
+      optionId: resolveRef(subRest.optionId),
+      syncState: "clean",
+      remoteId: anySub.remoteId || anySub.id || null,
+    };
+    subItems.push(sub);
+    attachmentsByParent.push({
+      parentType: "subItem",
+      parentId: sub.id,
+      metas: attachments.map(parseAttachmentMeta).filter(Boolean) as AttachmentMeta[],
+    });
+  }
+  const itemsOut = await mergePulled("item", "items", items, diffItem, (r) => r.name, ctx, withPulledPriceHistory);
+  const optionsOut = await mergePulled("option", "options", options, diffOption, (r) => r.title, ctx, withPulledPriceHistory);
+  const subItemsOut = await mergePulled("subItem", "subItems", subItems, diffSubItem, (r) => r.title, ctx);
+  if (itemsOut.length) await idbBulkPut("items", itemsOut);
+  if (optionsOut.length) await idbBulkPut("options", optionsOut);
+  if (subItemsOut.length) await idbBulkPut("subItems", subItemsOut);
+  for (const entry of attachmentsByParent) {
+    // Locally edited parents may carry attachments that have not been pushed yet.
+    if (ctx.keptLocal.has(syncRecordKey(entry.parentType, entry.parentId))) continue;
+    await replaceAttachmentsForParent(entry.parentType, entry.parentId, entry.metas);
+  }
+  if (ctx.nextBases.length) await idbBulkPut("syncBases", ctx.nextBases);
+  if (ctx.conflicts.size) await idbBulkPut("conflicts", [...ctx.conflicts.values()]);
+}
+
+// Drop local copies of records that no longer exist in Airtable. Clean records (and their
+// attachments) are removed; records with unpushed edits are queued as conflicts instead.
+// Rooms are keyed by name and only mirrored by Note records, so they are left alone.
+async function applyRemoteDeletions(remoteIds: Set<string>) {
+  const snap = await idbGetSnapshot();
+  const existingConflicts = new Map(snap.conflicts.map((c) => [c.id, c]));
+  const groups: Array<{
+    entity: EntityType;
+    store: "items" | "options" | "subItems" | "measurements" | "stores";
+    rows: Array<{ id: string; remoteId?: string | null; syncState?: SyncState }>;
+    titleOf: (row: any) => string;
+  }> = [
+    { entity: "subItem", store: "subItems", rows: snap.subItems, titleOf: (r) => r.title },
+    { entity: "option", store: "options", rows: snap.options, titleOf: (r) => r.title },
+    { entity: "item", store: "items", rows: snap.items, titleOf: (r) => r.name },
+    { entity: "measurement", store: "measurements", rows: snap.measurements, titleOf: (r) => r.label },
+    { entity: "store", store: "stores", rows: snap.stores, titleOf: (r) => r.name },
+  ];
+
+  let removed = 0;
+  const flagged: SyncConflict[] = [];
+  const now = Date.now();
+  for (const { entity, store, rows, titleOf } of groups) {
+    for (const row of rows) {
+      const remoteId = row.remoteId || (isRecordId(row.id) ? row.id : null);
+      if (!remoteId || !isRecordId(remoteId) || remoteIds.has(remoteId)) continue;
+      const key = syncRecordKey(entity, row.id);
+      if (row.syncState !== "clean" && row.syncState !== "deleted") {
+        if (existingConflicts.get(key)?.remoteDeleted) continue;
+        flagged.push({ id: key, entity, recordId: row.id, title: titleOf(row) || row.id, fields: [], remoteDeleted: true, detectedAt: now });
+        continue;
+      }
+      await discardLocalRecord(entity, row.id);
+      removed++;
+    }
   }
+  if (flagged.length) await idbBulkPut("conflicts", flagged);
+  return { removed, flagged: flagged.length };
+}
+
+async function discardLocalRecord(entity: EntityType, id: string) {
+  const key = syncRecordKey(entity, id);
+  await idbDelete(STORE_BY_ENTITY[entity], id);
+  await idbDelete("syncBases", key);
+  await idbDelete("conflicts", key);
+  if (entity === "item" || entity === "option" || entity === "subItem") await replaceAttachmentsForParent(entity, id, []);
+}
+
+// Push/pull must never overlap, across callers or tabs: a second push would re-create records the
+// first one just created.
+let syncQueue: Promise<unknown> = Promise.resolve();
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const locks: LockManager | undefined = navigator.locks;
+  const guarded = locks?.request ? () => locks.request("furnishing-sync-io", fn) : fn;
+  const run = syncQueue.then(guarded, guarded);
+  syncQueue = run.catch(() => undefined);
+  return run;
+}
+
+type SyncTrigger = SyncRun["trigger"];
+
+// Runs one sync action and appends it to the journal, including failures. Background runs that
+// found nothing to do are not logged, so the journal isn't flooded by the auto-sync interval.
+async function journaled<T extends { push: Record<string, number>; pull: Record<string, number>; pushErrors?: SyncRunError[] }>(
+  kind: SyncRun["kind"],
+  trigger: SyncTrigger,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const startedAt = Date.now();
+  let res: T;
+  try {
+    res = await fn();
+  } catch (err) {
+    await recordSyncRun({
+      kind,
+      trigger,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      ok: false,
+      counts: { push: {}, pull: {} },
+      errors: [],
+      message: err instanceof Error ? err.message : "Sync failed",
+    }).catch(() => undefined);
+    notifyDbChanged();
+    throw err;
+  }
+  const errors = res.pushErrors || [];
+  const idle = !errors.length && [...Object.values(res.push), ...Object.values(res.pull)].every((n) => !n);
+  if (trigger === "manual" || !idle) {
+    await recordSyncRun({
+      kind,
+      trigger,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      ok: !errors.length,
+      counts: { push: res.push, pull: res.pull },
+      errors,
+    });
+    notifyDbChanged();
+  }
+  return res;
+}
+
+export function syncNow(opts?: { trigger?: SyncTrigger }) {
+  return serialized(() => journaled("sync", opts?.trigger || "manual", syncNowInner));
 }
 
-export async function syncNow() {
+async function syncNowInner() {
   const push = await pushChanges("commit");
   const pull = await pullChanges();
   const summary = { push: push.counts, pull: pull.counts };
@@ -201,19 +437,22 @@ export async function syncNow() {
   await idbSetMeta("lastPullAt", Date.now());
   await idbSetMeta("lastSyncSummary", summary);
   notifyDbChanged();
-  return summary;
+  return { ...summary, pushErrors: push.errors };
 }
 
-async function pushChanges(mode: PushMode = "commit") {
-  const snap = await idbGetSnapshot();
+// Everything push would send: pending records (minus ones held by conflicts) with their attachments.
+async function collectPending(snap: Awaited<ReturnType<typeof idbGetSnapshot>>, only?: Set<string>) {
   const allAttachments = await idbGetAll<AttachmentRecord>("attachments");
   const attachmentByParentKey = new Map<string, AttachmentMeta[]>();
   for (const att of allAttachments) {
-    if (!att.sourceUrl) continue;
+    // Attachments still queued for S3 go out with a later push, once uploaded.
+    if (!att.sourceUrl || attachmentUploadState(att) !== "uploaded") continue;
     const entry: AttachmentMeta = {
       id: att.id,
       url: att.sourceUrl,
+      thumbUrl: att.thumbUrl ?? null,
       name: att.name ?? null,
+      kind: att.kind ?? null,
       mime: att.mime ?? null,
       size: typeof att.size === "number" ? att.size : null,
       createdAt: typeof att.createdAt === "number" ? att.createdAt : Date.now(),
@@ -223,133 +462,284 @@ async function pushChanges(mode: PushMode = "commit") {
     if (!attachmentByParentKey.has(key)) attachmentByParentKey.set(key, []);
     attachmentByParentKey.get(key)!.push(entry);
   }
+  // Records with unresolved conflicts stay local until the user picks a side.
+  const held = new Set(snap.conflicts.map((c) => c.id));
+  const isPending = (entity: EntityType, x: { id: string; syncState?: SyncState }) =>
+    x.syncState !== "clean" && !held.has(syncRecordKey(entity, x.id)) && (!only || only.has(syncRecordKey(entity, x.id)));
   const dirty = {
     // Treat missing syncState as dirty so imported/example data can be pushed on first sync.
     items: snap.items
-      .filter((x) => x.syncState !== "clean")
+      .filter((x) => isPending("item", x))
       .map((it) => ({
         ...it,
         attachments: attachmentByParentKey.get(`item:${it.id}`) || [],
       })),
     options: snap.options
-      .filter((x) => x.syncState !== "clean")
+      .filter((x) => isPending("option", x))
       .map((o) => ({
         ...o,
         parentRemoteId: snap.items.find((it) => it.id === o.itemId)?.remoteId || null,
         attachments: attachmentByParentKey.get(`option:${o.id}`) || [],
       })),
-    measurements: snap.measurements.filter((x) => x.syncState !== "clean"),
-    rooms: snap.rooms.filter((x) => x.syncState !== "clean"),
-    stores: snap.stores.filter((x) => x.syncState !== "clean"),
+    subItems: snap.subItems
+      .filter((x) => isPending("subItem", x))
+      .map((s) => ({
+        ...s,
+        parentRemoteId: snap.options.find((o) => o.id === s.optionId)?.remoteId || null,
+        attachments: attachmentByParentKey.get(`subItem:${s.id}`) || [],
+      })),
+    measurements: snap.measurements.filter((x) => isPending("measurement", x)),
+    rooms: snap.rooms.filter((x) => isPending("room", x)),
+    stores: snap.stores.filter((x) => isPending("store", x)),
   };
+  return { dirty, held };
+}
+
+export type PushPlanEntry = SyncPlanEntry;
+export type PushPlan = SyncPushPlan;
+
+// Asks the backend what a push would write (dry run); nothing changes locally or remotely.
+export async function previewPush(mode: PushMode = "commit"): Promise<PushPlan> {
+  const { dirty } = await collectPending(await idbGetSnapshot());
+  const res = await fetchWithTimeout(
+    "/api/sync/push",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mode, dryRun: true, target: syncTargetFor(getActiveWorkspace()), ...dirty } satisfies SyncPushBody),
+    },
+    60000,
+  );
+  const preview = await readApiResult(res, syncPushResponseSchema, "Sync preview");
+  return preview.plan || {};
+}
+
+async function pushChanges(mode: PushMode = "commit", only?: Set<string>) {
+  const snap = await idbGetSnapshot();
+  const { dirty, held } = await collectPending(snap, only);
 
   const pushRes = await fetchWithTimeout("/api/sync/push", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ mode, ...dirty }),
+    body: JSON.stringify({ mode, target: syncTargetFor(getActiveWorkspace()), ...dirty } satisfies SyncPushBody),
   });
-  const pushParsed = await readJsonOrText<PushResponse>(pushRes);
-  const pushJson = pushParsed.json;
-  if (!pushRes.ok || !pushJson?.ok) {
-    const msg = pushJson?.message || pushParsed.text || `Sync push failed (${pushRes.status})`;
-    throw new Error(msg);
-  }
+  const pushJson = await readApiResult(pushRes, syncPushResponseSchema, "Sync push");
 
-  const created = pushJson.created || {};
+  const created = pushJson.created;
   const failedUpdateIds = new Set<string>();
   for (const err of pushJson.errors || []) {
     if (err.action === "update" && typeof err.id === "string" && err.id) failedUpdateIds.add(err.id);
   }
 
   // Rekey newly-created records so all devices converge on Airtable record ids.
-  for (const [localId, remoteId] of Object.entries(created.items || {})) {
-    await rekeyItem(localId, remoteId);
-  }
-  for (const [localId, remoteId] of Object.entries(created.measurements || {})) {
-    await rekeyMeasurement(localId, remoteId);
-  }
-  for (const [localId, remoteId] of Object.entries(created.options || {})) {
-    await rekeyOption(localId, remoteId);
-  }
-  for (const [roomId, remoteId] of Object.entries(created.rooms || {})) {
-    const r = await idbGet<Room>("rooms", roomId);
-    if (r) await idbPut("rooms", { ...r, remoteId, syncState: "clean" });
-  }
-  for (const [localId, remoteId] of Object.entries(created.stores || {})) {
-    await rekeyStore(localId, remoteId);
-  }
+  const { rooms: createdRooms, ...createdRecords } = created;
+  if (Object.values(created).some((m) => m && Object.keys(m).length)) await idbRekey(createdRecords, createdRooms);
 
-  // Mark updated records clean; delete locally-deleted records.
+  // Mark updated records clean; delete locally-deleted records. Only records this push sent are
+  // settled by it: a retry sends just the failed ones and leaves other pending edits queued.
+  const sent = new Set<string>();
+  const sentRows: Array<[EntityType, Array<{ id: string }>]> = [
+    ["item", dirty.items],
+    ["option", dirty.options],
+    ["subItem", dirty.subItems],
+    ["measurement", dirty.measurements],
+    ["room", dirty.rooms],
+    ["store", dirty.stores],
+  ];
+  for (const [entity, rows] of sentRows) for (const row of rows) sent.add(syncRecordKey(entity, row.id));
   const snapAfter = await idbGetSnapshot();
+  const canMarkClean = (entity: EntityType, id: string) =>
+    isRecordId(id) && !failedUpdateIds.has(id) && !held.has(syncRecordKey(entity, id)) && sent.has(syncRecordKey(entity, id));
+  const nextBases: SyncBaseRecord[] = [];
+  const droppedBases: string[] = [];
+  const now = Date.now();
+  const markClean = (entity: EntityType, record: { id: string; syncState?: SyncState }) => {
+    nextBases.push({ key: syncRecordKey(entity, record.id), entity, recordId: record.id, record, syncedAt: now });
+  };
   for (const it of snapAfter.items) {
-    if (it.syncState === "dirty" && isRecordId(it.id) && !failedUpdateIds.has(it.id)) {
+    if (it.syncState === "dirty" && canMarkClean("item", it.id)) {
       await idbPut("items", { ...it, syncState: "clean" });
+      markClean("item", { ...it, syncState: "clean" });
+    }
+    if (it.syncState === "deleted" && sent.has(syncRecordKey("item", it.id))) {
+      await idbDelete("items", it.id);
+      droppedBases.push(syncRecordKey("item", it.id));
     }
-    if (it.syncState === "deleted") await idbDelete("items", it.id);
   }
   for (const o of snapAfter.options) {
-    if (o.syncState === "dirty" && isRecordId(o.id) && !failedUpdateIds.has(o.id)) {
+    if (o.syncState === "dirty" && canMarkClean("option", o.id)) {
       await idbPut("options", { ...o, syncState: "clean" });
+      markClean("option", { ...o, syncState: "clean" });
+    }
+    if (o.syncState === "deleted" && sent.has(syncRecordKey("option", o.id))) {
+      await idbDelete("options", o.id);
+      droppedBases.push(syncRecordKey("option", o.id));
+    }
+  }
+  for (const sub of snapAfter.subItems) {
+    if (sub.syncState === "dirty" && canMarkClean("subItem", sub.id)) {
+      await idbPut("subItems", { ...sub, syncState: "clean" });
+      markClean("subItem", { ...sub, syncState: "clean" });
+    }
+    if (sub.syncState === "deleted" && sent.has(syncRecordKey("subItem", sub.id))) {
+      await idbDelete("subItems", sub.id);
+      droppedBases.push(syncRecordKey("subItem", sub.id));
     }
-    if (o.syncState === "deleted") await idbDelete("options", o.id);
   }
   for (const m of snapAfter.measurements) {
-    if (m.syncState === "dirty" && isRecordId(m.id) && !failedUpdateIds.has(m.id)) {
+    if (m.syncState === "dirty" && canMarkClean("measurement", m.id)) {
       await idbPut("measurements", { ...m, syncState: "clean" });
+      markClean("measurement", { ...m, syncState: "clean" });
+    }
+    if (m.syncState === "deleted" && sent.has(syncRecordKey("measurement", m.id))) {
+      await idbDelete("measurements", m.id);
+      droppedBases.push(syncRecordKey("measurement", m.id));
     }
-    if (m.syncState === "deleted") await idbDelete("measurements", m.id);
   }
   for (const r of snapAfter.rooms) {
-    if (r.syncState === "dirty" && !failedUpdateIds.has(r.remoteId || r.id)) {
+    const roomKey = syncRecordKey("room", r.id);
+    if (r.syncState === "dirty" && !failedUpdateIds.has(r.remoteId || r.id) && !held.has(roomKey) && sent.has(roomKey)) {
       await idbPut("rooms", { ...r, syncState: "clean" });
+      markClean("room", { ...r, syncState: "clean" });
     }
   }
   for (const s of snapAfter.stores) {
-    if (s.syncState === "dirty" && isRecordId(s.id) && !failedUpdateIds.has(s.id)) {
+    if (s.syncState === "dirty" && canMarkClean("store", s.id)) {
       await idbPut("stores", { ...s, syncState: "clean" });
+      markClean("store", { ...s, syncState: "clean" });
+    }
+    if (s.syncState === "deleted" && sent.has(syncRecordKey("store", s.id))) {
+      await idbDelete("stores", s.id);
+      droppedBases.push(syncRecordKey("store", s.id));
+    }
+  }
+
+  // Records created by this push were rekeyed (and marked clean) above; they are synced too.
+  const createdIds = new Set(Object.values(created).flatMap((m) => Object.values(m || {})));
+  if (createdIds.size) {
+    const byEntity: Array<[EntityType, Array<{ id: string; syncState?: SyncState }>]> = [
+      ["item", snapAfter.items],
+      ["option", snapAfter.options],
+      ["subItem", snapAfter.subItems],
+      ["measurement", snapAfter.measurements],
+      ["store", snapAfter.stores],
+    ];
+    for (const [entity, rows] of byEntity) {
+      for (const row of rows) {
+        if (createdIds.has(row.id) && row.syncState === "clean") markClean(entity, row);
+      }
+    }
+    for (const roomId of Object.keys(created.rooms || {})) {
+      const room = snapAfter.rooms.find((r) => r.id === roomId);
+      if (room?.syncState === "clean") markClean("room", room);
     }
-    if (s.syncState === "deleted") await idbDelete("stores", s.id);
   }
+  if (nextBases.length) await idbBulkPut("syncBases", nextBases);
+  for (const key of droppedBases) await idbDelete("syncBases", key);
 
-  return { counts: pushJson.counts || {}, errors: pushJson.errors || [] };
+  return { counts: pushJson.counts, errors: pushJson.errors || [] };
 }
 
-async function pullChanges() {
-  const pullRes = await fetchWithTimeout("/api/sync/pull", {}, 20000);
-  const pullParsed = await readJsonOrText<PullResponse>(pullRes);
-  const pullJson = pullParsed.json;
-  if (!pullRes.ok || !pullJson?.ok || !pullJson.bundle) {
-    const msg = pullJson?.message || pullParsed.text || `Sync pull failed (${pullRes.status})`;
-    throw new Error(msg);
-  }
-  await applyPulledBundle(pullJson.bundle);
+async function pullChanges(opts?: { full?: boolean }) {
+  const cursor = opts?.full ? null : await idbGetMeta<string>("pullCursor");
+  const params = syncTargetParams(getActiveWorkspace());
+  if (cursor) params.set("since", cursor);
+  else params.set("full", "1");
+  const url = `/api/sync/pull?${params}`;
+  const pullRes = await fetchWithTimeout(url, {}, 20000);
+  const pullJson = await readApiResult(pullRes, syncPullResponseSchema, "Sync pull");
+  const delta = Boolean(cursor && pullJson.delta);
+  await applyPulledBundle(pullJson.bundle, { delta });
+  const deletions = await applyRemoteDeletions(new Set(pullJson.remoteIds));
+  // Only advance the cursor once the delta is safely written locally.
+  if (pullJson.cursor) await idbSetMeta("pullCursor", pullJson.cursor);
 
   return {
+    delta,
     counts: {
+      removed: deletions.removed,
+      flagged: deletions.flagged,
       items: pullJson.bundle.items.length,
       options: pullJson.bundle.options.length,
+      subItems: pullJson.bundle.subItems.length,
       measurements: pullJson.bundle.measurements.length,
       rooms: pullJson.bundle.rooms.length,
-      stores: Array.isArray((pullJson.bundle as any).stores) ? (pullJson.bundle as any).stores.length : 0,
+      stores: pullJson.bundle.stores.length,
     },
   };
 }
 
-export async function pushNow(mode: PushMode = "commit") {
-  const push = await pushChanges(mode);
-  const summary = { push: push.counts, pull: { items: 0, options: 0, measurements: 0, rooms: 0, stores: 0 } };
+export function pushNow(mode: PushMode = "commit", opts?: { trigger?: SyncTrigger }) {
+  return serialized(() => journaled(mode === "reset" ? "reset" : "push", opts?.trigger || "manual", () => pushNowInner(mode)));
+}
+
+// Pushes again only the records a journaled run failed on (those still pending locally).
+export async function retryFailedRecords(runId: string) {
+  const run = await getSyncRun(runId);
+  const only = new Set(
+    (run?.errors || []).map((e) => syncRecordKey(e.entity, e.localId || e.id || "")).filter((key) => !key.endsWith(":")),
+  );
+  if (!only.size) throw new Error("No failed records to retry");
+  return await serialized(() => journaled("retry", "manual", () => pushNowInner("commit", only)));
+}
+
+async function pushNowInner(mode: PushMode, only?: Set<string>) {
+  const push = await pushChanges(mode, only);
+  const summary = { push: push.counts, pull: { items: 0, options: 0, subItems: 0, measurements: 0, rooms: 0, stores: 0 } };
   await idbSetMeta("lastSyncAt", Date.now());
   await idbSetMeta("lastSyncSummary", summary);
   notifyDbChanged();
   return { ...summary, pushErrors: push.errors };
 }
 
-export async function pullNow() {
-  const pull = await pullChanges();
+// `full` ignores the stored delta cursor and re-reads every record (escape hatch for drifted devices).
+export function pullNow(opts?: { full?: boolean; trigger?: SyncTrigger }) {
+  return serialized(() => journaled(opts?.full ? "fullPull" : "pull", opts?.trigger || "manual", () => pullNowInner(opts)));
+}
+
+async function pullNowInner(opts?: { full?: boolean }) {
+  const pull = await pullChanges(opts);
   const summary = { push: {}, pull: pull.counts };
   await idbSetMeta("lastSyncAt", Date.now());
   await idbSetMeta("lastPullAt", Date.now());
   await idbSetMeta("lastSyncSummary", summary);
   notifyDbChanged();
-  return summary;
+  return { ...summary, delta: pull.delta };
+}
+
+export type ConflictChoice = "local" | "remote";
+
+// Apply the user's pick per conflicted field; the record stays dirty so the result is pushed next sync.
+export async function resolveConflict(conflictId: string, choices: Record<string, ConflictChoice>) {
+  const conflict = await idbGet<SyncConflict>("conflicts", conflictId);
+  if (!conflict) return;
+  const store = STORE_BY_ENTITY[conflict.entity];
+  const record = await idbGet<any>(store, conflict.recordId);
+  if (record && record.syncState !== "deleted") {
+    let next = record;
+    for (const f of conflict.fields) {
+      if ((choices[f.field] || "local") !== "remote") continue;
+      if (getFieldValue(next, f.field) === f.remote) continue;
+      next = setFieldValue(next, f.field, f.remote);
+    }
+    await idbPut(store, { ...next, syncState: "dirty", updatedAt: Date.now() });
+  }
+  await idbDelete("conflicts", conflictId);
+  notifyDbChanged();
+}
+
+// Settle a record that was deleted remotely while it had local edits: keep it (the next push
+// re-creates it in Airtable) or drop the local copy as well.
+export async function resolveRemoteDeletion(conflictId: string, keep: boolean) {
+  const conflict = await idbGet<SyncConflict>("conflicts", conflictId);
+  if (!conflict) return;
+  if (keep) {
+    const store = STORE_BY_ENTITY[conflict.entity];
+    const record = await idbGet<any>(store, conflict.recordId);
+    if (record) await idbPut(store, { ...record, syncState: "dirty", updatedAt: Date.now() });
+    await idbDelete("conflicts", conflictId);
+  } else {
+    await discardLocalRecord(conflict.entity, conflict.recordId);
+  }
+  notifyDbChanged();
 }
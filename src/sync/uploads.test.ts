@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Item } from "@/lib/domain";
+import { idbGet, idbGetAll, idbPut } from "@/storage/idb";
+import type { AttachmentRecord, AttachmentUploadState } from "@/storage/attachments";
+import { resetMemoryIdb } from "@/test/memoryIdb";
+
+vi.mock("@/storage/idb", () => import("@/test/memoryIdb"));
+
+const T = 1_700_000_000_000;
+
+// The queue keeps its attempt count and retry timer in module state, so every test loads a fresh copy.
+async function load() {
+  vi.resetModules();
+  return { ...(await import("@/sync/uploads")), ...(await import("@/storage/attachments")) };
+}
+
+const queued = (id: string, createdAt: number): AttachmentRecord => ({
+  id,
+  parentType: "item",
+  parentId: "item_1",
+  parentKey: "item:item_1",
+  name: `${id}.pdf`,
+  mime: "application/pdf",
+  size: 4,
+  blob: new Blob(["%PDF"], { type: "application/pdf" }),
+  uploadState: "pending",
+  createdAt,
+  updatedAt: createdAt,
+});
+
+// Stands in for the sign endpoint and the bucket; `putStatus` is what the bucket answers.
+let putStatus = 200;
+let puts: string[] = [];
+
+beforeEach(async () => {
+  resetMemoryIdb();
+  putStatus = 200;
+  puts = [];
+  vi.useFakeTimers({ now: T });
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init?: RequestInit) => {
+      if (url === "/api/s3/sign") {
+        const { fileName } = JSON.parse(String(init?.body));
+        const key = `uploads/default/item/item_1/${fileName}`;
+        const signed = { ok: true, uploadUrl: `https://bucket.example/put/${key}`, publicUrl: `https://bucket.example/${key}`, key };
+        return new Response(JSON.stringify(signed));
+      }
+      puts.push(url);
+      return new Response(putStatus === 200 ? "" : "SlowDown", { status: putStatus });
+    }),
+  );
+  await idbPut<Item>("items", {
+    id: "item_1",
+    remoteId: "item_1",
+    syncState: "clean",
+    name: "Sofa",
+    room: "Living",
+    category: "Sofa",
+    status: "Idea",
+    qty: 1,
+    createdAt: T,
+    updatedAt: T,
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("upload queue", () => {
+  it("uploads queued attachments oldest first and dirties their parent", async () => {
+    const { runUploads, subscribeAttachmentUploads } = await load();
+    await idbPut("attachments", queued("att_new", T + 1));
+    await idbPut("attachments", queued("att_old", T));
+    const states: Array<[string, AttachmentUploadState | undefined]> = [];
+    subscribeAttachmentUploads((att) => states.push([att.id, att.uploadState]));
+
+    await runUploads();
+    expect(states).toEqual([
+      ["att_old", "uploading"],
+      ["att_old", "uploaded"],
+      ["att_new", "uploading"],
+      ["att_new", "uploaded"],
+    ]);
+    expect(await idbGet<AttachmentRecord>("attachments", "att_old")).toMatchObject({
+      uploadState: "uploaded",
+      uploadError: null,
+      sourceUrl: "https://bucket.example/uploads/default/item/item_1/att_old.pdf",
+    });
+    expect((await idbGet<Item>("items", "item_1"))?.syncState).toBe("dirty");
+    expect(await idbGetAll("outbox")).toMatchObject([{ key: "items:item_1", op: "upsert" }]);
+  });
+
+  it("records failures and retries with exponential backoff", async () => {
+    const { runUploads, subscribeAttachmentUploads } = await load();
+    await idbPut("attachments", queued("att_1", T));
+    const states: Array<AttachmentUploadState | undefined> = [];
+    subscribeAttachmentUploads((att) => states.push(att.uploadState));
+    putStatus = 503;
+
+    await runUploads();
+    expect(states).toEqual(["uploading", "failed"]);
+    expect(await idbGet<AttachmentRecord>("attachments", "att_1")).toMatchObject({
+      uploadState: "failed",
+      uploadError: "Upload failed (503): SlowDown",
+    });
+    expect((await idbGet<AttachmentRecord>("attachments", "att_1"))?.sourceUrl).toBeUndefined();
+    expect((await idbGet<Item>("items", "item_1"))?.syncState).toBe("clean");
+
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(puts).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(puts).toHaveLength(2);
+
+    // The second failure waits twice as long.
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(puts).toHaveLength(2);
+    putStatus = 200;
+    await vi.advanceTimersByTimeAsync(1);
+    expect(puts).toHaveLength(3);
+    expect(states).toEqual(["uploading", "failed", "uploading", "failed", "uploading", "uploaded"]);
+    expect((await idbGet<Item>("items", "item_1"))?.syncState).toBe("dirty");
+
+    // Nothing failed, so no retry is left behind.
+    await vi.advanceTimersByTimeAsync(30 * 60_000);
+    expect(puts).toHaveLength(3);
+  });
+
+  it("starts over when an attachment is queued and when the device comes back online", async () => {
+    const { startUploads, addAttachmentFromBlob } = await load();
+    const stop = startUploads();
+    await vi.advanceTimersByTimeAsync(0);
+
+    putStatus = 503;
+    await addAttachmentFromBlob("item", "item_1", new Blob(["%PDF"], { type: "application/pdf" }), { name: "quote.pdf" });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(puts).toHaveLength(1);
+    expect((await idbGetAll<AttachmentRecord>("attachments"))[0].uploadState).toBe("failed");
+
+    putStatus = 200;
+    window.dispatchEvent(new Event("online"));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(puts).toHaveLength(2);
+    expect((await idbGetAll<AttachmentRecord>("attachments"))[0].uploadState).toBe("uploaded");
+    stop();
+  });
+});
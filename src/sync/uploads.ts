@@ -0,0 +1,146 @@
+import { storageGcResponseSchema, type StorageGcBody, type StorageGcResponse } from "../../api/_lib/contracts";
+import { collectUploadKeys } from "../../api/_lib/storage/orphans";
+import { syncTargetFor } from "@/lib/workspaces";
+import { enforceAttachmentBudget } from "@/storage/attachmentCache";
+import {
+  listQueuedAttachments,
+  subscribeAttachmentUploads,
+  uploadAttachment,
+  type AttachmentParentType,
+  type AttachmentRecord,
+} from "@/storage/attachments";
+import { idbGetAllFrom, type OutboxEntry } from "@/storage/idb";
+import { notifyDbChanged } from "@/storage/notify";
+import { getActiveWorkspace, listWorkspaces } from "@/storage/workspaces";
+import { readApiResult } from "@/sync/api";
+import { apiFetch } from "@/sync/auth";
+
+// Background upload queue for attachments saved while offline (or while S3 was unreachable).
+// Runs on start, on `online` and whenever a new attachment is queued; failed uploads retry with
+// exponential backoff. Uploaded attachments dirty their parent, so the outbox pushes them next.
+
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 30 * 60_000;
+
+let running = false;
+let rerun = false;
+let attempts = 0;
+let retryId: number | null = null;
+
+function scheduleRetry() {
+  if (retryId !== null) window.clearTimeout(retryId);
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempts - 1));
+  retryId = window.setTimeout(() => {
+    retryId = null;
+    void runUploads();
+  }, delay);
+}
+
+// One uploader per workspace across tabs when the Web Locks API is available.
+async function withUploadLock(fn: () => Promise<void>) {
+  const locks: LockManager | undefined = navigator.locks;
+  if (!locks?.request) return await fn();
+  await locks.request(`furnishing-uploads:${getActiveWorkspace().id}`, { ifAvailable: true }, async (lock) => {
+    if (lock) await fn();
+  });
+}
+
+export async function runUploads() {
+  if (running) {
+    rerun = true;
+    return;
+  }
+  if (!navigator.onLine) return;
+
+  running = true;
+  try {
+    await withUploadLock(async () => {
+      let uploaded = 0;
+      let failed = 0;
+      for (const att of await listQueuedAttachments()) {
+        if (!navigator.onLine) break;
+        try {
+          if (await uploadAttachment(att.id)) uploaded += 1;
+        } catch {
+          failed += 1;
+        }
+      }
+      if (uploaded) {
+        // Uploaded files stay on the device as cached copies, within the storage budget.
+        await enforceAttachmentBudget();
+        notifyDbChanged();
+      }
+      if (failed) {
+        attempts += 1;
+        scheduleRetry();
+      } else {
+        attempts = 0;
+      }
+    });
+  } finally {
+    running = false;
+  }
+  if (rerun) {
+    rerun = false;
+    void runUploads();
+  }
+}
+
+export function startUploads() {
+  const onOnline = () => {
+    attempts = 0;
+    void runUploads();
+  };
+  window.addEventListener("online", onOnline);
+  const unsubscribe = subscribeAttachmentUploads((att) => {
+    if (att.uploadState === "pending") void runUploads();
+  });
+  void runUploads();
+
+  return () => {
+    window.removeEventListener("online", onOnline);
+    unsubscribe();
+    if (retryId !== null) window.clearTimeout(retryId);
+    retryId = null;
+  };
+}
+
+const PARENT_STORES: Record<AttachmentParentType, OutboxEntry["store"]> = { item: "items", option: "options", subItem: "subItems" };
+
+// Uploads of attachments whose parent is still in a home's outbox: the server can't see them in
+// the synced records yet.
+async function unpushedUploadKeys() {
+  const keys = new Set<string>();
+  for (const ws of listWorkspaces()) {
+    const [outbox, attachments] = await Promise.all([
+      idbGetAllFrom<OutboxEntry>(ws.id, "outbox"),
+      idbGetAllFrom<AttachmentRecord>(ws.id, "attachments"),
+    ]);
+    const queued = new Set(outbox.map((entry) => entry.key));
+    for (const att of attachments) {
+      if (queued.has(`${PARENT_STORES[att.parentType]}:${att.parentId}`)) collectUploadKeys([att.sourceUrl, att.thumbUrl], keys);
+    }
+  }
+  return [...keys];
+}
+
+// Asks the server for uploaded files that no home on this device references any more (and deletes
+// them when `dryRun` is false). Each home uploads under its own prefix and only this device's homes
+// are swept; uploads that unpushed records mention are kept. `legacy` also sweeps the files from
+// before homes had their own prefix, checked against every home on this device.
+export async function cleanUpServerUploads(opts: { dryRun: boolean; graceDays?: number; legacy?: boolean }): Promise<StorageGcResponse> {
+  const targets = listWorkspaces().map((ws) => syncTargetFor(ws) || {});
+  const body: StorageGcBody = {
+    dryRun: opts.dryRun,
+    graceDays: opts.graceDays,
+    targets,
+    keep: await unpushedUploadKeys(),
+    legacy: opts.legacy,
+  };
+  const res = await apiFetch("/api/storage/gc", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return await readApiResult(res, storageGcResponseSchema, "Upload cleanup");
+}
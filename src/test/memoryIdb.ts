@@ -0,0 +1,151 @@
+import { rekeyParentId, rekeyRecord, type RekeyableStore, type RekeyMaps } from "@/lib/rekey";
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces";
+import { activeWorkspaceId } from "@/storage/workspaces";
+
+// In-memory stand-in for src/storage/idb.ts, for tests of the modules built on it:
+//   vi.mock("@/storage/idb", () => import("@/test/memoryIdb"));
+// Same key paths, the same outbox tracking for synced stores and the same rekey rules; indexes are
+// looked up by the field of the same name, as in the real schema. Call resetMemoryIdb() between tests.
+
+export type { DbSnapshot, OutboxEntry } from "@/storage/idb";
+
+type Row = Record<string, unknown>;
+
+const SYNCED_STORES = ["items", "options", "subItems", "measurements", "rooms", "stores"];
+const KEY_PATHS: Record<string, string> = { meta: "key", syncBases: "key", outbox: "key" };
+
+const databases = new Map<string, Map<string, Map<string, Row>>>();
+
+export function resetMemoryIdb() {
+  databases.clear();
+}
+
+function table(store: string, workspaceId = activeWorkspaceId()) {
+  let db = databases.get(workspaceId);
+  if (!db) databases.set(workspaceId, (db = new Map()));
+  let rows = db.get(store);
+  if (!rows) db.set(store, (rows = new Map<string, Row>()));
+  return rows;
+}
+
+function keyOf(store: string, value: Row): string {
+  return String(value[KEY_PATHS[store] || "id"]);
+}
+
+function trackOutbox(store: string, value: Row, workspaceId?: string) {
+  const id = value?.id;
+  if (!SYNCED_STORES.includes(store) || typeof id !== "string" || !id) return;
+  const key = `${store}:${id}`;
+  const outbox = table("outbox", workspaceId);
+  if (value.syncState === "clean") outbox.delete(key);
+  else outbox.set(key, { key, store, recordId: id, op: value.syncState === "deleted" ? "delete" : "upsert", queuedAt: Date.now() });
+}
+
+function write(store: string, value: Row, workspaceId?: string) {
+  table(store, workspaceId).set(keyOf(store, value), { ...value });
+  trackOutbox(store, value, workspaceId);
+}
+
+export async function idbGetAll<T>(store: string): Promise<T[]> {
+  return [...table(store).values()].map((row) => ({ ...row }) as T);
+}
+
+export async function idbGetAllByIndex<T>(store: string, index: string, value: unknown): Promise<T[]> {
+  return (await idbGetAll<Row>(store)).filter((row) => row[index] === value) as T[];
+}
+
+export async function idbGet<T>(store: string, key: string): Promise<T | undefined> {
+  const row = table(store).get(key);
+  return row ? ({ ...row } as T) : undefined;
+}
+
+export async function idbCount(store: string): Promise<number> {
+  return table(store).size;
+}
+
+export async function idbPut<T>(store: string, value: T): Promise<void> {
+  write(store, value as Row);
+}
+
+export async function idbDelete(store: string, key: string): Promise<void> {
+  table(store).delete(key);
+  if (SYNCED_STORES.includes(store)) table("outbox").delete(`${store}:${key}`);
+}
+
+export async function idbClear(store: string): Promise<void> {
+  for (const key of [...table(store).keys()]) await idbDelete(store, key);
+}
+
+export async function idbBulkPut<T>(store: string, values: T[]): Promise<void> {
+  for (const value of values) write(store, value as Row);
+}
+
+export async function idbResetAll(): Promise<void> {
+  databases.delete(activeWorkspaceId());
+}
+
+export async function idbRekey(maps: RekeyMaps, createdRooms: Record<string, string> = {}): Promise<void> {
+  const move = (store: RekeyableStore, prev: Row, next: Row) => {
+    if (next.id !== prev.id) void idbDelete(store, String(prev.id));
+    write(store, next);
+  };
+  for (const store of ["items", "options", "subItems", "measurements"] as const) {
+    for (const row of [...table(store).values()]) {
+      const next = rekeyRecord(store, row as { id: string }, maps);
+      if (next) move(store, row, next);
+    }
+  }
+  for (const id of Object.keys(maps.stores || {})) {
+    const row = table("stores").get(id);
+    const next = row ? rekeyRecord("stores", row as { id: string }, maps) : null;
+    if (row && next) move("stores", row, next);
+  }
+  for (const [id, remoteId] of Object.entries(createdRooms)) {
+    const room = table("rooms").get(id);
+    if (room) write("rooms", { ...room, remoteId, syncState: "clean" });
+  }
+  for (const att of [...table("attachments").values()]) {
+    const parentType = att.parentType as "item" | "option" | "subItem";
+    const parentId = rekeyParentId(parentType, String(att.parentId), maps);
+    if (parentId) write("attachments", { ...att, parentId, parentKey: `${parentType}:${parentId}`, updatedAt: Date.now() });
+  }
+}
+
+export async function idbGetSnapshot() {
+  const [items, options, subItems, measurements, rooms, stores, conflicts, metaRaw] = await Promise.all(
+    ["items", "options", "subItems", "measurements", "rooms", "stores", "conflicts", "meta"].map((store) => idbGetAll<Row>(store)),
+  );
+  const meta: Record<string, unknown> = {};
+  for (const row of metaRaw) meta[String(row.key)] = row.value;
+  return { items, options, subItems, measurements, rooms, stores, conflicts, meta };
+}
+
+export async function idbSetMeta(key: string, value: unknown): Promise<void> {
+  write("meta", { key, value });
+}
+
+export async function idbGetMeta<T>(key: string): Promise<T | undefined> {
+  return table("meta").get(key)?.value as T | undefined;
+}
+
+export async function idbSetDeviceMeta(key: string, value: unknown): Promise<void> {
+  write("meta", { key, value }, DEFAULT_WORKSPACE_ID);
+}
+
+export async function idbGetDeviceMeta<T>(key: string): Promise<T | undefined> {
+  return table("meta", DEFAULT_WORKSPACE_ID).get(key)?.value as T | undefined;
+}
+
+export async function idbGetAllFrom<T>(workspaceId: string, store: string): Promise<T[]> {
+  return [...table(store, workspaceId).values()].map((row) => ({ ...row }) as T);
+}
+
+export async function idbAddToWorkspace(workspaceId: string, rows: Record<string, Row[] | undefined>): Promise<void> {
+  for (const [store, values] of Object.entries(rows)) {
+    for (const value of values || []) write(store, value, workspaceId);
+  }
+}
+
+export async function idbDropWorkspace(workspaceId: string): Promise<void> {
+  databases.delete(workspaceId);
+}
@@ -1,81 +1,64 @@
-import { defineConfig, loadEnv, type Plugin } from "vite";
+import { defineConfig, loadEnv, type Connect, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 import healthHandler from "./api/health";
 import s3SignHandler from "./api/s3/sign";
 import s3JsonHandler from "./api/s3/json";
+import storageObjectHandler from "./api/storage/object";
+import storageGcHandler from "./api/storage/gc";
 import pullHandler from "./api/sync/pull";
 import pushHandler from "./api/sync/push";
 import scrapeProductHandler from "./api/scrape/product";
+import priceCheckHandler from "./api/prices/check";
 import clipHandler from "./api/clip";
+import authSessionHandler from "./api/auth/session";
+import authDevicesHandler from "./api/auth/devices";
+import { errorMessage, type ApiRequest, type ApiResponse } from "./api/_lib/http";
+
+type ApiHandler = (req: ApiRequest, res: ApiResponse) => unknown;
 
 function localApiPlugin(): Plugin {
-  // Dev-only convenience: serve the Vercel-style `/api/*` routes during `vite` dev.
-  // This keeps the frontend stateless and avoids exposing Airtable tokens in the browser.
+  // Serve the Vercel-style `/api/*` routes from `vite` dev and `vite preview`.
+  // This keeps the frontend stateless and avoids exposing Airtable tokens in the browser; with
+  // `SYNC_BACKEND=json`, `vite preview --host` doubles as a small self-hosted sync server.
+
+  // Matched by prefix, in order; `body` is added to the 500 a handler that throws answers with.
+  const routes: Array<{ prefix: string; handler: ApiHandler; failure: string; body?: Record<string, unknown> }> = [
+    { prefix: "/health", handler: healthHandler, failure: "Health failed", body: { airtableConfigured: false } },
+    { prefix: "/auth/session", handler: authSessionHandler, failure: "Auth failed" },
+    { prefix: "/auth/devices", handler: authDevicesHandler, failure: "Devices request failed" },
+    { prefix: "/s3/sign", handler: s3SignHandler, failure: "S3 sign failed" },
+    { prefix: "/s3/json", handler: s3JsonHandler, failure: "S3 JSON failed" },
+    { prefix: "/storage/gc", handler: storageGcHandler, failure: "Upload cleanup failed" },
+    { prefix: "/storage/object", handler: storageObjectHandler, failure: "Object storage request failed" },
+    { prefix: "/sync/pull", handler: pullHandler, failure: "Sync pull failed" },
+    { prefix: "/sync/push", handler: pushHandler, failure: "Sync push failed" },
+    { prefix: "/scrape/product", handler: scrapeProductHandler, failure: "Product scrape failed" },
+    { prefix: "/prices/check", handler: priceCheckHandler, failure: "Price check failed" },
+    { prefix: "/clip", handler: clipHandler, failure: "Clip failed" },
+  ];
+
+  const mountApi = (middlewares: Connect.Server) => {
+    middlewares.use("/api", (req, res, next) => {
+      const url = req.url || "";
+      const route = routes.find((r) => url.startsWith(r.prefix));
+      if (!route) return next();
+      void Promise.resolve(route.handler(req, res)).catch((err) => {
+        res.statusCode = 500;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ ok: false, ...route.body, message: errorMessage(err, route.failure) }));
+      });
+    });
+  };
+
   return {
     name: "local-api",
     configureServer(server) {
-      server.middlewares.use("/api", (req, res, next) => {
-        const url = req.url || "";
-        if (url.startsWith("/health")) {
-          void Promise.resolve(healthHandler(req, res)).catch((err: any) => {
-            res.statusCode = 500;
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ ok: false, airtableConfigured: false, message: err?.message || "Health failed" }));
-          });
-          return;
-        }
-        if (url.startsWith("/s3/sign")) {
-          void Promise.resolve(s3SignHandler(req, res)).catch((err: any) => {
-            res.statusCode = 500;
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ ok: false, message: err?.message || "S3 sign failed" }));
-          });
-          return;
-        }
-        if (url.startsWith("/s3/json")) {
-          void Promise.resolve(s3JsonHandler(req, res)).catch((err: any) => {
-            res.statusCode = 500;
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ ok: false, message: err?.message || "S3 JSON failed" }));
-          });
-          return;
-        }
-        if (url.startsWith("/sync/pull")) {
-          void Promise.resolve(pullHandler(req, res)).catch((err: any) => {
-            res.statusCode = 500;
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ ok: false, message: err?.message || "Sync pull failed" }));
-          });
-          return;
-        }
-        if (url.startsWith("/sync/push")) {
-          void Promise.resolve(pushHandler(req, res)).catch((err: any) => {
-            res.statusCode = 500;
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ ok: false, message: err?.message || "Sync push failed" }));
-          });
-          return;
-        }
-        if (url.startsWith("/scrape/product")) {
-          void Promise.resolve(scrapeProductHandler(req, res)).catch((err: any) => {
-            res.statusCode = 500;
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ ok: false, message: err?.message || "Product scrape failed" }));
-          });
-          return;
-        }
-        if (url.startsWith("/clip")) {
-          void Promise.resolve(clipHandler(req, res)).catch((err: any) => {
-            res.statusCode = 500;
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ ok: false, message: err?.message || "Clip failed" }));
-          });
-          return;
-        }
-        next();
-      });
+      mountApi(server.middlewares);
+    },
+    configurePreviewServer(server) {
+      mountApi(server.middlewares);
     },
   };
 }